@@ -0,0 +1,30 @@
+const nextJest = require('next/jest');
+
+// Loads next.config.js and .env files and compiles TypeScript with SWC, as next does
+const createJestConfig = nextJest({ dir: './' });
+
+// Billing dates are calendar days at midnight UTC; run behind UTC so code
+// that reads them with local-time getters or setters fails here too
+process.env.TZ = 'America/New_York';
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  testMatch: ['<rootDir>/src/**/__tests__/**/*.test.ts'],
+  // These suites need a running MongoDB or a Next.js request scope, and have
+  // not kept up with the code they test; `npm run test:all` includes them
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    '<rootDir>/src/__tests__/middleware.test.ts',
+    '<rootDir>/src/middleware/__tests__/rate-limit.test.ts',
+    '<rootDir>/src/app/api/health/db/__tests__/',
+    '<rootDir>/src/lib/db/__tests__/',
+    '<rootDir>/src/lib/storage/__tests__/',
+    '<rootDir>/src/models/__tests__/',
+  ],
+};
+
+module.exports = createJestConfig(config);
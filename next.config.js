@@ -6,6 +6,8 @@ const nextConfig = {
     IS_BUILD_TIME: process.env.IS_BUILD_TIME || process.env.NEXT_PHASE?.includes('build') ? 'true' : 'false',
     // Force use of mock DB during builds
     USE_MOCK_DB: process.env.USE_MOCK_DB || (process.env.NEXT_PHASE?.includes('build') ? 'true' : 'false'),
+    // Read by withAuth in the browser as well as when signing in
+    UNVERIFIED_ACCOUNTS: process.env.UNVERIFIED_ACCOUNTS || 'allow',
   },
 };
 
@@ -5,6 +5,7 @@ import bcrypt from 'bcryptjs';
 import { UserModel } from '@/models/user';
 import { withConnection, handleMongoError, logMongoError } from '@/lib/db';
 import { loadEnvVars, ensureEnvVars } from '@/lib/db/env-debug';
+import { sendVerificationEmail } from '@/lib/auth/email-verification';
 
 // Load env vars at the module level to ensure they're available
 loadEnvVars();
@@ -45,7 +46,8 @@ function serializeUser(user: any): CustomUser {
     roles: user.roles.map((role: any) => ({
       id: role.id,
       name: role.name
-    }))
+    })),
+    emailVerified: user.emailVerified === true
   };
 }
 
@@ -176,6 +178,13 @@ export async function registerUser(
       });
       
       console.log('User created successfully with ID:', user._id);
+
+      // The account works without it, so a failed email does not fail the signup
+      try {
+        await sendVerificationEmail(user._id.toString());
+      } catch (error) {
+        console.error('Error sending verification email:', error);
+      }
       
       return {
         success: true,
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getSpendingTrend } from '@/lib/services/analytics-service';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+import { Currency } from '@/types/subscriptions';
+
+/**
+ * GET /api/analytics/trend?currency=EUR
+ * 
+ * Retrieves the authenticated user's spending per month: what was charged
+ * over the past months and what the coming twelve months will cost. Totals
+ * are in the given currency, or the user's preferred currency without one.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const currency = req.nextUrl.searchParams.get('currency') || undefined;
+      if (currency && !CURRENCY_ORDER.includes(currency as Currency)) {
+        return NextResponse.json(
+          { 
+            error: `Unsupported currency: ${currency}`, 
+            code: 'validation.failed'
+          },
+          { status: 400 }
+        );
+      }
+
+      const trend = await getSpendingTrend(session.user.id, currency as Currency | undefined);
+      return NextResponse.json(trend);
+    }, 'api/analytics/trend/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/analytics/trend error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUserBudgets, setBudget, deleteBudget } from '@/lib/services/budget-service';
+import { budgetSchema } from '@/lib/validations/budget';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/budgets
+ * 
+ * Retrieves the overall and category budgets of the authenticated user
+ */
+export async function GET() {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const budgets = await getUserBudgets(session.user.id);
+      return NextResponse.json(budgets);
+    }, 'api/budgets/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/budgets error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * PUT /api/budgets
+ * 
+ * Sets the overall budget (categoryId null) or a category budget,
+ * replacing the existing one
+ */
+export async function PUT(req: Request) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      const result = budgetSchema.safeParse(json);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid budget data', 
+            code: 'validation.failed',
+            details: result.error
+          },
+          { status: 400 }
+        );
+      }
+
+      const budget = await setBudget(session.user.id, result.data);
+      return NextResponse.json(budget);
+    }, 'api/budgets/PUT');
+  } catch (error: unknown) {
+    console.error('PUT /api/budgets error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * DELETE /api/budgets?categoryId=
+ * 
+ * Removes a category budget, or the overall budget when no categoryId is given
+ */
+export async function DELETE(req: Request) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { searchParams } = new URL(req.url);
+      const deleted = await deleteBudget(session.user.id, searchParams.get('categoryId'));
+
+      if (!deleted) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Budget not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new NextResponse(null, { status: 204 });
+    }, 'api/budgets/DELETE');
+  } catch (error: unknown) {
+    console.error('DELETE /api/budgets error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
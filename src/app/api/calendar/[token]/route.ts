@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { getCalendarFeed } from '@/lib/services/calendar-service';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+// Calendar tokens are 24 random bytes in hex
+const TOKEN_PATTERN = /^[a-f0-9]{48}$/;
+
+/**
+ * GET /api/calendar/[token].ics
+ * 
+ * Serves the iCalendar feed of a user's billing dates. The secret token in the
+ * URL authenticates the request, since calendar apps cannot sign in.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const token = params.token.replace(/\.ics$/, '');
+      const feed = TOKEN_PATTERN.test(token) ? await getCalendarFeed(token) : null;
+
+      if (!feed) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Calendar not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new NextResponse(feed, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': 'inline; filename="subscriptions.ics"',
+          'Cache-Control': 'private, max-age=900'
+        }
+      });
+    }, 'api/calendar/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/calendar error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
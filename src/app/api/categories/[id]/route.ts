@@ -0,0 +1,137 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { updateCategory, deleteCategory } from '@/lib/services/category-service';
+import { categorySchema } from '@/lib/validations/category';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * PUT /api/categories/[id]
+ * 
+ * Updates a category of the authenticated user
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      const result = categorySchema.partial().safeParse(json);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid category data', 
+            code: 'validation.failed',
+            details: result.error
+          },
+          { status: 400 }
+        );
+      }
+
+      const category = await updateCategory(session.user.id, params.id, result.data);
+
+      if (!category) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Category not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(category);
+    }, `api/categories/${params.id}/PUT`);
+  } catch (error: unknown) {
+    console.error(`PUT /api/categories/${params.id} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+
+    // Category names are unique per user
+    if (errorResponse.code === MongoDBErrorCode.DUPLICATE_KEY) {
+      return NextResponse.json(
+        { error: 'A category with this name already exists', code: errorResponse.code },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * DELETE /api/categories/[id]
+ * 
+ * Deletes a category of the authenticated user; its subscriptions become uncategorized
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const deleted = await deleteCategory(session.user.id, params.id);
+
+      if (!deleted) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Category not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new NextResponse(null, { status: 204 });
+    }, `api/categories/${params.id}/DELETE`);
+  } catch (error: unknown) {
+    console.error(`DELETE /api/categories/${params.id} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUserCategories, createCategory } from '@/lib/services/category-service';
+import { categorySchema } from '@/lib/validations/category';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/categories
+ * 
+ * Retrieves all categories of the authenticated user
+ */
+export async function GET() {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const categories = await getUserCategories(session.user.id);
+      return NextResponse.json(categories);
+    }, 'api/categories/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/categories error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * POST /api/categories
+ * 
+ * Creates a new category for the authenticated user
+ */
+export async function POST(req: Request) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      const result = categorySchema.safeParse(json);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid category data', 
+            code: 'validation.failed',
+            details: result.error
+          },
+          { status: 400 }
+        );
+      }
+
+      const category = await createCategory(session.user.id, result.data);
+      return NextResponse.json(category);
+    }, 'api/categories/POST');
+  } catch (error: unknown) {
+    console.error('POST /api/categories error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+
+    // Category names are unique per user
+    if (errorResponse.code === MongoDBErrorCode.DUPLICATE_KEY) {
+      return NextResponse.json(
+        { error: 'A category with this name already exists', code: errorResponse.code },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getExchangeRateTable,
+  getLatestExchangeRateInfo,
+  syncExchangeRates
+} from '@/lib/services/exchange-rate-service';
+import { getExchangeRateProvider } from '@/lib/exchange-rates';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+const REFRESH_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
+
+function errorStatus(code: string) {
+  return (code === MongoDBErrorCode.CONNECTION_FAILED || 
+          code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500;
+}
+
+/**
+ * GET /api/exchange-rates
+ * 
+ * Retrieves the stored historical exchange rates, refreshing them from the
+ * configured provider first when they are more than a day old
+ */
+export async function GET() {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const provider = getExchangeRateProvider();
+
+      if (provider) {
+        const latest = await getLatestExchangeRateInfo();
+        const isStale = !latest || Date.now() - latest.updatedAt.getTime() > REFRESH_INTERVAL;
+
+        if (isStale) {
+          try {
+            await syncExchangeRates(provider);
+          } catch (error) {
+            // Serve what we have; conversions fall back to static rates if nothing is stored
+            console.error('Failed to refresh exchange rates:', error);
+          }
+        }
+      }
+
+      const table = await getExchangeRateTable();
+      return NextResponse.json(table);
+    }, 'api/exchange-rates/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/exchange-rates error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { status: errorStatus(errorResponse.code) }
+    );
+  }
+}
+
+/**
+ * POST /api/exchange-rates
+ * 
+ * Forces a refresh of the exchange rates from the configured provider
+ */
+export async function POST() {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const provider = getExchangeRateProvider();
+
+      if (!provider) {
+        return NextResponse.json(
+          { error: 'No exchange rate source is configured', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      const count = await syncExchangeRates(provider);
+      return NextResponse.json({ success: true, count, source: provider.source });
+    }, 'api/exchange-rates/POST');
+  } catch (error: unknown) {
+    console.error('POST /api/exchange-rates error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { status: errorStatus(errorResponse.code) }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUserSubscriptions } from '@/lib/services/subscription-service';
+import { getUserCategories } from '@/lib/services/category-service';
+import { getUserPriceHistory } from '@/lib/services/price-history-service';
+import { getUserPreferences } from '@/lib/services/user-preferences-service';
+import { BACKUP_SCHEMA_VERSION, backupToCsv, createBackup } from '@/lib/subscriptions/utils/backup';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+const FORMATS = ['json', 'csv'] as const;
+
+/**
+ * GET /api/export?format=json|csv
+ * 
+ * Downloads the authenticated user's subscriptions. JSON (the default) is a
+ * versioned backup that re-imports losslessly; CSV is a spreadsheet with the
+ * columns the CSV import understands.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const format = req.nextUrl.searchParams.get('format') || 'json';
+      if (!FORMATS.includes(format as typeof FORMATS[number])) {
+        return NextResponse.json(
+          { 
+            error: `Format must be one of ${FORMATS.join(', ')}`, 
+            code: 'validation.failed'
+          },
+          { status: 400 }
+        );
+      }
+
+      const [subscriptions, categories, preferences, priceHistory] = await Promise.all([
+        getUserSubscriptions(session.user.id),
+        getUserCategories(session.user.id),
+        getUserPreferences(session.user.id),
+        getUserPriceHistory(session.user.id)
+      ]);
+      const backup = createBackup(subscriptions, {
+        categories,
+        baseCurrency: preferences.preferredCurrency,
+        priceHistory
+      });
+      const filename = `subscriptions-${backup.exportedAt!.slice(0, 10)}.${format}`;
+
+      return new NextResponse(
+        format === 'csv' ? backupToCsv(backup) : JSON.stringify(backup, null, 2),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'X-Backup-Schema-Version': String(BACKUP_SCHEMA_VERSION),
+            'Cache-Control': 'no-store'
+          }
+        }
+      );
+    }, 'api/export/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/export error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
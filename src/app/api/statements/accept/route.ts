@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { z } from 'zod';
+import { importSubscriptions } from '@/lib/services/subscription-service';
+import { subscriptionSchema } from '@/lib/validations/subscription';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+import { SubscriptionFormData } from '@/types/subscriptions';
+
+// Most candidates accepted in one request
+const MAX_CANDIDATES = 100;
+
+const acceptSchema = z.object({
+  subscriptions: z.array(subscriptionSchema).min(1).max(MAX_CANDIDATES),
+});
+
+/**
+ * POST /api/statements/accept
+ * 
+ * Creates subscriptions from the recurring charges the user accepted after a
+ * bank statement import. Statements are parsed in the browser, so only the
+ * accepted subscriptions reach the server. Charges the user already tracks
+ * are skipped as duplicates and reported by their index, so importing the
+ * same statement again adds nothing.
+ */
+export async function POST(req: Request) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const result = acceptSchema.safeParse(await req.json());
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid subscription data', 
+            code: 'validation.failed',
+            details: result.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      // Saved in one write; retrying a failed request skips what was saved as duplicates
+      const { created, duplicates } = await importSubscriptions(
+        session.user.id,
+        result.data.subscriptions as SubscriptionFormData[]
+      );
+
+      return NextResponse.json({
+        created: created.length,
+        skipped: duplicates.map(index => ({ index, reason: 'duplicate' })),
+        subscriptions: created
+      });
+    }, 'api/statements/accept/POST');
+  } catch (error: unknown) {
+    console.error('POST /api/statements/accept error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -44,6 +44,7 @@ export async function GET(request: NextRequest) {
  * POST /api/storage
  * 
  * Stores subscriptions for a user
+ * @deprecated Use POST /api/subscriptions and PUT/PATCH/DELETE /api/subscriptions/[id]
  */
 export async function POST(request: NextRequest) {
   try {
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getSubscriptionById } from '@/lib/services/subscription-service';
+import { getPriceHistory } from '@/lib/services/price-history-service';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/subscriptions/[id]/price-history
+ * 
+ * Retrieves the price changes of a subscription, oldest first
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Make sure the subscription exists and belongs to the user
+      const subscription = await getSubscriptionById(session.user.id, params.id);
+
+      if (!subscription) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Subscription not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const history = await getPriceHistory(session.user.id, params.id);
+      return NextResponse.json(history);
+    }, `api/subscriptions/${params.id}/price-history/GET`);
+  } catch (error: unknown) {
+    console.error(`GET /api/subscriptions/${params.id}/price-history error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { restoreSubscription } from '@/lib/services/subscription-service';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * POST /api/subscriptions/[id]/restore
+ * 
+ * Takes a subscription out of the authenticated user's trash
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const subscription = await restoreSubscription(session.user.id, params.id);
+
+      if (!subscription) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Subscription not found in trash',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(subscription);
+    }, `api/subscriptions/${params.id}/restore/POST`);
+  } catch (error: unknown) {
+    console.error(`POST /api/subscriptions/${params.id}/restore error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -1,13 +1,62 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
 import { 
   getSubscriptionById, 
   updateSubscription, 
-  deleteSubscription 
+  deleteSubscription,
+  purgeSubscription
 } from '@/lib/services/subscription-service';
-import { subscriptionSchema } from '@/lib/validations/subscription';
+import { subscriptionStatusSchema, subscriptionUpdateSchema } from '@/lib/validations/subscription';
 import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
-import { MongoDBErrorCode } from '@/lib/db/error-handler';
+import { MongoDBError, MongoDBErrorCode } from '@/lib/db/error-handler';
+import { SubscriptionFormData } from '@/types/subscriptions';
+
+/**
+ * Apply an update, answering a stale version with 409 and the current
+ * subscription so the client can show it or retry on top of it, and invalid
+ * data the service rejects, such as someone else's category, with 400
+ */
+async function updateOrConflict(
+  userId: string,
+  subscriptionId: string,
+  data: Partial<SubscriptionFormData> & { disabled?: boolean },
+  version: number | undefined
+) {
+  try {
+    const subscription = await updateSubscription(userId, subscriptionId, data, version);
+
+    if (!subscription) {
+      return new NextResponse(
+        JSON.stringify({ 
+          error: 'Subscription not found',
+          code: 'resource.not_found'
+        }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    return NextResponse.json(subscription);
+  } catch (error) {
+    if (error instanceof MongoDBError && error.code === MongoDBErrorCode.VALIDATION_FAILED) {
+      return NextResponse.json(
+        { error: error.message, code: 'validation.failed' },
+        { status: 400 }
+      );
+    }
+    if (!(error instanceof MongoDBError) || error.code !== MongoDBErrorCode.VERSION_CONFLICT) {
+      throw error;
+    }
+
+    return NextResponse.json(
+      { 
+        error: 'Subscription was changed elsewhere',
+        code: error.code,
+        current: await getSubscriptionById(userId, subscriptionId)
+      },
+      { status: 409 }
+    );
+  }
+}
 
 /**
  * GET /api/subscriptions/[id]
@@ -21,7 +70,7 @@ export async function GET(
   try {
     // Wrap the entire operation in our error handling wrapper
     return await withErrorHandling(async () => {
-      const session = await getServerSession();
+      const session = await getServerSession(authOptions);
 
       if (!session?.user?.id) {
         return new NextResponse(
@@ -67,7 +116,10 @@ export async function GET(
 /**
  * PUT /api/subscriptions/[id]
  * 
- * Updates a specific subscription by ID for the authenticated user
+ * Updates a specific subscription by ID for the authenticated user. With a
+ * version in the body, the update is rejected with 409 if the subscription
+ * has changed since that version. The body may also set disabled, so an
+ * offline edit and toggle are saved together.
  */
 export async function PUT(
   req: Request,
@@ -76,7 +128,7 @@ export async function PUT(
   try {
     // Wrap the entire operation in our error handling wrapper
     return await withErrorHandling(async () => {
-      const session = await getServerSession();
+      const session = await getServerSession(authOptions);
 
       if (!session?.user?.id) {
         return new NextResponse(
@@ -88,40 +140,20 @@ export async function PUT(
         );
       }
 
-      // Handle validation separately to return 400 status
-      try {
-        const json = await req.json();
-        const body = subscriptionSchema.parse(json);
-        
-        // Use subscription service to update subscription
-        const updatedSubscription = await updateSubscription(
-          session.user.id,
-          params.id,
-          body
-        );
-
-        if (!updatedSubscription) {
-          return new NextResponse(
-            JSON.stringify({ 
-              error: 'Subscription not found',
-              code: 'resource.not_found'
-            }),
-            { status: 404, headers: { 'Content-Type': 'application/json' } }
-          );
-        }
-
-        return NextResponse.json(updatedSubscription);
-      } catch (validationError) {
-        // Handle validation errors specifically
+      const result = subscriptionUpdateSchema.safeParse(await req.json());
+      if (!result.success) {
         return NextResponse.json(
           { 
             error: 'Invalid subscription data', 
             code: 'validation.failed',
-            details: validationError
+            details: result.error.issues
           },
           { status: 400 }
         );
       }
+
+      const { version, ...data } = result.data;
+      return updateOrConflict(session.user.id, params.id, data as SubscriptionFormData & { disabled?: boolean }, version);
     }, `api/subscriptions/${params.id}/PUT`);
   } catch (error: unknown) {
     console.error(`PUT /api/subscriptions/${params.id} error:`, error);
@@ -139,10 +171,71 @@ export async function PUT(
   }
 }
 
+/**
+ * PATCH /api/subscriptions/[id]
+ * 
+ * Enables or disables a subscription ({ disabled, version? }), with the same
+ * version check as PUT
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const result = subscriptionStatusSchema.safeParse(await req.json());
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid subscription data', 
+            code: 'validation.failed',
+            details: result.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      return updateOrConflict(
+        session.user.id,
+        params.id,
+        { disabled: result.data.disabled },
+        result.data.version
+      );
+    }, `api/subscriptions/${params.id}/PATCH`);
+  } catch (error: unknown) {
+    console.error(`PATCH /api/subscriptions/${params.id} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
 /**
  * DELETE /api/subscriptions/[id]
  * 
- * Deletes a specific subscription by ID for the authenticated user
+ * Moves a specific subscription by ID to the authenticated user's trash.
+ * With ?permanent=true, deletes a subscription in the trash for good.
  */
 export async function DELETE(
   req: Request,
@@ -151,7 +244,7 @@ export async function DELETE(
   try {
     // Wrap the entire operation in our error handling wrapper
     return await withErrorHandling(async () => {
-      const session = await getServerSession();
+      const session = await getServerSession(authOptions);
 
       if (!session?.user?.id) {
         return new NextResponse(
@@ -163,8 +256,10 @@ export async function DELETE(
         );
       }
 
-      // Use subscription service to delete subscription
-      const success = await deleteSubscription(session.user.id, params.id);
+      const permanent = new URL(req.url).searchParams.get('permanent') === 'true';
+      const success = permanent
+        ? await purgeSubscription(session.user.id, params.id)
+        : await deleteSubscription(session.user.id, params.id);
 
       if (!success) {
         return new NextResponse(
@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { GET } from '../route';
+import { authOptions } from '@/lib/auth';
+import { getUserSubscriptions, adoptEmailKeyedSubscriptions } from '@/lib/services/subscription-service';
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn(),
+}));
+
+jest.mock('@/lib/auth', () => ({
+  authOptions: { callbacks: {} },
+}));
+
+jest.mock('@/lib/services/subscription-service', () => ({
+  getUserSubscriptions: jest.fn(),
+  createSubscription: jest.fn(),
+  adoptEmailKeyedSubscriptions: jest.fn(),
+}));
+
+// Without authOptions next-auth skips the session callback, so the user has no id
+const mockSession = (user: { id?: string; email: string }) => {
+  (getServerSession as jest.Mock).mockImplementation(async (options?: unknown) =>
+    options === authOptions ? { user } : { user: { email: user.email } }
+  );
+};
+
+describe('Subscriptions API', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/subscriptions', () => {
+    it('should return the subscriptions of a logged-in user', async () => {
+      mockSession({ id: 'user-1', email: 'user@example.com' });
+      (getUserSubscriptions as jest.Mock).mockResolvedValue([{ id: 'sub-1', name: 'Netflix' }]);
+
+      const response = await GET(new NextRequest('http://localhost/api/subscriptions'));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual([{ id: 'sub-1', name: 'Netflix' }]);
+      expect(adoptEmailKeyedSubscriptions).toHaveBeenCalledWith('user-1', 'user@example.com');
+      expect(getUserSubscriptions).toHaveBeenCalledWith('user-1', { categoryId: null, tags: [] });
+    });
+
+    it('should return 401 without a session', async () => {
+      (getServerSession as jest.Mock).mockResolvedValue(null);
+
+      const response = await GET(new NextRequest('http://localhost/api/subscriptions'));
+
+      expect(response.status).toBe(401);
+      expect(getUserSubscriptions).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { importSubscriptions } from '@/lib/services/subscription-service';
+import { ensureCategories } from '@/lib/services/category-service';
+import { updateUserPreferences } from '@/lib/services/user-preferences-service';
+import {
+  BackupFormatError,
+  ImportedSubscription,
+  parseImportItem,
+  upgradeBackup
+} from '@/lib/subscriptions/utils/backup';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+import { BackupSchemaType } from '@/lib/validations/backup';
+
+// Most subscriptions accepted in one request
+const MAX_IMPORT_ROWS = 1000;
+
+interface SkippedRow {
+  index: number;
+  reason: 'invalid' | 'duplicate';
+  details?: unknown;
+}
+
+/**
+ * POST /api/subscriptions/import
+ * 
+ * Adds a batch of subscriptions ({ subscriptions: [...] }) or the contents of
+ * an export of any version ({ backup }) to the authenticated user's existing
+ * ones. Invalid items and likely duplicates are skipped and reported by their
+ * index instead of failing the whole batch. A backup also restores its
+ * categories, price history and display currency.
+ */
+export async function POST(req: Request) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      let items: unknown = json?.subscriptions;
+      // A backup's categories and display currency are restored once the import is accepted
+      let backup: BackupSchemaType | null = null;
+
+      if (json?.backup !== undefined) {
+        try {
+          backup = upgradeBackup(json.backup);
+          items = backup.subscriptions;
+        } catch (error) {
+          if (!(error instanceof BackupFormatError)) throw error;
+          return NextResponse.json(
+            { error: error.message, code: 'validation.failed' },
+            { status: 400 }
+          );
+        }
+      }
+
+      if (!Array.isArray(items) || items.length > MAX_IMPORT_ROWS) {
+        return NextResponse.json(
+          { 
+            error: `Expected a subscriptions array of at most ${MAX_IMPORT_ROWS} items`, 
+            code: 'validation.failed'
+          },
+          { status: 400 }
+        );
+      }
+
+      const skipped: SkippedRow[] = [];
+      const valid: { index: number; data: ImportedSubscription }[] = [];
+      // Backup category IDs are swapped for the user's own below
+      const backupCategoryIds = backup ? new Set(backup.categories.map(category => category.id)) : undefined;
+
+      items.forEach((item, index) => {
+        const result = parseImportItem(item, backupCategoryIds);
+        if (result.success) {
+          valid.push({ index, data: result.data });
+        } else {
+          skipped.push({ index, reason: 'invalid', details: result.issues });
+        }
+      });
+
+      if (backup) {
+        const categories = await ensureCategories(session.user.id, backup.categories);
+        const categoryIds = new Map(backup.categories.map((category, i) => [category.id, categories[i].id]));
+        valid.forEach(({ data }) => {
+          if (data.categoryId) data.categoryId = categoryIds.get(data.categoryId) ?? null;
+        });
+
+        // Backups from before versioning did not record a display currency
+        if (backup.baseCurrency) {
+          await updateUserPreferences(session.user.id, { preferredCurrency: backup.baseCurrency });
+        }
+      }
+
+      const { created, duplicates } = await importSubscriptions(
+        session.user.id,
+        valid.map(item => item.data)
+      );
+      duplicates.forEach(position => skipped.push({ index: valid[position].index, reason: 'duplicate' }));
+      skipped.sort((a, b) => a.index - b.index);
+
+      return NextResponse.json({
+        created: created.length,
+        skipped,
+        subscriptions: created
+      });
+    }, 'api/subscriptions/import/POST');
+  } catch (error: unknown) {
+    console.error('POST /api/subscriptions/import error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
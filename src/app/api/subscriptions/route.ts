@@ -1,20 +1,23 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { getUserSubscriptions, createSubscription } from '@/lib/services/subscription-service';
+import { authOptions } from '@/lib/auth';
+import { getUserSubscriptions, createSubscription, adoptEmailKeyedSubscriptions } from '@/lib/services/subscription-service';
 import { subscriptionSchema } from '@/lib/validations/subscription';
+import { normalizeTags } from '@/lib/subscriptions/utils/categories';
 import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
 import { MongoDBErrorCode } from '@/lib/db/error-handler';
 
 /**
  * GET /api/subscriptions
  * 
- * Retrieves all subscriptions for the authenticated user
+ * Retrieves all subscriptions for the authenticated user,
+ * optionally filtered by ?category=<id|uncategorized> and ?tag=<tag> (repeatable)
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     // Wrap the entire operation in our error handling wrapper
     return await withErrorHandling(async () => {
-      const session = await getServerSession();
+      const session = await getServerSession(authOptions);
 
       if (!session?.user?.id) {
         return new NextResponse(
@@ -26,8 +29,18 @@ export async function GET() {
         );
       }
 
+      const searchParams = request.nextUrl.searchParams;
+
+      // Pick up subscriptions the dashboard saved by email before it used this API
+      if (session.user.email) {
+        await adoptEmailKeyedSubscriptions(session.user.id, session.user.email);
+      }
+
       // Use subscription service instead of serverStorage
-      const subscriptions = await getUserSubscriptions(session.user.id);
+      const subscriptions = await getUserSubscriptions(session.user.id, {
+        categoryId: searchParams.get('category'),
+        tags: normalizeTags(searchParams.getAll('tag'))
+      });
       return NextResponse.json(subscriptions);
     }, 'api/subscriptions/GET');
   } catch (error: unknown) {
@@ -55,7 +68,7 @@ export async function POST(req: Request) {
   try {
     // Wrap the entire operation in our error handling wrapper
     return await withErrorHandling(async () => {
-      const session = await getServerSession();
+      const session = await getServerSession(authOptions);
 
       if (!session?.user?.id) {
         return new NextResponse(
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUserSubscriptions } from '@/lib/services/subscription-service';
+import { getUserPreferences } from '@/lib/services/user-preferences-service';
+import { getExchangeRateTable } from '@/lib/services/exchange-rate-service';
+import { calculateSummary } from '@/lib/subscriptions/utils/calculations';
+import { isValidCurrency } from '@/lib/subscriptions/config/currencies';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/subscriptions/summary
+ * 
+ * Retrieves the cost summary of the authenticated user's subscriptions,
+ * totalled in their preferred currency unless ?currency= overrides it
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const requestedCurrency = request.nextUrl.searchParams.get('currency');
+
+      if (requestedCurrency && !isValidCurrency(requestedCurrency)) {
+        return NextResponse.json(
+          { error: `Unsupported currency: ${requestedCurrency}`, code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      const [subscriptions, preferences, rates] = await Promise.all([
+        getUserSubscriptions(session.user.id),
+        getUserPreferences(session.user.id),
+        getExchangeRateTable()
+      ]);
+
+      const summary = calculateSummary(subscriptions, {
+        currency: requestedCurrency && isValidCurrency(requestedCurrency)
+          ? requestedCurrency
+          : preferences.preferredCurrency,
+        rates
+      });
+
+      return NextResponse.json(summary);
+    }, 'api/subscriptions/summary/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/subscriptions/summary error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { unlinkAccount } from '@/lib/auth/linked-accounts';
+import { OAUTH_PROVIDER_ORDER } from '@/lib/auth/oauth';
+import { OAuthProviderId } from '@/types/auth';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * DELETE /api/user/linked-accounts/[provider]
+ * 
+ * Unlinks the authenticated user's account from a provider
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: { provider: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const provider = params.provider as OAuthProviderId;
+
+      if (OAUTH_PROVIDER_ORDER.indexOf(provider) === -1 || !(await unlinkAccount(session.user.id, provider))) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'No linked account from this provider',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new NextResponse(null, { status: 204 });
+    }, `api/user/linked-accounts/${params.provider}/DELETE`);
+  } catch (error: unknown) {
+    console.error('DELETE /api/user/linked-accounts/[provider] error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
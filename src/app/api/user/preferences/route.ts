@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUserPreferences, updateUserPreferences } from '@/lib/services/user-preferences-service';
+import { preferencesSchema } from '@/lib/validations/preferences';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/user/preferences
+ * 
+ * Retrieves the authenticated user's preferences
+ */
+export async function GET() {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const preferences = await getUserPreferences(session.user.id);
+      return NextResponse.json(preferences);
+    }, 'api/user/preferences/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/user/preferences error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * PATCH /api/user/preferences
+ * 
+ * Updates the authenticated user's preferences
+ */
+export async function PATCH(req: Request) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      const result = preferencesSchema.safeParse(json);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid preferences', 
+            code: 'validation.failed',
+            details: result.error
+          },
+          { status: 400 }
+        );
+      }
+
+      const preferences = await updateUserPreferences(session.user.id, result.data);
+
+      if (!preferences) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'User not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(preferences);
+    }, 'api/user/preferences/PATCH');
+  } catch (error: unknown) {
+    console.error('PATCH /api/user/preferences error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { regenerateRecoveryCodes } from '@/lib/auth/two-factor';
+import { twoFactorCodeSchema } from '@/lib/validations/two-factor';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * POST /api/user/two-factor/recovery-codes
+ * 
+ * Replaces the authenticated user's recovery codes; needs a current code or recovery code
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      const result = twoFactorCodeSchema.safeParse(json);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid code', 
+            code: 'validation.failed',
+            details: result.error
+          },
+          { status: 400 }
+        );
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(session.user.id, result.data.code);
+
+      if (!recoveryCodes) {
+        return NextResponse.json(
+          { error: 'The code is wrong or has already been used.', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ recoveryCodes });
+    }, 'api/user/two-factor/recovery-codes/POST');
+  } catch (error: unknown) {
+    console.error('POST /api/user/two-factor/recovery-codes error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
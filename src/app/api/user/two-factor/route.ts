@@ -0,0 +1,257 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  startTwoFactorEnrollment
+} from '@/lib/auth/two-factor';
+import { twoFactorCodeSchema } from '@/lib/validations/two-factor';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/user/two-factor
+ * 
+ * Retrieves whether the authenticated user has two-factor authentication on
+ */
+export async function GET() {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const status = await getTwoFactorStatus(session.user.id);
+
+      if (!status) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'User not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(status);
+    }, 'api/user/two-factor/GET');
+  } catch (error: unknown) {
+    console.error('GET /api/user/two-factor error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * POST /api/user/two-factor
+ * 
+ * Starts setting up an authenticator app, returning its secret and otpauth URI
+ */
+export async function POST() {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const status = await getTwoFactorStatus(session.user.id);
+
+      if (!status) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'User not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (status.enabled) {
+        return NextResponse.json(
+          { error: 'Two-factor authentication is already on', code: 'resource.conflict' },
+          { status: 409 }
+        );
+      }
+
+      const enrollment = await startTwoFactorEnrollment(session.user.id);
+
+      if (!enrollment) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'User not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(enrollment);
+    }, 'api/user/two-factor/POST');
+  } catch (error: unknown) {
+    console.error('POST /api/user/two-factor error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * PUT /api/user/two-factor
+ * 
+ * Turns on two-factor authentication with a code for the new secret, returning recovery codes
+ */
+export async function PUT(req: NextRequest) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      const result = twoFactorCodeSchema.safeParse(json);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid code', 
+            code: 'validation.failed',
+            details: result.error
+          },
+          { status: 400 }
+        );
+      }
+
+      const recoveryCodes = await confirmTwoFactorEnrollment(session.user.id, result.data.code);
+
+      if (!recoveryCodes) {
+        return NextResponse.json(
+          { error: 'The code is wrong or has expired. Please try again.', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json({ recoveryCodes });
+    }, 'api/user/two-factor/PUT');
+  } catch (error: unknown) {
+    console.error('PUT /api/user/two-factor error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * DELETE /api/user/two-factor
+ * 
+ * Turns off two-factor authentication; needs a current code or recovery code
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const json = await req.json();
+      const result = twoFactorCodeSchema.safeParse(json);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid code', 
+            code: 'validation.failed',
+            details: result.error
+          },
+          { status: 400 }
+        );
+      }
+
+      const disabled = await disableTwoFactor(session.user.id, result.data.code);
+
+      if (!disabled) {
+        return NextResponse.json(
+          { error: 'The code is wrong or has already been used.', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      return new NextResponse(null, { status: 204 });
+    }, 'api/user/two-factor/DELETE');
+  } catch (error: unknown) {
+    console.error('DELETE /api/user/two-factor error:', error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getWorkspace,
+  updateWorkspaceMemberRole,
+  removeWorkspaceMember
+} from '@/lib/services/workspace-service';
+import { workspaceMemberRoleSchema } from '@/lib/validations/workspace';
+import { getMemberRole, hasWorkspaceRole, isLastOwner } from '@/lib/subscriptions/utils/workspaces';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * PUT /api/workspaces/[id]/members/[userId]
+ * 
+ * Changes a member's role; only owners may, and the last owner keeps theirs
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!hasWorkspaceRole(workspace, session.user.id, 'owner')) {
+        return NextResponse.json(
+          { error: 'Only owners can change roles', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      const result = workspaceMemberRoleSchema.safeParse(await req.json());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid member data', 
+            code: 'validation.failed',
+            details: result.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      if (!getMemberRole(workspace, params.userId)) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Member not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (result.data.role !== 'owner' && isLastOwner(workspace, params.userId)) {
+        return NextResponse.json(
+          { error: 'A workspace needs at least one owner', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      const updated = await updateWorkspaceMemberRole(workspace.id, params.userId, result.data.role);
+
+      if (!updated) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Member not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(updated);
+    }, `api/workspaces/${params.id}/members/${params.userId}/PUT`);
+  } catch (error: unknown) {
+    console.error(`PUT /api/workspaces/${params.id}/members/${params.userId} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[id]/members/[userId]
+ * 
+ * Removes a member from a workspace. Owners may remove anyone and members may
+ * leave, but the last owner has to hand over or delete the workspace instead.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string; userId: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Leaving needs no particular role
+      if (params.userId !== session.user.id && !hasWorkspaceRole(workspace, session.user.id, 'owner')) {
+        return NextResponse.json(
+          { error: 'Only owners can remove members', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      if (isLastOwner(workspace, params.userId)) {
+        return NextResponse.json(
+          { error: 'A workspace needs at least one owner', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      const removed = await removeWorkspaceMember(workspace.id, params.userId);
+
+      if (!removed) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Member not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new NextResponse(null, { status: 204 });
+    }, `api/workspaces/${params.id}/members/${params.userId}/DELETE`);
+  } catch (error: unknown) {
+    console.error(`DELETE /api/workspaces/${params.id}/members/${params.userId} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
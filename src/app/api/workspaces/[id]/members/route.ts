@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getWorkspace, addWorkspaceMember } from '@/lib/services/workspace-service';
+import { workspaceMemberSchema } from '@/lib/validations/workspace';
+import { hasWorkspaceRole } from '@/lib/subscriptions/utils/workspaces';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * POST /api/workspaces/[id]/members
+ * 
+ * Adds a registered user to a workspace by email; only its owners may
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!hasWorkspaceRole(workspace, session.user.id, 'owner')) {
+        return NextResponse.json(
+          { error: 'Only owners can add members', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      const result = workspaceMemberSchema.safeParse(await req.json());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid member data', 
+            code: 'validation.failed',
+            details: result.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      if (workspace.members.some(member => member.email === result.data.email)) {
+        return NextResponse.json(
+          { error: 'This user is already a member', code: 'resource.conflict' },
+          { status: 409 }
+        );
+      }
+
+      const updated = await addWorkspaceMember(workspace.id, result.data.email, result.data.role);
+
+      if (!updated) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'User not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(updated);
+    }, `api/workspaces/${params.id}/members/POST`);
+  } catch (error: unknown) {
+    console.error(`POST /api/workspaces/${params.id}/members error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getWorkspace, renameWorkspace, deleteWorkspace } from '@/lib/services/workspace-service';
+import { workspaceSchema } from '@/lib/validations/workspace';
+import { hasWorkspaceRole } from '@/lib/subscriptions/utils/workspaces';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/workspaces/[id]
+ * 
+ * Retrieves a workspace the authenticated user is a member of
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(workspace);
+    }, `api/workspaces/${params.id}/GET`);
+  } catch (error: unknown) {
+    console.error(`GET /api/workspaces/${params.id} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * PUT /api/workspaces/[id]
+ * 
+ * Renames a workspace; only its owners may
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!hasWorkspaceRole(workspace, session.user.id, 'owner')) {
+        return NextResponse.json(
+          { error: 'Only owners can rename a workspace', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      const result = workspaceSchema.safeParse(await req.json());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid workspace data', 
+            code: 'validation.failed',
+            details: result.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      const updated = await renameWorkspace(workspace.id, result.data.name);
+
+      if (!updated) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return NextResponse.json(updated);
+    }, `api/workspaces/${params.id}/PUT`);
+  } catch (error: unknown) {
+    console.error(`PUT /api/workspaces/${params.id} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[id]
+ * 
+ * Deletes a workspace and its subscriptions; only its owners may
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!hasWorkspaceRole(workspace, session.user.id, 'owner')) {
+        return NextResponse.json(
+          { error: 'Only owners can delete a workspace', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      await deleteWorkspace(workspace.id);
+      return new NextResponse(null, { status: 204 });
+    }, `api/workspaces/${params.id}/DELETE`);
+  } catch (error: unknown) {
+    console.error(`DELETE /api/workspaces/${params.id} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
@@ -0,0 +1,214 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  getSubscriptionById,
+  updateSubscription,
+  deleteSubscription,
+  purgeSubscription
+} from '@/lib/services/subscription-service';
+import { getWorkspace } from '@/lib/services/workspace-service';
+import { subscriptionUpdateSchema } from '@/lib/validations/subscription';
+import { getMemberRole, getSplitMembers, hasWorkspaceRole } from '@/lib/subscriptions/utils/workspaces';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBError, MongoDBErrorCode } from '@/lib/db/error-handler';
+import { SubscriptionFormData } from '@/types/subscriptions';
+
+/**
+ * PUT /api/workspaces/[id]/subscriptions/[subscriptionId]
+ * 
+ * Updates a workspace subscription; owners and editors may. As for personal
+ * subscriptions, a stale version is rejected with 409 and the current subscription.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: { id: string; subscriptionId: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!hasWorkspaceRole(workspace, session.user.id, 'editor')) {
+        return NextResponse.json(
+          { error: 'Viewers cannot change subscriptions', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      const result = subscriptionUpdateSchema.safeParse(await req.json());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid subscription data', 
+            code: 'validation.failed',
+            details: result.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      // A split can only name members of the workspace
+      if (result.data.split && getSplitMembers(result.data.split).some(userId => !getMemberRole(workspace, userId))) {
+        return NextResponse.json(
+          { error: 'The split names someone who is not a member', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      const owner = { workspaceId: workspace.id, userId: session.user.id };
+      const { version, ...data } = result.data;
+
+      try {
+        const subscription = await updateSubscription(
+          owner,
+          params.subscriptionId,
+          data as SubscriptionFormData & { disabled?: boolean },
+          version
+        );
+
+        if (!subscription) {
+          return new NextResponse(
+            JSON.stringify({ 
+              error: 'Subscription not found',
+              code: 'resource.not_found'
+            }),
+            { status: 404, headers: { 'Content-Type': 'application/json' } }
+          );
+        }
+        return NextResponse.json(subscription);
+      } catch (error) {
+        if (error instanceof MongoDBError && error.code === MongoDBErrorCode.VALIDATION_FAILED) {
+          return NextResponse.json(
+            { error: error.message, code: 'validation.failed' },
+            { status: 400 }
+          );
+        }
+        if (!(error instanceof MongoDBError) || error.code !== MongoDBErrorCode.VERSION_CONFLICT) {
+          throw error;
+        }
+
+        return NextResponse.json(
+          { 
+            error: 'Subscription was changed elsewhere',
+            code: error.code,
+            current: await getSubscriptionById(owner, params.subscriptionId)
+          },
+          { status: 409 }
+        );
+      }
+    }, `api/workspaces/${params.id}/subscriptions/${params.subscriptionId}/PUT`);
+  } catch (error: unknown) {
+    console.error(`PUT /api/workspaces/${params.id}/subscriptions/${params.subscriptionId} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * DELETE /api/workspaces/[id]/subscriptions/[subscriptionId]
+ * 
+ * Deletes a workspace subscription for good; owners and editors may.
+ * Workspaces have no trash, so there is nothing to restore it from.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: { id: string; subscriptionId: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!hasWorkspaceRole(workspace, session.user.id, 'editor')) {
+        return NextResponse.json(
+          { error: 'Viewers cannot delete subscriptions', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      const owner = { workspaceId: workspace.id, userId: session.user.id };
+      const deleted = await deleteSubscription(owner, params.subscriptionId) &&
+        await purgeSubscription(owner, params.subscriptionId);
+
+      if (!deleted) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Subscription not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      return new NextResponse(null, { status: 204 });
+    }, `api/workspaces/${params.id}/subscriptions/${params.subscriptionId}/DELETE`);
+  } catch (error: unknown) {
+    console.error(`DELETE /api/workspaces/${params.id}/subscriptions/${params.subscriptionId} error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
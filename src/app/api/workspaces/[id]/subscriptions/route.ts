@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getUserSubscriptions, createSubscription } from '@/lib/services/subscription-service';
+import { getWorkspace } from '@/lib/services/workspace-service';
+import { subscriptionSchema } from '@/lib/validations/subscription';
+import { getMemberRole, getSplitMembers, hasWorkspaceRole } from '@/lib/subscriptions/utils/workspaces';
+import { withErrorHandling, createErrorResponse } from '@/lib/db/unified-error-handler';
+import { MongoDBError, MongoDBErrorCode } from '@/lib/db/error-handler';
+
+/**
+ * GET /api/workspaces/[id]/subscriptions
+ * 
+ * Retrieves the subscriptions of a workspace the authenticated user is a member of
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const subscriptions = await getUserSubscriptions({ workspaceId: workspace.id, userId: session.user.id });
+      return NextResponse.json(subscriptions);
+    }, `api/workspaces/${params.id}/subscriptions/GET`);
+  } catch (error: unknown) {
+    console.error(`GET /api/workspaces/${params.id}/subscriptions error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
+
+/**
+ * POST /api/workspaces/[id]/subscriptions
+ * 
+ * Adds a subscription to a workspace; owners and editors may
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Wrap the entire operation in our error handling wrapper
+    return await withErrorHandling(async () => {
+      const session = await getServerSession(authOptions);
+
+      if (!session?.user?.id) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Authentication required',
+            code: 'auth.unauthorized'
+          }),
+          { status: 401, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const workspace = await getWorkspace(session.user.id, params.id);
+
+      if (!workspace) {
+        return new NextResponse(
+          JSON.stringify({ 
+            error: 'Workspace not found',
+            code: 'resource.not_found'
+          }),
+          { status: 404, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!hasWorkspaceRole(workspace, session.user.id, 'editor')) {
+        return NextResponse.json(
+          { error: 'Viewers cannot add subscriptions', code: 'auth.forbidden' },
+          { status: 403 }
+        );
+      }
+
+      const result = subscriptionSchema.safeParse(await req.json());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { 
+            error: 'Invalid subscription data', 
+            code: 'validation.failed',
+            details: result.error.issues
+          },
+          { status: 400 }
+        );
+      }
+
+      // A split can only name members of the workspace
+      if (result.data.split && getSplitMembers(result.data.split).some(userId => !getMemberRole(workspace, userId))) {
+        return NextResponse.json(
+          { error: 'The split names someone who is not a member', code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        const subscription = await createSubscription(
+          { workspaceId: workspace.id, userId: session.user.id },
+          result.data
+        );
+        return NextResponse.json(subscription);
+      } catch (error) {
+        // Such as a category that is not the member's own
+        if (!(error instanceof MongoDBError) || error.code !== MongoDBErrorCode.VALIDATION_FAILED) {
+          throw error;
+        }
+
+        return NextResponse.json(
+          { error: error.message, code: 'validation.failed' },
+          { status: 400 }
+        );
+      }
+    }, `api/workspaces/${params.id}/subscriptions/POST`);
+  } catch (error: unknown) {
+    console.error(`POST /api/workspaces/${params.id}/subscriptions error:`, error);
+    
+    // Use our standardized error response
+    const errorResponse = createErrorResponse(error);
+    
+    return NextResponse.json(
+      { error: errorResponse.error, code: errorResponse.code },
+      { 
+        status: (errorResponse.code === MongoDBErrorCode.CONNECTION_FAILED || 
+                errorResponse.code === MongoDBErrorCode.CONNECTION_TIMEOUT) ? 503 : 500 
+      }
+    );
+  }
+}
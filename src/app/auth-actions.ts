@@ -5,6 +5,13 @@ import bcrypt from 'bcryptjs';
 import { UserModel } from '@/models/user';
 import { loadEnvVars, ensureEnvVars } from '@/lib/db/env-debug';
 import { withAuthConnection } from '@/lib/db/auth-connection';
+import { AUTH_CONFIG } from '@/lib/auth/config';
+import { AuthMailer } from '@/lib/auth/mailer';
+import { createToken, hashToken } from '@/lib/auth/tokens';
+import { confirmEmailVerification, sendVerificationEmail } from '@/lib/auth/email-verification';
+import { getLoginDelay } from '@/lib/auth/lockout';
+import { verifyTwoFactorCode } from '@/lib/auth/two-factor';
+import { validateEmail, validatePassword } from '@/lib/auth/validation';
 
 // Load env vars at the module level to ensure they're available
 loadEnvVars();
@@ -16,6 +23,8 @@ interface AuthResult {
   error?: {
     code: string;
     message: string;
+    // ISO time a locked account unlocks
+    lockedUntil?: string;
   };
 }
 
@@ -24,13 +33,48 @@ function serializeUser(user: any): CustomUser {
     id: user._id.toString(),
     email: user.email,
     name: user.name,
-    roles: user.roles || []
+    roles: user.roles || [],
+    emailVerified: user.emailVerified === true
   };
 }
 
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Count a failed login towards the lockout, answering more slowly each time
+async function failedLoginResult(user: any, error: { code: string; message: string }): Promise<AuthResult> {
+  const updated = await withAuthConnection(async () => user.incrementFailedLogins()) || user;
+  console.log(`[AUTH] Failed login for user: ${user.email} (${updated.failedLoginAttempts} failed attempts)`);
+
+  await sleep(getLoginDelay(updated.failedLoginAttempts));
+
+  if (updated.isLocked()) {
+    return lockedResult(updated.lockedUntil);
+  }
+  return { success: false, error };
+}
+
+function lockedResult(lockedUntil: Date): AuthResult {
+  return {
+    success: false,
+    error: {
+      code: 'account_locked',
+      message: `Too many failed login attempts. This account is locked until ${lockedUntil.toISOString()}.`,
+      lockedUntil: lockedUntil.toISOString()
+    }
+  };
+}
+
+/**
+ * Check a user's login details
+ * Accounts with two-factor authentication also need a code from their
+ * authenticator app or a recovery code; without one the result asks for it.
+ */
 export async function authenticateUser(
   email: string,
-  password: string
+  password: string,
+  code?: string
 ): Promise<AuthResult> {
   try {
     console.log(`[AUTH] Authenticating user: ${email}`);
@@ -51,19 +95,45 @@ export async function authenticateUser(
       };
     }
 
+    // Locked accounts are refused without checking the password
+    if (user.isLocked()) {
+      console.log(`[AUTH] Account locked for user: ${email}`);
+      return lockedResult(user.lockedUntil);
+    }
+
     // Verify password
     const isValid = await bcrypt.compare(password, user.hashedPassword);
     if (!isValid) {
       console.log(`[AUTH] Invalid password for user: ${email}`);
-      return {
-        success: false,
-        error: {
-          code: 'invalid_credentials',
-          message: 'Incorrect password. Please try again.'
-        }
-      };
+      return failedLoginResult(user, {
+        code: 'invalid_credentials',
+        message: 'Incorrect password. Please try again.'
+      });
+    }
+
+    if (user.twoFactorEnabled) {
+      if (!code) {
+        return {
+          success: false,
+          error: {
+            code: 'two_factor_required',
+            message: 'Enter the code from your authenticator app.'
+          }
+        };
+      }
+
+      // Wrong codes count towards the lockout like wrong passwords
+      if (!(await verifyTwoFactorCode(user._id.toString(), code))) {
+        console.log(`[AUTH] Invalid two-factor code for user: ${email}`);
+        return failedLoginResult(user, {
+          code: 'invalid_two_factor_code',
+          message: 'The code is wrong or has already been used. Please try again.'
+        });
+      }
     }
     
+    // Clears failed attempts and records lastLogin
+    await withAuthConnection(async () => user.resetFailedLogins());
     console.log(`[AUTH] Successfully authenticated user: ${email}`);
     
     return {
@@ -118,6 +188,13 @@ export async function registerUser(
         failedLoginAttempts: 0
       });
     });
+
+    // The account works without it, so a failed email does not fail the signup
+    try {
+      await sendVerificationEmail(user._id.toString());
+    } catch (error) {
+      console.error('[AUTH] Error sending verification email:', error);
+    }
     
     return {
       success: true,
@@ -135,3 +212,208 @@ export async function registerUser(
     };
   }
 }
+
+/**
+ * Email a link to choose a new password
+ * Answers the same whether or not the email has an account, so the form
+ * cannot be used to find out who is registered; failed sends are only
+ * logged. Asking again replaces the earlier link.
+ */
+export async function requestPasswordReset(email: string): Promise<AuthResult> {
+  try {
+    if (!validateEmail(email)) {
+      return {
+        success: false,
+        error: {
+          code: 'invalid_email',
+          message: 'Please enter a valid email address.'
+        }
+      };
+    }
+
+    const { token, hash } = createToken();
+
+    const user = await withAuthConnection(async () => {
+      return UserModel.findOneAndUpdate(
+        { email: email.toLowerCase() },
+        {
+          $set: {
+            passwordResetToken: hash,
+            passwordResetExpires: new Date(Date.now() + AUTH_CONFIG.PASSWORD_RESET_TOKEN_MAX_AGE * 1000)
+          }
+        },
+        { new: true }
+      );
+    });
+
+    if (!user) {
+      console.log(`[AUTH] Password reset requested for unknown email: ${email}`);
+      return { success: true };
+    }
+
+    // Only accounts that exist get this far, so a failed send is not reported
+    try {
+      await new AuthMailer().sendPasswordReset(user, token);
+      console.log(`[AUTH] Password reset email sent to: ${email}`);
+    } catch (error) {
+      console.error('[AUTH] Password reset email delivery error:', error);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('[AUTH] Password reset request error:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'server_error',
+        message: 'We could not send the reset email. Please try again later.'
+      }
+    };
+  }
+}
+
+/**
+ * Set a new password with the token from a reset email
+ * The token works once: it is cleared with the password change, which also
+ * lifts any lockout from failed logins.
+ */
+export async function resetPassword(token: string, password: string): Promise<AuthResult> {
+  try {
+    if (!validatePassword(password)) {
+      return {
+        success: false,
+        error: {
+          code: 'invalid_password',
+          message: 'Password must be at least 6 characters.'
+        }
+      };
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const user = await withAuthConnection(async () => {
+      return UserModel.findOneAndUpdate(
+        {
+          passwordResetToken: hashToken(token),
+          passwordResetExpires: { $gt: new Date() }
+        },
+        {
+          $set: { hashedPassword, failedLoginAttempts: 0 },
+          $unset: { passwordResetToken: 1, passwordResetExpires: 1, lockedUntil: 1 }
+        },
+        { new: true }
+      );
+    });
+
+    if (!user) {
+      return {
+        success: false,
+        error: {
+          code: 'invalid_token',
+          message: 'This reset link is invalid or has expired. Please ask for a new one.'
+        }
+      };
+    }
+
+    console.log(`[AUTH] Password reset for user: ${user.email}`);
+
+    return {
+      success: true,
+      data: serializeUser(user)
+    };
+  } catch (error) {
+    console.error('[AUTH] Password reset error:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'server_error',
+        message: 'An unexpected error occurred. Please try again.'
+      }
+    };
+  }
+}
+
+/**
+ * Verify an account's email with the token from the verification email
+ */
+export async function verifyEmail(token: string): Promise<AuthResult> {
+  try {
+    const email = await confirmEmailVerification(token);
+
+    if (!email) {
+      return {
+        success: false,
+        error: {
+          code: 'invalid_token',
+          message: 'This verification link is invalid or has expired. Please ask for a new one.'
+        }
+      };
+    }
+
+    console.log(`[AUTH] Email verified for user: ${email}`);
+    return { success: true };
+  } catch (error) {
+    console.error('[AUTH] Email verification error:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'server_error',
+        message: 'An unexpected error occurred. Please try again.'
+      }
+    };
+  }
+}
+
+/**
+ * Send another verification email, at most once every
+ * EMAIL_VERIFICATION_RESEND_INTERVAL seconds
+ * As with password resets, unknown, already verified and throttled emails
+ * get the same answer as a sent email, as do failed sends, which are only
+ * logged.
+ */
+export async function resendVerificationEmail(email: string): Promise<AuthResult> {
+  try {
+    if (!validateEmail(email)) {
+      return {
+        success: false,
+        error: {
+          code: 'invalid_email',
+          message: 'Please enter a valid email address.'
+        }
+      };
+    }
+
+    const user = await withAuthConnection(async () => {
+      return UserModel.findOne({ email: email.toLowerCase() });
+    });
+
+    if (!user) {
+      console.log(`[AUTH] Verification email requested for unknown email: ${email}`);
+      return { success: true };
+    }
+
+    try {
+      const result = await sendVerificationEmail(user._id.toString());
+      if (result.status === 'throttled') {
+        console.log(`[AUTH] Verification email throttled for ${result.retryAfter} seconds: ${email}`);
+      }
+    } catch (error) {
+      console.error('[AUTH] Verification email delivery error:', error);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('[AUTH] Verification email error:', error);
+
+    return {
+      success: false,
+      error: {
+        code: 'server_error',
+        message: 'We could not send the verification email. Please try again later.'
+      }
+    };
+  }
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import { AlertCircle, Loader2, Mail } from "lucide-react";
+import { requestPasswordReset } from "@/app/auth-actions";
+import { validateEmail } from "@/lib/auth/validation";
+import { Section } from "@/components/common/Section";
+import AuthLogo from "@/components/auth/AuthLogo";
+
+export default function ForgotPasswordPage() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const email = new FormData(e.currentTarget).get("email") as string;
+    if (!validateEmail(email)) {
+      setError("Invalid email format");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await requestPasswordReset(email);
+      if (!result.success) {
+        setError(result.error?.message || "An unexpected error occurred. Please try again.");
+        return;
+      }
+      setSentTo(email);
+    } catch (err) {
+      console.error("Password reset request error:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="relative min-h-screen">
+      <main className="container mx-auto h-screen px-3 py-4 sm:px-4 sm:py-12 max-w-6xl relative flex flex-col items-center justify-center">
+        <AuthLogo />
+
+        <Section title="Reset your password" className="w-[450px]">
+          {sentTo ? (
+            <div className="space-y-4 text-sm">
+              <p>
+                If <span className="font-medium">{sentTo}</span> has an account, we have sent it a link
+                to choose a new password. The link works for one hour.
+              </p>
+              <Link
+                href="/login"
+                className="text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline font-medium"
+              >
+                Back to log in
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                Enter the email you signed up with and we will send you a link to choose a new password.
+              </p>
+
+              {error && (
+                <div className="flex gap-3 rounded-lg bg-destructive/10 p-4 border border-destructive/20">
+                  <AlertCircle className="h-5 w-5 text-destructive" aria-hidden="true" />
+                  <p className="text-sm text-destructive">{error}</p>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium mb-2">
+                  Email address
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all"
+                  disabled={isLoading}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="flex w-full items-center justify-center gap-2 rounded-md bg-[rgb(210,50,170)] px-6 py-3 text-sm font-semibold text-white shadow-sm hover:bg-[rgb(180,40,150)] focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[rgb(210,50,170)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail size={18} strokeWidth={1.5} />}
+                <span>{isLoading ? "Sending..." : "Send reset link"}</span>
+              </button>
+
+              <p className="text-sm text-center text-muted-foreground">
+                Remembered it?{" "}
+                <Link
+                  href="/login"
+                  className="text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline font-medium"
+                >
+                  Log in
+                </Link>
+              </p>
+            </form>
+          )}
+        </Section>
+      </main>
+    </div>
+  );
+}
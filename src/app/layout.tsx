@@ -8,6 +8,7 @@ import { authOptions } from '@/lib/auth';
 import GradientBackground from '@/components/GradientBackground';
 import Analytics from '@/components/Analytics';
 import AnalyticsPageTracker from '@/components/AnalyticsPageTracker';
+import { Toaster } from '@/components/ui/toaster';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -43,6 +44,7 @@ export default async function RootLayout({
         <Providers session={session}>
           <GradientBackground />
           {children}
+          <Toaster />
         </Providers>
       </body>
     </html>
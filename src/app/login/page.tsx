@@ -1,10 +1,11 @@
 "use client";
 
-import { signIn } from "next-auth/react";
+import { getProviders, signIn } from "next-auth/react";
 import { useSearchParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import { useState, useCallback, Suspense } from "react";
+import { useState, useCallback, useEffect, Suspense } from "react";
 import { validateEmail, validatePassword } from "@/lib/auth/validation";
+import { parseLockedErrorCode } from "@/lib/auth/lockout";
 import { Section } from "@/components/common/Section";
 import { LogIn, AlertCircle, Loader2 } from "lucide-react";
 import AuthLogo from "@/components/auth/AuthLogo";
@@ -36,6 +37,11 @@ function ErrorAlert({ message }: { message: string }) {
 // Map technical error codes to user-friendly messages
 const getErrorMessage = (errorCode: string | null | undefined): string => {
   if (!errorCode) return "An unexpected error occurred. Please try again.";
+
+  const lockedUntil = parseLockedErrorCode(errorCode);
+  if (lockedUntil) {
+    return `Too many failed login attempts. Your account is locked until ${lockedUntil.toLocaleString()}. Reset your password to unlock it sooner.`;
+  }
   
   const errorMessages: Record<string, string> = {
     CredentialsSignin: "Invalid email or password. Please check your credentials and try again.",
@@ -48,7 +54,13 @@ const getErrorMessage = (errorCode: string | null | undefined): string => {
     OAuthAccountNotLinked: "This email is already associated with another account.",
     EmailSignin: "Error sending the sign-in email. Please try again.",
     SessionRequired: "Please sign in to access this page.",
-    AccessDenied: "Access denied. You do not have permission to access this resource."
+    AccessDenied: "Access denied. You do not have permission to access this resource.",
+    email_not_verified: "Please verify your email address before logging in. Check your inbox for the link.",
+    invalid_two_factor_code: "The code is wrong or has already been used. Please try again.",
+    oauth_email_unverified: "That account has no verified email address. Verify it with the provider, or sign up with a password.",
+    account_not_verified: "An account with this email exists but its email is not verified. Log in with your password, verify your email, then link the account in Settings.",
+    two_factor_oauth: "This account uses two-factor authentication. Log in with your password and authentication code.",
+    provider_already_linked: "Your account is linked to another account from this provider. Log in with that one or with your password."
   };
 
   return errorMessages[errorCode] || errorMessages.Default;
@@ -67,6 +79,20 @@ function LoginPageContent() {
     return urlError ? { general: getErrorMessage(urlError) } : {};
   });
   const [isRedirecting, setIsRedirecting] = useState(false);
+  // Set when the login was refused until the email is verified
+  const [unverifiedEmail, setUnverifiedEmail] = useState<string | null>(null);
+  // Kept for the second step when the account has two-factor authentication
+  const [twoFactorCredentials, setTwoFactorCredentials] = useState<{ email: string; password: string } | null>(null);
+  // GitHub and Google, when they are set up on the server
+  const [oauthProviders, setOAuthProviders] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    getProviders()
+      .then((providers) => {
+        setOAuthProviders(Object.values(providers || {}).filter((provider) => provider.type === "oauth"));
+      })
+      .catch((error) => console.error("Error loading sign-in providers:", error));
+  }, []);
 
   const validateForm = useCallback(
     (email: string, password: string): boolean => {
@@ -94,13 +120,15 @@ function LoginPageContent() {
     e.preventDefault();
     setIsLoading(true);
     setErrors({});
+    setUnverifiedEmail(null);
 
     try {
       const formData = new FormData(e.currentTarget);
-      const email = formData.get("email") as string;
-      const password = formData.get("password") as string;
+      const email = twoFactorCredentials?.email ?? (formData.get("email") as string);
+      const password = twoFactorCredentials?.password ?? (formData.get("password") as string);
+      const code = twoFactorCredentials ? (formData.get("code") as string) : undefined;
 
-      if (!validateForm(email, password)) {
+      if (!twoFactorCredentials && !validateForm(email, password)) {
         setIsLoading(false);
         return;
       }
@@ -108,14 +136,23 @@ function LoginPageContent() {
       const result = await signIn("credentials", {
         email,
         password,
+        ...(code ? { code } : {}),
         redirect: false,
         callbackUrl,
       });
 
+      if (result?.error === "two_factor_required") {
+        setTwoFactorCredentials({ email, password });
+        return;
+      }
+
       if (!result?.ok) {
         setErrors({
           general: getErrorMessage(result?.error),
         });
+        if (result?.error === "email_not_verified") {
+          setUnverifiedEmail(email);
+        }
         return;
       }
 
@@ -165,46 +202,100 @@ function LoginPageContent() {
               className="space-y-6 mt-6"
             >
               {errors.general && <ErrorAlert message={errors.general} />}
+              {unverifiedEmail && (
+                <p className="text-sm">
+                  <Link
+                    href={`/verify-email?email=${encodeURIComponent(unverifiedEmail)}`}
+                    className="text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline font-medium"
+                  >
+                    Send a new verification link
+                  </Link>
+                </p>
+              )}
 
-              <div className="space-y-4">
+              {twoFactorCredentials ? (
                 <div>
                   <label
-                    htmlFor="email"
+                    htmlFor="code"
                     className="block text-sm font-medium mb-2"
                   >
-                    Email address
+                    Authentication code
                   </label>
                   <input
-                    id="email"
-                    name="email"
-                    type="email"
-                    autoComplete="email"
+                    id="code"
+                    name="code"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
                     required
-                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all"
                     disabled={isLoading || isRedirecting}
                   />
-                  <FormError message={errors.email} />
+                  <p className="text-sm text-muted-foreground mt-2">
+                    Enter the code from your authenticator app, or one of your recovery codes.{" "}
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setTwoFactorCredentials(null);
+                        setErrors({});
+                      }}
+                      className="text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline"
+                    >
+                      Use another account
+                    </button>
+                  </p>
                 </div>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <label
+                      htmlFor="email"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      Email address
+                    </label>
+                    <input
+                      id="email"
+                      name="email"
+                      type="email"
+                      autoComplete="email"
+                      required
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all"
+                      disabled={isLoading || isRedirecting}
+                    />
+                    <FormError message={errors.email} />
+                  </div>
 
-                <div>
-                  <label
-                    htmlFor="password"
-                    className="block text-sm font-medium mb-2"
-                  >
-                    Password
-                  </label>
-                  <input
-                    id="password"
-                    name="password"
-                    type="password"
-                    autoComplete="current-password"
-                    required
-                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all"
-                    disabled={isLoading || isRedirecting}
-                  />
-                  <FormError message={errors.password} />
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label
+                        htmlFor="password"
+                        className="block text-sm font-medium"
+                      >
+                        Password
+                      </label>
+                      <Link
+                        href="/forgot-password"
+                        className="text-sm text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline"
+                        tabIndex={isLoading || isRedirecting ? -1 : 0}
+                      >
+                        Forgot password?
+                      </Link>
+                    </div>
+                    <input
+                      id="password"
+                      name="password"
+                      type="password"
+                      autoComplete="current-password"
+                      required
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all"
+                      disabled={isLoading || isRedirecting}
+                    />
+                    <FormError message={errors.password} />
+                  </div>
                 </div>
-              </div>
+              )}
 
               <button
                 type="submit"
@@ -229,6 +320,23 @@ function LoginPageContent() {
                 </span>
               </button>
 
+              {oauthProviders.length > 0 && !twoFactorCredentials && (
+                <div className="space-y-2">
+                  <p className="text-xs text-center text-muted-foreground">or</p>
+                  {oauthProviders.map((provider) => (
+                    <button
+                      key={provider.id}
+                      type="button"
+                      onClick={() => signIn(provider.id, { callbackUrl })}
+                      disabled={isLoading || isRedirecting}
+                      className="flex w-full items-center justify-center rounded-md border border-input bg-background px-6 py-3 text-sm font-medium hover:bg-accent transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Continue with {provider.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <p className="text-sm text-center text-muted-foreground">
                 Don&apos;t have an account?{" "}
                 <Link
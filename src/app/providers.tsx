@@ -3,6 +3,10 @@
 import { SessionProvider } from 'next-auth/react'
 import { type Session } from 'next-auth'
 import { ThemeProvider } from 'next-themes'
+import { PreferencesProvider } from '@/contexts/PreferencesContext'
+import { CategoriesProvider } from '@/contexts/CategoriesContext'
+import { BudgetsProvider } from '@/contexts/BudgetsContext'
+import { DateProvider } from '@/contexts/DateContext'
 
 export default function Providers({ 
   children,
@@ -14,7 +18,15 @@ export default function Providers({
   return (
     <ThemeProvider attribute="class" defaultTheme="dark">
       <SessionProvider session={session}>
-        {children}
+        <PreferencesProvider>
+          <CategoriesProvider>
+            <BudgetsProvider>
+              <DateProvider>
+                {children}
+              </DateProvider>
+            </BudgetsProvider>
+          </CategoriesProvider>
+        </PreferencesProvider>
       </SessionProvider>
     </ThemeProvider>
   )
@@ -0,0 +1,145 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useState } from "react";
+import { AlertCircle, KeyRound, Loader2 } from "lucide-react";
+import { resetPassword } from "@/app/auth-actions";
+import { validatePassword } from "@/lib/auth/validation";
+import { Section } from "@/components/common/Section";
+import AuthLogo from "@/components/auth/AuthLogo";
+
+const inputClasses = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all";
+
+const linkClasses = "text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline font-medium";
+
+function ResetPasswordContent() {
+  // The token comes from the link in the reset email
+  const token = useSearchParams().get("token");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDone, setIsDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+    const password = formData.get("password") as string;
+    const confirmPassword = formData.get("confirmPassword") as string;
+
+    if (!validatePassword(password)) {
+      setError("Password must be at least 6 characters");
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await resetPassword(token!, password);
+      if (!result.success) {
+        setError(result.error?.message || "An unexpected error occurred. Please try again.");
+        return;
+      }
+      setIsDone(true);
+    } catch (err) {
+      console.error("Password reset error:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <p className="text-sm">
+        This page needs the link from your reset email.{" "}
+        <Link href="/forgot-password" className={linkClasses}>
+          Ask for a new one
+        </Link>
+      </p>
+    );
+  }
+
+  if (isDone) {
+    return (
+      <p className="text-sm">
+        Your password has been changed.{" "}
+        <Link href="/login" className={linkClasses}>
+          Log in
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="flex gap-3 rounded-lg bg-destructive/10 p-4 border border-destructive/20">
+          <AlertCircle className="h-5 w-5 text-destructive" aria-hidden="true" />
+          <p className="text-sm text-destructive">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="password" className="block text-sm font-medium mb-2">
+            New password
+          </label>
+          <input
+            id="password"
+            name="password"
+            type="password"
+            autoComplete="new-password"
+            required
+            className={inputClasses}
+            disabled={isLoading}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="confirmPassword" className="block text-sm font-medium mb-2">
+            Confirm new password
+          </label>
+          <input
+            id="confirmPassword"
+            name="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            required
+            className={inputClasses}
+            disabled={isLoading}
+          />
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="flex w-full items-center justify-center gap-2 rounded-md bg-[rgb(210,50,170)] px-6 py-3 text-sm font-semibold text-white shadow-sm hover:bg-[rgb(180,40,150)] focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[rgb(210,50,170)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <KeyRound size={18} strokeWidth={1.5} />}
+        <span>{isLoading ? "Saving..." : "Set new password"}</span>
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="relative min-h-screen">
+      <main className="container mx-auto h-screen px-3 py-4 sm:px-4 sm:py-12 max-w-6xl relative flex flex-col items-center justify-center">
+        <AuthLogo />
+
+        <Section title="Choose a new password" className="w-[450px]">
+          <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin text-primary" />}>
+            <ResetPasswordContent />
+          </Suspense>
+        </Section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { Section } from "@/components/common/Section";
+import { CalendarFeedSettings } from "@/components/settings/CalendarFeedSettings";
+import { ExportSettings } from "@/components/settings/ExportSettings";
+import { TwoFactorSettings } from "@/components/settings/TwoFactorSettings";
+import { LinkedAccountsSettings } from "@/components/settings/LinkedAccountsSettings";
+import withAuth from "@/components/auth/withAuth";
+
+function SettingsPage() {
+  return (
+    <div className="min-h-screen transition-colors duration-200">
+      <main className="container mx-auto px-3 py-4 sm:px-4 max-w-3xl">
+        <PageHeader />
+
+        <div className="mt-8 space-y-8">
+          <Link
+            href="/subscriptions"
+            className="inline-flex items-center gap-2 text-sm text-muted hover:text-foreground transition-colors"
+          >
+            <ArrowLeft size={16} />
+            Back to subscriptions
+          </Link>
+
+          <Section title="Two-Factor Authentication">
+            <TwoFactorSettings />
+          </Section>
+
+          <Section title="Linked Accounts">
+            <LinkedAccountsSettings />
+          </Section>
+
+          <Section title="Calendar Feed">
+            <CalendarFeedSettings />
+          </Section>
+
+          <Section title="Export">
+            <ExportSettings />
+          </Section>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// Export the protected version of the page
+export default withAuth(SettingsPage);
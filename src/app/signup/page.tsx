@@ -100,7 +100,7 @@ export default function SignUpPage() {
       
       toast({
         title: "✨ Account created successfully",
-        description: "You can now log in with your credentials",
+        description: "Check your inbox for a link to verify your email address",
         duration: 5000,
       });
       
@@ -0,0 +1,179 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { Suspense, useEffect, useRef, useState } from "react";
+import { AlertCircle, Loader2, Mail } from "lucide-react";
+import { resendVerificationEmail, verifyEmail } from "@/app/auth-actions";
+import { validateEmail } from "@/lib/auth/validation";
+import { Section } from "@/components/common/Section";
+import AuthLogo from "@/components/auth/AuthLogo";
+
+const inputClasses = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 transition-all";
+
+const linkClasses = "text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline font-medium";
+
+function ErrorMessage({ message }: { message: string }) {
+  return (
+    <div className="flex gap-3 rounded-lg bg-destructive/10 p-4 border border-destructive/20">
+      <AlertCircle className="h-5 w-5 text-destructive" aria-hidden="true" />
+      <p className="text-sm text-destructive">{message}</p>
+    </div>
+  );
+}
+
+// Opened from the link in the verification email
+function ConfirmVerification({ token }: { token: string }) {
+  const { status, update } = useSession();
+  const [result, setResult] = useState<{ success: boolean; message?: string } | null>(null);
+  // The token only works once, so it must not be sent again on a re-render
+  const isSent = useRef(false);
+
+  useEffect(() => {
+    if (isSent.current) return;
+    isSent.current = true;
+
+    verifyEmail(token)
+      .then((response) => setResult({ success: response.success, message: response.error?.message }))
+      .catch((err) => {
+        console.error("Email verification error:", err);
+        setResult({ success: false, message: "An unexpected error occurred. Please try again." });
+      });
+  }, [token]);
+
+  // Signed in sessions still say the email is unverified until refreshed
+  useEffect(() => {
+    if (result?.success && status === "authenticated") {
+      update();
+    }
+  }, [result, status, update]);
+
+  if (!result) {
+    return <Loader2 className="h-6 w-6 animate-spin text-primary" />;
+  }
+
+  if (!result.success) {
+    return (
+      <div className="space-y-4">
+        <ErrorMessage message={result.message || "This verification link is invalid or has expired."} />
+        <ResendVerification />
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-sm">
+      Your email address has been verified.{" "}
+      <Link href={status === "authenticated" ? "/" : "/login"} className={linkClasses}>
+        {status === "authenticated" ? "Continue" : "Log in"}
+      </Link>
+    </p>
+  );
+}
+
+// Asks for another verification email
+function ResendVerification() {
+  const { data: session } = useSession();
+  const initialEmail = useSearchParams().get("email") || session?.user?.email || "";
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const email = new FormData(e.currentTarget).get("email") as string;
+    if (!validateEmail(email)) {
+      setError("Invalid email format");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await resendVerificationEmail(email);
+      if (!result.success) {
+        setError(result.error?.message || "An unexpected error occurred. Please try again.");
+        return;
+      }
+      setSentTo(email);
+    } catch (err) {
+      console.error("Verification email request error:", err);
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {sentTo ? (
+        <p className="text-sm">
+          If <span className="font-medium">{sentTo}</span> has an account that still needs verifying, we have
+          sent it a new link, unless one went out in the last minute. The link works for one day.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          We sent a link to verify your email address when you signed up. Can&apos;t find it? Ask for a new one.
+        </p>
+      )}
+
+      {error && <ErrorMessage message={error} />}
+
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium mb-2">
+          Email address
+        </label>
+        <input
+          id="email"
+          name="email"
+          type="email"
+          autoComplete="email"
+          defaultValue={initialEmail}
+          required
+          className={inputClasses}
+          disabled={isLoading}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isLoading}
+        className="flex w-full items-center justify-center gap-2 rounded-md bg-[rgb(210,50,170)] px-6 py-3 text-sm font-semibold text-white shadow-sm hover:bg-[rgb(180,40,150)] focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[rgb(210,50,170)] transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail size={18} strokeWidth={1.5} />}
+        <span>{isLoading ? "Sending..." : "Send verification link"}</span>
+      </button>
+
+      <p className="text-sm text-center text-muted-foreground">
+        Already verified?{" "}
+        <Link href="/login" className={linkClasses}>
+          Log in
+        </Link>
+      </p>
+    </form>
+  );
+}
+
+function VerifyEmailContent() {
+  // The token comes from the link in the verification email
+  const token = useSearchParams().get("token");
+  return token ? <ConfirmVerification token={token} /> : <ResendVerification />;
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="relative min-h-screen">
+      <main className="container mx-auto h-screen px-3 py-4 sm:px-4 sm:py-12 max-w-6xl relative flex flex-col items-center justify-center">
+        <AuthLogo />
+
+        <Section title="Verify your email" className="w-[450px]">
+          <Suspense fallback={<Loader2 className="h-6 w-6 animate-spin text-primary" />}>
+            <VerifyEmailContent />
+          </Suspense>
+        </Section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { PageHeader } from "@/components/layout/PageHeader";
+import { WorkspaceManager } from "@/components/workspaces/WorkspaceManager";
+import withAuth from "@/components/auth/withAuth";
+
+function WorkspacesPage() {
+  return (
+    <div className="min-h-screen transition-colors duration-200">
+      <main className="container mx-auto px-3 py-4 sm:px-4 max-w-3xl">
+        <PageHeader />
+
+        <div className="mt-8 space-y-8">
+          <Link
+            href="/subscriptions"
+            className="inline-flex items-center gap-2 text-sm text-muted hover:text-foreground transition-colors"
+          >
+            <ArrowLeft size={16} />
+            Back to subscriptions
+          </Link>
+
+          <WorkspaceManager />
+        </div>
+      </main>
+    </div>
+  );
+}
+
+// Export the protected version of the page
+export default withAuth(WorkspacesPage);
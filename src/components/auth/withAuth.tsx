@@ -8,7 +8,8 @@ import { AuthenticatingSpinner } from './AuthenticatingSpinner';
 
 /**
  * Higher-order component that protects routes by requiring authentication
- * Redirects to login page if user is not authenticated
+ * Redirects to login page if user is not authenticated, and to the email
+ * verification page if unverified accounts are restricted
  */
 export default function withAuth<P extends object>(
   Component: React.ComponentType<P>
@@ -32,6 +33,10 @@ export default function withAuth<P extends object>(
       redirect(AUTH_CONFIG.ROUTES.signIn);
     }
 
+    if (AUTH_CONFIG.UNVERIFIED_ACCOUNTS === 'restrict' && session?.user?.emailVerified === false) {
+      redirect(AUTH_CONFIG.ROUTES.verifyEmail);
+    }
+
     // User is authenticated, render the protected component
     return <Component {...props} />;
   };
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CalendarDays, Copy, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+
+function getFeedUrl(token: string) {
+  return `${window.location.origin}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Shows the secret calendar feed URL and lets the user replace it
+ */
+export function CalendarFeedSettings() {
+  const [token, setToken] = useState<string | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/user/calendar-token")
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+        return response.json();
+      })
+      .then((data: { token: string }) => {
+        if (!cancelled) setToken(data.token);
+      })
+      .catch((err) => console.error("Error loading calendar token:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleCopy = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(getFeedUrl(token));
+    toast({
+      title: "Copied",
+      description: "Calendar URL copied to clipboard",
+    });
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm("Calendars subscribed to the current URL will stop updating. Continue?")) {
+      return;
+    }
+
+    setIsRegenerating(true);
+    try {
+      const response = await fetch("/api/user/calendar-token", { method: "POST" });
+      if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+      const data: { token: string } = await response.json();
+      setToken(data.token);
+      toast({
+        title: "Calendar URL replaced",
+        description: "Subscribe to the new URL in your calendar apps",
+      });
+    } catch (error) {
+      console.error("Error regenerating calendar token:", error);
+      toast({
+        title: "Error",
+        description: "Failed to replace the calendar URL",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 text-sm text-muted">
+        <CalendarDays className="w-5 h-5 mt-0.5 shrink-0" />
+        <p>
+          Subscribe to this URL in Google Calendar, Apple Calendar or Outlook to see
+          every upcoming renewal. Keep it private: anyone with the URL can see your
+          subscriptions.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          readOnly
+          value={token ? getFeedUrl(token) : "Loading..."}
+          onFocus={(e) => e.target.select()}
+          aria-label="Calendar URL"
+          className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
+        />
+        <Button variant="outline" onClick={handleCopy} disabled={!token} aria-label="Copy calendar URL">
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Button variant="outline" onClick={handleRegenerate} disabled={!token || isRegenerating}>
+        <RefreshCw className={`w-4 h-4 mr-2 ${isRegenerating ? "animate-spin" : ""}`} />
+        Regenerate URL
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, FileSpreadsheet } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { usePreferences } from "@/contexts/PreferencesContext";
+import { reloadWithToast } from "@/lib/toast-after-reload";
+import { parseCsv } from "@/lib/subscriptions/utils/csv";
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportDateFormat,
+  ImportField,
+  guessColumnMapping,
+  prepareImportRows,
+} from "@/lib/subscriptions/utils/csv-import";
+import { formatCurrency } from "@/lib/subscriptions/utils/currency";
+
+const DATE_FORMATS: { value: ImportDateFormat; label: string }[] = [
+  { value: "DMY", label: "Day/Month/Year" },
+  { value: "MDY", label: "Month/Day/Year" },
+  { value: "YMD", label: "Year/Month/Day" },
+];
+
+const selectClasses =
+  "h-9 w-full rounded-md border border-input bg-background px-2 text-sm";
+
+/**
+ * Maps the columns of a CSV file onto subscription fields, previews the
+ * resulting rows with their errors and imports the valid ones
+ */
+export function CsvImportSheet({
+  text,
+  onClose,
+}: {
+  // CSV content; the sheet is open while set
+  text: string | null;
+  onClose: () => void;
+}) {
+  const { categories } = useCategories();
+  const { preferredCurrency } = usePreferences();
+  const { toast } = useToast();
+  const table = useMemo(() => (text ? parseCsv(text) : []), [text]);
+  const headers = table[0];
+  const dataRows = useMemo(() => table.slice(1), [table]);
+  const guessedMapping = useMemo(() => guessColumnMapping(headers || []), [headers]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>("DMY");
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start from the guessed mapping until the user changes it
+  const columnMapping = mapping || guessedMapping;
+  const rows = useMemo(
+    () =>
+      prepareImportRows(dataRows, columnMapping, {
+        dateFormat,
+        defaultCurrency: preferredCurrency,
+        categories,
+      }),
+    [dataRows, columnMapping, dateFormat, preferredCurrency, categories]
+  );
+  const validRows = rows.filter((row) => row.data);
+  const missingRequired = IMPORT_FIELDS.filter(
+    ({ field, required }) => required && columnMapping[field] === undefined
+  );
+
+  const handleClose = () => {
+    setMapping(null);
+    onClose();
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const next = { ...columnMapping };
+    if (value === "") delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const response = await fetch("/api/subscriptions/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptions: validRows.map((row) => row.data) }),
+      });
+      if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+
+      const result: { created: number; skipped: unknown[] } = await response.json();
+      const invalid = rows.length - validRows.length;
+      handleClose();
+      reloadWithToast({
+        title: "Import finished",
+        description:
+          `${result.created} subscriptions imported` +
+          (result.skipped.length > 0 ? `, ${result.skipped.length} skipped as duplicates or invalid` : "") +
+          (invalid > 0 ? `, ${invalid} rows with errors left out` : ""),
+      });
+    } catch (error) {
+      console.error("Error importing subscriptions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to import subscriptions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Sheet open={text !== null} onOpenChange={(open) => !open && handleClose()}>
+      <SheetContent className="sm:max-w-3xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Import from CSV</SheetTitle>
+          <SheetDescription>
+            Choose which column holds each field, then check the preview.
+            Rows with errors are not imported.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!headers || dataRows.length === 0 ? (
+          <div className="mt-8 flex items-center gap-2 text-sm text-muted">
+            <FileSpreadsheet className="w-5 h-5" />
+            The file has no data rows.
+          </div>
+        ) : (
+          <div className="mt-8 space-y-6">
+            {/* Column mapping */}
+            <div className="grid gap-3 sm:grid-cols-3">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <label key={field} className="space-y-1 text-sm text-foreground">
+                  <span>
+                    {label}
+                    {required && " *"}
+                  </span>
+                  <select
+                    value={columnMapping[field] ?? ""}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className={selectClasses}
+                  >
+                    <option value="">Not in file</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="space-y-1 text-sm text-foreground">
+                <span>Date format</span>
+                <select
+                  value={dateFormat}
+                  onChange={(e) => setDateFormat(e.target.value as ImportDateFormat)}
+                  className={selectClasses}
+                >
+                  {DATE_FORMATS.map(({ value, label }) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {/* Preview */}
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800/50 text-left text-muted">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Line</th>
+                    <th className="px-3 py-2 font-medium">Name</th>
+                    <th className="px-3 py-2 font-medium">Price</th>
+                    <th className="px-3 py-2 font-medium">Period</th>
+                    <th className="px-3 py-2 font-medium">Start</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr
+                      key={row.line}
+                      className={
+                        row.errors.length > 0
+                          ? "bg-red-50 dark:bg-red-900/10"
+                          : row.warnings.length > 0
+                            ? "bg-amber-50 dark:bg-amber-900/10"
+                            : ""
+                      }
+                    >
+                      <td className="px-3 py-2 text-muted">{row.line}</td>
+                      <td className="px-3 py-2 text-foreground">
+                        {row.data?.name || dataRows[index][columnMapping.name ?? -1] || "—"}
+                      </td>
+                      <td className="px-3 py-2 text-foreground">
+                        {row.data ? formatCurrency(row.data.price, row.data.currency) : "—"}
+                      </td>
+                      <td className="px-3 py-2 text-foreground">{row.data?.billingPeriod.toLowerCase() || "—"}</td>
+                      <td className="px-3 py-2 text-foreground">{row.data?.startDate || "—"}</td>
+                      <td className="px-3 py-2">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600 dark:text-red-400">{row.errors.join("; ")}</span>
+                        ) : row.warnings.length > 0 ? (
+                          <span className="flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                            <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                            {row.warnings.join("; ")}
+                          </span>
+                        ) : (
+                          <span className="text-muted">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted">
+                {missingRequired.length > 0
+                  ? `Choose a column for ${missingRequired.map((f) => f.label.toLowerCase()).join(" and ")}`
+                  : `${validRows.length} of ${rows.length} rows ready to import`}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={handleClose}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="golden"
+                  onClick={handleImport}
+                  disabled={validRows.length === 0 || isImporting}
+                >
+                  Import {validRows.length > 0 ? validRows.length : ""}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { Download, HardDrive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Downloads the user's subscriptions as a JSON backup or a CSV spreadsheet
+ */
+export function ExportSettings() {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 text-sm text-muted">
+        <HardDrive className="w-5 h-5 mt-0.5 shrink-0" />
+        <p>
+          The JSON backup keeps everything, including categories, trials,
+          reminders and price history, and can be imported again from the header. The CSV file
+          opens in any spreadsheet app.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" asChild>
+          <a href="/api/export?format=json">
+            <Download className="w-4 h-4 mr-2" />
+            JSON backup
+          </a>
+        </Button>
+        <Button variant="outline" asChild>
+          <a href="/api/export?format=csv">
+            <Download className="w-4 h-4 mr-2" />
+            CSV spreadsheet
+          </a>
+        </Button>
+      </div>
+    </div>
+  );
+}
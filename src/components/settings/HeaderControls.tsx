@@ -1,11 +1,17 @@
 "use client";
 
-import { Download, Upload } from "lucide-react";
-import { useCallback } from "react";
+import { Download, Settings, Upload, Users } from "lucide-react";
+import { useCallback, useState } from "react";
+import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { useToast } from "@/components/ui/use-toast";
-
-const BASE_STORAGE_KEY = "subscriptions";
+import { usePreferences } from "@/contexts/PreferencesContext";
+import { CURRENCY_ORDER } from "@/lib/subscriptions/config/currencies";
+import { Currency } from "@/types/subscriptions";
+import { STATEMENT_FILE_EXTENSIONS, detectStatementFormat } from "@/lib/statements";
+import { reloadWithToast } from "@/lib/toast-after-reload";
+import { CsvImportSheet } from "./CsvImportSheet";
+import { StatementImportSheet } from "./StatementImportSheet";
 
 function Controls({
   storageActions,
@@ -15,10 +21,14 @@ function Controls({
     exportData: () => void;
   };
 }) {
+  const { toast } = useToast();
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [statementText, setStatementText] = useState<string | null>(null);
+
   const handleImport = useCallback(async () => {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".json";
+    input.accept = [".csv", ".json", ...STATEMENT_FILE_EXTENSIONS].join(",");
 
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
@@ -26,19 +36,35 @@ function Controls({
 
       try {
         const text = await file.text();
+        // Bank statements are searched for recurring charges
+        if (detectStatementFormat(text)) {
+          setStatementText(text);
+          return;
+        }
+        // CSV files go through column mapping and preview first
+        if (file.name.toLowerCase().endsWith(".csv") || file.type === "text/csv") {
+          setCsvText(text);
+          return;
+        }
         const data = JSON.parse(text);
         await storageActions.importData(data);
       } catch (error) {
         console.error("Error importing data:", error);
-        alert("Error importing data. Please check the file format.");
+        toast({
+          title: "Error",
+          description: "Error importing data. Please check the file format.",
+          variant: "destructive",
+        });
       }
     };
 
     input.click();
-  }, [storageActions]);
+  }, [storageActions, toast]);
 
   return (
     <div className="flex justify-end gap-2">
+      <CurrencySwitcher />
+
       <HeaderButton onClick={handleImport} aria-label="Import subscriptions">
         <Upload size={20} strokeWidth={1.5} />
       </HeaderButton>
@@ -49,10 +75,68 @@ function Controls({
       >
         <Download size={20} strokeWidth={1.5} />
       </HeaderButton>
+
+      <Link
+        href="/workspaces"
+        aria-label="Workspaces"
+        className="w-10 h-10 rounded-full flex items-center justify-center
+          text-foreground/70 hover:text-foreground dark:text-foreground/60 dark:hover:text-foreground transition-colors duration-200"
+      >
+        <Users size={20} strokeWidth={1.5} />
+      </Link>
+
+      <Link
+        href="/settings"
+        aria-label="Settings"
+        className="w-10 h-10 rounded-full flex items-center justify-center
+          text-foreground/70 hover:text-foreground dark:text-foreground/60 dark:hover:text-foreground transition-colors duration-200"
+      >
+        <Settings size={20} strokeWidth={1.5} />
+      </Link>
+
+      <CsvImportSheet text={csvText} onClose={() => setCsvText(null)} />
+      <StatementImportSheet text={statementText} onClose={() => setStatementText(null)} />
     </div>
   );
 }
 
+function CurrencySwitcher() {
+  const { data: session } = useSession();
+  const { preferredCurrency, setPreferredCurrency } = usePreferences();
+  const { toast } = useToast();
+
+  if (!session?.user) return null;
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    try {
+      await setPreferredCurrency(e.target.value as Currency);
+    } catch (error) {
+      console.error("Error saving preferred currency:", error);
+      toast({
+        title: "Error",
+        description: "Failed to change display currency",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <select
+      value={preferredCurrency}
+      onChange={handleChange}
+      aria-label="Display currency"
+      className="h-10 rounded-full bg-transparent px-2 text-sm
+        text-foreground/70 hover:text-foreground dark:text-foreground/60 dark:hover:text-foreground transition-colors duration-200"
+    >
+      {CURRENCY_ORDER.map((currency) => (
+        <option key={currency} value={currency}>
+          {currency}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 function HeaderButton({
   children,
   ...props
@@ -72,17 +156,11 @@ export function HeaderControls() {
   const { data: session } = useSession();
   const { toast } = useToast();
 
-  const getStorageKey = () => {
-    if (!session?.user?.id) return null;
-    return `${BASE_STORAGE_KEY}_${session.user.id}`;
-  };
-
   return (
     <Controls
       storageActions={{
         importData: async (data) => {
-          const storageKey = getStorageKey();
-          if (!storageKey) {
+          if (!session?.user) {
             toast({
               title: "Error",
               description: "You must be logged in to import data",
@@ -92,30 +170,37 @@ export function HeaderControls() {
           }
 
           try {
-            // Validate the imported data structure
-            if (!Array.isArray(data)) {
-              throw new Error("Invalid data format: expected an array");
+            // Backups of any version are upgraded on the server
+            const response = await fetch("/api/subscriptions/import", {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ backup: data }),
+            });
+            const result = await response.json();
+            if (!response.ok) {
+              throw new Error(result.error || `HTTP error ${response.status}`);
             }
 
-            localStorage.setItem(storageKey, JSON.stringify(data));
-            window.location.reload();
-            toast({
+            reloadWithToast({
               title: "Success",
-              description: "Subscriptions imported successfully",
+              description:
+                `${result.created} subscriptions imported` +
+                (result.skipped.length > 0 ? `, ${result.skipped.length} skipped as duplicates or invalid` : ""),
             });
           } catch (error) {
             console.error("Error importing data:", error);
             toast({
               title: "Error",
               description:
-                "Failed to import data. Please check the file format.",
+                error instanceof Error && error.message
+                  ? error.message
+                  : "Failed to import data. Please check the file format.",
               variant: "destructive",
             });
           }
         },
         exportData: () => {
-          const storageKey = getStorageKey();
-          if (!storageKey || !session?.user?.email) {
+          if (!session?.user) {
             toast({
               title: "Error",
               description: "You must be logged in to export data",
@@ -124,34 +209,12 @@ export function HeaderControls() {
             return;
           }
 
-          try {
-            const data = localStorage.getItem(storageKey) || "[]";
-            const blob = new Blob([data], { type: "application/json" });
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement("a");
-            a.href = url;
-            // Use a default name if email is not available (shouldn't happen due to the check above)
-            const filename = session.user.email
-              ? `subscriptions_${session.user.email.split("@")[0]}.json`
-              : "subscriptions_export.json";
-            a.download = filename;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
-
-            toast({
-              title: "Success",
-              description: "Subscriptions exported successfully",
-            });
-          } catch (error) {
-            console.error("Error exporting data:", error);
-            toast({
-              title: "Error",
-              description: "Failed to export data",
-              variant: "destructive",
-            });
-          }
+          // The server names the file and sends it as an attachment
+          const a = document.createElement("a");
+          a.href = "/api/export?format=json";
+          document.body.appendChild(a);
+          a.click();
+          document.body.removeChild(a);
         },
       }}
     />
@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { signIn } from "next-auth/react";
+import { Link2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { OAuthProviderStatus } from "@/types/auth";
+
+// Why linking failed, from the linkError parameter the sign-in redirects back with
+const LINK_ERROR_MESSAGES: Record<string, string> = {
+  OAuthAccountNotLinked: "That account is already linked to another user.",
+  provider_already_linked: "Another account from this provider is already linked. Unlink it first.",
+};
+
+/**
+ * Links GitHub and Google accounts to log in with, and unlinks them
+ * Only providers configured on the server are listed.
+ */
+export function LinkedAccountsSettings() {
+  const [providers, setProviders] = useState<OAuthProviderStatus[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/user/linked-accounts")
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+        return response.json();
+      })
+      .then((data: OAuthProviderStatus[]) => {
+        if (!cancelled) setProviders(data);
+      })
+      .catch((err) => console.error("Error loading linked accounts:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Linking comes back to this page, with linkError if it failed
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const linkError = params.get("linkError");
+    if (!linkError) return;
+
+    toast({
+      title: "Account not linked",
+      description: LINK_ERROR_MESSAGES[linkError] || "Linking the account failed. Please try again.",
+      variant: "destructive",
+    });
+    params.delete("linkError");
+    const query = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  }, [toast]);
+
+  const handleUnlink = async (provider: OAuthProviderStatus) => {
+    if (!confirm(`Stop logging in with ${provider.name}? You can still log in with your password.`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/user/linked-accounts/${provider.id}`, { method: "DELETE" });
+      if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+      setProviders((current) =>
+        (current || []).map((existing) => (existing.id === provider.id ? { ...existing, account: null } : existing))
+      );
+    } catch (error) {
+      console.error("Error unlinking account:", error);
+      toast({
+        title: "Error",
+        description: `Failed to unlink your ${provider.name} account`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!providers) {
+    return <p className="text-sm text-muted">Loading...</p>;
+  }
+
+  if (providers.length === 0) {
+    return <p className="text-sm text-muted">No sign-in providers are set up on this server.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+      {providers.map((provider) => (
+        <li key={provider.id} className="flex items-center justify-between gap-4 py-2">
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-foreground">{provider.name}</p>
+            <p className="truncate text-xs text-muted">
+              {provider.account ? `Linked to ${provider.account.email}` : "Not linked"}
+            </p>
+          </div>
+
+          {provider.account ? (
+            <Button variant="outline" size="sm" onClick={() => handleUnlink(provider)} disabled={isSaving}>
+              <Unlink className="w-4 h-4 mr-2" />
+              Unlink
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => signIn(provider.id, { callbackUrl: "/settings" })}
+              disabled={isSaving}
+            >
+              <Link2 className="w-4 h-4 mr-2" />
+              Link
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
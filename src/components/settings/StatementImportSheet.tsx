@@ -0,0 +1,243 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Landmark } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { usePreferences } from "@/contexts/PreferencesContext";
+import {
+  RecurringCandidate,
+  StatementParseError,
+  findRecurringCharges,
+  parseStatement,
+} from "@/lib/statements";
+import { BILLING_PERIODS } from "@/lib/subscriptions/config/periods";
+import { formatCurrency } from "@/lib/subscriptions/utils/currency";
+import { getDuplicateKey } from "@/lib/subscriptions/utils/duplicates";
+import { subscriptionApi } from "@/lib/subscriptions/api";
+import { reloadWithToast } from "@/lib/toast-after-reload";
+import { SubscriptionFormData } from "@/types/subscriptions";
+
+// Candidates at least this certain are selected up front
+const PRESELECT_CONFIDENCE = 0.5;
+
+// Key matching a candidate, under the name it is added as, to tracked subscriptions
+const candidateKey = (candidate: RecurringCandidate, name: string = candidate.name) =>
+  getDuplicateKey({ name, price: candidate.amount, currency: candidate.currency, billingPeriod: candidate.billingPeriod });
+
+/**
+ * Finds recurring charges in a bank statement and lets the user pick which
+ * ones to add as subscriptions. The statement is only read in the browser.
+ */
+export function StatementImportSheet({
+  text,
+  onClose,
+}: {
+  // Statement content; the sheet is open while set
+  text: string | null;
+  onClose: () => void;
+}) {
+  const { preferredCurrency } = usePreferences();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  // Duplicate keys of the subscriptions the user already tracks
+  const [tracked, setTracked] = useState<Set<string>>(new Set());
+
+  const { candidates, error } = useMemo((): { candidates: RecurringCandidate[]; error: string | null } => {
+    if (!text) return { candidates: [], error: null };
+    try {
+      return {
+        candidates: findRecurringCharges(parseStatement(text, { defaultCurrency: preferredCurrency })),
+        error: null,
+      };
+    } catch (err) {
+      if (!(err instanceof StatementParseError)) console.error("Error reading statement:", err);
+      return { candidates: [], error: err instanceof Error ? err.message : "The statement could not be read" };
+    }
+  }, [text, preferredCurrency]);
+
+  useEffect(() => {
+    if (!text) return;
+    let cancelled = false;
+
+    subscriptionApi.list()
+      .then((subscriptions) => {
+        if (!cancelled) setTracked(new Set(subscriptions.map(getDuplicateKey)));
+      })
+      .catch((err) => console.error("Error loading subscriptions:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [text]);
+
+  const nameOf = (candidate: RecurringCandidate) => (names[candidate.key] ?? candidate.name).trim() || candidate.name;
+  const isTracked = (candidate: RecurringCandidate) => tracked.has(candidateKey(candidate, nameOf(candidate)));
+  const toAdd = candidates.filter((candidate) => selected.has(candidate.key) && !isTracked(candidate));
+
+  useEffect(() => {
+    setSelected(new Set(
+      candidates
+        .filter((candidate) => candidate.isActive && candidate.confidence >= PRESELECT_CONFIDENCE)
+        .filter((candidate) => !tracked.has(candidateKey(candidate)))
+        .map((candidate) => candidate.key)
+    ));
+  }, [candidates, tracked]);
+
+  useEffect(() => {
+    setNames({});
+  }, [candidates]);
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setSelected(next);
+  };
+
+  const handleAccept = async () => {
+    const subscriptions: SubscriptionFormData[] = toAdd.map((candidate) => ({
+      name: nameOf(candidate),
+      price: candidate.amount,
+      currency: candidate.currency,
+      billingPeriod: candidate.billingPeriod,
+      startDate: candidate.startDate,
+    }));
+
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/statements/accept", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ subscriptions }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || `HTTP error ${response.status}`);
+
+      onClose();
+      reloadWithToast({
+        title: "Subscriptions added",
+        description:
+          `${result.created} subscriptions added from your statement` +
+          (result.skipped.length > 0 ? `, ${result.skipped.length} skipped as already tracked` : ""),
+      });
+    } catch (err) {
+      console.error("Error adding detected subscriptions:", err);
+      toast({
+        title: "Error",
+        description: "Failed to add the selected subscriptions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={text !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-3xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Find subscriptions in a statement</SheetTitle>
+          <SheetDescription>
+            Charges that repeat at a regular interval are listed below. Pick the
+            ones to track; your statement is not uploaded.
+          </SheetDescription>
+        </SheetHeader>
+
+        {error || candidates.length === 0 ? (
+          <div className="mt-8 flex items-center gap-2 text-sm text-muted">
+            <Landmark className="w-5 h-5 shrink-0" />
+            {error || "No recurring charges were found. Statements covering several months work best."}
+          </div>
+        ) : (
+          <div className="mt-8 space-y-6">
+            <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800/50 text-left text-muted">
+                  <tr>
+                    <th className="px-3 py-2" />
+                    <th className="px-3 py-2 font-medium">Name</th>
+                    <th className="px-3 py-2 font-medium">Price</th>
+                    <th className="px-3 py-2 font-medium">Period</th>
+                    <th className="px-3 py-2 font-medium">Since</th>
+                    <th className="px-3 py-2 font-medium">Charges</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {candidates.map((candidate) => {
+                    const alreadyTracked = isTracked(candidate);
+                    return (
+                      <tr
+                        key={candidate.key}
+                        className={candidate.isActive && !alreadyTracked ? "" : "text-muted"}
+                        title={candidate.transactions.map((t) => `${t.date}  ${t.description}`).join("\n")}
+                      >
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(candidate.key) && !alreadyTracked}
+                            disabled={alreadyTracked}
+                            onChange={() => toggle(candidate.key)}
+                            aria-label={`Add ${candidate.name}`}
+                            className="h-4 w-4 accent-yellow-500"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            value={names[candidate.key] ?? candidate.name}
+                            onChange={(e) => setNames({ ...names, [candidate.key]: e.target.value })}
+                            className="h-8 w-full min-w-[8rem] rounded-md border border-input bg-background px-2 text-sm text-foreground"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-foreground whitespace-nowrap">
+                          {formatCurrency(candidate.amount, candidate.currency)}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {BILLING_PERIODS[candidate.billingPeriod].label}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">{candidate.startDate}</td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {candidate.occurrences}
+                          {!candidate.isActive && ` · last ${candidate.lastChargeDate}`}
+                          {alreadyTracked && " · already tracked"}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted">
+                Greyed out charges have stopped before the end of the statement
+                or are already tracked.
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="golden"
+                  onClick={handleAccept}
+                  disabled={toAdd.length === 0 || isSaving}
+                >
+                  Add {toAdd.length > 0 ? toAdd.length : ""}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
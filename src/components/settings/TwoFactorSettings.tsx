@@ -0,0 +1,258 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Copy, KeyRound, RefreshCw, ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { TwoFactorEnrollment, TwoFactorStatus } from "@/types/auth";
+
+const inputClasses = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono";
+
+// Easier to type into an app in groups of four
+function formatSecret(secret: string) {
+  return secret.match(/.{1,4}/g)?.join(" ") || secret;
+}
+
+/**
+ * Turns two-factor authentication with an authenticator app on and off, and
+ * replaces recovery codes. Turning it off or replacing codes needs a current code.
+ */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  // Only shown once, straight after they are created
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch("/api/user/two-factor")
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+        return response.json();
+      })
+      .then((data: TwoFactorStatus) => {
+        if (!cancelled) setStatus(data);
+      })
+      .catch((err) => console.error("Error loading two-factor status:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Run a request, reporting failures as a toast
+  const send = async (url: string, init: RequestInit, failure: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = response.status === 204 ? null : await response.json();
+      if (!response.ok) throw new Error(data?.error || `HTTP error ${response.status}`);
+      return { ok: true, data };
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
+      return { ok: false, data: null };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const result = await send("/api/user/two-factor", { method: "POST" }, "Failed to start setup");
+    if (result.ok) {
+      setEnrollment(result.data);
+      setCode("");
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await send(
+      "/api/user/two-factor",
+      { method: "PUT", body: JSON.stringify({ code }) },
+      "Failed to turn on two-factor authentication"
+    );
+    if (result.ok) {
+      setEnrollment(null);
+      setRecoveryCodes(result.data.recoveryCodes);
+      setStatus({ enabled: true, recoveryCodesLeft: result.data.recoveryCodes.length });
+      setCode("");
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!confirm("Your current recovery codes will stop working. Continue?")) return;
+
+    const result = await send(
+      "/api/user/two-factor/recovery-codes",
+      { method: "POST", body: JSON.stringify({ code }) },
+      "Failed to replace recovery codes"
+    );
+    if (result.ok) {
+      setRecoveryCodes(result.data.recoveryCodes);
+      setStatus({ enabled: true, recoveryCodesLeft: result.data.recoveryCodes.length });
+      setCode("");
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!confirm("Logging in will only need your password. Turn off two-factor authentication?")) return;
+
+    const result = await send(
+      "/api/user/two-factor",
+      { method: "DELETE", body: JSON.stringify({ code }) },
+      "Failed to turn off two-factor authentication"
+    );
+    if (result.ok) {
+      setStatus({ enabled: false, recoveryCodesLeft: 0 });
+      setCode("");
+      toast({
+        title: "Two-factor authentication turned off",
+        description: "Logging in now only needs your password",
+      });
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to clipboard",
+    });
+  };
+
+  if (!status) {
+    return <p className="text-sm text-muted">Loading...</p>;
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted">
+          Keep these recovery codes somewhere safe. Each one logs you in once if you lose your
+          authenticator app. They will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 dark:bg-gray-800/50 p-3 font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleCopyCodes}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy codes
+          </Button>
+          <Button onClick={() => setRecoveryCodes(null)}>I have saved them</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (enrollment) {
+    return (
+      <form onSubmit={handleConfirm} className="space-y-4">
+        <p className="text-sm text-muted">
+          Add this account to an authenticator app such as Google Authenticator, 1Password or
+          Authy, then enter the code it shows.
+        </p>
+        <a
+          href={enrollment.uri}
+          className="inline-block text-sm text-[rgb(210,50,170)] hover:text-[rgb(180,40,150)] hover:underline font-medium"
+        >
+          Open in authenticator app
+        </a>
+        <div>
+          <p className="text-sm text-muted mb-1">Or enter this key:</p>
+          <input
+            type="text"
+            readOnly
+            value={formatSecret(enrollment.secret)}
+            onFocus={(e) => e.target.select()}
+            aria-label="Authenticator key"
+            className={inputClasses}
+          />
+        </div>
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="6-digit code"
+          aria-label="Authentication code"
+          className={inputClasses}
+        />
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isSaving || !code.trim()}>
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Turn on
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={isSaving}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!status.enabled) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-3 text-sm text-muted">
+          <KeyRound className="w-5 h-5 mt-0.5 shrink-0" />
+          <p>
+            Protect your account with a code from an authenticator app as well as your
+            password when you log in.
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleStart} disabled={isSaving}>
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Set up two-factor authentication
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 text-sm text-muted">
+        <ShieldCheck className="w-5 h-5 mt-0.5 shrink-0 text-green-600" />
+        <p>
+          Two-factor authentication is on. You have {status.recoveryCodesLeft} recovery{" "}
+          {status.recoveryCodesLeft === 1 ? "code" : "codes"} left.
+        </p>
+      </div>
+      <input
+        type="text"
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="Current code or recovery code"
+        aria-label="Authentication code"
+        className={inputClasses}
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleRegenerate} disabled={isSaving || !code.trim()}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          New recovery codes
+        </Button>
+        <Button variant="outline" onClick={handleDisable} disabled={isSaving || !code.trim()} className="text-red-600">
+          <ShieldOff className="w-4 h-4 mr-2" />
+          Turn off
+        </Button>
+      </div>
+    </div>
+  );
+}
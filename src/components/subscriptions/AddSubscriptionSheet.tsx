@@ -7,26 +7,50 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { PlusCircle } from "lucide-react";
+import { AlertTriangle, PlusCircle } from "lucide-react";
 import { SubscriptionForm } from "./SubscriptionForm";
-import { SubscriptionFormData } from "@/types/subscriptions";
+import { BudgetStatus, SubscriptionFormData } from "@/types/subscriptions";
+import { formatCurrency } from "@/lib/subscriptions/utils/currency";
+import { useCategories } from "@/contexts/CategoriesContext";
 
 interface AddSubscriptionSheetProps {
   onSubmit: (data: SubscriptionFormData) => void;
+  // Budgets the new subscription would exceed; adding then needs confirmation
+  checkBudgets?: (data: SubscriptionFormData) => BudgetStatus[];
   variant?: 'default' | 'destructive' | 'outline' | 'secondary' | 'ghost' | 'link' | 'golden';
   className?: string;
 }
 
 export function AddSubscriptionSheet({ 
   onSubmit, 
+  checkBudgets,
   variant = 'golden',
   className = '' 
 }: AddSubscriptionSheetProps) {
   const [open, setOpen] = React.useState(false);
+  const [pending, setPending] = React.useState<{
+    data: SubscriptionFormData;
+    overruns: BudgetStatus[];
+  } | null>(null);
+  const { categories } = useCategories();
 
-  const handleSubmit = (data: SubscriptionFormData) => {
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setPending(null);
+  };
+
+  const confirmSubmit = (data: SubscriptionFormData) => {
     onSubmit(data);
-    setOpen(false);
+    handleOpenChange(false);
+  };
+
+  const handleSubmit = (data: SubscriptionFormData) => {
+    const overruns = checkBudgets?.(data) || [];
+    if (overruns.length > 0) {
+      setPending({ data, overruns });
+      return;
+    }
+    confirmSubmit(data);
   };
 
   return (
@@ -41,7 +65,7 @@ export function AddSubscriptionSheet({
         Add New
       </Button>
 
-      <Sheet open={open} onOpenChange={setOpen}>
+      <Sheet open={open} onOpenChange={handleOpenChange}>
         <SheetContent className="sm:max-w-xl">
           <SheetHeader>
             <SheetTitle>Add New Subscription</SheetTitle>
@@ -51,13 +75,47 @@ export function AddSubscriptionSheet({
           </SheetHeader>
 
           <div className="mt-8">
-            <SubscriptionForm
-              onSubmit={handleSubmit}
-              onCancel={() => setOpen(false)}
-            />
+            {pending && (
+              <div className="space-y-4">
+                <div className="rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/10 p-4">
+                  <div className="flex items-center gap-2 font-medium text-amber-900 dark:text-amber-200">
+                    <AlertTriangle className="w-4 h-4" />
+                    Adding {pending.data.name} would exceed your budget
+                  </div>
+                  <ul className="mt-2 space-y-1 text-sm text-amber-800 dark:text-amber-300">
+                    {pending.overruns.map(status => (
+                      <li key={status.budget.id}>
+                        {status.budget.categoryId === null
+                          ? 'Overall'
+                          : categories.find(c => c.id === status.budget.categoryId)?.name || 'Category'}
+                        : {formatCurrency(status.spent, status.currency)} per month
+                        of {formatCurrency(status.limit, status.currency)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setPending(null)}>
+                    Back
+                  </Button>
+                  <Button variant="golden" onClick={() => confirmSubmit(pending.data)}>
+                    Add Anyway
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Kept mounted while confirming so going back keeps the entered data */}
+            <div className={pending ? 'hidden' : undefined}>
+              <SubscriptionForm
+                onSubmit={handleSubmit}
+                onCancel={() => handleOpenChange(false)}
+              />
+            </div>
           </div>
         </SheetContent>
       </Sheet>
     </>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Budget } from '@/types/subscriptions';
+import { useBudgets } from '@/contexts/BudgetsContext';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useToast } from '@/components/ui/use-toast';
+import { getCurrencyConfig, getMinorUnitStep } from '@/lib/subscriptions/config/currencies';
+import { CategoryIcon } from './CategoryIcon';
+
+function BudgetInput({
+  label,
+  categoryId,
+  budget
+}: {
+  label: React.ReactNode;
+  categoryId: string | null;
+  budget?: Budget;
+}) {
+  const { setBudget, removeBudget } = useBudgets();
+  const { preferredCurrency } = usePreferences();
+  const { toast } = useToast();
+  const currency = budget?.currency || preferredCurrency;
+  const [value, setValue] = useState(budget ? String(budget.amount) : '');
+
+  const handleSave = async () => {
+    const amount = parseFloat(value);
+
+    if (value.trim() !== '' && (Number.isNaN(amount) || amount < 0)) {
+      setValue(budget ? String(budget.amount) : '');
+      return;
+    }
+
+    try {
+      if (value.trim() === '') {
+        if (budget) await removeBudget(categoryId);
+      } else if (amount !== budget?.amount) {
+        await setBudget({ categoryId, amount, currency });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save budget",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-4 text-sm text-foreground">
+      <span className="flex items-center gap-2">{label}</span>
+      <span className="flex items-center gap-2">
+        <input
+          type="number"
+          min="0"
+          step={getMinorUnitStep(currency)}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={handleSave}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          placeholder="No limit"
+          className="w-28 h-8 rounded-md border border-input bg-background px-2 text-sm text-right"
+        />
+        <span className="w-10 text-muted">{getCurrencyConfig(currency).symbol}</span>
+      </span>
+    </label>
+  );
+}
+
+/**
+ * Monthly caps for overall spending and each category.
+ * Amounts are saved when a field loses focus; clearing a field removes the cap.
+ */
+export function BudgetSettings() {
+  const { budgets } = useBudgets();
+  const { categories } = useCategories();
+  const findBudget = (categoryId: string | null) =>
+    budgets.find(budget => budget.categoryId === categoryId);
+
+  // Inputs are keyed by budget id so they pick up budgets once loaded
+  return (
+    <div className="space-y-2">
+      <BudgetInput
+        key={`overall-${findBudget(null)?.id}`}
+        label="Overall"
+        categoryId={null}
+        budget={findBudget(null)}
+      />
+      {categories.map(category => (
+        <BudgetInput
+          key={`${category.id}-${findBudget(category.id)?.id}`}
+          label={
+            <>
+              <span style={{ color: category.color }}>
+                <CategoryIcon icon={category.icon} size={16} />
+              </span>
+              {category.name}
+            </>
+          }
+          categoryId={category.id}
+          budget={findBudget(category.id)}
+        />
+      ))}
+    </div>
+  );
+}
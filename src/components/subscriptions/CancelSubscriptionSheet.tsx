@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Subscription, SubscriptionCancellation } from '@/types/subscriptions';
+import { getPaidThroughDate } from '@/lib/subscriptions/utils/cancellation';
+import { CANCELLATION_REASONS, MAX_CANCELLATION_REASON_LENGTH } from '@/lib/subscriptions/config/cancellation';
+import { getLocalISOString } from '@/utils/dates';
+
+interface CancelSubscriptionSheetProps {
+  subscription: Subscription | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (cancellation: SubscriptionCancellation) => void;
+}
+
+const inputClasses = "mt-1 block w-full rounded-md border border-gray-200 dark:border-gray-700 px-3 py-2 text-sm bg-white dark:bg-gray-800 text-foreground focus:border-accent dark:focus:border-accent focus:ring-accent dark:focus:ring-accent";
+
+/**
+ * Records when and why a subscription was cancelled. Service runs until the
+ * end of the paid period unless another end date is picked.
+ */
+export function CancelSubscriptionSheet({
+  subscription,
+  open,
+  onOpenChange,
+  onConfirm
+}: CancelSubscriptionSheetProps) {
+  const [cancelledAt, setCancelledAt] = useState('');
+  const [effectiveEndDate, setEffectiveEndDate] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (!subscription || !open) return;
+    const today = getLocalISOString(new Date());
+    setCancelledAt(today);
+    setEffectiveEndDate(getLocalISOString(new Date(getPaidThroughDate(subscription, today))));
+    setReason('');
+  }, [subscription, open]);
+
+  const handleCancelledAtChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCancelledAt(e.target.value);
+    if (subscription && e.target.value) {
+      setEffectiveEndDate(getLocalISOString(new Date(getPaidThroughDate(subscription, e.target.value))));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm({
+      cancelledAt: new Date(cancelledAt).toISOString(),
+      effectiveEndDate: new Date(effectiveEndDate).toISOString(),
+      reason: reason.trim() || undefined
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Cancel {subscription?.name}</SheetTitle>
+          <SheetDescription>
+            It keeps counting towards your totals until service ends, and what you would
+            have paid after that is added to your savings.
+          </SheetDescription>
+        </SheetHeader>
+
+        <form onSubmit={handleSubmit} className="mt-8 space-y-6">
+          <div>
+            <label htmlFor="cancelledAt" className="block text-sm font-medium text-foreground">
+              Cancelled on
+            </label>
+            <input
+              type="date"
+              id="cancelledAt"
+              value={cancelledAt}
+              onChange={handleCancelledAtChange}
+              required
+              className={inputClasses}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="effectiveEndDate" className="block text-sm font-medium text-foreground">
+              Service ends on
+            </label>
+            <input
+              type="date"
+              id="effectiveEndDate"
+              value={effectiveEndDate}
+              onChange={(e) => setEffectiveEndDate(e.target.value)}
+              min={cancelledAt}
+              required
+              className={inputClasses}
+            />
+            <p className="mt-1 text-xs text-muted">Defaults to the end of the period you have paid for.</p>
+          </div>
+
+          <div>
+            <label htmlFor="cancellationReason" className="block text-sm font-medium text-foreground">
+              Reason <span className="text-muted font-normal">(optional)</span>
+            </label>
+            <input
+              type="text"
+              id="cancellationReason"
+              list="cancellationReasons"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={MAX_CANCELLATION_REASON_LENGTH}
+              className={inputClasses}
+            />
+            <datalist id="cancellationReasons">
+              {CANCELLATION_REASONS.map(option => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="flex justify-end space-x-4 p-1">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Keep subscription
+            </Button>
+            <Button type="submit" variant="destructive">
+              Cancel subscription
+            </Button>
+          </div>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
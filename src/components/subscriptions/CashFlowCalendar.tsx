@@ -0,0 +1,231 @@
+'use client';
+
+import { useMemo } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Subscription } from '@/types/subscriptions';
+import { CalendarDay, buildCashFlow, buildCashFlowMonth } from '@/lib/subscriptions/utils/cash-flow';
+import { formatCurrency } from '@/lib/subscriptions/utils/currency';
+import { useExchangeRates } from '@/lib/subscriptions/hooks/useExchangeRates';
+import { useDateContext } from '@/contexts/DateContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { getLocalISOString } from '@/utils/dates';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CashFlowCalendarProps {
+  subscriptions: Subscription[];
+}
+
+// Calendar days (YYYY-MM-DD) are handled as midnight UTC
+function parseDay(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+// Monday of the week the day falls in
+function startOfWeek(date: Date): Date {
+  return new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+// First day of the month offset months away, as YYYY-MM-DD
+function shiftMonth(date: string, offset: number): string {
+  const day = parseDay(date);
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + offset, 1)).toISOString().slice(0, 10);
+}
+
+function DayButton({
+  day,
+  maxTotal,
+  currency,
+  isSelected,
+  isToday,
+  onSelect
+}: {
+  day: CalendarDay;
+  maxTotal: number;
+  currency: Subscription['currency'];
+  isSelected: boolean;
+  isToday: boolean;
+  onSelect: (date: string) => void;
+}) {
+  // Busier days are shaded more strongly
+  const intensity = maxTotal > 0 ? day.total / maxTotal : 0;
+
+  return (
+    <button
+      onClick={() => onSelect(day.date)}
+      aria-pressed={isSelected}
+      title={day.charges.map(charge => `${charge.subscription.name}: ${formatCurrency(charge.amount, charge.currency)}`).join('\n') || undefined}
+      className={`relative flex flex-col items-start rounded-md border p-1.5 min-h-[4rem] text-left text-xs transition-colors
+        ${isSelected ? 'border-accent' : 'border-gray-100 dark:border-gray-800 hover:border-gray-300 dark:hover:border-gray-600'}`}
+    >
+      {day.charges.length > 0 && (
+        <span
+          className="absolute inset-0 rounded-md bg-accent pointer-events-none"
+          style={{ opacity: 0.08 + intensity * 0.3 }}
+        />
+      )}
+      <span className={`relative font-medium ${isToday ? 'text-accent' : 'text-foreground'}`}>
+        {parseDay(day.date).getUTCDate()}
+      </span>
+      {day.charges.length > 0 && (
+        <span className="relative mt-auto text-muted">
+          <span className="block">{day.charges.length === 1 ? '1 charge' : `${day.charges.length} charges`}</span>
+          <span className="block font-medium text-foreground">{formatCurrency(day.total, currency)}</span>
+        </span>
+      )}
+    </button>
+  );
+}
+
+/**
+ * Month calendar of the days subscriptions are charged, with daily totals in
+ * the preferred currency. The month and day shown follow the selected date;
+ * small screens get one week at a time, paged with the week offset.
+ */
+export function CashFlowCalendar({ subscriptions }: CashFlowCalendarProps) {
+  const { selectedDate, setSelectedDate, weekOffset, setWeekOffset } = useDateContext();
+  const { preferredCurrency } = usePreferences();
+  const rates = useExchangeRates();
+  const today = getLocalISOString(new Date());
+  const monthKey = selectedDate.slice(0, 7);
+
+  const month = useMemo(
+    () => buildCashFlowMonth(subscriptions, monthKey, { currency: preferredCurrency, rates }),
+    [subscriptions, monthKey, preferredCurrency, rates]
+  );
+
+  const week = useMemo(() => {
+    const start = new Date(startOfWeek(parseDay(selectedDate)).getTime() + weekOffset * 7 * DAY_MS);
+    return buildCashFlow(
+      subscriptions,
+      start,
+      new Date(start.getTime() + 7 * DAY_MS),
+      { currency: preferredCurrency, rates }
+    );
+  }, [subscriptions, selectedDate, weekOffset, preferredCurrency, rates]);
+
+  const maxTotal = Math.max(...month.days.map(day => day.total), 0);
+  const leadingBlanks = (parseDay(month.days[0].date).getUTCDay() + 6) % 7;
+  const selectedDay = month.days.find(day => day.date === selectedDate);
+
+  const selectDay = (date: string) => {
+    setSelectedDate(date);
+    setWeekOffset(0);
+  };
+
+  const monthLabel = parseDay(month.days[0].date).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+
+  const navButtonClasses = 'p-1 text-muted hover:text-foreground transition-colors rounded-md hover:bg-gray-100 dark:hover:bg-gray-800';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <button onClick={() => selectDay(shiftMonth(selectedDate, -1))} className={navButtonClasses} title="Previous month">
+            <ChevronLeft size={18} />
+          </button>
+          <h3 className="min-w-[9rem] text-center font-semibold text-foreground">{monthLabel}</h3>
+          <button onClick={() => selectDay(shiftMonth(selectedDate, 1))} className={navButtonClasses} title="Next month">
+            <ChevronRight size={18} />
+          </button>
+        </div>
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-muted">
+            Total: <span className="font-medium text-foreground">{formatCurrency(month.total, month.currency)}</span>
+          </span>
+          {(selectedDate !== today || weekOffset !== 0) && (
+            <button onClick={() => selectDay(today)} className="text-muted hover:text-foreground transition-colors">
+              Today
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Month grid */}
+      <div className="hidden sm:grid grid-cols-7 gap-1">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="pb-1 text-center text-xs font-medium text-muted">{weekday}</div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+        {month.days.map(day => (
+          <DayButton
+            key={day.date}
+            day={day}
+            maxTotal={maxTotal}
+            currency={month.currency}
+            isSelected={day.date === selectedDate}
+            isToday={day.date === today}
+            onSelect={selectDay}
+          />
+        ))}
+      </div>
+
+      {/* One week at a time on small screens */}
+      <div className="sm:hidden space-y-2">
+        <div className="flex items-center justify-between">
+          <button onClick={() => setWeekOffset(offset => offset - 1)} className={navButtonClasses} title="Previous week">
+            <ChevronLeft size={18} />
+          </button>
+          <span className="text-sm text-muted">
+            Week total: <span className="font-medium text-foreground">{formatCurrency(week.total, week.currency)}</span>
+          </span>
+          <button onClick={() => setWeekOffset(offset => offset + 1)} className={navButtonClasses} title="Next week">
+            <ChevronRight size={18} />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {week.days.map((day, i) => (
+            <div key={day.date} className="space-y-1">
+              <div className="text-center text-xs font-medium text-muted">{WEEKDAYS[i]}</div>
+              <DayButton
+                day={day}
+                maxTotal={maxTotal}
+                currency={week.currency}
+                isSelected={day.date === selectedDate}
+                isToday={day.date === today}
+                onSelect={selectDay}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Charges on the selected day */}
+      {selectedDay && (
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
+          <p className="text-sm font-medium text-foreground">
+            {parseDay(selectedDay.date).toLocaleDateString(undefined, {
+              weekday: 'long',
+              day: 'numeric',
+              month: 'long',
+              timeZone: 'UTC'
+            })}
+          </p>
+          {selectedDay.charges.length === 0 ? (
+            <p className="mt-1 text-sm text-muted">Nothing is charged on this day.</p>
+          ) : (
+            <ul className="mt-2 space-y-1 text-sm">
+              {selectedDay.charges.map(charge => (
+                <li key={charge.subscription.id} className="flex justify-between gap-4">
+                  <span className="text-foreground">{charge.subscription.name}</span>
+                  <span className="text-muted">{formatCurrency(charge.amount, charge.currency)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {month.unconvertedCurrencies.length > 0 && (
+        <p className="text-xs text-muted">
+          Not included in totals (no exchange rate available): {month.unconvertedCurrencies.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import {
+  Briefcase,
+  Cloud,
+  Code,
+  Dumbbell,
+  Gamepad2,
+  GraduationCap,
+  Home,
+  LucideIcon,
+  LucideProps,
+  Music,
+  Newspaper,
+  ShoppingCart,
+  Tag,
+  Tv
+} from 'lucide-react';
+import { CategoryIcon as CategoryIconName } from '@/types/subscriptions';
+
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+  'tag': Tag,
+  'tv': Tv,
+  'music': Music,
+  'code': Code,
+  'cloud': Cloud,
+  'gamepad': Gamepad2,
+  'newspaper': Newspaper,
+  'dumbbell': Dumbbell,
+  'briefcase': Briefcase,
+  'shopping-cart': ShoppingCart,
+  'graduation-cap': GraduationCap,
+  'home': Home,
+};
+
+export function CategoryIcon({ icon, ...props }: { icon: CategoryIconName } & LucideProps) {
+  const Icon = ICONS[icon] || Tag;
+  return <Icon {...props} />;
+}
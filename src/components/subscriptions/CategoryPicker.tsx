@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { CategoryIcon as CategoryIconName } from '@/types/subscriptions';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { useToast } from '@/components/ui/use-toast';
+import { CATEGORY_COLORS, CATEGORY_ICON_ORDER } from '@/lib/subscriptions/config/categories';
+import { CategoryIcon } from './CategoryIcon';
+
+const NEW_CATEGORY = '__new__';
+
+export function CategoryPicker({
+  value,
+  onChange,
+  className
+}: {
+  value?: string | null;
+  onChange: (categoryId: string | null) => void;
+  className?: string;
+}) {
+  const { categories, createCategory } = useCategories();
+  const { toast } = useToast();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState<CategoryIconName>('tag');
+
+  const handleSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === NEW_CATEGORY) {
+      setIsCreating(true);
+      return;
+    }
+    onChange(e.target.value || null);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+
+    try {
+      const category = await createCategory({ name: name.trim(), color, icon });
+      onChange(category.id);
+      setIsCreating(false);
+      setName('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create category",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        id="categoryId"
+        name="categoryId"
+        value={isCreating ? NEW_CATEGORY : value || ''}
+        onChange={handleSelect}
+        className={className}
+      >
+        <option value="">No category</option>
+        {categories.map(category => (
+          <option key={category.id} value={category.id}>
+            {category.name}
+          </option>
+        ))}
+        <option value={NEW_CATEGORY}>New category...</option>
+      </select>
+
+      {isCreating && (
+        <div className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Streaming, Dev tools, etc."
+            aria-label="Category name"
+            className={className}
+          />
+
+          <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Category color">
+            {CATEGORY_COLORS.map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={color === option}
+                aria-label={option}
+                onClick={() => setColor(option)}
+                className={`w-6 h-6 rounded-full border-2 ${color === option ? 'border-foreground' : 'border-transparent'}`}
+                style={{ backgroundColor: option }}
+              />
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Category icon">
+            {CATEGORY_ICON_ORDER.map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={icon === option}
+                aria-label={option}
+                onClick={() => setIcon(option)}
+                className={`p-1.5 rounded-md ${icon === option ? 'bg-gray-100 dark:bg-gray-800 text-foreground' : 'text-muted hover:text-foreground'}`}
+              >
+                <CategoryIcon icon={option} size={16} />
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsCreating(false)}
+              className="px-2 py-1 text-sm text-muted hover:text-foreground transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={!name.trim()}
+              className="flex items-center gap-1 px-2 py-1 text-sm text-foreground rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+            >
+              <Plus size={14} />
+              Create
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { Subscription } from '@/types/subscriptions';
+import { TRASH_RETENTION_DAYS } from '@/lib/subscriptions/config/trash';
 
 interface DeleteSubscriptionDialogProps {
   subscription: Subscription;
@@ -43,7 +44,7 @@ export function DeleteSubscriptionDialog({
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center">
           <div className="bg-paper p-6 rounded-lg max-w-md w-full mx-4">
             <h2 className="text-xl font-semibold mb-4">Delete Subscription</h2>
-            <p className="mb-6">Are you sure you want to delete {subscription.name}?</p>
+            <p className="mb-6">Move {subscription.name} to the trash? You can restore it for {TRASH_RETENTION_DAYS} days.</p>
             <div className="flex justify-end gap-4">
               <button
                 onClick={handleCancel}
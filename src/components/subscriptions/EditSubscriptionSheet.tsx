@@ -10,6 +10,7 @@ import {
 } from "@/components/ui/sheet";
 import { Subscription, SubscriptionFormData } from "@/types/subscriptions";
 import { SubscriptionForm } from "./SubscriptionForm";
+import { PriceHistory } from "./PriceHistory";
 
 interface EditSubscriptionSheetProps {
   subscription: Subscription | null;
@@ -48,6 +49,10 @@ export function EditSubscriptionSheet({
             />
           )}
         </div>
+
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+          {subscription && open && <PriceHistory subscription={subscription} />}
+        </div>
       </SheetContent>
     </Sheet>
   );
@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, TrendingUp, TrendingDown } from 'lucide-react';
+import { PriceChange, Subscription } from '@/types/subscriptions';
+import { formatCurrency } from '@/utils/format';
+import { calculateCumulativePriceChange } from '@/lib/subscriptions/utils/calculations';
+
+interface PriceHistoryProps {
+  subscription: Subscription;
+}
+
+export function PriceHistory({ subscription }: PriceHistoryProps) {
+  const [history, setHistory] = useState<PriceChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      setError('');
+
+      try {
+        const response = await fetch(`/api/subscriptions/${encodeURIComponent(subscription.id)}/price-history`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to load price history');
+        }
+
+        const data: PriceChange[] = await response.json();
+        if (!cancelled) setHistory(data);
+      } catch (err) {
+        console.error('Error loading price history:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load price history');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [subscription.id, subscription.price, subscription.currency]);
+
+  const cumulativeChange = calculateCumulativePriceChange(
+    history,
+    subscription.price,
+    subscription.currency
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-muted" />
+          <h3 className="text-sm font-semibold text-foreground">Price History</h3>
+        </div>
+
+        {cumulativeChange !== null && (
+          <div
+            className={`flex items-center gap-1 text-sm font-medium ${
+              cumulativeChange > 0
+                ? 'text-red-600 dark:text-red-400'
+                : 'text-green-600 dark:text-green-400'
+            }`}
+            title="Change since the first recorded price"
+          >
+            {cumulativeChange > 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+            {cumulativeChange > 0 ? '+' : ''}{cumulativeChange.toFixed(1)}%
+          </div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="h-12 animate-pulse rounded-md bg-gray-100 dark:bg-gray-800" />
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted italic">No price changes recorded yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800 text-sm">
+          {[...history].reverse().map(change => (
+            <li key={change.id} className="flex items-center justify-between py-2">
+              <span className="text-muted">
+                {new Date(change.effectiveDate).toLocaleDateString()}
+              </span>
+              <span className="text-foreground">
+                {formatCurrency(change.oldPrice, change.previousCurrency || change.currency)}
+                {' → '}
+                {formatCurrency(change.newPrice, change.currency)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
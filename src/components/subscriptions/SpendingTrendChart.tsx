@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { LineChart } from 'lucide-react';
+import { SpendingTrend, Subscription } from '@/types/subscriptions';
+import { formatCurrency } from '@/lib/subscriptions/utils/currency';
+import { usePreferences } from '@/contexts/PreferencesContext';
+
+interface SpendingTrendChartProps {
+  // The trend is reloaded when these change on the server
+  subscriptions: Subscription[];
+}
+
+function formatMonth(month: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${month}-01T00:00:00.000Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Monthly spending over the past months and the coming year, as a bar chart
+ */
+export function SpendingTrendChart({ subscriptions }: SpendingTrendChartProps) {
+  const { preferredCurrency } = usePreferences();
+  const [trend, setTrend] = useState<SpendingTrend | null>(null);
+  const [error, setError] = useState('');
+
+  // Saved versions only; local edits that are still syncing do not change the server's answer
+  const refreshKey = subscriptions.map(sub => `${sub.id}:${sub.version}`).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTrend = async () => {
+      setError('');
+
+      try {
+        const response = await fetch(`/api/analytics/trend?currency=${encodeURIComponent(preferredCurrency)}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to load spending trend');
+        }
+
+        const data: SpendingTrend = await response.json();
+        if (!cancelled) setTrend(data);
+      } catch (err) {
+        console.error('Error loading spending trend:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load spending trend');
+        }
+      }
+    };
+
+    loadTrend();
+    return () => {
+      cancelled = true;
+    };
+  }, [preferredCurrency, refreshKey]);
+
+  if (error && !trend) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  if (!trend) {
+    return <div className="h-48 animate-pulse rounded-md bg-gray-100 dark:bg-gray-800" />;
+  }
+
+  const maxTotal = Math.max(...trend.points.map(point => point.total), 0);
+  const past = trend.points.filter(point => !point.projected).slice(-12);
+  const upcoming = trend.points.filter(point => point.projected);
+  const sum = (points: typeof trend.points) => points.reduce((total, point) => total + point.total, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <LineChart className="w-5 h-5 text-muted" />
+        <div className="grid grid-cols-2 gap-4 flex-1 text-sm">
+          <div>
+            <p className="text-muted">Last 12 months</p>
+            <p className="font-semibold text-foreground">{formatCurrency(sum(past), trend.currency)}</p>
+          </div>
+          <div>
+            <p className="text-muted">Next 12 months</p>
+            <p className="font-semibold text-foreground">{formatCurrency(sum(upcoming), trend.currency)}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-0.5 h-40" role="img" aria-label="Spending per month">
+        {trend.points.map(point => (
+          <div
+            key={point.month}
+            className="flex-1 h-full flex items-end"
+            title={`${formatMonth(point.month, { month: 'long', year: 'numeric' })}: ${formatCurrency(point.total, trend.currency)}${point.projected ? ' (projected)' : ''}`}
+          >
+            <div
+              className={`w-full rounded-t-sm ${
+                point.projected
+                  ? 'bg-accent/30 dark:bg-accent/20 border border-dashed border-accent/60 border-b-0'
+                  : 'bg-accent dark:bg-accent/90'
+              }`}
+              style={{ height: maxTotal > 0 ? `${(point.total / maxTotal) * 100}%` : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-0.5 text-[10px] text-muted">
+        {trend.points.map(point => (
+          <div key={point.month} className="flex-1 text-center overflow-visible whitespace-nowrap">
+            {point.month.endsWith('-01') ? formatMonth(point.month, { year: 'numeric' }) : ''}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted">
+        Solid bars are what was charged; dashed bars are projected at current prices.
+      </p>
+      {trend.unconvertedCurrencies.length > 0 && (
+        <p className="text-xs text-muted">
+          Not included (no exchange rate available): {trend.unconvertedCurrencies.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
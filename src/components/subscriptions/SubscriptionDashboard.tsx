@@ -4,7 +4,11 @@ import { useSubscriptionStorage } from '@/lib/subscriptions/hooks/useSubscriptio
 import { Section } from '@/components/common/Section';
 import { SubscriptionList } from './SubscriptionList';
 import { SubscriptionSummary } from './SubscriptionSummary';
+import { SpendingTrendChart } from './SpendingTrendChart';
+import { CashFlowCalendar } from './CashFlowCalendar';
 import { AddSubscriptionSheet } from './AddSubscriptionSheet';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { TrashSheet } from './TrashSheet';
 import { Subscription } from '@/types/subscriptions';
 
 interface Props {
@@ -27,15 +31,23 @@ const layouts = {
 export function SubscriptionDashboard({ variant = 'default' }: Props) {
   const {
     subscriptions,
+    trashedSubscriptions,
     error,
     loading,
     retry,
+    syncStatus,
+    pendingChanges,
+    sync,
     addSubscription,
     updateSubscription,
     deleteSubscription,
+    restoreSubscription,
+    purgeSubscription,
     toggleSubscription,
     toggleAllSubscriptions,
-    calculateSummary
+    calculateSummary,
+    getBudgetStatuses,
+    checkBudgets
   } = useSubscriptionStorage();
 
   if (loading) {
@@ -83,10 +95,19 @@ export function SubscriptionDashboard({ variant = 'default' }: Props) {
             <Section 
               title="Your Subscriptions"
               action={
-                <AddSubscriptionSheet 
-                  onSubmit={addSubscription} 
-                  variant="golden"
-                />
+                <div className="flex items-center gap-4">
+                  <SyncStatusIndicator status={syncStatus} pendingChanges={pendingChanges} onRetry={sync} />
+                  <TrashSheet
+                    subscriptions={trashedSubscriptions}
+                    onRestore={restoreSubscription}
+                    onPurge={purgeSubscription}
+                  />
+                  <AddSubscriptionSheet 
+                    onSubmit={addSubscription} 
+                    checkBudgets={checkBudgets}
+                    variant="golden"
+                  />
+                </div>
               }
             >
               <SubscriptionList
@@ -103,9 +124,17 @@ export function SubscriptionDashboard({ variant = 'default' }: Props) {
 
           <div className={layout.content}>
             {subscriptions.length > 0 && (
-              <div className="sticky top-4">
+              <Section title="Cash Flow">
+                <CashFlowCalendar subscriptions={subscriptions} />
+              </Section>
+            )}
+            {subscriptions.length > 0 && (
+              <div className="sticky top-4 space-y-8">
                 <Section title="Summary">
-                  <SubscriptionSummary summary={calculateSummary()} />
+                  <SubscriptionSummary summary={calculateSummary()} budgets={getBudgetStatuses()} />
+                </Section>
+                <Section title="Spending Over Time">
+                  <SpendingTrendChart subscriptions={subscriptions} />
                 </Section>
               </div>
             )}
@@ -116,9 +145,12 @@ export function SubscriptionDashboard({ variant = 'default' }: Props) {
         <>
           <div className={layout.list}>
             {subscriptions.length > 0 && (
-              <div className="sticky top-4">
+              <div className="sticky top-4 space-y-8">
                 <Section title="Summary">
-                  <SubscriptionSummary summary={calculateSummary()} />
+                  <SubscriptionSummary summary={calculateSummary()} budgets={getBudgetStatuses()} />
+                </Section>
+                <Section title="Spending Over Time">
+                  <SpendingTrendChart subscriptions={subscriptions} />
                 </Section>
               </div>
             )}
@@ -126,10 +158,19 @@ export function SubscriptionDashboard({ variant = 'default' }: Props) {
             <Section 
               title="Your Subscriptions"
               action={
-                <AddSubscriptionSheet 
-                  onSubmit={addSubscription} 
-                  variant="golden"
-                />
+                <div className="flex items-center gap-4">
+                  <SyncStatusIndicator status={syncStatus} pendingChanges={pendingChanges} onRetry={sync} />
+                  <TrashSheet
+                    subscriptions={trashedSubscriptions}
+                    onRestore={restoreSubscription}
+                    onPurge={purgeSubscription}
+                  />
+                  <AddSubscriptionSheet 
+                    onSubmit={addSubscription} 
+                    checkBudgets={checkBudgets}
+                    variant="golden"
+                  />
+                </div>
               }
             >
               <SubscriptionList
@@ -144,7 +185,13 @@ export function SubscriptionDashboard({ variant = 'default' }: Props) {
             </Section>
           </div>
 
-          <div className={layout.content} />
+          <div className={layout.content}>
+            {subscriptions.length > 0 && (
+              <Section title="Cash Flow">
+                <CashFlowCalendar subscriptions={subscriptions} />
+              </Section>
+            )}
+          </div>
         </>
       )}
     </div>
@@ -2,10 +2,27 @@
 
 import { useState, useEffect } from 'react';
 import { Plus, Save } from 'lucide-react';
-import { Subscription, SubscriptionFormData } from '@/types/subscriptions';
+import { BillingIntervalUnit, BillingPeriod, Subscription, SubscriptionFormData } from '@/types/subscriptions';
 import { getLocalISOString } from '@/utils/dates';
-import { CURRENCIES, CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+import {
+  COMMON_CURRENCIES,
+  CURRENCIES,
+  CURRENCY_ORDER,
+  getMinorUnitStep
+} from '@/lib/subscriptions/config/currencies';
+import {
+  BILLING_PERIODS,
+  INTERVAL_UNITS,
+  INTERVAL_UNIT_ORDER,
+  PERIOD_ORDER,
+  resolveBillingInterval
+} from '@/lib/subscriptions/config/periods';
+import { addBillingInterval } from '@/lib/subscriptions/utils/dates';
+import { parseTagInput } from '@/lib/subscriptions/utils/categories';
+import { parseReminderDaysInput } from '@/lib/subscriptions/utils/reminders';
+import { usePreferences } from '@/contexts/PreferencesContext';
 import { Button } from '@/components/ui/button';
+import { CategoryPicker } from './CategoryPicker';
 
 export function SubscriptionForm({ 
   onSubmit,
@@ -22,8 +39,15 @@ export function SubscriptionForm({
     currency: 'EUR',
     billingPeriod: 'MONTHLY',
     startDate: getLocalISOString(new Date()),
-    description: ''
+    description: '',
+    tags: []
   });
+  // Raw tag text, parsed into form.tags as the user types
+  const [tagInput, setTagInput] = useState('');
+  // Likewise for custom reminder days
+  const [reminderMode, setReminderMode] = useState<'default' | 'custom' | 'off'>('default');
+  const [reminderInput, setReminderInput] = useState('');
+  const { reminderDays: defaultReminderDays } = usePreferences();
 
   useEffect(() => {
     if (initialData) {
@@ -32,9 +56,23 @@ export function SubscriptionForm({
         price: initialData.price,
         currency: initialData.currency,
         billingPeriod: initialData.billingPeriod,
+        billingInterval: initialData.billingInterval,
         startDate: initialData.startDate,
-        description: initialData.description || ''
+        description: initialData.description || '',
+        trial: initialData.trial
+          ? {
+              startDate: getLocalISOString(new Date(initialData.trial.startDate)),
+              endDate: getLocalISOString(new Date(initialData.trial.endDate)),
+              postTrialPrice: initialData.trial.postTrialPrice
+            }
+          : null,
+        categoryId: initialData.categoryId || null,
+        tags: initialData.tags || [],
+        reminderDays: initialData.reminderDays ?? null
       });
+      setTagInput((initialData.tags || []).join(', '));
+      setReminderMode(initialData.reminderDays == null ? 'default' : initialData.reminderDays.length > 0 ? 'custom' : 'off');
+      setReminderInput((initialData.reminderDays || []).join(', '));
     }
   }, [initialData]);
 
@@ -49,8 +87,12 @@ export function SubscriptionForm({
         currency: 'EUR',
         billingPeriod: 'MONTHLY',
         startDate: getLocalISOString(new Date()),
-        description: ''
+        description: '',
+        tags: []
       });
+      setTagInput('');
+      setReminderMode('default');
+      setReminderInput('');
     }
   };
 
@@ -62,6 +104,83 @@ export function SubscriptionForm({
     }));
   };
 
+  const handlePeriodChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const billingPeriod = e.target.value as BillingPeriod;
+    setForm(prev => ({
+      ...prev,
+      billingPeriod,
+      // Seed a custom interval from the previously selected preset
+      billingInterval: billingPeriod === 'CUSTOM'
+        ? prev.billingInterval || resolveBillingInterval(prev.billingPeriod, prev.billingInterval)
+        : undefined
+    }));
+  };
+
+  const handleTrialToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { checked } = e.target;
+    setForm(prev => {
+      if (!checked) {
+        return { ...prev, trial: null };
+      }
+      // Default to a 30 day trial starting with the subscription
+      const trialStart = prev.startDate || getLocalISOString(new Date());
+      const trialEnd = addBillingInterval(new Date(trialStart), { unit: 'DAY', count: 30 });
+      return {
+        ...prev,
+        trial: { startDate: trialStart, endDate: getLocalISOString(trialEnd) }
+      };
+    });
+  };
+
+  const handleTrialChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => {
+      if (!prev.trial) return prev;
+      if (name === 'postTrialPrice') {
+        return {
+          ...prev,
+          trial: { ...prev.trial, postTrialPrice: value === '' ? undefined : parseFloat(value) }
+        };
+      }
+      return {
+        ...prev,
+        trial: { ...prev.trial, [name === 'trialStartDate' ? 'startDate' : 'endDate']: value }
+      };
+    });
+  };
+
+  const handleTagInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setTagInput(e.target.value);
+    setForm(prev => ({ ...prev, tags: parseTagInput(e.target.value) }));
+  };
+
+  const handleReminderModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const mode = e.target.value as typeof reminderMode;
+    setReminderMode(mode);
+    setForm(prev => ({
+      ...prev,
+      reminderDays: mode === 'default' ? null : mode === 'off' ? [] : parseReminderDaysInput(reminderInput)
+    }));
+  };
+
+  const handleReminderInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setReminderInput(e.target.value);
+    setForm(prev => ({ ...prev, reminderDays: parseReminderDaysInput(e.target.value) }));
+  };
+
+  const handleIntervalChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setForm(prev => {
+      const current = prev.billingInterval || { unit: 'MONTH', count: 1 };
+      return {
+        ...prev,
+        billingInterval: name === 'intervalCount'
+          ? { ...current, count: Math.max(1, parseInt(value, 10) || 1) }
+          : { ...current, unit: value as BillingIntervalUnit }
+      };
+    });
+  };
+
   const inputClasses = "mt-1 block w-full rounded-md border border-gray-200 dark:border-gray-700 px-3 py-2 text-sm bg-white dark:bg-gray-800 text-foreground focus:border-accent dark:focus:border-accent focus:ring-accent dark:focus:ring-accent";
 
   return (
@@ -94,7 +213,7 @@ export function SubscriptionForm({
             value={form.price}
             onChange={handleChange}
             min="0"
-            step="0.01"
+            step={getMinorUnitStep(form.currency)}
             required
             className={inputClasses}
           />
@@ -111,11 +230,20 @@ export function SubscriptionForm({
             onChange={handleChange}
             className={inputClasses}
           >
-            {CURRENCY_ORDER.map(code => (
-              <option key={code} value={code}>
-                {code} - {CURRENCIES[code].label} ({CURRENCIES[code].symbol})
-              </option>
-            ))}
+            <optgroup label="Common">
+              {COMMON_CURRENCIES.map(code => (
+                <option key={code} value={code}>
+                  {code} - {CURRENCIES[code].label} ({CURRENCIES[code].symbol})
+                </option>
+              ))}
+            </optgroup>
+            <optgroup label="All currencies">
+              {CURRENCY_ORDER.filter(code => !COMMON_CURRENCIES.includes(code)).map(code => (
+                <option key={code} value={code}>
+                  {code} - {CURRENCIES[code].label} ({CURRENCIES[code].symbol})
+                </option>
+              ))}
+            </optgroup>
           </select>
         </div>
       </div>
@@ -129,11 +257,14 @@ export function SubscriptionForm({
             id="billingPeriod"
             name="billingPeriod"
             value={form.billingPeriod}
-            onChange={handleChange}
+            onChange={handlePeriodChange}
             className={inputClasses}
           >
-            <option value="MONTHLY">Monthly</option>
-            <option value="YEARLY">Yearly</option>
+            {PERIOD_ORDER.map(period => (
+              <option key={period} value={period}>
+                {period === 'CUSTOM' ? 'Custom...' : BILLING_PERIODS[period].label}
+              </option>
+            ))}
           </select>
         </div>
 
@@ -153,6 +284,172 @@ export function SubscriptionForm({
         </div>
       </div>
 
+      {form.billingPeriod === 'CUSTOM' && form.billingInterval && (
+        <div className="grid gap-6 sm:grid-cols-2">
+          <div>
+            <label htmlFor="intervalCount" className="block text-sm font-medium text-foreground">
+              Every
+            </label>
+            <input
+              type="number"
+              id="intervalCount"
+              name="intervalCount"
+              value={form.billingInterval.count}
+              onChange={handleIntervalChange}
+              min="1"
+              step="1"
+              required
+              className={inputClasses}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="intervalUnit" className="block text-sm font-medium text-foreground">
+              Unit
+            </label>
+            <select
+              id="intervalUnit"
+              name="intervalUnit"
+              value={form.billingInterval.unit}
+              onChange={handleIntervalChange}
+              className={inputClasses}
+            >
+              {INTERVAL_UNIT_ORDER.map(unit => (
+                <option key={unit} value={unit}>
+                  {INTERVAL_UNITS[unit].plural}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <label htmlFor="hasTrial" className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <input
+            type="checkbox"
+            id="hasTrial"
+            name="hasTrial"
+            checked={!!form.trial}
+            onChange={handleTrialToggle}
+            className="rounded border-gray-300 dark:border-gray-700"
+          />
+          Starts with a free trial
+        </label>
+
+        {form.trial && (
+          <div className="grid gap-6 sm:grid-cols-3">
+            <div>
+              <label htmlFor="trialStartDate" className="block text-sm font-medium text-foreground">
+                Trial Start
+              </label>
+              <input
+                type="date"
+                id="trialStartDate"
+                name="trialStartDate"
+                value={form.trial.startDate}
+                onChange={handleTrialChange}
+                required
+                className={inputClasses}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="trialEndDate" className="block text-sm font-medium text-foreground">
+                Trial End
+              </label>
+              <input
+                type="date"
+                id="trialEndDate"
+                name="trialEndDate"
+                value={form.trial.endDate}
+                onChange={handleTrialChange}
+                min={form.trial.startDate}
+                required
+                className={inputClasses}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="postTrialPrice" className="block text-sm font-medium text-foreground">
+                Price After Trial
+              </label>
+              <input
+                type="number"
+                id="postTrialPrice"
+                name="postTrialPrice"
+                value={form.trial.postTrialPrice ?? ''}
+                onChange={handleTrialChange}
+                min="0"
+                step={getMinorUnitStep(form.currency)}
+                placeholder={String(form.price || 0)}
+                className={inputClasses}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-6 sm:grid-cols-2">
+        <div>
+          <label htmlFor="categoryId" className="block text-sm font-medium text-foreground">
+            Category
+          </label>
+          <CategoryPicker
+            value={form.categoryId}
+            onChange={categoryId => setForm(prev => ({ ...prev, categoryId }))}
+            className={inputClasses}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="tags" className="block text-sm font-medium text-foreground">
+            Tags
+          </label>
+          <input
+            type="text"
+            id="tags"
+            name="tags"
+            value={tagInput}
+            onChange={handleTagInputChange}
+            placeholder="work, family"
+            className={inputClasses}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="reminderMode" className="block text-sm font-medium text-foreground">
+          Renewal Reminders
+        </label>
+        <div className="flex gap-2">
+          <select
+            id="reminderMode"
+            value={reminderMode}
+            onChange={handleReminderModeChange}
+            className={inputClasses}
+          >
+            <option value="default">
+              Default ({defaultReminderDays.length > 0 ? `${defaultReminderDays.join(', ')} days before` : 'off'})
+            </option>
+            <option value="custom">Custom</option>
+            <option value="off">Off</option>
+          </select>
+          {reminderMode === 'custom' && (
+            <input
+              type="text"
+              id="reminderDays"
+              name="reminderDays"
+              value={reminderInput}
+              onChange={handleReminderInputChange}
+              placeholder="7, 1"
+              aria-label="Days before renewal"
+              className={inputClasses}
+            />
+          )}
+        </div>
+      </div>
+
       <div>
         <label htmlFor="description" className="block text-sm font-medium text-foreground">
           Description
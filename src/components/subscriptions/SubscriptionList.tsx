@@ -1,15 +1,136 @@
 'use client';
 
 import { useMemo, useState } from 'react';
-import { Subscription, SubscriptionFormData } from '@/types/subscriptions';
+import { Subscription, SubscriptionCancellation, SubscriptionFormData } from '@/types/subscriptions';
 import { formatCurrency } from '@/utils/format';
-import { Pencil, Trash, CreditCard, EyeOff, Eye } from 'lucide-react';
+import { formatBillingInterval, getBillingInterval } from '@/lib/subscriptions/utils/periods';
+import { getTrialDaysRemaining } from '@/lib/subscriptions/utils/dates';
+import { getEffectivePrice } from '@/lib/subscriptions/utils/calculations';
+import { hasEnded, isCancelled } from '@/lib/subscriptions/utils/cancellation';
+import { collectTags, filterSubscriptions } from '@/lib/subscriptions/utils/categories';
+import { UNCATEGORIZED_ID } from '@/lib/subscriptions/config/categories';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { Category } from '@/types/subscriptions';
+import { Pencil, Trash, CreditCard, EyeOff, Eye, Hourglass, X, Ban, RotateCcw } from 'lucide-react';
 import { EditSubscriptionSheet } from './EditSubscriptionSheet';
+import { CancelSubscriptionSheet } from './CancelSubscriptionSheet';
+import { CategoryIcon } from './CategoryIcon';
+
+// Trials converting within this many days get an auto-charge warning
+const TRIAL_WARNING_DAYS = 3;
+
+function TrialBadge({ subscription }: { subscription: Subscription }) {
+  const daysRemaining = getTrialDaysRemaining(subscription.trial);
+  if (daysRemaining === null) return null;
+
+  const isUrgent = daysRemaining <= TRIAL_WARNING_DAYS;
+  const label = daysRemaining === 0
+    ? 'Trial ends today'
+    : `Trial ends in ${daysRemaining} day${daysRemaining === 1 ? '' : 's'}`;
+
+  return (
+    <div
+      className={`mt-2 inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium
+        ${isUrgent
+          ? 'bg-red-500/10 text-red-600 dark:text-red-400'
+          : 'bg-yellow-500/10 text-yellow-700 dark:text-yellow-500'}`}
+      title={`Converts to paid on ${new Date(subscription.trial!.endDate).toLocaleDateString()}`}
+    >
+      <Hourglass size={12} />
+      <span>
+        {label}
+        {isUrgent && ` - auto-charges ${formatCurrency(getEffectivePrice(subscription), subscription.currency)}`}
+      </span>
+    </div>
+  );
+}
+
+function CancellationBadge({ subscription }: { subscription: Subscription }) {
+  const { effectiveEndDate, reason } = subscription.cancellation!;
+  const endDate = new Date(effectiveEndDate).toLocaleDateString();
+
+  return (
+    <div
+      className="mt-2 inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium bg-gray-100 dark:bg-gray-800 text-muted"
+      title={reason ? `Cancelled: ${reason}` : undefined}
+    >
+      <Ban size={12} />
+      <span>{hasEnded(subscription) ? `Ended ${endDate}` : `Cancelled · ends ${endDate}`}</span>
+    </div>
+  );
+}
+
+function SubscriptionFilters({
+  categories,
+  tags,
+  categoryId,
+  selectedTags,
+  onCategoryChange,
+  onTagToggle,
+  onClear
+}: {
+  categories: Category[];
+  tags: string[];
+  categoryId: string;
+  selectedTags: string[];
+  onCategoryChange: (categoryId: string) => void;
+  onTagToggle: (tag: string) => void;
+  onClear: () => void;
+}) {
+  if (categories.length === 0 && tags.length === 0) return null;
+
+  const isFiltering = categoryId !== '' || selectedTags.length > 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {categories.length > 0 && (
+        <select
+          value={categoryId}
+          onChange={(e) => onCategoryChange(e.target.value)}
+          aria-label="Filter by category"
+          className="rounded-md border border-gray-200 dark:border-gray-700 px-2 py-1 text-sm bg-white dark:bg-gray-800 text-foreground"
+        >
+          <option value="">All categories</option>
+          {categories.map(category => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+          <option value={UNCATEGORIZED_ID}>Uncategorized</option>
+        </select>
+      )}
+
+      {tags.map(tag => (
+        <button
+          key={tag}
+          onClick={() => onTagToggle(tag)}
+          aria-pressed={selectedTags.includes(tag)}
+          className={`rounded-full px-2 py-0.5 text-xs transition-colors
+            ${selectedTags.includes(tag)
+              ? 'bg-accent/20 text-foreground'
+              : 'bg-gray-100 dark:bg-gray-800 text-muted hover:text-foreground'}`}
+        >
+          #{tag}
+        </button>
+      ))}
+
+      {isFiltering && (
+        <button
+          onClick={onClear}
+          className="flex items-center gap-1 px-2 py-0.5 text-xs text-muted hover:text-foreground transition-colors"
+        >
+          <X size={12} />
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
 
 interface SubscriptionListProps {
   subscriptions: Subscription[];
   onEdit: (subscription: Subscription) => void;
-  onUpdate: (id: string, data: SubscriptionFormData) => void;
+  onUpdate: (id: string, data: Partial<SubscriptionFormData>) => void;
   onDelete: (id: string) => void;
   onToggleSubscription: (id: string) => void;
   onToggleAll: (enabled: boolean) => void;
@@ -27,21 +148,35 @@ export function SubscriptionList({
 }: SubscriptionListProps) {
   const [editingSubscription, setEditingSubscription] = useState<Subscription | null>(null);
   const [isEditSheetOpen, setIsEditSheetOpen] = useState(false);
+  const [cancellingSubscription, setCancellingSubscription] = useState<Subscription | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const { categories } = useCategories();
 
-  if (!mounted) {
-    return <div />;
-  }
-
-  const items = subscriptions || [];
+  const items = useMemo(() => subscriptions || [], [subscriptions]);
   const activeCount = items.filter(sub => !sub.disabled).length;
   
+  const availableTags = useMemo(() => collectTags(items), [items]);
+  const categoriesById = useMemo(
+    () => new Map(categories.map(category => [category.id, category])),
+    [categories]
+  );
+
   const sortedSubscriptions = useMemo(() => {
-    return [...items].sort((a, b) => {
+    return filterSubscriptions(items, { categoryId: categoryFilter, tags: tagFilter }).sort((a, b) => {
       const nextDateA = new Date(a.nextBillingDate || a.startDate);
       const nextDateB = new Date(b.nextBillingDate || b.startDate);
       return nextDateA.getTime() - nextDateB.getTime();
     });
-  }, [items]);
+  }, [items, categoryFilter, tagFilter]);
+
+  if (!mounted) {
+    return <div />;
+  }
+
+  const handleTagToggle = (tag: string) => {
+    setTagFilter(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
 
   const handleEditClick = (subscription: Subscription) => {
     setEditingSubscription(subscription);
@@ -54,6 +189,12 @@ export function SubscriptionList({
     }
   };
 
+  const handleCancelConfirm = (cancellation: SubscriptionCancellation) => {
+    if (cancellingSubscription) {
+      onUpdate(cancellingSubscription.id, { status: 'CANCELLED', cancellation });
+    }
+  };
+
   if (!items.length) {
     return <div className="text-center text-muted italic py-8">No subscriptions added yet</div>;
   }
@@ -84,72 +225,139 @@ export function SubscriptionList({
         </div>
       </div>
 
-      {sortedSubscriptions.map((subscription) => (
-        <div
-          key={subscription.id}
-          className={`bg-paper p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 
-            transition-all duration-200
-            ${subscription.disabled ? 'opacity-50' : ''} 
-            cursor-pointer 
-            hover:border-yellow-600 dark:hover:border-accent`}
-          onClick={() => onToggleSubscription(subscription.id)}
-          role="button"
-          tabIndex={0}
-          onKeyDown={(e) => {
-            if (e.key === 'Enter' || e.key === ' ') {
-              onToggleSubscription(subscription.id);
-            }
-          }}
-        >
-          <div className="flex justify-between items-start gap-4">
-            <div className="flex items-start gap-3">
-              <div className={`mt-1 ${subscription.disabled ? 'text-muted' : 'text-accent dark:text-accent/90'}`}>
-                <CreditCard size={20} />
-              </div>
-              <div>
-                <h3 className={`font-semibold ${subscription.disabled ? 'text-muted line-through' : 'text-foreground'}`}>
-                  {subscription.name}
-                </h3>
-                
-                <div className="mt-1 text-muted text-sm">
-                  {formatCurrency(subscription.price, subscription.currency)} per {subscription.billingPeriod}
-                </div>
+      <SubscriptionFilters
+        categories={categories}
+        tags={availableTags}
+        categoryId={categoryFilter}
+        selectedTags={tagFilter}
+        onCategoryChange={setCategoryFilter}
+        onTagToggle={handleTagToggle}
+        onClear={() => {
+          setCategoryFilter('');
+          setTagFilter([]);
+        }}
+      />
+
+      {sortedSubscriptions.length === 0 && (
+        <div className="text-center text-muted italic py-8">No subscriptions match the selected filters</div>
+      )}
+
+      {sortedSubscriptions.map((subscription) => {
+        const category = subscription.categoryId ? categoriesById.get(subscription.categoryId) : undefined;
 
-                {subscription.description && (
-                  <div className="mt-2 text-sm text-muted">
-                    {subscription.description}
+        return (
+          <div
+            key={subscription.id}
+            className={`bg-paper p-4 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 
+              transition-all duration-200
+              ${subscription.disabled ? 'opacity-50' : ''} 
+              cursor-pointer 
+              hover:border-yellow-600 dark:hover:border-accent`}
+            onClick={() => onToggleSubscription(subscription.id)}
+            role="button"
+            tabIndex={0}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                onToggleSubscription(subscription.id);
+              }
+            }}
+          >
+            <div className="flex justify-between items-start gap-4">
+              <div className="flex items-start gap-3">
+                <div
+                  className={`mt-1 ${subscription.disabled ? 'text-muted' : 'text-accent dark:text-accent/90'}`}
+                  style={category && !subscription.disabled ? { color: category.color } : undefined}
+                  title={category?.name}
+                >
+                  {category ? <CategoryIcon icon={category.icon} size={20} /> : <CreditCard size={20} />}
+                </div>
+                <div>
+                  <h3 className={`font-semibold ${subscription.disabled ? 'text-muted line-through' : 'text-foreground'}`}>
+                    {subscription.name}
+                  </h3>
+                
+                  <div className="mt-1 text-muted text-sm">
+                    {formatCurrency(subscription.price, subscription.currency)} per {formatBillingInterval(getBillingInterval(subscription))}
                   </div>
-                )}
 
-                <div className="mt-2 text-xs text-muted">
-                  Next billing: {new Date(subscription.nextBillingDate || subscription.startDate).toLocaleDateString()}
+                  {subscription.description && (
+                    <div className="mt-2 text-sm text-muted">
+                      {subscription.description}
+                    </div>
+                  )}
+
+                  {isCancelled(subscription) ? (
+                    <CancellationBadge subscription={subscription} />
+                  ) : (
+                    <div className="mt-2 text-xs text-muted">
+                      Next billing: {new Date(subscription.nextBillingDate || subscription.startDate).toLocaleDateString()}
+                    </div>
+                  )}
+
+                  <TrialBadge subscription={subscription} />
+
+                  {(category || (subscription.tags && subscription.tags.length > 0)) && (
+                    <div className="mt-2 flex flex-wrap gap-1 text-xs">
+                      {category && (
+                        <span
+                          className="rounded-full px-2 py-0.5 font-medium"
+                          style={{ backgroundColor: `${category.color}1a`, color: category.color }}
+                        >
+                          {category.name}
+                        </span>
+                      )}
+                      {(subscription.tags || []).map(tag => (
+                        <span key={tag} className="rounded-full px-2 py-0.5 bg-gray-100 dark:bg-gray-800 text-muted">
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
-            </div>
 
-            <div 
-              className="flex items-center gap-2"
-              onClick={(e) => e.stopPropagation()}
-            >
-              <button
-                onClick={() => handleEditClick(subscription)}
-                className="p-2 text-muted hover:text-foreground transition-colors"
-                title="Edit subscription"
+              <div 
+                className="flex items-center gap-2"
+                onClick={(e) => e.stopPropagation()}
               >
-                <Pencil className="w-4 h-4" />
-              </button>
+                <button
+                  onClick={() => handleEditClick(subscription)}
+                  className="p-2 text-muted hover:text-foreground transition-colors"
+                  title="Edit subscription"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
 
-              <button
-                onClick={() => onDelete(subscription.id)}
-                className="p-2 text-muted hover:text-red-500 dark:hover:text-red-400 transition-colors"
-                title="Delete subscription"
-              >
-                <Trash className="w-4 h-4" />
-              </button>
+                {isCancelled(subscription) ? (
+                  <button
+                    onClick={() => onUpdate(subscription.id, { status: 'ACTIVE', cancellation: null })}
+                    className="p-2 text-muted hover:text-foreground transition-colors"
+                    title="Reactivate subscription"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setCancellingSubscription(subscription)}
+                    className="p-2 text-muted hover:text-foreground transition-colors"
+                    title="Cancel subscription"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                )}
+
+                <button
+                  onClick={() => onDelete(subscription.id)}
+                  className="p-2 text-muted hover:text-red-500 dark:hover:text-red-400 transition-colors"
+                  title="Delete subscription"
+                >
+                  <Trash className="w-4 h-4" />
+                </button>
+              </div>
             </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
 
       <EditSubscriptionSheet
         subscription={editingSubscription}
@@ -157,6 +365,13 @@ export function SubscriptionList({
         onOpenChange={setIsEditSheetOpen}
         onSubmit={handleEditSubmit}
       />
+
+      <CancelSubscriptionSheet
+        subscription={cancellingSubscription}
+        open={cancellingSubscription !== null}
+        onOpenChange={(open) => !open && setCancellingSubscription(null)}
+        onConfirm={handleCancelConfirm}
+      />
     </div>
   );
 }
\ No newline at end of file
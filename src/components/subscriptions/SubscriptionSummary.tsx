@@ -1,21 +1,45 @@
 "use client";
 
-import React from "react";
-import { Wallet, CalendarDays, CreditCard } from "lucide-react";
-import { Currency } from "@/types/subscriptions";
+import React, { useState } from "react";
+import { Wallet, CalendarDays, CreditCard, Tag, Target } from "lucide-react";
+import { BudgetStatus, Currency } from "@/types/subscriptions";
+import { formatCurrency } from "@/lib/subscriptions/utils/currency";
+import { UNCATEGORIZED_ID } from "@/lib/subscriptions/config/categories";
+import { useCategories } from "@/contexts/CategoriesContext";
+import { CategoryIcon } from "./CategoryIcon";
+import { BudgetSettings } from "./BudgetSettings";
 
 interface SummaryData {
+  currency: Currency;
   totalMonthly: number;
   totalYearly: number;
   grandTotalMonthly: number;
-  originalAmounts: Record<Currency, number>;
+  originalAmounts: Partial<Record<Currency, number>>;
+  unconvertedCurrencies: Currency[];
+  categoryTotals: Record<string, number>;
+  savedSinceCancelling: number;
 }
 
 interface SubscriptionSummaryProps {
   summary?: SummaryData;
+  budgets?: BudgetStatus[];
 }
 
-export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
+const UNCATEGORIZED_COLOR = "#6b7280";
+
+// Utilization from which a budget bar turns amber
+const BUDGET_WARNING_THRESHOLD = 0.8;
+
+function getBudgetColor(status: BudgetStatus): string {
+  if (status.isOverBudget) return "#ef4444";
+  if (status.utilization >= BUDGET_WARNING_THRESHOLD) return "#f59e0b";
+  return "#22c55e";
+}
+
+export function SubscriptionSummary({ summary, budgets = [] }: SubscriptionSummaryProps) {
+  const { categories } = useCategories();
+  const [isEditingBudgets, setIsEditingBudgets] = useState(false);
+
   // Early return with loading state if summary is not available
   if (!summary) {
     return (
@@ -30,8 +54,25 @@ export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
     );
   }
 
+  // Totals of deleted categories are shown as uncategorized
+  const categoryRows = Object.entries(summary.categoryTotals)
+    .reduce((rows, [id, amount]) => {
+      const category = categories.find(c => c.id === id);
+      const key = category ? id : UNCATEGORIZED_ID;
+      const existing = rows.find(row => row.key === key);
+      if (existing) {
+        existing.amount += amount;
+      } else {
+        rows.push({ key, category, amount });
+      }
+      return rows;
+    }, [] as { key: string; category?: typeof categories[number]; amount: number }[])
+    .filter(row => row.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+  const hasCategories = categoryRows.some(row => row.category);
+
   const hasOriginalAmounts = Object.entries(summary.originalAmounts).some(
-    ([_, amount]) => amount > 0
+    ([_, amount]) => (amount || 0) > 0
   );
 
   return (
@@ -46,7 +87,7 @@ export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
             <div>
               <p className="text-sm font-medium text-muted">Monthly</p>
               <h3 className="text-2xl font-bold text-foreground mt-1">
-                {summary.grandTotalMonthly.toFixed(2)} €
+                {formatCurrency(summary.grandTotalMonthly, summary.currency)}
               </h3>
               <p className="text-sm text-muted mt-1">per month</p>
             </div>
@@ -61,7 +102,7 @@ export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
             <div>
               <p className="text-sm font-medium text-muted">Yearly</p>
               <h3 className="text-2xl font-bold text-foreground mt-1">
-                {summary.totalYearly.toFixed(2)} €
+                {formatCurrency(summary.totalYearly, summary.currency)}
               </h3>
               <p className="text-sm text-muted mt-1">per year</p>
             </div>
@@ -69,6 +110,107 @@ export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
         </div>
       </div>
 
+      {/* Budget utilization */}
+      <div className="bg-paper rounded-xl border border-gray-100 dark:border-gray-700 p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Target className="w-5 h-5 text-muted" />
+            <h3 className="text-lg font-semibold text-foreground">
+              Monthly Budgets
+            </h3>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsEditingBudgets(!isEditingBudgets)}
+            className="text-sm text-muted hover:text-foreground transition-colors"
+          >
+            {isEditingBudgets ? "Done" : "Edit"}
+          </button>
+        </div>
+
+        {isEditingBudgets ? (
+          <BudgetSettings />
+        ) : budgets.length === 0 ? (
+          <p className="text-sm text-muted">
+            No budgets set. Set a monthly cap overall or per category to track your spending.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {budgets.map(status => {
+              const category = categories.find(c => c.id === status.budget.categoryId);
+              const color = getBudgetColor(status);
+
+              return (
+                <div key={status.budget.id}>
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2 text-foreground">
+                      {category && (
+                        <span style={{ color: category.color }}>
+                          <CategoryIcon icon={category.icon} size={16} />
+                        </span>
+                      )}
+                      {status.budget.categoryId === null ? "Overall" : category?.name || "Deleted category"}
+                    </div>
+                    <div className={status.isOverBudget ? "font-medium text-red-500" : "font-medium text-foreground"}>
+                      {formatCurrency(status.spent, status.currency)} / {formatCurrency(status.limit, status.currency)}
+                    </div>
+                  </div>
+                  <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${Math.min(status.utilization, 1) * 100}%`, backgroundColor: color }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Category breakdown - only show once subscriptions are categorized */}
+      {hasCategories && (
+        <div className="bg-paper rounded-xl border border-gray-100 dark:border-gray-700 p-6 shadow-sm">
+          <div className="flex items-center gap-2 mb-4">
+            <Tag className="w-5 h-5 text-muted" />
+            <h3 className="text-lg font-semibold text-foreground">
+              Monthly by Category
+            </h3>
+          </div>
+
+          <div className="space-y-3">
+            {categoryRows.map(({ key, category, amount }) => {
+              const color = category?.color || UNCATEGORIZED_COLOR;
+              const share = summary.grandTotalMonthly > 0
+                ? (amount / summary.grandTotalMonthly) * 100
+                : 0;
+
+              return (
+                <div key={key}>
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2 text-foreground">
+                      <span style={{ color }}>
+                        <CategoryIcon icon={category?.icon || "tag"} size={16} />
+                      </span>
+                      {category?.name || "Uncategorized"}
+                    </div>
+                    <div className="font-medium text-foreground">
+                      {formatCurrency(amount, summary.currency)}
+                    </div>
+                  </div>
+                  <div className="mt-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${share}%`, backgroundColor: color }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Currency breakdown - only show if there are non-zero amounts */}
       {hasOriginalAmounts && (
         <div className="bg-paper rounded-xl border border-gray-100 dark:border-gray-700 p-6 shadow-sm">
@@ -81,7 +223,7 @@ export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
 
           <div className="grid gap-4 md:grid-cols-3">
             {Object.entries(summary.originalAmounts)
-              .filter(([_, amount]) => amount > 0)
+              .filter(([_, amount]) => (amount || 0) > 0)
               .map(([currency, amount]) => (
                 <div
                   key={currency}
@@ -89,12 +231,7 @@ export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
                 >
                   <div className="relative z-10">
                     <div className="text-lg font-bold text-foreground">
-                      {amount.toFixed(2)}{" "}
-                      {currency === "PLN"
-                        ? "zł"
-                        : currency === "USD"
-                        ? "$"
-                        : "€"}
+                      {formatCurrency(amount || 0, currency as Currency)}
                     </div>
                     <div className="text-sm text-muted mt-1">
                       Total in {currency}
@@ -112,11 +249,22 @@ export function SubscriptionSummary({ summary }: SubscriptionSummaryProps) {
           Total Monthly Spending
         </h3>
         <div className="text-center mt-2 text-3xl font-bold text-yellow-600/90 dark:text-yellow-500">
-          {summary.grandTotalMonthly.toFixed(2)} €
+          {formatCurrency(summary.grandTotalMonthly, summary.currency)}
         </div>
         <p className="text-center mt-2 text-sm text-muted">
-          All subscriptions converted to EUR monthly rate
+          All subscriptions converted to {summary.currency} monthly rate
         </p>
+        {summary.unconvertedCurrencies.length > 0 && (
+          <p className="text-center mt-1 text-xs text-muted">
+            Not included (no exchange rate available):{" "}
+            {summary.unconvertedCurrencies.join(", ")}
+          </p>
+        )}
+        {summary.savedSinceCancelling > 0 && (
+          <p className="text-center mt-4 text-sm text-green-600 dark:text-green-400">
+            Saved since cancelling: {formatCurrency(summary.savedSinceCancelling, summary.currency)}
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,59 @@
+'use client';
+
+import { AlertTriangle, CloudOff, Check, Loader2 } from 'lucide-react';
+import { SyncStatus } from '@/lib/subscriptions/utils/sync-queue';
+
+interface Props {
+  status: SyncStatus;
+  pendingChanges: number;
+  onRetry: () => void;
+}
+
+/**
+ * Shows whether changes have reached the server, and how many are waiting
+ */
+export function SyncStatusIndicator({ status, pendingChanges, onRetry }: Props) {
+  const pending = pendingChanges === 1 ? '1 change waiting' : `${pendingChanges} changes waiting`;
+
+  switch (status) {
+    case 'syncing':
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-muted" role="status">
+          <Loader2 size={14} className="animate-spin" />
+          Saving…
+        </span>
+      );
+
+    case 'offline':
+      return (
+        <span
+          className="flex items-center gap-1.5 text-xs text-amber-600 dark:text-amber-400"
+          role="status"
+          title="Changes are kept on this device and saved when you are back online"
+        >
+          <CloudOff size={14} />
+          Offline{pendingChanges > 0 && ` · ${pending}`}
+        </span>
+      );
+
+    case 'error':
+      return (
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-1.5 text-xs text-red-600 dark:text-red-400 hover:underline"
+          title="Changes are kept on this device. Click to try saving them again."
+        >
+          <AlertTriangle size={14} />
+          Not saved{pendingChanges > 0 && ` · ${pending}`} · Retry
+        </button>
+      );
+
+    default:
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-muted" role="status">
+          <Check size={14} />
+          Saved
+        </span>
+      );
+  }
+}
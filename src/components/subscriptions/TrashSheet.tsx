@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Subscription } from '@/types/subscriptions';
+import { formatCurrency } from '@/lib/subscriptions/utils/currency';
+import { formatBillingInterval, getBillingInterval } from '@/lib/subscriptions/utils/periods';
+import { TRASH_RETENTION_DAYS } from '@/lib/subscriptions/config/trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface TrashSheetProps {
+  subscriptions: Subscription[];
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+}
+
+// Whole days until the server purges a trashed subscription
+function getDaysUntilPurge(deletedAt: string): number {
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - (Date.now() - Date.parse(deletedAt)) / DAY_MS));
+}
+
+/**
+ * Deleted subscriptions, which can be restored or deleted for good until
+ * they are purged
+ */
+export function TrashSheet({ subscriptions, onRestore, onPurge }: TrashSheetProps) {
+  const [open, setOpen] = useState(false);
+  // Subscription waiting for confirmation to be deleted for good
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  if (subscriptions.length === 0 && !open) return null;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        title="Deleted subscriptions"
+      >
+        <Trash2 className="w-4 h-4 mr-1" />
+        Trash ({subscriptions.length})
+      </Button>
+
+      <Sheet open={open} onOpenChange={(isOpen) => { setOpen(isOpen); setConfirmingId(null); }}>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Trash</SheetTitle>
+            <SheetDescription>
+              Deleted subscriptions are kept for {TRASH_RETENTION_DAYS} days. They do not count
+              towards your totals or get reminders.
+            </SheetDescription>
+          </SheetHeader>
+
+          {subscriptions.length === 0 ? (
+            <p className="mt-8 text-sm text-muted">The trash is empty.</p>
+          ) : (
+            <ul className="mt-8 space-y-3">
+              {subscriptions.map((subscription) => {
+                const daysLeft = getDaysUntilPurge(subscription.deletedAt!);
+
+                return (
+                  <li
+                    key={subscription.id}
+                    className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="font-medium">{subscription.name}</p>
+                        <p className="text-sm text-muted">
+                          {formatCurrency(subscription.price, subscription.currency)} per {formatBillingInterval(getBillingInterval(subscription))}
+                        </p>
+                      </div>
+                      <p className="text-xs text-muted whitespace-nowrap">
+                        {daysLeft === 1 ? 'Deleted in 1 day' : `Deleted in ${daysLeft} days`}
+                      </p>
+                    </div>
+
+                    {confirmingId === subscription.id ? (
+                      <div className="flex items-center justify-end gap-2">
+                        <span className="text-sm text-muted mr-auto">This cannot be undone.</span>
+                        <Button variant="outline" size="sm" onClick={() => setConfirmingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => {
+                            onPurge(subscription.id);
+                            setConfirmingId(null);
+                          }}
+                        >
+                          Delete forever
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => onRestore(subscription.id)}>
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Restore
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setConfirmingId(subscription.id)}>
+                          Delete forever
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect } from "react";
 import {
   Toast,
   ToastClose,
@@ -8,11 +9,17 @@ import {
   ToastTitle,
   ToastViewport,
 } from "@/components/ui/toast";
-import { useToast } from "@/components/ui/use-toast";
+import { toast, useToast } from "@/components/ui/use-toast";
+import { takeToastAfterReload } from "@/lib/toast-after-reload";
 
 export function Toaster() {
   const { toasts } = useToast();
 
+  useEffect(() => {
+    const pending = takeToastAfterReload();
+    if (pending) toast(pending);
+  }, []);
+
   return (
     <ToastProvider>
       {toasts.map(function ({ id, title, description, action, ...props }) {
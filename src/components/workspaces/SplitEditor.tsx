@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { CostSplit, CostSplitType, Subscription } from "@/types/subscriptions";
+import { WorkspaceMember } from "@/types/workspaces";
+import { SPLIT_TYPES, SPLIT_TYPE_ORDER } from "@/lib/subscriptions/config/workspaces";
+
+interface SplitEditorProps {
+  subscription: Subscription;
+  members: WorkspaceMember[];
+  onSave: (split: CostSplit | null) => void;
+  onCancel: () => void;
+}
+
+const inputClasses = "h-8 w-24 rounded-md border border-input bg-background px-2 text-sm text-right";
+
+// Values per member as typed, before they are turned into a split
+function toValues(split: CostSplit | null | undefined): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (split?.type === "PERCENTAGE") {
+    Object.keys(split.shares).forEach((userId) => (values[userId] = String(split.shares[userId])));
+  } else if (split?.type === "FIXED") {
+    Object.keys(split.amounts).forEach((userId) => (values[userId] = String(split.amounts[userId])));
+  }
+  return values;
+}
+
+/**
+ * Picks how a workspace subscription's cost is divided between members.
+ * Whatever a split leaves over is shared equally by everyone.
+ */
+export function SplitEditor({ subscription, members, onSave, onCancel }: SplitEditorProps) {
+  const current = subscription.split;
+  const [type, setType] = useState<CostSplitType>(current?.type || "EQUAL");
+  const [values, setValues] = useState<Record<string, string>>(() => toValues(current));
+  const [included, setIncluded] = useState<string[]>(
+    current?.type === "EQUAL" && current.members?.length ? current.members : members.map((m) => m.userId)
+  );
+
+  const numbers: Record<string, number> = {};
+  members.forEach((member) => {
+    const value = parseFloat(values[member.userId]);
+    if (!isNaN(value) && value > 0) numbers[member.userId] = value;
+  });
+  const assigned = Object.keys(numbers).reduce((sum, userId) => sum + numbers[userId], 0);
+  const limit = type === "PERCENTAGE" ? 100 : subscription.price;
+  const isOverLimit = type !== "EQUAL" && assigned > limit;
+
+  const handleSave = () => {
+    if (type === "PERCENTAGE") {
+      onSave({ type, shares: numbers });
+    } else if (type === "FIXED") {
+      onSave({ type, amounts: numbers });
+    } else {
+      // Everyone is the default, so it need not be listed
+      onSave(included.length === members.length ? null : { type, members: included });
+    }
+  };
+
+  const toggleIncluded = (userId: string) => {
+    setIncluded((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 dark:border-gray-700 p-3">
+      <div className="flex flex-wrap gap-2">
+        {SPLIT_TYPE_ORDER.map((splitType) => (
+          <Button
+            key={splitType}
+            size="sm"
+            variant={splitType === type ? "default" : "outline"}
+            onClick={() => setType(splitType)}
+          >
+            {SPLIT_TYPES[splitType].label}
+          </Button>
+        ))}
+      </div>
+
+      <ul className="space-y-2 text-sm">
+        {members.map((member) => (
+          <li key={member.userId} className="flex items-center justify-between gap-4">
+            <span className="truncate text-foreground">{member.name || member.email}</span>
+            {type === "EQUAL" ? (
+              <input
+                type="checkbox"
+                checked={included.includes(member.userId)}
+                onChange={() => toggleIncluded(member.userId)}
+                aria-label={`${member.name || member.email} pays a share`}
+              />
+            ) : (
+              <span className="flex items-center gap-1 text-muted">
+                <input
+                  type="number"
+                  min="0"
+                  step={type === "PERCENTAGE" ? "1" : "0.01"}
+                  value={values[member.userId] || ""}
+                  onChange={(e) => setValues((current) => ({ ...current, [member.userId]: e.target.value }))}
+                  aria-label={`Share of ${member.name || member.email}`}
+                  className={inputClasses}
+                />
+                {type === "PERCENTAGE" ? "%" : subscription.currency}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {type !== "EQUAL" && (
+        <p className={`text-xs ${isOverLimit ? "text-red-600 dark:text-red-400" : "text-muted"}`}>
+          {type === "PERCENTAGE"
+            ? `${assigned}% of 100% assigned`
+            : `${assigned} of ${subscription.price} ${subscription.currency} assigned`}
+          ; the rest is shared equally.
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={isOverLimit || (type === "EQUAL" && included.length === 0)}
+        >
+          Save split
+        </Button>
+      </div>
+    </div>
+  );
+}
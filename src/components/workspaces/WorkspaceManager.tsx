@@ -0,0 +1,148 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Plus } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { Section } from "@/components/common/Section";
+import { Workspace } from "@/types/workspaces";
+import { MAX_WORKSPACE_NAME_LENGTH } from "@/lib/subscriptions/config/workspaces";
+import { getMemberRole } from "@/lib/subscriptions/utils/workspaces";
+import { WorkspaceMembers } from "./WorkspaceMembers";
+import { WorkspaceSubscriptions } from "./WorkspaceSubscriptions";
+
+const inputClasses = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+/**
+ * Lists the user's workspaces, creates new ones and shows the selected
+ * workspace's subscriptions and members
+ */
+export function WorkspaceManager() {
+  const { data: session } = useSession();
+  const { toast } = useToast();
+  const [workspaces, setWorkspaces] = useState<Workspace[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const userId = session?.user?.id;
+
+  const loadWorkspaces = useCallback(async () => {
+    try {
+      const response = await fetch("/api/workspaces");
+      if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+      const data: Workspace[] = await response.json();
+      setWorkspaces(data);
+      setSelectedId((current) =>
+        data.some((workspace) => workspace.id === current) ? current : data[0]?.id ?? null
+      );
+    } catch (error) {
+      console.error("Error loading workspaces:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load workspaces",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadWorkspaces();
+  }, [loadWorkspaces]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsCreating(true);
+    try {
+      const response = await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error ${response.status}`);
+
+      setName("");
+      setWorkspaces((current) => [...(current || []), data]);
+      setSelectedId(data.id);
+    } catch (error) {
+      console.error("Error creating workspace:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create workspace",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Members see changes to roles and membership straight away
+  const handleWorkspaceChange = (workspace: Workspace | null) => {
+    if (!workspace || !userId || !getMemberRole(workspace, userId)) {
+      loadWorkspaces();
+      return;
+    }
+    setWorkspaces((current) =>
+      (current || []).map((existing) => (existing.id === workspace.id ? workspace : existing))
+    );
+  };
+
+  const selected = workspaces?.find((workspace) => workspace.id === selectedId) || null;
+
+  return (
+    <div className="space-y-8">
+      <Section title="Workspaces">
+        <div className="space-y-4">
+          <p className="text-sm text-muted">
+            Share subscriptions with your household or team and split what they cost.
+          </p>
+
+          {workspaces && workspaces.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {workspaces.map((workspace) => (
+                <Button
+                  key={workspace.id}
+                  variant={workspace.id === selectedId ? "default" : "outline"}
+                  onClick={() => setSelectedId(workspace.id)}
+                >
+                  {workspace.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_WORKSPACE_NAME_LENGTH}
+              placeholder="New workspace name"
+              aria-label="New workspace name"
+              className={inputClasses}
+            />
+            <Button type="submit" variant="outline" disabled={isCreating || !name.trim()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create
+            </Button>
+          </form>
+        </div>
+      </Section>
+
+      {selected && userId && (
+        <>
+          <Section title={selected.name}>
+            <WorkspaceSubscriptions workspace={selected} userId={userId} />
+          </Section>
+
+          <Section title="Members">
+            <WorkspaceMembers workspace={selected} userId={userId} onChange={handleWorkspaceChange} />
+          </Section>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { LogOut, Trash2, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { Workspace, WorkspaceRoleId } from "@/types/workspaces";
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_ORDER } from "@/lib/subscriptions/config/workspaces";
+import { hasWorkspaceRole, isLastOwner } from "@/lib/subscriptions/utils/workspaces";
+
+interface WorkspaceMembersProps {
+  workspace: Workspace;
+  userId: string;
+  // Called with the updated workspace, or null once the user left or deleted it
+  onChange: (workspace: Workspace | null) => void;
+}
+
+const inputClasses = "flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm";
+
+// Most access first
+const ROLE_OPTIONS = [...WORKSPACE_ROLE_ORDER].reverse();
+
+/**
+ * Lists a workspace's members. Owners add members by email, change roles and
+ * remove members; everyone else can leave.
+ */
+export function WorkspaceMembers({ workspace, userId, onChange }: WorkspaceMembersProps) {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRoleId>("editor");
+  const [isSaving, setIsSaving] = useState(false);
+  const isOwner = hasWorkspaceRole(workspace, userId, "owner");
+
+  // Run a request against the workspace, reporting failures as a toast
+  const send = async (url: string, init: RequestInit, failure: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = response.status === 204 ? null : await response.json();
+      if (!response.ok) throw new Error(data?.error || `HTTP error ${response.status}`);
+      return { ok: true, data };
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
+      return { ok: false, data: null };
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await send(
+      `/api/workspaces/${workspace.id}/members`,
+      { method: "POST", body: JSON.stringify({ email, role }) },
+      "Failed to add member"
+    );
+    if (result.ok) {
+      setEmail("");
+      onChange(result.data);
+    }
+  };
+
+  const handleRoleChange = async (memberId: string, newRole: WorkspaceRoleId) => {
+    const result = await send(
+      `/api/workspaces/${workspace.id}/members/${memberId}`,
+      { method: "PUT", body: JSON.stringify({ role: newRole }) },
+      "Failed to change role"
+    );
+    if (result.ok) onChange(result.data);
+  };
+
+  const handleRemove = async (memberId: string) => {
+    const leaving = memberId === userId;
+    if (leaving && !confirm(`Leave ${workspace.name}? You will no longer see its subscriptions.`)) {
+      return;
+    }
+
+    const result = await send(
+      `/api/workspaces/${workspace.id}/members/${memberId}`,
+      { method: "DELETE" },
+      leaving ? "Failed to leave workspace" : "Failed to remove member"
+    );
+    if (result.ok) {
+      onChange(leaving ? null : { ...workspace, members: workspace.members.filter((m) => m.userId !== memberId) });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete ${workspace.name} and all of its subscriptions? This cannot be undone.`)) {
+      return;
+    }
+
+    const result = await send(`/api/workspaces/${workspace.id}`, { method: "DELETE" }, "Failed to delete workspace");
+    if (result.ok) onChange(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+        {workspace.members.map((member) => (
+          <li key={member.userId} className="flex items-center justify-between gap-4 py-2">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium text-foreground">
+                {member.name || member.email}
+                {member.userId === userId && <span className="text-muted font-normal"> (you)</span>}
+              </p>
+              <p className="truncate text-xs text-muted">{member.email}</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {isOwner ? (
+                <select
+                  value={member.role.id}
+                  onChange={(e) => handleRoleChange(member.userId, e.target.value as WorkspaceRoleId)}
+                  disabled={isSaving || isLastOwner(workspace, member.userId)}
+                  aria-label={`Role of ${member.name || member.email}`}
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                >
+                  {ROLE_OPTIONS.map((roleId) => (
+                    <option key={roleId} value={roleId}>
+                      {WORKSPACE_ROLES[roleId].name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-sm text-muted">{member.role.name}</span>
+              )}
+
+              {(isOwner || member.userId === userId) && !isLastOwner(workspace, member.userId) && (
+                <button
+                  onClick={() => handleRemove(member.userId)}
+                  disabled={isSaving}
+                  title={member.userId === userId ? "Leave workspace" : "Remove member"}
+                  className="p-1 text-muted hover:text-red-600 transition-colors"
+                >
+                  {member.userId === userId ? <LogOut size={16} /> : <X size={16} />}
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <>
+          <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email of a registered user"
+              aria-label="Member email"
+              className={`${inputClasses} flex-1 min-w-[12rem]`}
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as WorkspaceRoleId)}
+              aria-label="Role"
+              className={inputClasses}
+            >
+              {ROLE_OPTIONS.map((roleId) => (
+                <option key={roleId} value={roleId}>
+                  {WORKSPACE_ROLES[roleId].name}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" variant="outline" disabled={isSaving || !email.trim()}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </form>
+
+          <Button variant="outline" onClick={handleDelete} disabled={isSaving} className="text-red-600">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete workspace
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Split, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { AddSubscriptionSheet } from "@/components/subscriptions/AddSubscriptionSheet";
+import { CostSplit, Subscription, SubscriptionFormData, SubscriptionSummary } from "@/types/subscriptions";
+import { Workspace } from "@/types/workspaces";
+import { toFormData } from "@/lib/subscriptions/api";
+import { formatCurrency } from "@/lib/subscriptions/utils/currency";
+import { formatBillingInterval, getBillingInterval } from "@/lib/subscriptions/utils/periods";
+import { hasWorkspaceRole } from "@/lib/subscriptions/utils/workspaces";
+import { SPLIT_TYPES } from "@/lib/subscriptions/config/workspaces";
+import { usePreferences } from "@/contexts/PreferencesContext";
+import { SplitEditor } from "./SplitEditor";
+
+interface WorkspaceSubscriptionsProps {
+  workspace: Workspace;
+  userId: string;
+}
+
+/**
+ * A workspace's subscriptions with their cost splits, and what each member
+ * pays per month. Owners and editors add, split and delete subscriptions.
+ */
+export function WorkspaceSubscriptions({ workspace, userId }: WorkspaceSubscriptionsProps) {
+  const { toast } = useToast();
+  const { preferredCurrency } = usePreferences();
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [summary, setSummary] = useState<SubscriptionSummary | null>(null);
+  const [editingSplitId, setEditingSplitId] = useState<string | null>(null);
+  const canEdit = hasWorkspaceRole(workspace, userId, "editor");
+  const baseUrl = `/api/workspaces/${workspace.id}`;
+
+  const load = useCallback(async () => {
+    try {
+      const [subscriptionsResponse, summaryResponse] = await Promise.all([
+        fetch(`${baseUrl}/subscriptions`),
+        fetch(`${baseUrl}/summary?currency=${encodeURIComponent(preferredCurrency)}`),
+      ]);
+      if (!subscriptionsResponse.ok) throw new Error(`HTTP error ${subscriptionsResponse.status}`);
+      if (!summaryResponse.ok) throw new Error(`HTTP error ${summaryResponse.status}`);
+
+      setSubscriptions(await subscriptionsResponse.json());
+      setSummary(await summaryResponse.json());
+    } catch (error) {
+      console.error("Error loading workspace subscriptions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the workspace's subscriptions",
+        variant: "destructive",
+      });
+    }
+  }, [baseUrl, preferredCurrency, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Send a change, then reload so the summary follows it
+  const send = async (url: string, init: RequestInit, failure: string) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error ${response.status}`);
+      }
+      await load();
+      return true;
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleAdd = (data: SubscriptionFormData) => {
+    send(`${baseUrl}/subscriptions`, { method: "POST", body: JSON.stringify(data) }, "Failed to add subscription");
+  };
+
+  const handleSplitSave = async (subscription: Subscription, split: CostSplit | null) => {
+    const saved = await send(
+      `${baseUrl}/subscriptions/${subscription.id}`,
+      { method: "PUT", body: JSON.stringify({ ...toFormData(subscription), split, version: subscription.version }) },
+      "Failed to save split"
+    );
+    if (saved) setEditingSplitId(null);
+  };
+
+  const handleDelete = (subscription: Subscription) => {
+    if (!confirm(`Delete ${subscription.name} from ${workspace.name} for everyone?`)) return;
+    send(`${baseUrl}/subscriptions/${subscription.id}`, { method: "DELETE" }, "Failed to delete subscription");
+  };
+
+  return (
+    <div className="space-y-6">
+      {summary && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted">
+            Monthly total:{" "}
+            <span className="font-semibold text-foreground">{formatCurrency(summary.totalMonthly, summary.currency)}</span>
+          </p>
+          <ul className="grid gap-2 sm:grid-cols-2 text-sm">
+            {workspace.members.map((member) => (
+              <li key={member.userId} className="flex justify-between gap-4 rounded-md bg-gray-50 dark:bg-gray-800/50 px-3 py-2">
+                <span className="truncate text-foreground">
+                  {member.userId === userId ? "You" : member.name || member.email}
+                </span>
+                <span className="font-medium text-foreground">
+                  {formatCurrency(summary.memberTotals?.[member.userId] || 0, summary.currency)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {summary.unconvertedCurrencies.length > 0 && (
+            <p className="text-xs text-muted">
+              Not included in totals (no exchange rate available): {summary.unconvertedCurrencies.join(", ")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {subscriptions.length === 0 ? (
+        <p className="text-sm text-muted">No shared subscriptions yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+          {subscriptions.map((subscription) => (
+            <li key={subscription.id} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-foreground">{subscription.name}</p>
+                  <p className="text-xs text-muted">
+                    {formatCurrency(subscription.price, subscription.currency)}{" "}
+                    {formatBillingInterval(getBillingInterval(subscription))} · Split{" "}
+                    {SPLIT_TYPES[subscription.split?.type || "EQUAL"].label.toLowerCase()}
+                  </p>
+                </div>
+
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => setEditingSplitId(editingSplitId === subscription.id ? null : subscription.id)}
+                      title="Change split"
+                      className="p-1 text-muted hover:text-foreground transition-colors"
+                    >
+                      <Split size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(subscription)}
+                      title="Delete subscription"
+                      className="p-1 text-muted hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {editingSplitId === subscription.id && (
+                <SplitEditor
+                  subscription={subscription}
+                  members={workspace.members}
+                  onSave={(split) => handleSplitSave(subscription, split)}
+                  onCancel={() => setEditingSplitId(null)}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && <AddSubscriptionSheet onSubmit={handleAdd} />}
+    </div>
+  );
+}
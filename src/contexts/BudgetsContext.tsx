@@ -0,0 +1,91 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useSession } from 'next-auth/react';
+import { Budget, BudgetFormData } from '@/types/subscriptions';
+
+interface BudgetsContextType {
+  budgets: Budget[];
+  setBudget: (data: BudgetFormData) => Promise<Budget>;
+  removeBudget: (categoryId: string | null) => Promise<void>;
+}
+
+const BudgetsContext = createContext<BudgetsContextType | undefined>(undefined);
+
+async function readError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.error || `HTTP error ${response.status}`);
+}
+
+export function BudgetsProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setBudgets([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch('/api/budgets')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+        return response.json();
+      })
+      .then((data: Budget[]) => {
+        if (!cancelled) setBudgets(data);
+      })
+      .catch(err => console.error('Error loading budgets:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const setBudget = useCallback(async (data: BudgetFormData) => {
+    const response = await fetch('/api/budgets', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data)
+    });
+    if (!response.ok) throw await readError(response);
+
+    const budget: Budget = await response.json();
+    setBudgets(prev => [
+      ...prev.filter(existing => existing.categoryId !== budget.categoryId),
+      budget
+    ]);
+    return budget;
+  }, []);
+
+  const removeBudget = useCallback(async (categoryId: string | null) => {
+    const query = categoryId ? `?categoryId=${encodeURIComponent(categoryId)}` : '';
+    const response = await fetch(`/api/budgets${query}`, { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) throw await readError(response);
+
+    setBudgets(prev => prev.filter(budget => budget.categoryId !== categoryId));
+  }, []);
+
+  return (
+    <BudgetsContext.Provider 
+      value={{ 
+        budgets,
+        setBudget,
+        removeBudget
+      }}
+    >
+      {children}
+    </BudgetsContext.Provider>
+  );
+}
+
+export function useBudgets() {
+  const context = useContext(BudgetsContext);
+  if (context === undefined) {
+    throw new Error('useBudgets must be used within a BudgetsProvider');
+  }
+  return context;
+}
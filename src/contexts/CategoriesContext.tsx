@@ -0,0 +1,87 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useSession } from 'next-auth/react';
+import { Category, CategoryFormData } from '@/types/subscriptions';
+
+interface CategoriesContextType {
+  categories: Category[];
+  createCategory: (data: CategoryFormData) => Promise<Category>;
+  deleteCategory: (id: string) => Promise<void>;
+}
+
+const CategoriesContext = createContext<CategoriesContextType | undefined>(undefined);
+
+async function readError(response: Response): Promise<Error> {
+  const body = await response.json().catch(() => null);
+  return new Error(body?.error || `HTTP error ${response.status}`);
+}
+
+export function CategoriesProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setCategories([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch('/api/categories')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+        return response.json();
+      })
+      .then((data: Category[]) => {
+        if (!cancelled) setCategories(data);
+      })
+      .catch(err => console.error('Error loading categories:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const createCategory = useCallback(async (data: CategoryFormData) => {
+    const response = await fetch('/api/categories', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data)
+    });
+    if (!response.ok) throw await readError(response);
+
+    const category: Category = await response.json();
+    setCategories(prev => [...prev, category].sort((a, b) => a.name.localeCompare(b.name)));
+    return category;
+  }, []);
+
+  const deleteCategory = useCallback(async (id: string) => {
+    const response = await fetch(`/api/categories/${id}`, { method: 'DELETE' });
+    if (!response.ok) throw await readError(response);
+
+    setCategories(prev => prev.filter(category => category.id !== id));
+  }, []);
+
+  return (
+    <CategoriesContext.Provider 
+      value={{ 
+        categories,
+        createCategory,
+        deleteCategory
+      }}
+    >
+      {children}
+    </CategoriesContext.Provider>
+  );
+}
+
+export function useCategories() {
+  const context = useContext(CategoriesContext);
+  if (context === undefined) {
+    throw new Error('useCategories must be used within a CategoriesProvider');
+  }
+  return context;
+}
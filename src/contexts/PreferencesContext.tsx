@@ -0,0 +1,87 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useSession } from 'next-auth/react';
+import { Currency, UserPreferences } from '@/types/subscriptions';
+import { DEFAULT_REMINDER_DAYS } from '@/lib/subscriptions/config/reminders';
+
+interface PreferencesContextType {
+  preferredCurrency: Currency;
+  reminderDays: number[];
+  setPreferredCurrency: (currency: Currency) => Promise<void>;
+}
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  preferredCurrency: 'EUR',
+  reminderDays: DEFAULT_REMINDER_DAYS
+};
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export function PreferencesProvider({ children }: { children: ReactNode }) {
+  const { data: session } = useSession();
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const userId = session?.user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setPreferences(DEFAULT_PREFERENCES);
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch('/api/user/preferences')
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+        return response.json();
+      })
+      .then((data: UserPreferences) => {
+        if (!cancelled) setPreferences(data);
+      })
+      .catch(err => console.error('Error loading preferences:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Update immediately, revert if the save fails
+  const setPreferredCurrency = useCallback(async (currency: Currency) => {
+    const previous = preferences;
+    setPreferences({ ...preferences, preferredCurrency: currency });
+
+    try {
+      const response = await fetch('/api/user/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preferredCurrency: currency })
+      });
+      if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+      setPreferences(await response.json());
+    } catch (err) {
+      setPreferences(previous);
+      throw err;
+    }
+  }, [preferences]);
+
+  return (
+    <PreferencesContext.Provider 
+      value={{ 
+        preferredCurrency: preferences.preferredCurrency,
+        reminderDays: preferences.reminderDays,
+        setPreferredCurrency
+      }}
+    >
+      {children}
+    </PreferencesContext.Provider>
+  );
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,28 @@
+/**
+ * Tests for throttling verification emails
+ */
+
+import { getVerificationResendWait } from '../email-verification';
+import { AUTH_CONFIG } from '../config';
+
+describe('getVerificationResendWait', () => {
+  const now = new Date('2024-05-01T12:00:00Z');
+
+  // When a token sent the given number of seconds ago expires
+  const expiresAfterSending = (secondsAgo: number) =>
+    new Date(now.getTime() + (AUTH_CONFIG.EMAIL_VERIFICATION_TOKEN_MAX_AGE - secondsAgo) * 1000);
+
+  it('should not wait when no email has been sent', () => {
+    expect(getVerificationResendWait(undefined, now)).toBe(0);
+  });
+
+  it('should wait out the rest of the resend interval', () => {
+    expect(getVerificationResendWait(expiresAfterSending(0), now)).toBe(AUTH_CONFIG.EMAIL_VERIFICATION_RESEND_INTERVAL);
+    expect(getVerificationResendWait(expiresAfterSending(20), now)).toBe(AUTH_CONFIG.EMAIL_VERIFICATION_RESEND_INTERVAL - 20);
+  });
+
+  it('should not wait once the interval has passed', () => {
+    expect(getVerificationResendWait(expiresAfterSending(AUTH_CONFIG.EMAIL_VERIFICATION_RESEND_INTERVAL), now)).toBe(0);
+    expect(getVerificationResendWait(new Date(now.getTime() - 1000), now)).toBe(0);
+  });
+});
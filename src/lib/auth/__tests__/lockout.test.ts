@@ -0,0 +1,37 @@
+/**
+ * Tests for slowing down and locking out failed logins
+ */
+
+import { getLoginDelay, parseLockedErrorCode, toLockedErrorCode } from '../lockout';
+import { AUTH_CONFIG } from '../config';
+
+describe('getLoginDelay', () => {
+  it('should answer the first failures straight away', () => {
+    expect(getLoginDelay(0)).toBe(0);
+    expect(getLoginDelay(AUTH_CONFIG.LOGIN_DELAY_FREE_ATTEMPTS)).toBe(0);
+  });
+
+  it('should double the delay with each further failure', () => {
+    const first = AUTH_CONFIG.LOGIN_DELAY_FREE_ATTEMPTS + 1;
+    expect(getLoginDelay(first)).toBe(1000);
+    expect(getLoginDelay(first + 1)).toBe(2000);
+    expect(getLoginDelay(first + 2)).toBe(4000);
+  });
+
+  it('should not wait longer than LOGIN_DELAY_MAX', () => {
+    expect(getLoginDelay(100)).toBe(AUTH_CONFIG.LOGIN_DELAY_MAX * 1000);
+  });
+});
+
+describe('locked error codes', () => {
+  it('should carry the unlock time to the login page', () => {
+    const lockedUntil = new Date('2024-05-01T12:00:00Z');
+    expect(parseLockedErrorCode(toLockedErrorCode(lockedUntil))).toEqual(lockedUntil);
+  });
+
+  it('should ignore other error codes', () => {
+    expect(parseLockedErrorCode('CredentialsSignin')).toBeNull();
+    expect(parseLockedErrorCode('account_locked:soon')).toBeNull();
+    expect(parseLockedErrorCode(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Tests for account emails and their tokens
+ */
+
+import { AuthMailer } from '../mailer';
+import { createToken, hashToken } from '../tokens';
+import { ConsoleNotifier, SmtpNotifier } from '@/lib/notifications';
+import { startSmtpSink } from '@/lib/notifications/smtp-sink';
+
+// Undo quoted-printable soft line breaks and escaped equals signs
+function decode(message: string): string {
+  return message.replace(/=\r\n/g, '').replace(/=3D/g, '=');
+}
+
+describe('tokens', () => {
+  it('should store a hash that matches only its own token', () => {
+    const first = createToken();
+    const second = createToken();
+
+    expect(first.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(first.hash).toBe(hashToken(first.token));
+    expect(first.hash).not.toBe(first.token);
+    expect(second.hash).not.toBe(first.hash);
+  });
+});
+
+describe('AuthMailer', () => {
+  it('should send the reset link through SMTP', async () => {
+    const sink = await startSmtpSink();
+    const mailer = new AuthMailer(
+      new SmtpNotifier({ host: '127.0.0.1', port: sink.port, secure: false, from: 'accounts@example.com' }),
+      'https://subs.example.com/'
+    );
+
+    try {
+      await mailer.sendPasswordReset({ email: 'jane@example.com', name: 'Jane' }, 'abc123');
+    } finally {
+      sink.close();
+    }
+
+    expect(sink.messages.length).toBe(1);
+    const message = decode(sink.messages[0]);
+    expect(message).toContain('To: jane@example.com');
+    expect(message).toContain('Subject: Reset your password');
+    expect(message).toContain('https://subs.example.com/reset-password?token=abc123');
+    expect(message).toContain('within 60 minutes');
+  });
+
+  it('should send the verification link through SMTP', async () => {
+    const sink = await startSmtpSink();
+    const mailer = new AuthMailer(
+      new SmtpNotifier({ host: '127.0.0.1', port: sink.port, secure: false, from: 'accounts@example.com' }),
+      'https://subs.example.com'
+    );
+
+    try {
+      await mailer.sendEmailVerification({ email: 'jane@example.com', name: 'Jane' }, 'def456');
+    } finally {
+      sink.close();
+    }
+
+    expect(sink.messages.length).toBe(1);
+    const message = decode(sink.messages[0]);
+    expect(message).toContain('To: jane@example.com');
+    expect(message).toContain('Subject: Confirm your email address');
+    expect(message).toContain('https://subs.example.com/verify-email?token=def456');
+  });
+
+  it('should not write links to the console in production', async () => {
+    const notifier = new ConsoleNotifier();
+    const send = jest.spyOn(notifier, 'send');
+    const mailer = new AuthMailer(notifier, 'https://subs.example.com');
+    const env = process.env as Record<string, string | undefined>;
+    const nodeEnv = env.NODE_ENV;
+    env.NODE_ENV = 'production';
+
+    try {
+      await expect(mailer.sendPasswordReset({ email: 'jane@example.com', name: 'Jane' }, 'abc123'))
+        .rejects.toMatchObject({ code: 'misconfigured' });
+    } finally {
+      env.NODE_ENV = nodeEnv;
+    }
+    expect(send).not.toHaveBeenCalled();
+  });
+});
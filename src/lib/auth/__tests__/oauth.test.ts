@@ -0,0 +1,213 @@
+/**
+ * Tests for OAuth sign-in: provider setup against a local mock OpenID Connect
+ * issuer, and how sign-ins link to users
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { Issuer } from 'openid-client';
+import { buildOAuthProviders, getConfiguredOAuthProviders, getVerifiedEmail } from '../oauth';
+import { OAuthCandidate, resolveOAuthSignIn } from '../linked-accounts';
+
+const CLIENT_ID = 'test-client';
+const CLIENT_SECRET = 'test-secret';
+const REDIRECT_URI = 'http://localhost:3000/api/auth/callback/google';
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+function signJwt(payload: object, privateKey: KeyObject, kid: string): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${body}`), privateKey);
+  return `${header}.${body}.${base64url(signature)}`;
+}
+
+/**
+ * Serve discovery, keys and a token endpoint that answers any code with an
+ * ID token holding the given claims
+ */
+async function startMockIssuer(claims: Record<string, unknown>, options: { signWithOtherKey?: boolean } = {}) {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const server = http.createServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  server.on('request', (req, res) => {
+    const json = (body: object) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return json({
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+      });
+    }
+    if (req.url === '/jwks') {
+      return json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', alg: 'RS256', use: 'sig' }] });
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      req.resume();
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = signJwt(
+        { iss: issuer, aud: CLIENT_ID, iat: now, exp: now + 300, ...claims },
+        options.signWithOtherKey ? other.privateKey : privateKey,
+        'test-key'
+      );
+      return json({ access_token: 'access', token_type: 'Bearer', expires_in: 300, id_token: idToken });
+    }
+
+    res.writeHead(404);
+    res.end();
+  });
+
+  return { issuer, close: () => server.close() };
+}
+
+// Configure only Google, against the given issuer, while fn runs
+async function withGoogle<T>(issuer: string, fn: () => Promise<T>): Promise<T> {
+  const saved = { ...process.env };
+  process.env.GOOGLE_CLIENT_ID = CLIENT_ID;
+  process.env.GOOGLE_CLIENT_SECRET = CLIENT_SECRET;
+  process.env.GOOGLE_ISSUER = issuer;
+  delete process.env.GITHUB_CLIENT_ID;
+  try {
+    return await fn();
+  } finally {
+    process.env = saved;
+  }
+}
+
+// Complete the code exchange the way next-auth does, through openid-client
+async function signInWithGoogle(issuerUrl: string) {
+  return withGoogle(issuerUrl, async () => {
+    const providers = buildOAuthProviders();
+    expect(providers.map((provider) => provider.id)).toEqual(['google']);
+
+    const provider = providers[0] as any;
+    const issuer = await Issuer.discover(provider.options.wellKnown);
+    const client = new issuer.Client({ client_id: CLIENT_ID, client_secret: CLIENT_SECRET });
+    const tokens = await client.callback(REDIRECT_URI, { code: 'code', state: 'state' }, { state: 'state' });
+    const claims = tokens.claims();
+
+    return { user: provider.profile(claims), claims };
+  });
+}
+
+describe('OAuth providers', () => {
+  it('should only offer providers with a client ID and secret', () => {
+    const saved = { ...process.env };
+    process.env.GITHUB_CLIENT_ID = 'id';
+    delete process.env.GITHUB_CLIENT_SECRET;
+    process.env.GOOGLE_CLIENT_ID = 'id';
+    process.env.GOOGLE_CLIENT_SECRET = 'secret';
+    try {
+      expect(getConfiguredOAuthProviders()).toEqual(['google']);
+    } finally {
+      process.env = saved;
+    }
+  });
+
+  it('should read a verified email from the issuer', async () => {
+    const mock = await startMockIssuer({ sub: 'google-123', email: 'Jane@Example.com', email_verified: true, name: 'Jane' });
+    try {
+      const { user, claims } = await signInWithGoogle(mock.issuer);
+      expect(user.id).toBe('google-123');
+      expect(user.name).toBe('Jane');
+      expect(getVerifiedEmail(claims)).toBe('jane@example.com');
+    } finally {
+      mock.close();
+    }
+  });
+
+  it('should not vouch for an unverified email', async () => {
+    const mock = await startMockIssuer({ sub: 'google-456', email: 'jane@example.com', email_verified: false });
+    try {
+      const { claims } = await signInWithGoogle(mock.issuer);
+      expect(getVerifiedEmail(claims)).toBeNull();
+    } finally {
+      mock.close();
+    }
+  });
+
+  it('should reject an ID token the issuer did not sign', async () => {
+    const mock = await startMockIssuer({ sub: 'google-789', email: 'jane@example.com', email_verified: true }, { signWithOtherKey: true });
+    try {
+      await expect(signInWithGoogle(mock.issuer)).rejects.toThrow();
+    } finally {
+      mock.close();
+    }
+  });
+});
+
+describe('resolveOAuthSignIn', () => {
+  const user = (overrides: Partial<OAuthCandidate> = {}): OAuthCandidate => ({
+    id: 'user-1',
+    emailVerified: true,
+    twoFactorEnabled: false,
+    hasProvider: false,
+    lockedUntil: null,
+    ...overrides,
+  });
+  const none = { linkedUser: null, emailUser: null, currentUser: null, verifiedEmail: 'jane@example.com' };
+
+  it('should sign in as the user a provider account is linked to', () => {
+    expect(resolveOAuthSignIn({ ...none, linkedUser: user({ hasProvider: true }) }))
+      .toEqual({ action: 'sign_in', userId: 'user-1' });
+  });
+
+  it('should link to a user with the same verified email', () => {
+    expect(resolveOAuthSignIn({ ...none, emailUser: user() })).toEqual({ action: 'link', userId: 'user-1' });
+  });
+
+  it('should not link to a user who has not verified the email', () => {
+    expect(resolveOAuthSignIn({ ...none, emailUser: user({ emailVerified: false }) }))
+      .toEqual({ action: 'refuse', error: 'account_not_verified' });
+  });
+
+  it('should not link by an email the provider has not verified', () => {
+    expect(resolveOAuthSignIn({ ...none, verifiedEmail: null })).toEqual({ action: 'refuse', error: 'oauth_email_unverified' });
+  });
+
+  it('should refuse users with two-factor authentication', () => {
+    expect(resolveOAuthSignIn({ ...none, linkedUser: user({ twoFactorEnabled: true }) }))
+      .toEqual({ action: 'refuse', error: 'two_factor_oauth' });
+    expect(resolveOAuthSignIn({ ...none, emailUser: user({ twoFactorEnabled: true }) }))
+      .toEqual({ action: 'refuse', error: 'two_factor_oauth' });
+  });
+
+  it('should refuse users locked out by failed logins', () => {
+    const lockedUntil = new Date('2030-01-01T00:00:00Z');
+    expect(resolveOAuthSignIn({ ...none, linkedUser: user({ hasProvider: true, lockedUntil }) }))
+      .toEqual({ action: 'refuse', error: 'account_locked', lockedUntil });
+    expect(resolveOAuthSignIn({ ...none, emailUser: user({ lockedUntil }) }))
+      .toEqual({ action: 'refuse', error: 'account_locked', lockedUntil });
+  });
+
+  it('should link to the signed-in user whatever the email', () => {
+    expect(resolveOAuthSignIn({ ...none, verifiedEmail: null, currentUser: user({ id: 'me' }) }))
+      .toEqual({ action: 'link', userId: 'me' });
+    expect(resolveOAuthSignIn({ ...none, currentUser: user({ id: 'me', hasProvider: true }) }))
+      .toEqual({ action: 'refuse', error: 'provider_already_linked' });
+  });
+
+  it('should not move a linked account to the signed-in user', () => {
+    expect(resolveOAuthSignIn({ ...none, linkedUser: user(), currentUser: user({ id: 'me' }) }))
+      .toEqual({ action: 'refuse', error: 'OAuthAccountNotLinked' });
+  });
+
+  it('should create a user for a new verified email', () => {
+    expect(resolveOAuthSignIn(none)).toEqual({ action: 'create' });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for TOTP codes and recovery codes
+ */
+
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeRecoveryCode,
+  verifyTotp
+} from '../totp';
+import { AUTH_CONFIG } from '../config';
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('base32', () => {
+  it('should encode and decode the RFC 6238 secret', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('should ignore case, spaces and padding when decoding', () => {
+    expect(base32Decode('mzxw 6yq=').toString()).toBe('foob');
+  });
+
+  it('should reject characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow();
+  });
+});
+
+describe('generateTotp', () => {
+  it('should match the RFC 6238 test vectors', () => {
+    // The RFC gives 8 digits; these are their last 6
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+    expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1111111109 * 1000;
+  const period = AUTH_CONFIG.TOTP_PERIOD * 1000;
+
+  it('should return the step of a matching code', () => {
+    expect(verifyTotp(RFC_SECRET, '081804', now)).toBe(getTotpStep(now));
+    expect(verifyTotp(RFC_SECRET, '081 804', now)).toBe(getTotpStep(now));
+  });
+
+  it('should accept codes from neighbouring steps only', () => {
+    const previous = generateTotp(RFC_SECRET, now - period);
+    expect(verifyTotp(RFC_SECRET, previous, now)).toBe(getTotpStep(now) - 1);
+
+    const tooOld = generateTotp(RFC_SECRET, now - (AUTH_CONFIG.TOTP_WINDOW + 1) * period);
+    expect(verifyTotp(RFC_SECRET, tooOld, now)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('should verify codes for a new secret', () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(getTotpStep(now));
+  });
+});
+
+describe('buildOtpauthUri', () => {
+  it('should label the account with the issuer', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'jane@example.com');
+    expect(uri).toBe(
+      'otpauth://totp/Subscription%20Tracker%3Ajane%40example.com' +
+        `?secret=${RFC_SECRET}&issuer=Subscription%20Tracker&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
+
+describe('recovery codes', () => {
+  it('should create distinct codes', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes.length).toBe(AUTH_CONFIG.TWO_FACTOR_RECOVERY_CODES);
+    expect(new Set(codes).size).toBe(codes.length);
+    codes.forEach((code) => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+  });
+
+  it('should normalize codes however they were typed', () => {
+    expect(normalizeRecoveryCode(' 3F9A1-C07BE ')).toBe('3f9a1c07be');
+    expect(normalizeRecoveryCode('3f9a1 c07be')).toBe('3f9a1c07be');
+  });
+});
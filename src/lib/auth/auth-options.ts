@@ -1,9 +1,13 @@
-import { AuthOptions } from 'next-auth'
+import { AuthOptions, getServerSession } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import { AUTH_CONFIG } from './config'
 import { AuthError, validateEmail, validatePassword } from './validation'
 import { authenticateUser } from '@/app/auth-actions'
-import { CustomUser } from '@/types/auth'
+import { isEmailVerified } from './email-verification'
+import { toLockedErrorCode } from './lockout'
+import { buildOAuthProviders } from './oauth'
+import { findOAuthUser, signInWithOAuth } from './linked-accounts'
+import { CustomUser, OAuthProviderId } from '@/types/auth'
 import { loadEnvVars, ensureEnvVars } from '@/lib/db/env-debug'
 
 // Load environment variables to ensure they're available
@@ -24,6 +28,8 @@ if (!process.env.NEXTAUTH_URL && process.env.NODE_ENV === 'production') {
   throw new Error('NEXTAUTH_URL must be set in production environment')
 }
 
+const TWO_FACTOR_ERRORS = ['two_factor_required', 'invalid_two_factor_code']
+
 export const authOptions: AuthOptions = {
   providers: [
     CredentialsProvider({
@@ -31,7 +37,9 @@ export const authOptions: AuthOptions = {
       name: 'Credentials',
       credentials: {
         email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' }
+        password: { label: 'Password', type: 'password' },
+        // Second step for accounts with two-factor authentication
+        code: { label: 'Authentication code', type: 'text' }
       },
       async authorize(credentials, req) {
         try {
@@ -57,39 +65,101 @@ export const authOptions: AuthOptions = {
           
           const result = await authenticateUser(
             credentials.email,
-            credentials.password
+            credentials.password,
+            credentials.code || undefined
           );
 
           console.log(`[AUTH] Authentication result: ${result.success ? 'success' : 'failed'}`);
 
+          if (result.error?.code === 'account_locked' && result.error.lockedUntil) {
+            console.log('[AUTH] Account locked');
+            throw new AuthError(result.error.message, toLockedErrorCode(new Date(result.error.lockedUntil)))
+          }
+
+          // The login page asks for a code, or another one
+          if (result.error && TWO_FACTOR_ERRORS.indexOf(result.error.code) !== -1) {
+            throw new AuthError(result.error.message, result.error.code)
+          }
+
           if (!result.success || !result.data) {
             console.log('[AUTH] Authentication failed:', result.error);
             return null;
           }
 
+          if (!result.data.emailVerified && AUTH_CONFIG.UNVERIFIED_ACCOUNTS === 'block') {
+            console.log('[AUTH] Email not verified');
+            throw new AuthError('Please verify your email before logging in', 'email_not_verified')
+          }
+
           // Return user object
           return {
             id: result.data.id,
             email: result.data.email,
             name: result.data.name,
             roles: result.data.roles || [],
+            emailVerified: result.data.emailVerified,
           };
         } catch (error) {
           console.error('[AUTH] Authentication error:', error);
+
+          // The login page explains these codes; anything else is a failed login
+          if (error instanceof AuthError && error.code !== 'invalid_credentials') {
+            throw new Error(error.code)
+          }
           return null;
         }
       },
     }),
+    // GitHub and Google, when their client IDs and secrets are set
+    ...buildOAuthProviders(),
   ],
 
   callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
+    async signIn({ account, profile }) {
+      if (account?.type !== 'oauth') return true
+
+      // Signed-in users come from settings to link an account
+      const session = await getServerSession(authOptions)
+      const currentUserId = session?.user?.id
+
+      const result = await signInWithOAuth(
+        account.provider as OAuthProviderId,
+        account.providerAccountId,
+        profile,
+        currentUserId
+      )
+
+      if ('error' in result) {
+        return currentUserId
+          ? `/settings?linkError=${result.error}`
+          : `${AUTH_CONFIG.ROUTES.signIn}?error=${result.error}`
+      }
+      return true
+    },
+
+    async jwt({ token, user, account, trigger }) {
+      if (account?.type === 'oauth') {
+        // The provider's user has the provider's ID, not ours
+        const oauthUser = await findOAuthUser(account.provider, account.providerAccountId)
+        if (!oauthUser) {
+          throw new Error('OAuthAccountNotLinked')
+        }
+        token.id = oauthUser.id
+        token.email = oauthUser.email
+        token.name = oauthUser.name
+        token.roles = oauthUser.roles || []
+        token.emailVerified = oauthUser.emailVerified
+      } else if (user) {
         const customUser = user as CustomUser
         token.id = customUser.id
         token.email = customUser.email
         token.name = customUser.name
         token.roles = customUser.roles || []
+        token.emailVerified = customUser.emailVerified
+      }
+      // The verification page asks for an update once the email is verified
+      if (trigger === 'update' && token.emailVerified === false) {
+        token.emailVerified = await isEmailVerified(token.id)
       }
       return token
     },
@@ -100,6 +170,7 @@ export const authOptions: AuthOptions = {
         session.user.email = token.email
         session.user.name = token.name
         session.user.roles = token.roles || []
+        session.user.emailVerified = token.emailVerified
       }
       return session
     },
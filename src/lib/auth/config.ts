@@ -1,9 +1,32 @@
+/**
+ * What accounts with an unverified email can do
+ * - allow: sign in as usual
+ * - restrict: sign in, but only to verify their email
+ * - block: not sign in until the email is verified
+ */
+export type UnverifiedAccountPolicy = 'allow' | 'restrict' | 'block';
+
 export const AUTH_CONFIG = {
   SESSION_MAX_AGE: 30 * 24 * 60 * 60, // 30 days
   ROUTES: {
     signIn: '/login',
     signUp: '/signup',
     error: '/error',
+    verifyEmail: '/verify-email',
   },
   MIN_PASSWORD_LENGTH: 8,
-} as const;
\ No newline at end of file
+  PASSWORD_RESET_TOKEN_MAX_AGE: 60 * 60, // 1 hour
+  EMAIL_VERIFICATION_TOKEN_MAX_AGE: 24 * 60 * 60, // 1 day
+  EMAIL_VERIFICATION_RESEND_INTERVAL: 60, // 1 minute between verification emails
+  MAX_FAILED_LOGINS: 10, // Failed logins in a row before the account is locked
+  ACCOUNT_LOCK_DURATION: 24 * 60 * 60, // 1 day
+  LOGIN_DELAY_FREE_ATTEMPTS: 2, // Failed logins answered without a delay
+  LOGIN_DELAY_MAX: 16, // Longest delay in seconds before answering a failed login
+  TOTP_ISSUER: 'Subscription Tracker', // Shown beside the account in authenticator apps
+  TOTP_PERIOD: 30, // Seconds each authenticator code is valid for
+  TOTP_DIGITS: 6,
+  TOTP_WINDOW: 1, // Steps either side of now accepted, for clock drift
+  TWO_FACTOR_RECOVERY_CODES: 10,
+  // Accounts created before verification existed are unverified, so they are allowed by default
+  UNVERIFIED_ACCOUNTS: (process.env.UNVERIFIED_ACCOUNTS || 'allow') as UnverifiedAccountPolicy,
+} as const;
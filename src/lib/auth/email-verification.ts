@@ -0,0 +1,94 @@
+import { UserModel } from '@/models/user';
+import { withAuthConnection } from '@/lib/db/auth-connection';
+import { AUTH_CONFIG } from './config';
+import { AuthMailer } from './mailer';
+import { createToken, hashToken } from './tokens';
+
+export type VerificationEmailResult =
+  | { status: 'sent' }
+  | { status: 'already_verified' }
+  // Seconds until another email may be sent
+  | { status: 'throttled'; retryAfter: number };
+
+/**
+ * Work out how long to wait before sending another verification email
+ * The last email's time is not stored; it is when its token was issued,
+ * EMAIL_VERIFICATION_TOKEN_MAX_AGE before the token expires.
+ * @param expires - When the current token expires, if there is one
+ * @param now - The current time
+ * @returns Seconds to wait, 0 if an email may be sent now
+ */
+export function getVerificationResendWait(expires: Date | undefined, now: Date = new Date()): number {
+  if (!expires) return 0;
+
+  const sentAt = expires.getTime() - AUTH_CONFIG.EMAIL_VERIFICATION_TOKEN_MAX_AGE * 1000;
+  const wait = sentAt + AUTH_CONFIG.EMAIL_VERIFICATION_RESEND_INTERVAL * 1000 - now.getTime();
+  return wait > 0 ? Math.ceil(wait / 1000) : 0;
+}
+
+/**
+ * Email a user a new link to verify their address, replacing any earlier one
+ * @param userId - The user's ID
+ * @param mailer - Mailer to send through (default: the configured notifier)
+ * @returns Whether the email was sent, or why not
+ * @throws NotificationError if delivery fails
+ */
+export async function sendVerificationEmail(
+  userId: string,
+  mailer: AuthMailer = new AuthMailer()
+): Promise<VerificationEmailResult> {
+  const user = await withAuthConnection(async () => UserModel.findById(userId));
+
+  if (!user || user.emailVerified) {
+    return { status: 'already_verified' };
+  }
+
+  const wait = getVerificationResendWait(user.emailVerificationExpires);
+  if (wait > 0) {
+    return { status: 'throttled', retryAfter: wait };
+  }
+
+  const { token, hash } = createToken();
+  user.emailVerificationToken = hash;
+  user.emailVerificationExpires = new Date(Date.now() + AUTH_CONFIG.EMAIL_VERIFICATION_TOKEN_MAX_AGE * 1000);
+  await withAuthConnection(async () => user.save());
+
+  await mailer.sendEmailVerification(user, token);
+  return { status: 'sent' };
+}
+
+/**
+ * Mark the address of the user a verification link was sent to as verified
+ * @param token - The token from the link
+ * @returns The verified user's email, or null if the token is unknown or expired
+ */
+export async function confirmEmailVerification(token: string): Promise<string | null> {
+  const user = await withAuthConnection(async () => {
+    return UserModel.findOneAndUpdate(
+      {
+        emailVerificationToken: hashToken(token),
+        emailVerificationExpires: { $gt: new Date() }
+      },
+      {
+        $set: { emailVerified: true },
+        $unset: { emailVerificationToken: 1, emailVerificationExpires: 1 }
+      },
+      { new: true }
+    );
+  });
+
+  return user ? user.email : null;
+}
+
+/**
+ * Check whether a user has verified their email
+ * @param userId - The user's ID
+ * @returns True once verified; false for unknown users
+ */
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await withAuthConnection(async () => {
+    return UserModel.findById(userId).select('emailVerified').lean().exec();
+  }) as { emailVerified?: boolean } | null;
+
+  return user?.emailVerified === true;
+}
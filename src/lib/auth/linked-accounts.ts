@@ -0,0 +1,269 @@
+import bcrypt from 'bcryptjs';
+import mongoose from 'mongoose';
+import { UserDocument, UserModel } from '@/models/user';
+import { withAuthConnection } from '@/lib/db/auth-connection';
+import { CustomUser, OAuthProviderId, OAuthProviderStatus } from '@/types/auth';
+import { OAUTH_PROVIDERS, getConfiguredOAuthProviders, getVerifiedEmail } from './oauth';
+import { toLockedErrorCode } from './lockout';
+import { createToken } from './tokens';
+
+// Why an OAuth sign-in was refused; the login page explains each one
+export type OAuthSignInError =
+  | 'OAuthAccountNotLinked'
+  | 'oauth_email_unverified'
+  | 'account_not_verified'
+  | 'two_factor_oauth'
+  | 'provider_already_linked'
+  | 'account_locked';
+
+// What resolveOAuthSignIn needs to know about a user
+export interface OAuthCandidate {
+  id: string;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  // Whether another account from the same provider is linked
+  hasProvider: boolean;
+  // When the account unlocks, if failed logins have locked it
+  lockedUntil: Date | null;
+}
+
+export type OAuthSignInDecision =
+  | { action: 'sign_in'; userId: string }
+  | { action: 'link'; userId: string }
+  | { action: 'create' }
+  | { action: 'refuse'; error: OAuthSignInError; lockedUntil?: Date };
+
+interface OAuthProfile {
+  email?: string | null;
+  email_verified?: unknown;
+  name?: string | null;
+}
+
+/**
+ * Decide who an OAuth sign-in signs in as
+ * - A provider account that is already linked signs in as its user
+ * - A signed-in user links the provider account to themselves
+ * - Otherwise the provider's verified email links to the user with that email,
+ *   as long as that user has verified it too, or a new user is created
+ * Two-factor accounts are refused, since the provider cannot ask for a code,
+ * and so are accounts locked by failed logins, as a password login would be.
+ * @param options.linkedUser - The user the provider account is linked to
+ * @param options.emailUser - The user with the provider's verified email
+ * @param options.currentUser - The signed-in user, when linking from settings
+ * @param options.verifiedEmail - The email the provider has verified
+ * @returns The decision
+ */
+export function resolveOAuthSignIn(options: {
+  linkedUser: OAuthCandidate | null;
+  emailUser: OAuthCandidate | null;
+  currentUser: OAuthCandidate | null;
+  verifiedEmail: string | null;
+}): OAuthSignInDecision {
+  const { linkedUser, emailUser, currentUser, verifiedEmail } = options;
+
+  if (linkedUser) {
+    if (currentUser) {
+      return currentUser.id === linkedUser.id
+        ? { action: 'sign_in', userId: linkedUser.id }
+        : { action: 'refuse', error: 'OAuthAccountNotLinked' };
+    }
+    if (linkedUser.lockedUntil) {
+      return { action: 'refuse', error: 'account_locked', lockedUntil: linkedUser.lockedUntil };
+    }
+    if (linkedUser.twoFactorEnabled) {
+      return { action: 'refuse', error: 'two_factor_oauth' };
+    }
+    return { action: 'sign_in', userId: linkedUser.id };
+  }
+
+  if (currentUser) {
+    return currentUser.hasProvider
+      ? { action: 'refuse', error: 'provider_already_linked' }
+      : { action: 'link', userId: currentUser.id };
+  }
+
+  if (!verifiedEmail) {
+    return { action: 'refuse', error: 'oauth_email_unverified' };
+  }
+
+  if (emailUser) {
+    // Whoever signed up with an unverified email may not own it
+    if (!emailUser.emailVerified) return { action: 'refuse', error: 'account_not_verified' };
+    if (emailUser.lockedUntil) return { action: 'refuse', error: 'account_locked', lockedUntil: emailUser.lockedUntil };
+    if (emailUser.twoFactorEnabled) return { action: 'refuse', error: 'two_factor_oauth' };
+    if (emailUser.hasProvider) return { action: 'refuse', error: 'provider_already_linked' };
+    return { action: 'link', userId: emailUser.id };
+  }
+
+  return { action: 'create' };
+}
+
+function toCandidate(user: any, provider: OAuthProviderId): OAuthCandidate | null {
+  if (!user) return null;
+  // Users are read lean, without the model's isLocked
+  const lockedUntil = user.lockedUntil ? new Date(user.lockedUntil) : null;
+  return {
+    id: user._id.toString(),
+    emailVerified: user.emailVerified === true,
+    twoFactorEnabled: user.twoFactorEnabled === true,
+    hasProvider: (user.linkedAccounts || []).some((account: any) => account.provider === provider),
+    lockedUntil: lockedUntil && lockedUntil > new Date() ? lockedUntil : null
+  };
+}
+
+// A name the user model accepts: 2 to 50 characters
+function toUserName(name: string | null | undefined, email: string): string {
+  const trimmed = (name || '').trim().slice(0, 50);
+  if (trimmed.length >= 2) return trimmed;
+
+  const localPart = email.split('@')[0].slice(0, 50);
+  return localPart.length >= 2 ? localPart : email.slice(0, 50);
+}
+
+/**
+ * Sign in with a GitHub or Google account, linking or creating a user as
+ * resolveOAuthSignIn decides
+ * @param provider - The provider's ID
+ * @param providerAccountId - The user's ID at the provider
+ * @param profile - The profile from the provider
+ * @param currentUserId - The signed-in user, when linking from settings
+ * @returns The ID of the user signed in as, or the error code for why the
+ * sign-in was refused; a locked account's code carries when it unlocks
+ */
+export async function signInWithOAuth(
+  provider: OAuthProviderId,
+  providerAccountId: string,
+  profile: OAuthProfile | undefined,
+  currentUserId?: string
+): Promise<{ userId: string } | { error: string }> {
+  const verifiedEmail = getVerifiedEmail(profile);
+
+  const [linkedUser, emailUser, currentUser] = await withAuthConnection(async () => {
+    return Promise.all([
+      UserModel.findOne({ linkedAccounts: { $elemMatch: { provider, providerAccountId } } }).lean().exec(),
+      verifiedEmail ? UserModel.findOne({ email: verifiedEmail }).lean().exec() : null,
+      currentUserId ? UserModel.findById(currentUserId).lean().exec() : null
+    ]);
+  });
+
+  const decision = resolveOAuthSignIn({
+    linkedUser: toCandidate(linkedUser, provider),
+    emailUser: toCandidate(emailUser, provider),
+    currentUser: toCandidate(currentUser, provider),
+    verifiedEmail
+  });
+
+  const linkedAccount = {
+    provider,
+    providerAccountId,
+    email: verifiedEmail || profile?.email || '',
+    linkedAt: new Date()
+  };
+
+  switch (decision.action) {
+    case 'refuse':
+      console.log(`[AUTH] OAuth sign-in with ${provider} refused: ${decision.error}`);
+      return { error: decision.lockedUntil ? toLockedErrorCode(decision.lockedUntil) : decision.error };
+
+    case 'sign_in':
+      return { userId: decision.userId };
+
+    case 'link': {
+      // Only if no account from this provider was linked in the meantime
+      const result = await withAuthConnection(async () => {
+        return UserModel.updateOne(
+          { _id: decision.userId, 'linkedAccounts.provider': { $ne: provider } },
+          { $push: { linkedAccounts: linkedAccount } }
+        );
+      });
+      if (result.modifiedCount !== 1) {
+        return { error: 'provider_already_linked' };
+      }
+      console.log(`[AUTH] Linked ${provider} account to user: ${decision.userId}`);
+      return { userId: decision.userId };
+    }
+
+    case 'create': {
+      // The password is random; a password reset sets one the user knows
+      const hashedPassword = await bcrypt.hash(createToken().token, 10);
+      const user = await withAuthConnection(async () => {
+        return UserModel.create({
+          email: verifiedEmail,
+          name: toUserName(profile?.name, verifiedEmail!),
+          hashedPassword,
+          roles: [{ id: '1', name: 'user' }],
+          emailVerified: true,
+          failedLoginAttempts: 0,
+          linkedAccounts: [linkedAccount]
+        });
+      });
+      console.log(`[AUTH] Created user from ${provider} account: ${verifiedEmail}`);
+      return { userId: user._id.toString() };
+    }
+  }
+}
+
+/**
+ * Find the user a provider account signs in as
+ * @param provider - The provider's ID
+ * @param providerAccountId - The user's ID at the provider
+ * @returns The user, or null if the account is not linked
+ */
+export async function findOAuthUser(provider: string, providerAccountId: string): Promise<CustomUser | null> {
+  const user = await withAuthConnection(async () => {
+    return UserModel.findOne({ linkedAccounts: { $elemMatch: { provider, providerAccountId } } })
+      .lean<Pick<UserDocument, 'email' | 'name' | 'roles' | 'emailVerified'> & { _id: mongoose.Types.ObjectId }>()
+      .exec();
+  });
+
+  if (!user) return null;
+
+  return {
+    id: user._id.toString(),
+    email: user.email,
+    name: user.name,
+    roles: user.roles || [],
+    emailVerified: user.emailVerified === true
+  };
+}
+
+/**
+ * List the configured providers with the account linked from each
+ * @param userId - The user's ID
+ * @returns Providers in display order, or null if the user was not found
+ */
+export async function getLinkedAccounts(userId: string): Promise<OAuthProviderStatus[] | null> {
+  const user = await withAuthConnection(async () => {
+    return UserModel.findById(userId).select('linkedAccounts').lean<Pick<UserDocument, 'linkedAccounts'>>().exec();
+  });
+
+  if (!user) return null;
+
+  const linkedAccounts = user.linkedAccounts || [];
+  return getConfiguredOAuthProviders().map((id) => {
+    const account = linkedAccounts.find((linked) => linked.provider === id);
+    return {
+      id,
+      name: OAUTH_PROVIDERS[id].name,
+      account: account
+        ? { provider: id, email: account.email, linkedAt: new Date(account.linkedAt).toISOString() }
+        : null
+    };
+  });
+}
+
+/**
+ * Unlink a provider's account; the user can still log in with their password
+ * @param userId - The user's ID
+ * @param provider - The provider's ID
+ * @returns True if an account was unlinked
+ */
+export async function unlinkAccount(userId: string, provider: OAuthProviderId): Promise<boolean> {
+  const result = await withAuthConnection(async () => {
+    return UserModel.updateOne(
+      { _id: userId },
+      { $pull: { linkedAccounts: { provider } } }
+    );
+  });
+  return result.modifiedCount === 1;
+}
@@ -0,0 +1,40 @@
+import { AUTH_CONFIG } from './config';
+
+// Login error code for a locked account, followed by when it unlocks
+const LOCKED_PREFIX = 'account_locked:';
+
+/**
+ * Work out how long to wait before answering a failed login
+ * The first LOGIN_DELAY_FREE_ATTEMPTS failures are answered straight away,
+ * then the delay doubles with each failure up to LOGIN_DELAY_MAX.
+ * @param failedAttempts - Failed logins in a row, including this one
+ * @returns Delay in milliseconds
+ */
+export function getLoginDelay(failedAttempts: number): number {
+  const delayed = failedAttempts - AUTH_CONFIG.LOGIN_DELAY_FREE_ATTEMPTS;
+  if (delayed <= 0) return 0;
+
+  return Math.min(Math.pow(2, delayed - 1), AUTH_CONFIG.LOGIN_DELAY_MAX) * 1000;
+}
+
+/**
+ * Build the error code the login page gets for a locked account
+ * next-auth only passes an error's message on, so the unlock time goes in it.
+ * @param lockedUntil - When the account unlocks
+ * @returns e.g. account_locked:1714564800000
+ */
+export function toLockedErrorCode(lockedUntil: Date): string {
+  return `${LOCKED_PREFIX}${lockedUntil.getTime()}`;
+}
+
+/**
+ * Read the unlock time from a login error code
+ * @param code - The error code from signIn
+ * @returns When the account unlocks, or null if the code is not for a locked account
+ */
+export function parseLockedErrorCode(code: string | null | undefined): Date | null {
+  if (!code || code.indexOf(LOCKED_PREFIX) !== 0) return null;
+
+  const time = Number(code.slice(LOCKED_PREFIX.length));
+  return isNaN(time) ? null : new Date(time);
+}
@@ -0,0 +1,66 @@
+import {
+  INotifier,
+  Notification,
+  NotificationError,
+  getNotifier,
+  renderEmailVerification,
+  renderPasswordReset
+} from '@/lib/notifications';
+import { AUTH_CONFIG } from './config';
+
+// Channels that write messages, links included, where others can read them
+const LOGGING_CHANNELS = ['console', 'file'];
+
+/**
+ * Sends the emails that come with an account: address verification and
+ * password resets.
+ * Delivery goes through the configured notifier, so NOTIFIER=smtp sends real
+ * email and the console or file channels work without a mail server. In
+ * production those two are refused, since the links give access to the account.
+ */
+export class AuthMailer {
+  constructor(
+    private notifier: INotifier = getNotifier(),
+    // Links in emails point here
+    private baseUrl: string = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  ) {}
+
+  private link(path: string, token: string): string {
+    return `${this.baseUrl.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private async deliver(notification: Notification): Promise<void> {
+    if (process.env.NODE_ENV === 'production' && LOGGING_CHANNELS.includes(this.notifier.channel)) {
+      throw new NotificationError(
+        `Account emails cannot be sent through the ${this.notifier.channel} notifier in production; set NOTIFIER=smtp`,
+        'misconfigured'
+      );
+    }
+    await this.notifier.send(notification);
+  }
+
+  /**
+   * Send the link to choose a new password
+   * @param user - The account's email and name
+   * @param token - The reset token, not its hash
+   * @throws NotificationError if delivery fails
+   */
+  async sendPasswordReset(user: { email: string; name: string }, token: string): Promise<void> {
+    await this.deliver(renderPasswordReset(
+      user.email,
+      user.name,
+      this.link('/reset-password', token),
+      Math.round(AUTH_CONFIG.PASSWORD_RESET_TOKEN_MAX_AGE / 60)
+    ));
+  }
+
+  /**
+   * Send the link to confirm the account's email address
+   * @param user - The account's email and name
+   * @param token - The verification token, not its hash
+   * @throws NotificationError if delivery fails
+   */
+  async sendEmailVerification(user: { email: string; name: string }, token: string): Promise<void> {
+    await this.deliver(renderEmailVerification(user.email, user.name, this.link('/verify-email', token)));
+  }
+}
@@ -0,0 +1,94 @@
+import type { Provider } from 'next-auth/providers'
+import GitHubProvider from 'next-auth/providers/github'
+import GoogleProvider from 'next-auth/providers/google'
+import { OAuthProviderId } from '@/types/auth'
+
+interface OAuthProviderConfig {
+  name: string
+  clientIdEnv: string
+  clientSecretEnv: string
+}
+
+// A provider is offered once both of its environment variables are set
+export const OAUTH_PROVIDERS: Record<OAuthProviderId, OAuthProviderConfig> = {
+  github: { name: 'GitHub', clientIdEnv: 'GITHUB_CLIENT_ID', clientSecretEnv: 'GITHUB_CLIENT_SECRET' },
+  google: { name: 'Google', clientIdEnv: 'GOOGLE_CLIENT_ID', clientSecretEnv: 'GOOGLE_CLIENT_SECRET' },
+}
+
+export const OAUTH_PROVIDER_ORDER: OAuthProviderId[] = ['github', 'google']
+
+const DEFAULT_GOOGLE_ISSUER = 'https://accounts.google.com'
+
+interface GitHubEmail {
+  email: string
+  primary: boolean
+  verified: boolean
+}
+
+/**
+ * Get the providers whose client ID and secret are set
+ * @returns Provider IDs in display order
+ */
+export function getConfiguredOAuthProviders(): OAuthProviderId[] {
+  return OAUTH_PROVIDER_ORDER.filter((id) => {
+    const config = OAUTH_PROVIDERS[id]
+    return !!process.env[config.clientIdEnv] && !!process.env[config.clientSecretEnv]
+  })
+}
+
+/**
+ * Build the next-auth providers for every configured OAuth provider
+ * Profiles from both carry `email_verified`, which account linking relies on.
+ * GOOGLE_ISSUER points Google sign-in at another OpenID Connect issuer.
+ * @returns Providers to add after the credentials provider
+ */
+export function buildOAuthProviders(): Provider[] {
+  return getConfiguredOAuthProviders().map((id) => {
+    const clientId = process.env[OAUTH_PROVIDERS[id].clientIdEnv]!
+    const clientSecret = process.env[OAUTH_PROVIDERS[id].clientSecretEnv]!
+
+    if (id === 'google') {
+      const issuer = (process.env.GOOGLE_ISSUER || DEFAULT_GOOGLE_ISSUER).replace(/\/$/, '')
+      return GoogleProvider({
+        clientId,
+        clientSecret,
+        issuer,
+        wellKnown: `${issuer}/.well-known/openid-configuration`,
+      })
+    }
+
+    return GitHubProvider({
+      clientId,
+      clientSecret,
+      userinfo: {
+        url: 'https://api.github.com/user',
+        // The profile's public email may not be verified; the primary one is
+        // used only if GitHub has verified it
+        async request({ client, tokens }) {
+          const profile = await client.userinfo(tokens.access_token!)
+          const response = await fetch('https://api.github.com/user/emails', {
+            headers: { Authorization: `token ${tokens.access_token}` },
+          })
+          const emails: GitHubEmail[] = response.ok ? await response.json() : []
+          const primary = emails.find((email) => email.primary && email.verified)
+
+          return {
+            ...profile,
+            email: primary ? primary.email : profile.email,
+            email_verified: !!primary,
+          }
+        },
+      },
+    })
+  })
+}
+
+/**
+ * Get the email a provider vouches for
+ * @param profile - The profile from the provider
+ * @returns The email in lower case, or null if there is none or it is unverified
+ */
+export function getVerifiedEmail(profile: { email?: string | null; email_verified?: unknown } | undefined): string | null {
+  if (!profile?.email || profile.email_verified !== true) return null
+  return profile.email.toLowerCase()
+}
@@ -0,0 +1,21 @@
+import crypto from 'crypto';
+
+/**
+ * Hash a token sent to a user, for storing or looking it up
+ * Only the hash is stored, so a leaked database cannot be used to reset
+ * passwords or verify addresses.
+ * @param token - The token as sent
+ * @returns SHA-256 of the token, hex encoded
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a random token to send to a user
+ * @returns The token to send and the hash to store
+ */
+export function createToken(): { token: string; hash: string } {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, hash: hashToken(token) };
+}
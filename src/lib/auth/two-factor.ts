@@ -0,0 +1,177 @@
+import { UserModel } from '@/models/user';
+import { withAuthConnection } from '@/lib/db/auth-connection';
+import { TwoFactorEnrollment, TwoFactorStatus } from '@/types/auth';
+import { hashToken } from './tokens';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp
+} from './totp';
+
+function hashRecoveryCodes(codes: string[]): string[] {
+  return codes.map((code) => hashToken(normalizeRecoveryCode(code)));
+}
+
+/**
+ * Get whether a user has two-factor authentication on
+ * @param userId - The user's ID
+ * @returns The status, or null if the user was not found
+ */
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus | null> {
+  const user = await withAuthConnection(async () => {
+    return UserModel.findById(userId).select('twoFactorEnabled twoFactorRecoveryCodes').lean().exec();
+  }) as { twoFactorEnabled?: boolean; twoFactorRecoveryCodes?: string[] } | null;
+
+  if (!user) return null;
+
+  return {
+    enabled: user.twoFactorEnabled === true,
+    recoveryCodesLeft: user.twoFactorEnabled ? (user.twoFactorRecoveryCodes || []).length : 0
+  };
+}
+
+/**
+ * Start setting up an authenticator app with a new secret
+ * Two-factor authentication stays off until the user confirms a code.
+ * @param userId - The user's ID
+ * @returns The secret and otpauth URI to show, or null if the user was not found
+ */
+export async function startTwoFactorEnrollment(userId: string): Promise<TwoFactorEnrollment | null> {
+  const secret = generateTotpSecret();
+
+  const user = await withAuthConnection(async () => {
+    return UserModel.findByIdAndUpdate(
+      userId,
+      { $set: { twoFactorPendingSecret: secret } },
+      { new: true }
+    ).select('email').lean().exec();
+  }) as { email: string } | null;
+
+  if (!user) return null;
+
+  return { secret, uri: buildOtpauthUri(secret, user.email) };
+}
+
+/**
+ * Turn on two-factor authentication once the user enters a code for the new secret
+ * @param userId - The user's ID
+ * @param code - A code from the authenticator app
+ * @returns Recovery codes to show once, or null if the code is wrong or
+ * no setup was started
+ */
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const user = await withAuthConnection(async () => {
+    return UserModel.findById(userId).select('twoFactorPendingSecret').lean().exec();
+  }) as { twoFactorPendingSecret?: string } | null;
+
+  const pendingSecret = user?.twoFactorPendingSecret;
+  if (!pendingSecret) return null;
+
+  const step = verifyTotp(pendingSecret, code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  // Only if the same setup is still pending
+  const updated = await withAuthConnection(async () => {
+    return UserModel.findOneAndUpdate(
+      { _id: userId, twoFactorPendingSecret: pendingSecret },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: pendingSecret,
+          twoFactorRecoveryCodes: hashRecoveryCodes(recoveryCodes),
+          twoFactorLastUsedStep: step
+        },
+        $unset: { twoFactorPendingSecret: 1 }
+      },
+      { new: true }
+    );
+  });
+
+  return updated ? recoveryCodes : null;
+}
+
+/**
+ * Check a second-factor code: a code from the authenticator app or an unused
+ * recovery code. Each is accepted only once.
+ * @param userId - The user's ID
+ * @param code - The code the user entered
+ * @returns True if the code is valid; false if it is wrong or already used,
+ * or two-factor authentication is off
+ */
+export async function verifyTwoFactorCode(userId: string, code: string): Promise<boolean> {
+  const user = await withAuthConnection(async () => {
+    return UserModel.findById(userId).select('twoFactorEnabled twoFactorSecret').lean().exec();
+  }) as { twoFactorEnabled?: boolean; twoFactorSecret?: string } | null;
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+  const secret = user.twoFactorSecret;
+  const step = verifyTotp(secret, code);
+
+  const result = await withAuthConnection(async () => {
+    if (step !== null) {
+      // Refuses a code whose step, or a later one, was already used
+      return UserModel.updateOne(
+        {
+          _id: userId,
+          $or: [
+            { twoFactorLastUsedStep: { $exists: false } },
+            { twoFactorLastUsedStep: { $lt: step } }
+          ]
+        },
+        { $set: { twoFactorLastUsedStep: step } }
+      );
+    }
+
+    const hash = hashToken(normalizeRecoveryCode(code));
+    return UserModel.updateOne(
+      { _id: userId, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } }
+    );
+  });
+
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Turn off two-factor authentication
+ * @param userId - The user's ID
+ * @param code - A current code or recovery code, to show the user still has them
+ * @returns True if turned off, false if the code is wrong
+ */
+export async function disableTwoFactor(userId: string, code: string): Promise<boolean> {
+  if (!(await verifyTwoFactorCode(userId, code))) return false;
+
+  await withAuthConnection(async () => {
+    return UserModel.updateOne(
+      { _id: userId },
+      {
+        $set: { twoFactorEnabled: false, twoFactorRecoveryCodes: [] },
+        $unset: { twoFactorSecret: 1, twoFactorPendingSecret: 1, twoFactorLastUsedStep: 1 }
+      }
+    );
+  });
+  return true;
+}
+
+/**
+ * Replace a user's recovery codes; the old ones stop working
+ * @param userId - The user's ID
+ * @param code - A current code or recovery code, to show the user still has them
+ * @returns The new codes to show once, or null if the code is wrong
+ */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[] | null> {
+  if (!(await verifyTwoFactorCode(userId, code))) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await withAuthConnection(async () => {
+    return UserModel.updateOne(
+      { _id: userId },
+      { $set: { twoFactorRecoveryCodes: hashRecoveryCodes(recoveryCodes) } }
+    );
+  });
+  return recoveryCodes;
+}
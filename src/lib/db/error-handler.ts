@@ -19,6 +19,7 @@ export enum MongoDBErrorCode {
   QUERY_FAILED = 'mongodb.query_failed',
   VALIDATION_FAILED = 'mongodb.validation_failed',
   DUPLICATE_KEY = 'mongodb.duplicate_key',
+  VERSION_CONFLICT = 'mongodb.version_conflict',
   
   // Operation errors
   CREATE_FAILED = 'mongodb.create_failed',
@@ -179,6 +180,11 @@ export function getMongoErrorCode(error: any): MongoDBErrorCode {
   if (error.name === 'ValidationError') {
     return MongoDBErrorCode.VALIDATION_FAILED;
   }
+
+  // Handle optimistic concurrency failures: the document changed since it was read
+  if (error.name === 'VersionError') {
+    return MongoDBErrorCode.VERSION_CONFLICT;
+  }
   
   // Handle timeout errors
   if (isTimeoutError(error)) {
@@ -17,6 +17,7 @@ export const userFacingErrorMessages: Record<string, string> = {
   [MongoDBErrorCode.QUERY_FAILED]: "Error retrieving data. Please try again.",
   [MongoDBErrorCode.VALIDATION_FAILED]: "The information provided is invalid.",
   [MongoDBErrorCode.DUPLICATE_KEY]: "This record already exists.",
+  [MongoDBErrorCode.VERSION_CONFLICT]: "This record was changed elsewhere. Reload it and try again.",
   [MongoDBErrorCode.CREATE_FAILED]: "Unable to create record. Please try again.",
   [MongoDBErrorCode.UPDATE_FAILED]: "Unable to update record. Please try again.",
   [MongoDBErrorCode.DELETE_FAILED]: "Unable to delete record. Please try again.",
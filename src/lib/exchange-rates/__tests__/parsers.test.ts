@@ -0,0 +1,68 @@
+/**
+ * Tests for exchange rate source parsers
+ */
+
+import { parseEcbXml } from '../ecb';
+import { parseRatesCsv, parseRatesJson } from '../file';
+import { ExchangeRateError } from '../types';
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time='2024-01-03'>
+      <Cube currency='USD' rate='1.0919'/>
+      <Cube currency='JPY' rate='155.52'/>
+      <Cube currency='XAU' rate='0.0005'/>
+      <Cube currency='GBP' rate='0.86110'/>
+    </Cube>
+    <Cube time="2024-01-02">
+      <Cube currency="USD" rate="1.0956"/>
+      <Cube currency="PLN" rate="4.3465"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+describe('Exchange rate parsers', () => {
+  describe('parseEcbXml', () => {
+    it('should read one snapshot per day', () => {
+      const snapshots = parseEcbXml(ECB_XML);
+
+      expect(snapshots).toHaveLength(2);
+      expect(snapshots[0]).toEqual({ date: '2024-01-03', rates: { USD: 1.0919, JPY: 155.52, GBP: 0.8611 } });
+      expect(snapshots[1].rates.PLN).toBe(4.3465);
+    });
+
+    it('should reject documents without rates', () => {
+      expect(() => parseEcbXml('<html></html>')).toThrow(ExchangeRateError);
+    });
+  });
+
+  describe('parseRatesJson', () => {
+    it('should accept a bare array or a rates property', () => {
+      const snapshot = { date: '2024-01-02', rates: { USD: 1.0956, XYZ: 2 } };
+
+      expect(parseRatesJson(JSON.stringify([snapshot]))).toEqual([{ date: '2024-01-02', rates: { USD: 1.0956 } }]);
+      expect(parseRatesJson(JSON.stringify({ rates: [snapshot] }))).toHaveLength(1);
+    });
+
+    it('should reject malformed dates', () => {
+      expect(() => parseRatesJson('[{ "date": "02/01/2024", "rates": {} }]')).toThrow(ExchangeRateError);
+    });
+  });
+
+  describe('parseRatesCsv', () => {
+    it('should group rows by date', () => {
+      const snapshots = parseRatesCsv('date,currency,rate\n2024-01-02,USD,1.0956\n2024-01-02,gbp,0.8658\n2024-01-03,USD,1.0919\n');
+
+      expect(snapshots).toEqual([
+        { date: '2024-01-02', rates: { USD: 1.0956, GBP: 0.8658 } },
+        { date: '2024-01-03', rates: { USD: 1.0919 } }
+      ]);
+    });
+
+    it('should require the expected columns', () => {
+      expect(() => parseRatesCsv('day,code,value\n2024-01-02,USD,1.0956')).toThrow(ExchangeRateError);
+    });
+  });
+});
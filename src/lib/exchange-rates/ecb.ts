@@ -0,0 +1,96 @@
+import { ExchangeRateSnapshot } from '@/types/subscriptions';
+import { isValidCurrency } from '@/lib/subscriptions/config/currencies';
+import { IExchangeRateProvider, ExchangeRateError } from './types';
+
+// Daily reference rates; the same format is used by the 90 day and full history files
+export const ECB_DAILY_FEED_URL = 'https://www.ecb.europa.eu/stats/eurofxref/eurofxref-daily.xml';
+
+const FETCH_TIMEOUT = 15000; // 15 seconds
+
+/**
+ * Read the attributes of a single XML tag, e.g. `currency='USD' rate='1.0956'`
+ */
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Za-z_:][\w:.-]*)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = match[3] ?? match[4];
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse an ECB euro foreign exchange reference rates document.
+ * Rates are quoted as units of currency per 1 EUR; currencies we do not
+ * support are skipped.
+ *
+ * @param xml - The XML document
+ * @returns One snapshot per published day
+ * @throws ExchangeRateError if the document contains no rates
+ */
+export function parseEcbXml(xml: string): ExchangeRateSnapshot[] {
+  const snapshots: ExchangeRateSnapshot[] = [];
+  let current: ExchangeRateSnapshot | null = null;
+  const cubePattern = /<(?:\w+:)?Cube\b([^>]*?)\/?>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = cubePattern.exec(xml)) !== null) {
+    const attributes = parseAttributes(match[1]);
+
+    if (attributes.time) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(attributes.time)) {
+        throw new ExchangeRateError(`Invalid rate date: ${attributes.time}`, 'parse_error');
+      }
+      current = { date: attributes.time, rates: {} };
+      snapshots.push(current);
+    } else if (attributes.currency && attributes.rate && current) {
+      const rate = parseFloat(attributes.rate);
+      if (isValidCurrency(attributes.currency) && rate > 0) {
+        current.rates[attributes.currency] = rate;
+      }
+    }
+  }
+
+  if (snapshots.length === 0) {
+    throw new ExchangeRateError('No exchange rates found in ECB document', 'parse_error');
+  }
+
+  return snapshots;
+}
+
+/**
+ * Loads rates from an ECB-format XML feed
+ */
+export class EcbFeedProvider implements IExchangeRateProvider {
+  readonly source: string;
+
+  constructor(private url: string = ECB_DAILY_FEED_URL) {
+    this.source = `ecb:${url}`;
+  }
+
+  async fetchRates(): Promise<ExchangeRateSnapshot[]> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+    try {
+      const response = await fetch(this.url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP error ${response.status}`);
+      }
+      return parseEcbXml(await response.text());
+    } catch (error) {
+      if (error instanceof ExchangeRateError) throw error;
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new ExchangeRateError(
+        `Failed to fetch ECB exchange rates: ${errorMessage}`,
+        'source_unavailable'
+      );
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
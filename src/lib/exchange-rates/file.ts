@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import { ExchangeRateSnapshot } from '@/types/subscriptions';
+import { isValidCurrency } from '@/lib/subscriptions/config/currencies';
+import { IExchangeRateProvider, ExchangeRateError } from './types';
+import { parseEcbXml } from './ecb';
+
+/**
+ * Parse rates from JSON, either an array of snapshots or `{ "rates": [...] }`:
+ *
+ *   [{ "date": "2024-01-02", "rates": { "USD": 1.0956, "GBP": 0.8658 } }]
+ *
+ * @param json - The JSON document
+ * @returns Snapshots with unsupported currencies removed
+ */
+export function parseRatesJson(json: string): ExchangeRateSnapshot[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ExchangeRateError(`Invalid exchange rate JSON: ${errorMessage}`, 'parse_error');
+  }
+
+  const entries = Array.isArray(data) ? data : data?.rates;
+  if (!Array.isArray(entries)) {
+    throw new ExchangeRateError('Exchange rate JSON must contain an array of snapshots', 'parse_error');
+  }
+
+  return entries.map((entry: any) => {
+    if (typeof entry?.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+      throw new ExchangeRateError(`Invalid rate date: ${entry?.date}`, 'parse_error');
+    }
+
+    const rates: ExchangeRateSnapshot['rates'] = {};
+    Object.entries(entry.rates || {}).forEach(([currency, rate]) => {
+      if (isValidCurrency(currency) && typeof rate === 'number' && rate > 0) {
+        rates[currency] = rate;
+      }
+    });
+
+    return { date: entry.date, rates };
+  });
+}
+
+/**
+ * Parse rates from CSV with a `date,currency,rate` header:
+ *
+ *   date,currency,rate
+ *   2024-01-02,USD,1.0956
+ *
+ * @param csv - The CSV document
+ * @returns One snapshot per date
+ */
+export function parseRatesCsv(csv: string): ExchangeRateSnapshot[] {
+  const lines = csv.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  const header = (lines.shift() || '').toLowerCase().split(',').map(column => column.trim());
+  const dateIndex = header.indexOf('date');
+  const currencyIndex = header.indexOf('currency');
+  const rateIndex = header.indexOf('rate');
+
+  if (dateIndex === -1 || currencyIndex === -1 || rateIndex === -1) {
+    throw new ExchangeRateError('Exchange rate CSV needs date, currency and rate columns', 'parse_error');
+  }
+
+  const byDate = new Map<string, ExchangeRateSnapshot>();
+
+  lines.forEach((line, index) => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const date = cells[dateIndex];
+    const currency = (cells[currencyIndex] || '').toUpperCase();
+    const rate = parseFloat(cells[rateIndex]);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(rate)) {
+      throw new ExchangeRateError(`Invalid exchange rate on line ${index + 2}`, 'parse_error');
+    }
+
+    const snapshot = byDate.get(date) || { date, rates: {} };
+    if (isValidCurrency(currency) && rate > 0) {
+      snapshot.rates[currency] = rate;
+    }
+    byDate.set(date, snapshot);
+  });
+
+  return Array.from(byDate.values());
+}
+
+/**
+ * Loads rates from a local JSON, CSV or ECB XML file.
+ * Stands in for a live feed in development and offline environments.
+ */
+export class FileExchangeRateProvider implements IExchangeRateProvider {
+  readonly source: string;
+
+  constructor(private path: string) {
+    this.source = `file:${path}`;
+  }
+
+  async fetchRates(): Promise<ExchangeRateSnapshot[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new ExchangeRateError(
+        `Failed to read exchange rate file: ${errorMessage}`,
+        'source_unavailable'
+      );
+    }
+
+    switch (extname(this.path).toLowerCase()) {
+      case '.json':
+        return parseRatesJson(contents);
+      case '.csv':
+        return parseRatesCsv(contents);
+      case '.xml':
+        return parseEcbXml(contents);
+      default:
+        throw new ExchangeRateError(
+          `Unsupported exchange rate file: ${this.path}`,
+          'unsupported_format'
+        );
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { IExchangeRateProvider } from './types';
+import { EcbFeedProvider } from './ecb';
+import { FileExchangeRateProvider } from './file';
+
+let exchangeRateProvider: IExchangeRateProvider | null | undefined;
+
+/**
+ * Get the configured exchange rate source.
+ *
+ * EXCHANGE_RATES_SOURCE selects it:
+ * - 'file': read EXCHANGE_RATES_FILE (.json, .csv or ECB .xml)
+ * - 'ecb': fetch EXCHANGE_RATES_FEED_URL (defaults to the ECB daily feed)
+ * - unset: no source, only stored and static rates are used
+ */
+export function getExchangeRateProvider(): IExchangeRateProvider | null {
+  if (exchangeRateProvider === undefined) {
+    const source = process.env.EXCHANGE_RATES_SOURCE;
+
+    if (source === 'file' && process.env.EXCHANGE_RATES_FILE) {
+      exchangeRateProvider = new FileExchangeRateProvider(process.env.EXCHANGE_RATES_FILE);
+    } else if (source === 'ecb') {
+      exchangeRateProvider = new EcbFeedProvider(process.env.EXCHANGE_RATES_FEED_URL || undefined);
+    } else {
+      exchangeRateProvider = null;
+    }
+  }
+  return exchangeRateProvider;
+}
+
+// For testing or switching exchange rate sources
+export function setExchangeRateProvider(provider: IExchangeRateProvider | null) {
+  exchangeRateProvider = provider;
+}
+
+// Clear the provider (useful for testing)
+export function clearExchangeRateProvider() {
+  exchangeRateProvider = undefined;
+}
+
+export * from './types';
+export { EcbFeedProvider, parseEcbXml } from './ecb';
+export { FileExchangeRateProvider, parseRatesJson, parseRatesCsv } from './file';
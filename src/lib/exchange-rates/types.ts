@@ -0,0 +1,17 @@
+import { ExchangeRateSnapshot } from '@/types/subscriptions';
+
+export interface IExchangeRateProvider {
+  // Identifies where stored rates came from
+  readonly source: string;
+  fetchRates(): Promise<ExchangeRateSnapshot[]>;
+}
+
+export class ExchangeRateError extends Error {
+  constructor(
+    message: string,
+    public code: 'source_unavailable' | 'parse_error' | 'unsupported_format'
+  ) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
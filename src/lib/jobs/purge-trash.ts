@@ -0,0 +1,30 @@
+/**
+ * Trash Purge Job
+ *
+ * Deletes subscriptions that have been in the trash for longer than
+ * TRASH_RETENTION_DAYS, together with their price history. Runs once, e.g.
+ * daily from cron.
+ *
+ * Usage: npm run purge-trash
+ */
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+import mongoose from 'mongoose';
+import { purgeExpiredTrash } from '@/lib/services/subscription-service';
+
+dotenv.config({ path: resolve(process.cwd(), '.env.local') });
+
+async function main() {
+  try {
+    const startedAt = new Date();
+    const purged = await purgeExpiredTrash(startedAt);
+    console.log(`[Trash] ${startedAt.toISOString()}: ${purged} subscriptions purged`);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error('[Trash] Run failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+/**
+ * Renewal Reminder Job
+ * 
+ * Sends the renewal reminders that are due. Runs once by default, e.g. from
+ * cron; with --watch it keeps running and checks every
+ * REMINDER_INTERVAL_MINUTES (default 60).
+ * 
+ * Usage: npm run reminders [-- --watch]
+ */
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+import mongoose from 'mongoose';
+import { sendRenewalReminders } from '@/lib/services/reminder-service';
+import { getNotifier } from '@/lib/notifications';
+
+dotenv.config({ path: resolve(process.cwd(), '.env.local') });
+
+async function runOnce() {
+  const startedAt = new Date();
+  const result = await sendRenewalReminders({ now: startedAt });
+  console.log(
+    `[Reminders] ${startedAt.toISOString()} via ${getNotifier().channel}: ` +
+    `${result.remindersSent} sent, ${result.remindersSkipped} already sent, ` +
+    `${result.deliveryFailures} failed deliveries (${result.usersChecked} users checked)`
+  );
+}
+
+async function main() {
+  if (!process.argv.includes('--watch')) {
+    try {
+      await runOnce();
+    } finally {
+      await mongoose.disconnect();
+    }
+    return;
+  }
+
+  const intervalMinutes = parseInt(process.env.REMINDER_INTERVAL_MINUTES || '60', 10);
+  console.log(`[Reminders] Checking every ${intervalMinutes} minutes`);
+
+  const tick = () => runOnce().catch(error => console.error('[Reminders] Run failed:', error));
+  await tick();
+  const timer = setInterval(tick, intervalMinutes * 60 * 1000);
+
+  const stop = async () => {
+    clearInterval(timer);
+    await mongoose.disconnect();
+    process.exit(0);
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch(error => {
+  console.error('[Reminders] Run failed:', error);
+  process.exit(1);
+});
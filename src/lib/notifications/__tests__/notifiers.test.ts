@@ -0,0 +1,79 @@
+/**
+ * Tests for notification channels
+ */
+
+import os from 'os';
+import path from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { FileNotifier, SmtpNotifier, getSmtpConfigFromEnv, renderRenewalReminder } from '..';
+import { startSmtpSink } from '../smtp-sink';
+import { Subscription } from '@/types/subscriptions';
+import { formatCurrency } from '@/lib/subscriptions/utils/currency';
+
+const subscription: Subscription = {
+  id: 'sub-1',
+  name: 'Netflix',
+  price: 10,
+  currency: 'EUR',
+  billingPeriod: 'MONTHLY',
+  startDate: '2024-01-01T00:00:00.000Z',
+  nextBillingDate: '2024-03-04T00:00:00.000Z',
+  disabled: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('renderRenewalReminder', () => {
+  it('should list the upcoming bills', () => {
+    const notification = renderRenewalReminder('jane@example.com', 'Jane', [
+      { subscription, daysUntil: 3 }
+    ]);
+
+    expect(notification.subject).toBe('Netflix renews in 3 days');
+    expect(notification.text).toContain(`Netflix: ${formatCurrency(10, 'EUR')} on Mar 4, 2024`);
+  });
+});
+
+describe('FileNotifier', () => {
+  it('should append notifications as JSON lines', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'notifier-'));
+    const filePath = path.join(dir, 'out', 'notifications.jsonl');
+    const notifier = new FileNotifier(filePath);
+
+    await notifier.send({ to: 'a@example.com', subject: 'One', text: 'First' });
+    await notifier.send({ to: 'b@example.com', subject: 'Two', text: 'Second' });
+
+    const lines = (await readFile(filePath, 'utf8')).trim().split('\n');
+    expect(lines.length).toBe(2);
+    expect(JSON.parse(lines[1]).subject).toBe('Two');
+
+    await rm(dir, { recursive: true, force: true });
+  });
+});
+
+describe('SmtpNotifier', () => {
+  it('should deliver to an SMTP server', async () => {
+    const sink = await startSmtpSink();
+    const notifier = new SmtpNotifier({
+      host: '127.0.0.1',
+      port: sink.port,
+      secure: false,
+      from: 'reminders@example.com'
+    });
+
+    try {
+      await notifier.send({ to: 'jane@example.com', subject: 'Netflix renews soon', text: 'Hello' });
+    } finally {
+      sink.close();
+    }
+
+    expect(sink.messages.length).toBe(1);
+    expect(sink.messages[0]).toContain('Subject: Netflix renews soon');
+    expect(sink.messages[0]).toContain('To: jane@example.com');
+  });
+
+  it('should require a host and sender', () => {
+    expect(() => getSmtpConfigFromEnv({ SMTP_HOST: 'localhost' })).toThrow();
+    expect(getSmtpConfigFromEnv({ SMTP_HOST: 'localhost', SMTP_FROM: 'a@b.c', SMTP_PORT: '465' }).secure).toBe(true);
+  });
+});
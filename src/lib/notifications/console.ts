@@ -0,0 +1,16 @@
+import { INotifier, Notification } from './types';
+
+/**
+ * Prints notifications to the console instead of delivering them (development)
+ */
+export class ConsoleNotifier implements INotifier {
+  readonly channel = 'console';
+
+  async send(notification: Notification): Promise<void> {
+    console.log(
+      `[Notification] To: ${notification.to}\n` +
+      `Subject: ${notification.subject}\n\n` +
+      `${notification.text}\n`
+    );
+  }
+}
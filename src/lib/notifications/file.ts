@@ -0,0 +1,27 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { INotifier, Notification, NotificationError } from './types';
+
+/**
+ * Appends notifications to a file as JSON lines instead of delivering them
+ * (development and tests)
+ */
+export class FileNotifier implements INotifier {
+  readonly channel = 'file';
+
+  constructor(private filePath: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    const entry = { ...notification, sentAt: new Date().toISOString() };
+
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    } catch (error) {
+      throw new NotificationError(
+        `Could not write notification to ${this.filePath}: ${error instanceof Error ? error.message : error}`,
+        'delivery_failed'
+      );
+    }
+  }
+}
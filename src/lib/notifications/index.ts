@@ -0,0 +1,47 @@
+import { INotifier } from './types';
+import { ConsoleNotifier } from './console';
+import { FileNotifier } from './file';
+import { SmtpNotifier, getSmtpConfigFromEnv } from './smtp';
+
+let notifier: INotifier | undefined;
+
+/**
+ * Get the configured notification channel.
+ *
+ * NOTIFIER selects it:
+ * - 'smtp': send email using SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD and SMTP_FROM
+ * - 'file': append to NOTIFIER_FILE (default ./logs/notifications.jsonl)
+ * - unset or 'console': print to the console
+ */
+export function getNotifier(): INotifier {
+  if (notifier === undefined) {
+    const channel = process.env.NOTIFIER;
+
+    if (channel === 'smtp') {
+      notifier = new SmtpNotifier(getSmtpConfigFromEnv());
+    } else if (channel === 'file') {
+      notifier = new FileNotifier(process.env.NOTIFIER_FILE || './logs/notifications.jsonl');
+    } else {
+      notifier = new ConsoleNotifier();
+    }
+  }
+  return notifier;
+}
+
+// For testing or switching notification channels
+export function setNotifier(newNotifier: INotifier) {
+  notifier = newNotifier;
+}
+
+// Clear the notifier (useful for testing)
+export function clearNotifier() {
+  notifier = undefined;
+}
+
+export * from './types';
+export { ConsoleNotifier } from './console';
+export { FileNotifier } from './file';
+export { SmtpNotifier, getSmtpConfigFromEnv } from './smtp';
+export type { SmtpConfig } from './smtp';
+export { renderRenewalReminder, renderPasswordReset, renderEmailVerification } from './templates';
+export type { RenewalReminderItem } from './templates';
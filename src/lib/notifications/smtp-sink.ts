@@ -0,0 +1,54 @@
+import net from 'net';
+
+/**
+ * Minimal SMTP sink that accepts every message and keeps the raw DATA
+ * Listens on a free local port, so SMTP delivery can be tested without a mail server.
+ */
+export function startSmtpSink(): Promise<{ port: number; messages: string[]; close: () => void }> {
+  const messages: string[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 localhost SMTP sink\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 OK\r\n');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const command = buffer.slice(0, lineEnd).toUpperCase();
+        buffer = buffer.slice(lineEnd + 2);
+
+        if (command.startsWith('EHLO')) {
+          socket.write('250-localhost\r\n250 8BITMIME\r\n');
+        } else if (command.startsWith('DATA')) {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command.startsWith('QUIT')) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, messages, close: () => server.close() });
+    });
+  });
+}
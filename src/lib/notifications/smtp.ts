@@ -0,0 +1,67 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { INotifier, Notification, NotificationError } from './types';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Use TLS from the start (port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Delivers notifications as email through an SMTP server
+ */
+export class SmtpNotifier implements INotifier {
+  readonly channel = 'smtp';
+  private transporter: Transporter;
+
+  constructor(private config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.config.from,
+        to: notification.to,
+        subject: notification.subject,
+        text: notification.text,
+        html: notification.html
+      });
+    } catch (error) {
+      throw new NotificationError(
+        `SMTP delivery to ${notification.to} failed: ${error instanceof Error ? error.message : error}`,
+        'delivery_failed'
+      );
+    }
+  }
+}
+
+/**
+ * Read the SMTP settings from the environment
+ * @throws NotificationError if SMTP_HOST or SMTP_FROM is missing
+ */
+export function getSmtpConfigFromEnv(env: Record<string, string | undefined> = process.env): SmtpConfig {
+  if (!env.SMTP_HOST || !env.SMTP_FROM) {
+    throw new NotificationError('SMTP_HOST and SMTP_FROM must be set to send email', 'misconfigured');
+  }
+
+  const port = parseInt(env.SMTP_PORT || '587', 10);
+
+  return {
+    host: env.SMTP_HOST,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    from: env.SMTP_FROM
+  };
+}
@@ -0,0 +1,126 @@
+import { Subscription } from '@/types/subscriptions';
+import { formatCurrency } from '@/lib/subscriptions/utils/currency';
+import { getEffectivePrice } from '@/lib/subscriptions/utils/calculations';
+import { Notification } from './types';
+
+export interface RenewalReminderItem {
+  subscription: Subscription;
+  daysUntil: number;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function describeDaysUntil(days: number): string {
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+}
+
+function describeBill({ subscription, daysUntil }: RenewalReminderItem): string {
+  const price = formatCurrency(getEffectivePrice(subscription), subscription.currency);
+  // Billing dates are calendar days stored at midnight UTC
+  const date = new Date(subscription.nextBillingDate).toLocaleDateString('en-US', {
+    dateStyle: 'medium',
+    timeZone: 'UTC'
+  });
+  return `${subscription.name}: ${price} on ${date} (${describeDaysUntil(daysUntil)})`;
+}
+
+/**
+ * Build the reminder sent to a user about their upcoming renewals
+ * @param to - Recipient email address
+ * @param name - Recipient name for the greeting
+ * @param items - Upcoming bills, soonest first
+ * @returns The notification to send
+ */
+export function renderRenewalReminder(to: string, name: string, items: RenewalReminderItem[]): Notification {
+  const subject = items.length === 1
+    ? `${items[0].subscription.name} renews ${describeDaysUntil(items[0].daysUntil)}`
+    : `${items.length} subscriptions renew soon`;
+  const lines = items.map(describeBill);
+
+  return {
+    to,
+    subject,
+    text: [
+      `Hi ${name},`,
+      '',
+      'These subscriptions are about to renew:',
+      '',
+      ...lines.map(line => `- ${line}`),
+      '',
+      'Cancel or pause them before the billing date if you no longer need them.'
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(name)},</p>`,
+      '<p>These subscriptions are about to renew:</p>',
+      `<ul>${lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`,
+      '<p>Cancel or pause them before the billing date if you no longer need them.</p>'
+    ].join('\n')
+  };
+}
+
+/**
+ * Build the email with a link to choose a new password
+ * @param to - Recipient email address
+ * @param name - Recipient name for the greeting
+ * @param resetUrl - Link to the reset page, carrying the token
+ * @param expiresInMinutes - How long the link works for
+ * @returns The notification to send
+ */
+export function renderPasswordReset(to: string, name: string, resetUrl: string, expiresInMinutes: number): Notification {
+  return {
+    to,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${name},`,
+      '',
+      'Someone asked to reset the password of your Subscription Tracker account.',
+      `Choose a new password within ${expiresInMinutes} minutes at:`,
+      '',
+      resetUrl,
+      '',
+      'If it was not you, ignore this email; your password stays the same.'
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(name)},</p>`,
+      '<p>Someone asked to reset the password of your Subscription Tracker account.</p>',
+      `<p><a href="${escapeHtml(resetUrl)}">Choose a new password</a> within ${expiresInMinutes} minutes.</p>`,
+      '<p>If it was not you, ignore this email; your password stays the same.</p>'
+    ].join('\n')
+  };
+}
+
+/**
+ * Build the email with a link to confirm an address after signing up
+ * @param to - Recipient email address
+ * @param name - Recipient name for the greeting
+ * @param verifyUrl - Link to the verification page, carrying the token
+ * @returns The notification to send
+ */
+export function renderEmailVerification(to: string, name: string, verifyUrl: string): Notification {
+  return {
+    to,
+    subject: 'Confirm your email address',
+    text: [
+      `Hi ${name},`,
+      '',
+      'Welcome to Subscription Tracker! Confirm your email address at:',
+      '',
+      verifyUrl,
+      '',
+      'If you did not sign up, ignore this email.'
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(name)},</p>`,
+      `<p>Welcome to Subscription Tracker! <a href="${escapeHtml(verifyUrl)}">Confirm your email address</a>.</p>`,
+      '<p>If you did not sign up, ignore this email.</p>'
+    ].join('\n')
+  };
+}
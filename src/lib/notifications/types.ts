@@ -0,0 +1,22 @@
+export interface Notification {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface INotifier {
+  // Identifies the channel in logs and sent-reminder records
+  readonly channel: string;
+  send(notification: Notification): Promise<void>;
+}
+
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public code: 'delivery_failed' | 'misconfigured'
+  ) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
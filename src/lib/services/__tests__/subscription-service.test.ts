@@ -8,15 +8,25 @@ import {
   createSubscription,
   updateSubscription,
   deleteSubscription,
+  purgeSubscription,
+  purgeExpiredTrash,
   toggleSubscriptionStatus,
   getUpcomingBills
 } from '../subscription-service';
 import { SubscriptionModel } from '@/models/subscription';
+import { CategoryModel } from '@/models/category';
+import { recordPriceChange, deletePriceHistory } from '../price-history-service';
+import { MongoDBErrorCode } from '@/lib/db/error-handler';
 import mongoose from 'mongoose';
-import { jest } from '@jest/globals';
 
 // Mock modules
 jest.mock('@/models/subscription');
+jest.mock('@/models/category');
+jest.mock('../price-history-service', () => ({
+  detectPriceChange: (jest.requireActual('../price-history-service') as any).detectPriceChange,
+  recordPriceChange: jest.fn(),
+  deletePriceHistory: jest.fn()
+}));
 jest.mock('@/lib/db/simplified-connection', () => ({
   withConnection: jest.fn((callback) => callback())
 }));
@@ -69,13 +79,41 @@ describe('Subscription Service', () => {
       const result = await getUserSubscriptions(testUserId);
       
       // Assert
-      expect(findMock).toHaveBeenCalledWith({ userId: testUserId });
+      expect(findMock).toHaveBeenCalledWith({ userId: testUserId, workspaceId: null, deletedAt: null });
       expect(sortMock).toHaveBeenCalledWith({ nextBillingDate: 1 });
       expect(result).toHaveLength(1);
       expect(result[0].id).toBe(testSubscriptionId);
       expect(result[0].name).toBe('Netflix');
       expect(result[0].startDate).toBe(sampleSubscription.startDate.toISOString());
     });
+
+    it('should filter by category and tags', async () => {
+      // Setup mock
+      const findMock = jest.fn();
+      const sortMock = jest.fn().mockReturnThis();
+      const leanMock = jest.fn().mockReturnThis();
+      const execMock = jest.fn().mockResolvedValue([]);
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.find = findMock;
+      findMock.mockReturnValue({
+        sort: sortMock,
+        lean: leanMock,
+        exec: execMock
+      });
+      
+      // Act
+      await getUserSubscriptions(testUserId, { categoryId: 'uncategorized', tags: ['work'] });
+      
+      // Assert
+      expect(findMock).toHaveBeenCalledWith({
+        userId: testUserId,
+        workspaceId: null,
+        deletedAt: null,
+        categoryId: { $in: [null, ''] },
+        tags: { $all: ['work'] }
+      });
+    });
   });
 
   describe('getSubscriptionById', () => {
@@ -98,7 +136,9 @@ describe('Subscription Service', () => {
       // Assert
       expect(findOneMock).toHaveBeenCalledWith({
         _id: expect.any(mongoose.Types.ObjectId),
-        userId: testUserId
+        userId: testUserId,
+        workspaceId: null,
+        deletedAt: null
       });
       expect(result).not.toBeNull();
       expect(result?.id).toBe(testSubscriptionId);
@@ -137,8 +177,8 @@ describe('Subscription Service', () => {
       const subscriptionData = {
         name: 'Netflix',
         price: 15.99,
-        currency: 'USD',
-        billingPeriod: 'monthly',
+        currency: 'USD' as const,
+        billingPeriod: 'MONTHLY' as const,
         startDate: '2023-01-01',
         description: 'Streaming service'
       };
@@ -152,32 +192,58 @@ describe('Subscription Service', () => {
       expect(result.name).toBe(subscriptionData.name);
       expect(result.id).toBe(testSubscriptionId);
     });
+
+    it("should reject a category that is not the user's own", async () => {
+      const createMock = jest.fn();
+      const findMock = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([])
+      });
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.create = createMock;
+      // @ts-ignore - Partial mock implementation
+      CategoryModel.find = findMock;
+      
+      const categoryId = new mongoose.Types.ObjectId().toString();
+      
+      await expect(createSubscription(testUserId, {
+        name: 'Netflix',
+        price: 15.99,
+        currency: 'USD',
+        billingPeriod: 'MONTHLY',
+        startDate: '2023-01-01',
+        categoryId
+      })).rejects.toMatchObject({ code: MongoDBErrorCode.VALIDATION_FAILED });
+      expect(findMock).toHaveBeenCalledWith({ userId: testUserId, _id: { $in: [categoryId] } });
+      expect(createMock).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateSubscription', () => {
+    // Loaded document that applies changes and bumps its version on save
+    const mockDocument = (overrides: Record<string, any> = {}) => {
+      const document: Record<string, any> = {
+        ...sampleSubscription,
+        __v: 3,
+        ...overrides,
+        set: (values: Record<string, any>) => Object.assign(document, values),
+        save: jest.fn(async () => {
+          document.__v += 1;
+          return document;
+        })
+      };
+      return document;
+    };
+
     it('should update and return a formatted subscription when found', async () => {
       // Setup mocks
-      const findOneMock = jest.fn().mockResolvedValue({
-        ...sampleSubscription,
-        toObject: () => sampleSubscription
-      });
-      
-      const findByIdAndUpdateMock = jest.fn().mockReturnThis();
-      const leanMock = jest.fn().mockReturnThis();
-      const execMock = jest.fn().mockResolvedValue({
-        ...sampleSubscription,
-        name: 'Updated Netflix',
-        price: 19.99
-      });
+      const document = mockDocument();
+      const findOneMock = jest.fn().mockResolvedValue(document);
       
       // @ts-ignore - Partial mock implementation
       SubscriptionModel.findOne = findOneMock;
-      // @ts-ignore - Partial mock implementation
-      SubscriptionModel.findByIdAndUpdate = findByIdAndUpdateMock;
-      findByIdAndUpdateMock.mockReturnValue({
-        lean: leanMock,
-        exec: execMock
-      });
       
       // Test data
       const updateData = {
@@ -186,14 +252,52 @@ describe('Subscription Service', () => {
       };
       
       // Act
-      const result = await updateSubscription(testUserId, testSubscriptionId, updateData);
+      const result = await updateSubscription(testUserId, testSubscriptionId, updateData, 3);
       
       // Assert
       expect(findOneMock).toHaveBeenCalled();
-      expect(findByIdAndUpdateMock).toHaveBeenCalled();
+      expect(document.save).toHaveBeenCalled();
       expect(result).not.toBeNull();
       expect(result?.name).toBe('Updated Netflix');
       expect(result?.price).toBe(19.99);
+      expect(result?.version).toBe(4);
+      expect(recordPriceChange).toHaveBeenCalledWith(testUserId, testSubscriptionId, {
+        oldPrice: 15.99,
+        newPrice: 19.99,
+        currency: 'USD',
+        previousCurrency: undefined
+      });
+    });
+
+    it('should not record price history when the price is unchanged', async () => {
+      // Setup mocks
+      const findOneMock = jest.fn().mockResolvedValue(mockDocument());
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.findOne = findOneMock;
+      
+      // Act
+      await updateSubscription(testUserId, testSubscriptionId, { name: 'Renamed', price: 15.99 });
+      
+      // Assert
+      expect(recordPriceChange).not.toHaveBeenCalled();
+    });
+
+    it('should reject an update based on an older version', async () => {
+      // Setup mocks
+      const document = mockDocument();
+      const findOneMock = jest.fn().mockResolvedValue(document);
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.findOne = findOneMock;
+      
+      // Act
+      const update = updateSubscription(testUserId, testSubscriptionId, { name: 'Stale' }, 2);
+      
+      // Assert
+      await expect(update).rejects.toMatchObject({ code: MongoDBErrorCode.VERSION_CONFLICT });
+      expect(document.save).not.toHaveBeenCalled();
+      expect(document.name).toBe('Netflix');
     });
     
     it('should return null when subscription not found', async () => {
@@ -212,7 +316,42 @@ describe('Subscription Service', () => {
   });
 
   describe('deleteSubscription', () => {
-    it('should return true when subscription deleted successfully', async () => {
+    it('should move the subscription to the trash', async () => {
+      // Setup mock
+      const updateOneMock = jest.fn().mockResolvedValue({ matchedCount: 1 });
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.updateOne = updateOneMock;
+      
+      // Act
+      const result = await deleteSubscription(testUserId, testSubscriptionId);
+      
+      // Assert
+      expect(updateOneMock).toHaveBeenCalledWith(
+        { _id: expect.any(mongoose.Types.ObjectId), userId: testUserId, workspaceId: null, deletedAt: null },
+        { $set: { deletedAt: expect.any(Date) } }
+      );
+      expect(result).toBe(true);
+      expect(deletePriceHistory).not.toHaveBeenCalled();
+    });
+    
+    it('should return false when no subscription deleted', async () => {
+      // Setup mock
+      const updateOneMock = jest.fn().mockResolvedValue({ matchedCount: 0 });
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.updateOne = updateOneMock;
+      
+      // Act
+      const result = await deleteSubscription(testUserId, new mongoose.Types.ObjectId().toString());
+      
+      // Assert
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('purgeSubscription', () => {
+    it('should delete a trashed subscription and its price history', async () => {
       // Setup mock
       const deleteOneMock = jest.fn().mockResolvedValue({ deletedCount: 1 });
       
@@ -220,17 +359,20 @@ describe('Subscription Service', () => {
       SubscriptionModel.deleteOne = deleteOneMock;
       
       // Act
-      const result = await deleteSubscription(testUserId, testSubscriptionId);
+      const result = await purgeSubscription(testUserId, testSubscriptionId);
       
       // Assert
       expect(deleteOneMock).toHaveBeenCalledWith({
         _id: expect.any(mongoose.Types.ObjectId),
-        userId: testUserId
+        userId: testUserId,
+        workspaceId: null,
+        deletedAt: { $ne: null }
       });
       expect(result).toBe(true);
+      expect(deletePriceHistory).toHaveBeenCalledWith(testUserId, [testSubscriptionId]);
     });
-    
-    it('should return false when no subscription deleted', async () => {
+
+    it('should leave subscriptions outside the trash alone', async () => {
       // Setup mock
       const deleteOneMock = jest.fn().mockResolvedValue({ deletedCount: 0 });
       
@@ -238,10 +380,145 @@ describe('Subscription Service', () => {
       SubscriptionModel.deleteOne = deleteOneMock;
       
       // Act
-      const result = await deleteSubscription(testUserId, 'non-existent-id');
+      const result = await purgeSubscription(testUserId, testSubscriptionId);
       
       // Assert
       expect(result).toBe(false);
+      expect(deletePriceHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('should purge expired trash with its price history', async () => {
+      // Setup mock
+      const workspaceId = new mongoose.Types.ObjectId();
+      const personal = { _id: new mongoose.Types.ObjectId(), userId: testUserId };
+      const shared = { _id: new mongoose.Types.ObjectId(), userId: testUserId, workspaceId };
+      const findMock = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([personal, shared])
+      });
+      const deleteOneMock = jest.fn().mockResolvedValue({ deletedCount: 1 });
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.find = findMock;
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.deleteOne = deleteOneMock;
+      
+      // Act
+      const result = await purgeExpiredTrash(new Date('2024-03-31T00:00:00Z'));
+      
+      // Assert
+      const expired = { deletedAt: { $ne: null, $lte: new Date('2024-03-01T00:00:00Z') } };
+      expect(findMock).toHaveBeenCalledWith(expired);
+      expect(deleteOneMock).toHaveBeenCalledWith({ _id: personal._id, ...expired });
+      expect(result).toBe(2);
+      expect(deletePriceHistory).toHaveBeenCalledWith(testUserId, [personal._id.toString()]);
+      expect(deletePriceHistory).toHaveBeenCalledWith(`workspace:${workspaceId}`, [shared._id.toString()]);
+    });
+
+    it('should keep the price history of subscriptions restored meanwhile', async () => {
+      // Setup mock
+      const findMock = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue([{ _id: new mongoose.Types.ObjectId(), userId: testUserId }])
+      });
+      
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.find = findMock;
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.deleteOne = jest.fn().mockResolvedValue({ deletedCount: 0 });
+      
+      // Act
+      const result = await purgeExpiredTrash();
+      
+      // Assert
+      expect(result).toBe(0);
+      expect(deletePriceHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUpcomingBills', () => {
+    const daysFromNow = (days: number) => {
+      const date = new Date();
+      date.setDate(date.getDate() + days);
+      return date;
+    };
+
+    const mockFind = (subscriptions: any[]) => {
+      const findMock = jest.fn().mockReturnValue({
+        lean: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockResolvedValue(subscriptions)
+      });
+      // @ts-ignore - Partial mock implementation
+      SubscriptionModel.find = findMock;
+      return findMock;
+    };
+
+    it('should step a stored billing date in the past forward to the next charge', async () => {
+      // Billed weekly since 10 weeks ago, last saved after the first charge
+      const startDate = daysFromNow(-70);
+      mockFind([{
+        ...sampleSubscription,
+        billingPeriod: 'WEEKLY',
+        startDate,
+        nextBillingDate: daysFromNow(-63)
+      }]);
+
+      // Act
+      const result = await getUpcomingBills(testUserId, 7);
+
+      // Assert
+      expect(result).toHaveLength(1);
+      const nextBillingDate = new Date(result[0].nextBillingDate);
+      expect(nextBillingDate.getTime()).toBeGreaterThan(Date.now());
+      expect(nextBillingDate.getTime()).toBeLessThanOrEqual(daysFromNow(7).getTime());
+      expect(nextBillingDate.getDay()).toBe(startDate.getDay());
+    });
+
+    it('should leave out subscriptions next charged after the window', async () => {
+      // Monthly, and charged again in 20 days
+      mockFind([{
+        ...sampleSubscription,
+        billingPeriod: 'MONTHLY',
+        startDate: daysFromNow(20),
+        nextBillingDate: daysFromNow(20)
+      }]);
+
+      // Act
+      const result = await getUpcomingBills(testUserId, 7);
+
+      // Assert
+      expect(result).toEqual([]);
+    });
+
+    it('should look ahead from the given date', async () => {
+      // Billed monthly on the 15th
+      mockFind([{
+        ...sampleSubscription,
+        billingPeriod: 'MONTHLY',
+        startDate: new Date('2023-01-15T00:00:00.000Z'),
+        nextBillingDate: new Date('2023-02-15T00:00:00.000Z')
+      }]);
+
+      // Act
+      const result = await getUpcomingBills(testUserId, 7, new Date('2023-03-10T00:00:00.000Z'));
+
+      // Assert
+      expect(result).toHaveLength(1);
+      expect(result[0].nextBillingDate).toBe('2023-03-15T00:00:00.000Z');
+    });
+
+    it('should not query by the stored billing date', async () => {
+      const findMock = mockFind([]);
+
+      // Act
+      await getUpcomingBills(testUserId);
+
+      // Assert
+      expect(findMock).toHaveBeenCalledWith(expect.not.objectContaining({ nextBillingDate: expect.anything() }));
     });
   });
 
@@ -0,0 +1,43 @@
+/**
+ * Analytics Service
+ * 
+ * This module provides service functions for spending over time, replayed
+ * from the stored subscriptions, price history and exchange rates.
+ */
+
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { getUserSubscriptions } from './subscription-service';
+import { getUserPriceHistory } from './price-history-service';
+import { getExchangeRateTable } from './exchange-rate-service';
+import { getUserPreferences } from './user-preferences-service';
+import { buildSpendingTrend } from '@/lib/subscriptions/utils/trend';
+import { Currency, SpendingTrend } from '@/types/subscriptions';
+
+/**
+ * Get a user's month-by-month spending history and projection
+ * 
+ * @param userId - The user's ID
+ * @param currency - The currency to total in (default: the user's preferred currency)
+ * @param date - The day that separates history from projection (default: now)
+ * @returns Monthly totals, oldest first
+ */
+export async function getSpendingTrend(
+  userId: string,
+  currency?: Currency,
+  date: Date = new Date()
+): Promise<SpendingTrend> {
+  return withErrorHandling(async () => {
+    const [subscriptions, priceHistory, rates, preferences] = await Promise.all([
+      getUserSubscriptions(userId),
+      getUserPriceHistory(userId),
+      getExchangeRateTable(),
+      getUserPreferences(userId)
+    ]);
+
+    return buildSpendingTrend(subscriptions, priceHistory, {
+      currency: currency || preferences.preferredCurrency,
+      date,
+      rates
+    });
+  }, 'getSpendingTrend');
+}
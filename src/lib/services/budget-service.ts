@@ -0,0 +1,81 @@
+/**
+ * Budget Service
+ * 
+ * This module provides service functions for monthly spending caps,
+ * overall and per category.
+ */
+
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { BudgetModel } from '@/models/budget';
+import { Budget, BudgetFormData } from '@/types/subscriptions';
+
+/**
+ * Convert a database budget document to the Budget interface
+ */
+function formatBudget(doc: any): Budget {
+  return {
+    id: doc._id.toString(),
+    categoryId: doc.categoryId || null,
+    amount: doc.amount,
+    currency: doc.currency
+  };
+}
+
+/**
+ * Get all budgets of a user
+ * 
+ * @param userId - The user's ID
+ * @returns The overall budget (if set) first, then category budgets
+ */
+export async function getUserBudgets(userId: string): Promise<Budget[]> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const budgets = await BudgetModel.find({ userId })
+        .sort({ categoryId: 1 })
+        .lean()
+        .exec();
+      
+      return budgets.map(formatBudget);
+    });
+  }, 'getUserBudgets');
+}
+
+/**
+ * Set the overall or a category budget, replacing any existing one
+ * 
+ * @param userId - The user's ID
+ * @param data - The budget; a null categoryId sets the overall budget
+ * @returns The saved budget
+ */
+export async function setBudget(userId: string, data: BudgetFormData): Promise<Budget> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const budget = await BudgetModel.findOneAndUpdate(
+        { userId, categoryId: data.categoryId || null },
+        { $set: { amount: data.amount, currency: data.currency } },
+        { new: true, upsert: true, runValidators: true }
+      )
+        .lean()
+        .exec();
+      
+      return formatBudget(budget);
+    });
+  }, 'setBudget');
+}
+
+/**
+ * Remove the overall or a category budget
+ * 
+ * @param userId - The user's ID
+ * @param categoryId - The category, or null for the overall budget
+ * @returns True if a budget was removed, false otherwise
+ */
+export async function deleteBudget(userId: string, categoryId: string | null): Promise<boolean> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const result = await BudgetModel.deleteOne({ userId, categoryId: categoryId || null });
+      return result.deletedCount === 1;
+    });
+  }, 'deleteBudget');
+}
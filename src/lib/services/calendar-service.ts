@@ -0,0 +1,115 @@
+/**
+ * Calendar Service
+ * 
+ * This module provides service functions for the per-user iCalendar feed
+ * of billing dates and the secret tokens that address it.
+ */
+
+import { randomBytes } from 'crypto';
+import mongoose from 'mongoose';
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { UserModel } from '@/models/user';
+import { getUserSubscriptions } from './subscription-service';
+import { DEFAULT_PREFERENCES } from './user-preferences-service';
+import { buildCalendar } from '@/lib/subscriptions/utils/ical';
+import { getReminderDays } from '@/lib/subscriptions/utils/reminders';
+
+function generateCalendarToken(): string {
+  return randomBytes(24).toString('hex');
+}
+
+/**
+ * Get a user's calendar token, creating one on first use
+ * 
+ * @param userId - The user's ID
+ * @returns The token, or null if the user was not found
+ */
+export async function getCalendarToken(userId: string): Promise<string | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return null;
+      }
+
+      const user = await UserModel.findById(userId).select('calendarToken').lean<{ calendarToken?: string }>().exec();
+      if (!user) {
+        return null;
+      }
+      if (user.calendarToken) {
+        return user.calendarToken;
+      }
+
+      // Only set a token if none was created concurrently
+      const updated = await UserModel.findOneAndUpdate(
+        { _id: userId, calendarToken: { $exists: false } },
+        { $set: { calendarToken: generateCalendarToken() } },
+        { new: true }
+      ).select('calendarToken').lean<{ calendarToken?: string }>().exec();
+
+      if (updated?.calendarToken) {
+        return updated.calendarToken;
+      }
+
+      const current = await UserModel.findById(userId).select('calendarToken').lean<{ calendarToken?: string }>().exec();
+      return current?.calendarToken || null;
+    });
+  }, 'getCalendarToken');
+}
+
+/**
+ * Replace a user's calendar token, so the old feed URL stops working
+ * 
+ * @param userId - The user's ID
+ * @returns The new token, or null if the user was not found
+ */
+export async function regenerateCalendarToken(userId: string): Promise<string | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return null;
+      }
+
+      const user = await UserModel.findByIdAndUpdate(
+        userId,
+        { $set: { calendarToken: generateCalendarToken() } },
+        { new: true }
+      ).select('calendarToken').lean<{ calendarToken?: string }>().exec();
+
+      return user?.calendarToken || null;
+    });
+  }, 'regenerateCalendarToken');
+}
+
+/**
+ * Build the calendar feed addressed by a token
+ * 
+ * @param token - The calendar token from the feed URL
+ * @returns The iCalendar content, or null if no user has this token
+ */
+export async function getCalendarFeed(token: string): Promise<string | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const user = await UserModel.findOne({ calendarToken: token })
+        .select('email reminderDays')
+        .lean<{ _id: mongoose.Types.ObjectId; email: string; reminderDays?: number[] }>()
+        .exec();
+
+      if (!user) {
+        return null;
+      }
+
+      // Subscriptions saved through the storage API are keyed by email,
+      // those created through /api/subscriptions by user ID
+      const [byId, byEmail] = await Promise.all([
+        getUserSubscriptions(user._id.toString()),
+        getUserSubscriptions(user.email)
+      ]);
+      const preferences = { reminderDays: user.reminderDays || DEFAULT_PREFERENCES.reminderDays };
+
+      return buildCalendar([...byId, ...byEmail], {
+        getReminderDays: subscription => getReminderDays(subscription, preferences)
+      });
+    });
+  }, 'getCalendarFeed');
+}
@@ -0,0 +1,152 @@
+/**
+ * Category Service
+ * 
+ * This module provides service functions for the user-defined
+ * categories subscriptions are grouped into.
+ */
+
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { CategoryModel } from '@/models/category';
+import { SubscriptionModel } from '@/models/subscription';
+import { Category, CategoryFormData } from '@/types/subscriptions';
+import mongoose from 'mongoose';
+
+/**
+ * Convert a database category document to the Category interface
+ */
+function formatCategory(doc: any): Category {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    color: doc.color,
+    icon: doc.icon
+  };
+}
+
+/**
+ * Get all categories of a user
+ * 
+ * @param userId - The user's ID
+ * @returns Categories sorted by name
+ */
+export async function getUserCategories(userId: string): Promise<Category[]> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const categories = await CategoryModel.find({ userId })
+        .sort({ name: 1 })
+        .lean()
+        .exec();
+      
+      return categories.map(formatCategory);
+    });
+  }, 'getUserCategories');
+}
+
+/**
+ * Create a new category
+ * 
+ * @param userId - The user's ID
+ * @param data - The category data
+ * @returns The created category
+ */
+export async function createCategory(userId: string, data: CategoryFormData): Promise<Category> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const category = await CategoryModel.create({ userId, ...data });
+      return formatCategory(category);
+    });
+  }, 'createCategory');
+}
+
+/**
+ * Find the user's categories with the given names, creating the missing ones
+ * Used when restoring a backup, whose category IDs belong to the exporting account.
+ * 
+ * @param userId - The user's ID
+ * @param categories - The categories to look up or create
+ * @returns The user's category for each given one, in the same order
+ */
+export async function ensureCategories(userId: string, categories: CategoryFormData[]): Promise<Category[]> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const existing = await CategoryModel.find({ userId, name: { $in: categories.map(c => c.name) } })
+        .lean()
+        .exec();
+      const byName = new Map(existing.map((doc: any) => [doc.name, formatCategory(doc)]));
+
+      const result: Category[] = [];
+      for (const { name, color, icon } of categories) {
+        if (!byName.has(name)) {
+          byName.set(name, formatCategory(await CategoryModel.create({ userId, name, color, icon })));
+        }
+        result.push(byName.get(name)!);
+      }
+      return result;
+    });
+  }, 'ensureCategories');
+}
+
+/**
+ * Update an existing category
+ * 
+ * @param userId - The user's ID
+ * @param categoryId - The category's ID
+ * @param data - The category data to update
+ * @returns The updated category or null if not found
+ */
+export async function updateCategory(
+  userId: string,
+  categoryId: string,
+  data: Partial<CategoryFormData>
+): Promise<Category | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (!mongoose.Types.ObjectId.isValid(categoryId)) {
+        return null;
+      }
+
+      const category = await CategoryModel.findOneAndUpdate(
+        { _id: new mongoose.Types.ObjectId(categoryId), userId },
+        { $set: data },
+        { new: true, runValidators: true }
+      )
+        .lean()
+        .exec();
+      
+      return category ? formatCategory(category) : null;
+    });
+  }, 'updateCategory');
+}
+
+/**
+ * Delete a category; its subscriptions become uncategorized
+ * 
+ * @param userId - The user's ID
+ * @param categoryId - The category's ID
+ * @returns True if the category was deleted, false otherwise
+ */
+export async function deleteCategory(userId: string, categoryId: string): Promise<boolean> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (!mongoose.Types.ObjectId.isValid(categoryId)) {
+        return false;
+      }
+
+      const result = await CategoryModel.deleteOne({
+        _id: new mongoose.Types.ObjectId(categoryId),
+        userId
+      });
+
+      if (result.deletedCount !== 1) {
+        return false;
+      }
+
+      await SubscriptionModel.updateMany(
+        { userId, categoryId },
+        { $unset: { categoryId: '' } }
+      );
+      return true;
+    });
+  }, 'deleteCategory');
+}
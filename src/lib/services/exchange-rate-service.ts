@@ -0,0 +1,103 @@
+/**
+ * Exchange Rate Service
+ * 
+ * This module provides service functions for storing historical exchange
+ * rates and refreshing them from the configured rate provider.
+ */
+
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { ExchangeRateModel } from '@/models/exchange-rate';
+import { ExchangeRateSnapshot, ExchangeRateTable } from '@/types/subscriptions';
+import { IExchangeRateProvider } from '@/lib/exchange-rates';
+import { createRateTable } from '@/lib/subscriptions/utils/exchange-rates';
+
+/**
+ * Convert a database exchange rate document to an ExchangeRateSnapshot
+ */
+function formatSnapshot(doc: any): ExchangeRateSnapshot {
+  const rates = doc.rates instanceof Map ? Object.fromEntries(doc.rates) : doc.rates;
+  return {
+    date: doc.date,
+    rates: rates || {}
+  };
+}
+
+/**
+ * Get all stored exchange rates
+ * 
+ * @returns Rate table sorted oldest first
+ */
+export async function getExchangeRateTable(): Promise<ExchangeRateTable> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const snapshots = await ExchangeRateModel.find({})
+        .sort({ date: 1 })
+        .lean()
+        .exec();
+      
+      return createRateTable(snapshots.map(formatSnapshot));
+    });
+  }, 'getExchangeRateTable');
+}
+
+/**
+ * Get the date of the newest stored snapshot
+ * 
+ * @returns The date key and when it was stored, or null if nothing is stored
+ */
+export async function getLatestExchangeRateInfo(): Promise<{ date: string; updatedAt: Date } | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const latest = await ExchangeRateModel.findOne({})
+        .sort({ date: -1 })
+        .lean<{ date: string; updatedAt: Date }>()
+        .exec();
+      
+      return latest ? { date: latest.date, updatedAt: new Date(latest.updatedAt) } : null;
+    });
+  }, 'getLatestExchangeRateInfo');
+}
+
+/**
+ * Store exchange rate snapshots, replacing the rates of days already stored
+ * 
+ * @param snapshots - The snapshots to store
+ * @param source - The provider they came from
+ * @returns The number of snapshots stored
+ */
+export async function saveExchangeRates(
+  snapshots: ExchangeRateSnapshot[],
+  source: string
+): Promise<number> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (snapshots.length === 0) {
+        return 0;
+      }
+
+      await ExchangeRateModel.bulkWrite(
+        snapshots.map(snapshot => ({
+          updateOne: {
+            filter: { date: snapshot.date },
+            update: { $set: { base: 'EUR', rates: snapshot.rates, source } },
+            upsert: true
+          }
+        }))
+      );
+      
+      return snapshots.length;
+    });
+  }, 'saveExchangeRates');
+}
+
+/**
+ * Load rates from a provider and store them
+ * 
+ * @param provider - The rate provider to load from
+ * @returns The number of snapshots stored
+ */
+export async function syncExchangeRates(provider: IExchangeRateProvider): Promise<number> {
+  const snapshots = await provider.fetchRates();
+  return saveExchangeRates(snapshots, provider.source);
+}
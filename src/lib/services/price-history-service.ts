@@ -0,0 +1,145 @@
+/**
+ * Price History Service
+ * 
+ * This module provides service functions for reading and recording
+ * changes to subscription prices over time.
+ */
+
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { PriceHistoryModel } from '@/models/price-history';
+import { Currency, PriceChange } from '@/types/subscriptions';
+
+/**
+ * The fields needed to record a price change, before it is stored
+ */
+export type PriceChangeInput = Omit<PriceChange, 'id' | 'subscriptionId' | 'effectiveDate'>;
+
+/**
+ * Convert a database price history document to the PriceChange interface
+ */
+function formatPriceChange(doc: any): PriceChange {
+  return {
+    id: doc._id.toString(),
+    subscriptionId: doc.subscriptionId,
+    effectiveDate: doc.effectiveDate instanceof Date ? doc.effectiveDate.toISOString() : doc.effectiveDate,
+    oldPrice: doc.oldPrice,
+    newPrice: doc.newPrice,
+    currency: doc.currency,
+    previousCurrency: doc.previousCurrency || undefined
+  };
+}
+
+/**
+ * Compare a subscription's stored price against an incoming edit
+ * 
+ * @param before - The stored price and currency
+ * @param after - The edited price and/or currency (missing fields are unchanged)
+ * @returns The change to record, or null if neither price nor currency changed
+ */
+export function detectPriceChange(
+  before: { price: number; currency: Currency },
+  after: { price?: number; currency?: Currency }
+): PriceChangeInput | null {
+  const newPrice = after.price ?? before.price;
+  const currency = after.currency ?? before.currency;
+
+  if (newPrice === before.price && currency === before.currency) {
+    return null;
+  }
+
+  return {
+    oldPrice: before.price,
+    newPrice,
+    currency,
+    previousCurrency: currency !== before.currency ? before.currency : undefined
+  };
+}
+
+/**
+ * Get the price history of a subscription
+ * 
+ * @param userId - The user's ID
+ * @param subscriptionId - The subscription's ID
+ * @returns Price changes, oldest first
+ */
+export async function getPriceHistory(userId: string, subscriptionId: string): Promise<PriceChange[]> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const history = await PriceHistoryModel.find({ userId, subscriptionId })
+        .sort({ effectiveDate: 1 })
+        .lean()
+        .exec();
+      
+      return history.map(formatPriceChange);
+    });
+  }, 'getPriceHistory');
+}
+
+/**
+ * Get the price history of all of a user's subscriptions
+ * 
+ * @param userId - The user's ID
+ * @returns Price changes, oldest first
+ */
+export async function getUserPriceHistory(userId: string): Promise<PriceChange[]> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const history = await PriceHistoryModel.find({ userId })
+        .sort({ effectiveDate: 1 })
+        .lean()
+        .exec();
+      
+      return history.map(formatPriceChange);
+    });
+  }, 'getUserPriceHistory');
+}
+
+/**
+ * Record a price change for a subscription
+ * 
+ * @param userId - The user's ID
+ * @param subscriptionId - The subscription's ID
+ * @param change - The detected change
+ * @param effectiveDate - When the new price took effect (default: now)
+ * @returns The recorded price change
+ */
+export async function recordPriceChange(
+  userId: string,
+  subscriptionId: string,
+  change: PriceChangeInput,
+  effectiveDate: Date = new Date()
+): Promise<PriceChange> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const entry = await PriceHistoryModel.create({
+        userId,
+        subscriptionId,
+        effectiveDate,
+        ...change
+      });
+      
+      return formatPriceChange(entry);
+    });
+  }, 'recordPriceChange');
+}
+
+/**
+ * Delete the price history of one or more subscriptions
+ * 
+ * @param userId - The user's ID
+ * @param subscriptionIds - The subscriptions' IDs
+ * @returns Number of deleted entries
+ */
+export async function deletePriceHistory(userId: string, subscriptionIds: string[]): Promise<number> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const result = await PriceHistoryModel.deleteMany({
+        userId,
+        subscriptionId: { $in: subscriptionIds }
+      });
+      
+      return result.deletedCount;
+    });
+  }, 'deletePriceHistory');
+}
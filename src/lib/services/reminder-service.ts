@@ -0,0 +1,145 @@
+/**
+ * Reminder Service
+ * 
+ * This module provides the renewal reminder job: it looks for bills coming up
+ * within each user's reminder days, records every reminder in the
+ * SentReminder collection so it goes out only once, and delivers them
+ * through the configured notifier.
+ */
+
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { SentReminderModel } from '@/models/sent-reminder';
+import { UserModel } from '@/models/user';
+import { getUpcomingBills } from './subscription-service';
+import { DEFAULT_PREFERENCES } from './user-preferences-service';
+import { INotifier, getNotifier, renderRenewalReminder, RenewalReminderItem } from '@/lib/notifications';
+import { MAX_REMINDER_DAYS } from '@/lib/subscriptions/config/reminders';
+import { getDaysUntil, getDueReminderDay, getReminderDays } from '@/lib/subscriptions/utils/reminders';
+import { Subscription } from '@/types/subscriptions';
+import mongoose from 'mongoose';
+
+export interface ReminderRunOptions {
+  // Reference date (default: now)
+  now?: Date;
+  // Channel to deliver through (default: the configured notifier)
+  notifier?: INotifier;
+}
+
+export interface ReminderRunResult {
+  usersChecked: number;
+  remindersSent: number;
+  // Due reminders that had already been sent
+  remindersSkipped: number;
+  // Users whose reminder could not be delivered; retried on the next run
+  deliveryFailures: number;
+}
+
+/**
+ * Record a reminder as sent, unless it already was
+ * 
+ * @returns The record's ID, or null if the reminder was sent before
+ */
+async function claimReminder(
+  userId: string,
+  subscription: Subscription,
+  daysBefore: number,
+  channel: string
+): Promise<string | null> {
+  try {
+    const record = await SentReminderModel.create({
+      userId,
+      subscriptionId: subscription.id,
+      billingDate: new Date(subscription.nextBillingDate),
+      daysBefore,
+      channel
+    });
+    return record._id.toString();
+  } catch (error: any) {
+    // Unique index on subscription, billing date and offset
+    if (error?.code === 11000) return null;
+    throw error;
+  }
+}
+
+/**
+ * Get a user's upcoming bills
+ * Subscriptions saved through the storage API are keyed by email, those
+ * created through /api/subscriptions by user ID, so both are looked up.
+ * Bills are looked up from the run's reference date.
+ */
+async function getUserUpcomingBills(user: { _id: unknown; email: string }, now: Date): Promise<Subscription[]> {
+  const [byId, byEmail] = await Promise.all([
+    getUpcomingBills(String(user._id), MAX_REMINDER_DAYS, now),
+    getUpcomingBills(user.email, MAX_REMINDER_DAYS, now)
+  ]);
+  return [...byId, ...byEmail];
+}
+
+/**
+ * Send all renewal reminders that are due
+ * Each user gets at most one message per run listing all of their due bills.
+ * If delivery fails the reminders are released again so the next run retries.
+ * 
+ * @param options - Reference date and notifier
+ * @returns Counts of what was sent
+ */
+export async function sendRenewalReminders(options: ReminderRunOptions = {}): Promise<ReminderRunResult> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const now = options.now || new Date();
+      const notifier = options.notifier || getNotifier();
+      const result: ReminderRunResult = {
+        usersChecked: 0,
+        remindersSent: 0,
+        remindersSkipped: 0,
+        deliveryFailures: 0
+      };
+
+      const users = await UserModel.find({})
+        .select('email name reminderDays')
+        .lean<{ _id: mongoose.Types.ObjectId; email: string; name: string; reminderDays?: number[] }[]>()
+        .exec();
+
+      for (const user of users) {
+        result.usersChecked++;
+        const preferences = { reminderDays: user.reminderDays || DEFAULT_PREFERENCES.reminderDays };
+        const items: RenewalReminderItem[] = [];
+        const claimedIds: string[] = [];
+
+        for (const subscription of await getUserUpcomingBills(user, now)) {
+          const daysBefore = getDueReminderDay(
+            subscription.nextBillingDate,
+            getReminderDays(subscription, preferences),
+            now
+          );
+          if (daysBefore === null) continue;
+
+          const claimedId = await claimReminder(String(user._id), subscription, daysBefore, notifier.channel);
+          if (!claimedId) {
+            result.remindersSkipped++;
+            continue;
+          }
+
+          claimedIds.push(claimedId);
+          items.push({ subscription, daysUntil: getDaysUntil(subscription.nextBillingDate, now) });
+        }
+
+        if (items.length === 0) continue;
+
+        items.sort((a, b) => a.daysUntil - b.daysUntil);
+
+        try {
+          await notifier.send(renderRenewalReminder(user.email, user.name, items));
+          result.remindersSent += items.length;
+        } catch (error) {
+          console.error(`Failed to send renewal reminder to ${user.email}:`, error);
+          await SentReminderModel.deleteMany({ _id: { $in: claimedIds } });
+          result.deliveryFailures++;
+        }
+      }
+
+      return result;
+    });
+  }, 'sendRenewalReminders');
+}
@@ -8,7 +8,10 @@
 import { withConnection } from '@/lib/db/simplified-connection';
 import { withErrorHandling } from '@/lib/db/unified-error-handler';
 import { SubscriptionModel } from '@/models/subscription';
+import { PriceHistoryModel } from '@/models/price-history';
 import { Subscription } from '@/types/subscriptions';
+import { normalizeBillingPeriod, resolveBillingInterval } from '@/lib/subscriptions/config/periods';
+import { detectPriceChange, recordPriceChange, deletePriceHistory } from './price-history-service';
 import mongoose from 'mongoose';
 
 const STORAGE_KEY_PREFIX = 'subscriptions';
@@ -48,11 +51,20 @@ function formatSubscription(doc: any): Subscription {
     name: doc.name,
     price: doc.price,
     currency: doc.currency,
-    billingPeriod: doc.billingPeriod,
+    billingPeriod: normalizeBillingPeriod(doc.billingPeriod),
+    billingInterval: resolveBillingInterval(normalizeBillingPeriod(doc.billingPeriod), doc.billingInterval),
     startDate: doc.startDate instanceof Date ? doc.startDate.toISOString() : doc.startDate,
     nextBillingDate: doc.nextBillingDate instanceof Date ? doc.nextBillingDate.toISOString() : doc.nextBillingDate,
     description: doc.description,
     disabled: doc.disabled || false,
+    trial: doc.trial?.endDate ? {
+      startDate: doc.trial.startDate instanceof Date ? doc.trial.startDate.toISOString() : doc.trial.startDate,
+      endDate: doc.trial.endDate instanceof Date ? doc.trial.endDate.toISOString() : doc.trial.endDate,
+      postTrialPrice: doc.trial.postTrialPrice
+    } : undefined,
+    categoryId: doc.categoryId || undefined,
+    tags: doc.tags || [],
+    reminderDays: doc.reminderDays || undefined,
     createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
     updatedAt: doc.updatedAt instanceof Date ? doc.updatedAt.toISOString() : doc.updatedAt
   };
@@ -72,7 +84,7 @@ export async function getStorageItem(key: string): Promise<Subscription[]> {
     }
 
     return withConnection(async () => {
-      const subscriptions = await SubscriptionModel.find({ userId })
+      const subscriptions = await SubscriptionModel.find({ userId, workspaceId: null, deletedAt: null })
         .sort({ nextBillingDate: 1 })
         .lean()
         .exec();
@@ -88,6 +100,8 @@ export async function getStorageItem(key: string): Promise<Subscription[]> {
  * @param key - The storage key (contains userId)
  * @param value - The subscriptions data to save
  * @returns Array of saved subscriptions
+ * @deprecated Replaces the whole list, overwriting concurrent edits; use the
+ * per-item functions in subscription-service instead
  */
 export async function saveStorageItem(key: string, value: Subscription[]): Promise<Subscription[]> {
   return withErrorHandling(async () => {
@@ -97,24 +111,52 @@ export async function saveStorageItem(key: string, value: Subscription[]): Promi
     }
 
     return withConnection(async () => {
+      // Load the current documents so price edits can be recorded and IDs kept stable
+      // The trash is not part of the list and is left alone
+      const existing = await SubscriptionModel.find({ userId, workspaceId: null, deletedAt: null }).lean().exec();
+      const existingById = new Map<string, any>(
+        existing.map((doc: any) => [doc._id.toString(), doc])
+      );
+      const keptIds = new Set((value || []).map(sub => sub.id).filter(id => existingById.has(id)));
+
       // Delete existing subscriptions
-      await SubscriptionModel.deleteMany({ userId });
+      await SubscriptionModel.deleteMany({ userId, workspaceId: null, deletedAt: null });
+
+      // Drop the price history of subscriptions that are no longer in the list
+      const removedIds = Array.from(existingById.keys()).filter(id => !keptIds.has(id));
+      if (removedIds.length > 0) {
+        await deletePriceHistory(userId, removedIds);
+      }
 
       // Insert new subscriptions if any
       if (value && value.length > 0) {
         const docs = value.map((sub: Partial<Subscription>) => ({
+          ...(sub.id && keptIds.has(sub.id) ? { _id: new mongoose.Types.ObjectId(sub.id) } : {}),
           userId,
           name: sub.name,
           price: sub.price,
           currency: sub.currency,
           billingPeriod: sub.billingPeriod,
+          billingInterval: sub.billingInterval,
           startDate: sub.startDate ? new Date(sub.startDate) : new Date(),
           nextBillingDate: sub.nextBillingDate ? new Date(sub.nextBillingDate) : new Date(),
           description: sub.description,
-          disabled: sub.disabled ?? false
+          disabled: sub.disabled ?? false,
+          trial: sub.trial || undefined,
+          categoryId: sub.categoryId || undefined,
+          tags: sub.tags || [],
+          reminderDays: sub.reminderDays || undefined
         }));
 
         const result = await SubscriptionModel.insertMany(docs);
+
+        for (const sub of value) {
+          const previous = keptIds.has(sub.id) ? existingById.get(sub.id) : null;
+          const priceChange = previous ? detectPriceChange(previous, sub) : null;
+          if (priceChange) {
+            await recordPriceChange(userId, sub.id, priceChange);
+          }
+        }
         
         // Return the newly inserted subscriptions with their IDs
         return result.map(formatSubscription);
@@ -139,7 +181,8 @@ export async function deleteStorageItem(key: string): Promise<boolean> {
     }
 
     return withConnection(async () => {
-      await SubscriptionModel.deleteMany({ userId });
+      await SubscriptionModel.deleteMany({ userId, workspaceId: null });
+      await PriceHistoryModel.deleteMany({ userId });
       return true;
     });
   }, 'deleteStorageItem');
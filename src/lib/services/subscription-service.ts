@@ -7,9 +7,19 @@
 
 import { withConnection } from '@/lib/db/simplified-connection';
 import { withErrorHandling } from '@/lib/db/unified-error-handler';
-import { SubscriptionModel } from '@/models/subscription';
-import { Subscription, SubscriptionFormData } from '@/types/subscriptions';
-import { calculateNextBillingDate } from '@/lib/subscriptions/utils/dates';
+import { MongoDBError, MongoDBErrorCode } from '@/lib/db/error-handler';
+import { SubscriptionModel, toCostSplit } from '@/models/subscription';
+import { PriceHistoryModel } from '@/models/price-history';
+import { CategoryModel } from '@/models/category';
+import { BackupPriceChange, Subscription, SubscriptionFormData } from '@/types/subscriptions';
+import { calculateFirstBillingDate, calculateNextBillingDate } from '@/lib/subscriptions/utils/dates';
+import { getBillingInterval } from '@/lib/subscriptions/utils/periods';
+import { normalizeBillingPeriod, resolveBillingInterval } from '@/lib/subscriptions/config/periods';
+import { UNCATEGORIZED_ID } from '@/lib/subscriptions/config/categories';
+import { TRASH_RETENTION_DAYS } from '@/lib/subscriptions/config/trash';
+import { SubscriptionFilter } from '@/lib/subscriptions/utils/categories';
+import { getDuplicateKey } from '@/lib/subscriptions/utils/duplicates';
+import { detectPriceChange, recordPriceChange, deletePriceHistory } from './price-history-service';
 import mongoose from 'mongoose';
 
 /**
@@ -21,26 +31,143 @@ function formatSubscription(doc: any): Subscription {
     name: doc.name,
     price: doc.price,
     currency: doc.currency,
-    billingPeriod: doc.billingPeriod,
+    billingPeriod: normalizeBillingPeriod(doc.billingPeriod),
+    billingInterval: resolveBillingInterval(normalizeBillingPeriod(doc.billingPeriod), doc.billingInterval),
     startDate: doc.startDate instanceof Date ? doc.startDate.toISOString() : doc.startDate,
     nextBillingDate: doc.nextBillingDate instanceof Date ? doc.nextBillingDate.toISOString() : doc.nextBillingDate,
     description: doc.description,
     disabled: doc.disabled || false,
+    trial: doc.trial?.endDate ? {
+      startDate: doc.trial.startDate instanceof Date ? doc.trial.startDate.toISOString() : doc.trial.startDate,
+      endDate: doc.trial.endDate instanceof Date ? doc.trial.endDate.toISOString() : doc.trial.endDate,
+      postTrialPrice: doc.trial.postTrialPrice
+    } : undefined,
+    categoryId: doc.categoryId || undefined,
+    tags: doc.tags || [],
+    reminderDays: doc.reminderDays || undefined,
+    status: doc.status || 'ACTIVE',
+    cancellation: doc.cancellation?.cancelledAt ? {
+      cancelledAt: doc.cancellation.cancelledAt instanceof Date ? doc.cancellation.cancelledAt.toISOString() : doc.cancellation.cancelledAt,
+      effectiveEndDate: doc.cancellation.effectiveEndDate instanceof Date ? doc.cancellation.effectiveEndDate.toISOString() : doc.cancellation.effectiveEndDate,
+      reason: doc.cancellation.reason || undefined
+    } : undefined,
+    workspaceId: doc.workspaceId || undefined,
+    split: toCostSplit(doc.split),
     createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
-    updatedAt: doc.updatedAt instanceof Date ? doc.updatedAt.toISOString() : doc.updatedAt
+    updatedAt: doc.updatedAt instanceof Date ? doc.updatedAt.toISOString() : doc.updatedAt,
+    version: doc.__v ?? 0,
+    deletedAt: doc.deletedAt instanceof Date ? doc.deletedAt.toISOString() : doc.deletedAt || undefined
   };
 }
 
+// Matches subscriptions that are not in the trash; null also matches a missing field
+const NOT_DELETED = { deletedAt: null };
+
+/**
+ * Whose subscriptions to work on: a user's own, given their user ID, or a
+ * workspace's on behalf of one of its members. Callers check the member's
+ * role before passing a workspace owner.
+ */
+export type SubscriptionOwner = string | { workspaceId: string; userId: string };
+
 /**
- * Get all subscriptions for a user
+ * Query matching the owner's subscriptions; personal ones have no workspace
+ */
+function ownerFilter(owner: SubscriptionOwner) {
+  return typeof owner === 'string'
+    ? { userId: owner, workspaceId: null }
+    : { workspaceId: owner.workspaceId };
+}
+
+/**
+ * The user acting on the owner's subscriptions; categories are always their own
+ */
+function actingUserId(owner: SubscriptionOwner): string {
+  return typeof owner === 'string' ? owner : owner.userId;
+}
+
+/**
+ * Which of the given category IDs are the user's own categories
+ */
+async function getOwnCategoryIds(userId: string, categoryIds: string[]): Promise<Set<string>> {
+  const ids = categoryIds.filter(id => mongoose.Types.ObjectId.isValid(id));
+  if (ids.length === 0) return new Set();
+
+  const categories = await CategoryModel.find({ userId, _id: { $in: ids } })
+    .select('_id')
+    .lean<{ _id: mongoose.Types.ObjectId }[]>()
+    .exec();
+  return new Set(categories.map(doc => doc._id.toString()));
+}
+
+/**
+ * Check that a subscription is filed under one of the user's own categories, if any
  * 
- * @param userId - The user's ID
+ * @throws MongoDBError with VALIDATION_FAILED if the user has no such category
+ */
+async function checkOwnCategory(userId: string, categoryId: string | null | undefined): Promise<void> {
+  if (categoryId && !(await getOwnCategoryIds(userId, [categoryId])).has(categoryId)) {
+    throw new MongoDBError(`Category ${categoryId} not found`, MongoDBErrorCode.VALIDATION_FAILED);
+  }
+}
+
+/**
+ * The user ID price history is kept under; a workspace's history is shared
+ */
+function priceHistoryOwner(owner: SubscriptionOwner): string {
+  return typeof owner === 'string' ? owner : `workspace:${owner.workspaceId}`;
+}
+
+/**
+ * Build the document for a new subscription from form data
+ */
+function toSubscriptionDocument(owner: SubscriptionOwner, data: SubscriptionFormData) {
+  const billingInterval = getBillingInterval(data);
+  const firstBillingDate = calculateFirstBillingDate(data.startDate, data.trial);
+
+  return {
+    userId: actingUserId(owner),
+    workspaceId: typeof owner === 'string' ? undefined : owner.workspaceId,
+    ...data,
+    billingInterval,
+    trial: data.trial || undefined,
+    categoryId: data.categoryId || undefined,
+    reminderDays: data.reminderDays || undefined,
+    cancellation: data.status === 'CANCELLED' && data.cancellation ? data.cancellation : undefined,
+    // Only workspace subscriptions are split
+    split: typeof owner !== 'string' && data.split ? data.split : undefined,
+    nextBillingDate: new Date(calculateNextBillingDate(firstBillingDate, billingInterval)),
+    startDate: new Date(data.startDate),
+    disabled: false // Set default value instead of accessing from data
+  };
+}
+
+/**
+ * Get all subscriptions for a user or workspace, leaving out those in the trash
+ * 
+ * @param owner - The user's ID, or the workspace
+ * @param filter - Optional category and tags to narrow the list down to
  * @returns Array of user subscriptions sorted by next billing date
  */
-export async function getUserSubscriptions(userId: string): Promise<Subscription[]> {
+export async function getUserSubscriptions(
+  owner: SubscriptionOwner,
+  filter: SubscriptionFilter = {}
+): Promise<Subscription[]> {
   return withErrorHandling(async () => {
     return withConnection(async () => {
-      const subscriptions = await SubscriptionModel.find({ userId })
+      const query: Record<string, any> = { ...ownerFilter(owner), ...NOT_DELETED };
+
+      if (filter.categoryId) {
+        // Uncategorized subscriptions have no categoryId at all
+        query.categoryId = filter.categoryId === UNCATEGORIZED_ID
+          ? { $in: [null, ''] }
+          : filter.categoryId;
+      }
+      if (filter.tags && filter.tags.length > 0) {
+        query.tags = { $all: filter.tags };
+      }
+
+      const subscriptions = await SubscriptionModel.find(query)
         .sort({ nextBillingDate: 1 })
         .lean()
         .exec();
@@ -51,18 +178,41 @@ export async function getUserSubscriptions(userId: string): Promise<Subscription
 }
 
 /**
- * Get a single subscription by ID
+ * Move subscriptions saved under the user's email to their user ID
+ * The dashboard used to store subscriptions keyed by email through the
+ * storage API; everything else keys them by user ID.
  * 
  * @param userId - The user's ID
+ * @param email - The user's email
+ * @returns The number of subscriptions moved
+ */
+export async function adoptEmailKeyedSubscriptions(userId: string, email: string): Promise<number> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const result = await SubscriptionModel.updateMany({ userId: email }, { $set: { userId } });
+
+      if (result.modifiedCount > 0) {
+        await PriceHistoryModel.updateMany({ userId: email }, { $set: { userId } });
+      }
+      return result.modifiedCount;
+    });
+  }, 'adoptEmailKeyedSubscriptions');
+}
+
+/**
+ * Get a single subscription by ID
+ * 
+ * @param owner - The user's ID, or the workspace
  * @param subscriptionId - The subscription's ID
- * @returns The subscription or null if not found
+ * @returns The subscription or null if not found or in the trash
  */
-export async function getSubscriptionById(userId: string, subscriptionId: string): Promise<Subscription | null> {
+export async function getSubscriptionById(owner: SubscriptionOwner, subscriptionId: string): Promise<Subscription | null> {
   return withErrorHandling(async () => {
     return withConnection(async () => {
       const subscription = await SubscriptionModel.findOne({
         _id: new mongoose.Types.ObjectId(subscriptionId),
-        userId
+        ...ownerFilter(owner),
+        ...NOT_DELETED
       })
         .lean()
         .exec();
@@ -79,23 +229,19 @@ export async function getSubscriptionById(userId: string, subscriptionId: string
 /**
  * Create a new subscription
  * 
- * @param userId - The user's ID
+ * @param owner - The user's ID, or the workspace
  * @param data - The subscription data
  * @returns The created subscription
+ * @throws MongoDBError with VALIDATION_FAILED if the category is not the user's own
  */
 export async function createSubscription(
-  userId: string, 
+  owner: SubscriptionOwner, 
   data: SubscriptionFormData
 ): Promise<Subscription> {
   return withErrorHandling(async () => {
     return withConnection(async () => {
-      const subscription = await SubscriptionModel.create({
-        userId,
-        ...data,
-        nextBillingDate: new Date(calculateNextBillingDate(data.startDate, data.billingPeriod)),
-        startDate: new Date(data.startDate),
-        disabled: false // Set default value instead of accessing from data
-      });
+      await checkOwnCategory(actingUserId(owner), data.categoryId);
+      const subscription = await SubscriptionModel.create(toSubscriptionDocument(owner, data));
       
       return formatSubscription(subscription);
     });
@@ -103,44 +249,170 @@ export async function createSubscription(
 }
 
 /**
- * Update an existing subscription
+ * Create several subscriptions at once, leaving out likely duplicates
+ * A subscription counts as a duplicate if the user already has one, or an
+ * earlier one in the same batch, with the same name, price, currency and period.
+ * Categories that are not the user's own are left out.
  * 
  * @param userId - The user's ID
+ * @param items - The subscriptions to create, optionally disabled and with
+ * price history as in a backup
+ * @returns The created subscriptions, and the indexes of the items skipped as duplicates
+ */
+export async function importSubscriptions(
+  userId: string,
+  items: (SubscriptionFormData & { disabled?: boolean; priceHistory?: BackupPriceChange[] })[]
+): Promise<{ created: Subscription[]; duplicates: number[] }> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const existing = await SubscriptionModel.find({ ...ownerFilter(userId), ...NOT_DELETED })
+        .select('name price currency billingPeriod')
+        .lean()
+        .exec();
+      const seen = new Set(existing.map((doc: any) => getDuplicateKey(doc)));
+      const ownCategoryIds = await getOwnCategoryIds(
+        userId,
+        items.flatMap(item => item.categoryId ? [item.categoryId] : [])
+      );
+      const duplicates: number[] = [];
+      const docs: ReturnType<typeof toSubscriptionDocument>[] = [];
+      const histories: BackupPriceChange[][] = [];
+
+      items.forEach((item, index) => {
+        const key = getDuplicateKey(item);
+        if (seen.has(key)) {
+          duplicates.push(index);
+          return;
+        }
+        seen.add(key);
+        const { disabled, priceHistory, ...data } = item;
+        // Like an unknown category name in a CSV file, someone else's category is left out
+        if (data.categoryId && !ownCategoryIds.has(data.categoryId)) data.categoryId = null;
+        docs.push({ ...toSubscriptionDocument(userId, data), disabled: disabled === true });
+        histories.push(priceHistory || []);
+      });
+
+      const created = docs.length > 0 ? await SubscriptionModel.insertMany(docs) : [];
+
+      // insertMany keeps the order of docs, so each history follows its subscription
+      const history = created.flatMap((doc: any, i: number) => histories[i].map(change => ({
+        ...change,
+        userId,
+        subscriptionId: doc._id.toString(),
+        effectiveDate: new Date(change.effectiveDate)
+      })));
+      if (history.length > 0) {
+        await PriceHistoryModel.insertMany(history);
+      }
+      
+      return { created: created.map(formatSubscription), duplicates };
+    });
+  }, 'importSubscriptions');
+}
+
+/**
+ * Update an existing subscription
+ * Saving goes through the schema's optimistic concurrency, so a write racing
+ * another one fails with VERSION_CONFLICT instead of overwriting it.
+ * 
+ * @param owner - The user's ID, or the workspace
  * @param subscriptionId - The subscription's ID
  * @param data - The subscription data to update
+ * @param expectedVersion - Version the change is based on; omit to skip the check
  * @returns The updated subscription or null if not found
+ * @throws MongoDBError with VERSION_CONFLICT if the subscription changed since expectedVersion
+ * @throws MongoDBError with VALIDATION_FAILED if the category is not the user's own
  */
 export async function updateSubscription(
-  userId: string, 
+  owner: SubscriptionOwner, 
   subscriptionId: string, 
-  data: Partial<SubscriptionFormData>
+  data: Partial<SubscriptionFormData> & { disabled?: boolean },
+  expectedVersion?: number
 ): Promise<Subscription | null> {
   return withErrorHandling(async () => {
     return withConnection(async () => {
-      // Check if the subscription exists and belongs to the user
+      // Check if the subscription exists and belongs to the owner
       const existingSubscription = await SubscriptionModel.findOne({
         _id: new mongoose.Types.ObjectId(subscriptionId),
-        userId
+        ...ownerFilter(owner),
+        ...NOT_DELETED
       });
       
       if (!existingSubscription) {
         return null;
       }
+
+      if (expectedVersion !== undefined && existingSubscription.__v !== expectedVersion) {
+        throw new MongoDBError(
+          `Subscription ${subscriptionId} is at version ${existingSubscription.__v}, not ${expectedVersion}`,
+          MongoDBErrorCode.VERSION_CONFLICT
+        );
+      }
+
+      await checkOwnCategory(actingUserId(owner), data.categoryId);
+
+      // Compare prices before the document takes the new values
+      const priceChange = detectPriceChange(existingSubscription, data);
       
       // Determine if billing-related fields are being updated
-      const isBillingUpdate = data.startDate !== undefined || data.billingPeriod !== undefined;
+      const isBillingUpdate = data.startDate !== undefined ||
+        data.billingPeriod !== undefined ||
+        data.billingInterval !== undefined ||
+        data.trial !== undefined;
       
       // Prepare update data
       const updateData: Record<string, any> = {
         ...data,
         updatedAt: new Date()
       };
+      const unsetPaths: string[] = [];
+
+      // Splits only apply to workspace subscriptions, where null removes one
+      if (typeof owner === 'string') {
+        delete updateData.split;
+      } else if (data.split === null) {
+        delete updateData.split;
+        unsetPaths.push('split');
+      }
+
+      // A null trial means the trial is being removed
+      if (data.trial === null) {
+        delete updateData.trial;
+        unsetPaths.push('trial');
+      }
+
+      // Likewise a null category moves the subscription out of its category
+      if (data.categoryId === null) {
+        delete updateData.categoryId;
+        unsetPaths.push('categoryId');
+      }
+
+      // And a null reminderDays falls back to the user's reminder days
+      if (data.reminderDays === null) {
+        delete updateData.reminderDays;
+        unsetPaths.push('reminderDays');
+      }
+
+      // Reactivating drops the cancellation details
+      if (data.cancellation === null || data.status === 'ACTIVE') {
+        delete updateData.cancellation;
+        unsetPaths.push('cancellation');
+      }
       
       // Calculate new next billing date if billing fields are updated
       if (isBillingUpdate) {
-        const startDate = data.startDate || existingSubscription.startDate;
-        const billingPeriod = data.billingPeriod || existingSubscription.billingPeriod;
-        updateData.nextBillingDate = new Date(calculateNextBillingDate(startDate, billingPeriod));
+        const startDate = calculateFirstBillingDate(
+          data.startDate || existingSubscription.startDate.toISOString(),
+          data.trial === undefined ? existingSubscription.trial : data.trial
+        );
+        const billingPeriod = normalizeBillingPeriod(data.billingPeriod || existingSubscription.billingPeriod);
+        const billingInterval = resolveBillingInterval(
+          billingPeriod,
+          data.billingInterval || existingSubscription.billingInterval
+        );
+        updateData.billingPeriod = billingPeriod;
+        updateData.billingInterval = billingInterval;
+        updateData.nextBillingDate = new Date(calculateNextBillingDate(startDate, billingInterval));
       }
       
       // Convert date strings to Date objects
@@ -148,53 +420,163 @@ export async function updateSubscription(
         updateData.startDate = new Date(data.startDate);
       }
       
-      // Update the subscription
-      const updatedSubscription = await SubscriptionModel.findByIdAndUpdate(
-        subscriptionId,
-        { $set: updateData },
-        { new: true, runValidators: true }
-      )
-        .lean()
-        .exec();
-      
-      if (!updatedSubscription) {
-        return null;
+      // Update the subscription; save() checks and bumps the version
+      existingSubscription.set(updateData);
+      unsetPaths.forEach(path => existingSubscription.set(path, undefined));
+      await existingSubscription.save();
+
+      // Keep a record of every price edit instead of losing the old price
+      if (priceChange) {
+        await recordPriceChange(priceHistoryOwner(owner), subscriptionId, priceChange);
       }
       
-      return formatSubscription(updatedSubscription);
+      return formatSubscription(existingSubscription);
     });
   }, 'updateSubscription');
 }
 
 /**
- * Delete a subscription
+ * Move a subscription to the trash
+ * It is left out of lists and summaries, can be restored, and is purged
+ * for good TRASH_RETENTION_DAYS later.
  * 
- * @param userId - The user's ID
+ * @param owner - The user's ID, or the workspace
+ * @param subscriptionId - The subscription's ID
+ * @returns True if the subscription was moved to the trash, false if not found
+ */
+export async function deleteSubscription(owner: SubscriptionOwner, subscriptionId: string): Promise<boolean> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const result = await SubscriptionModel.updateOne(
+        { _id: new mongoose.Types.ObjectId(subscriptionId), ...ownerFilter(owner), ...NOT_DELETED },
+        { $set: { deletedAt: new Date() } }
+      );
+
+      return result.matchedCount === 1;
+    });
+  }, 'deleteSubscription');
+}
+
+/**
+ * Get the subscriptions in a user's or workspace's trash
+ * 
+ * @param owner - The user's ID, or the workspace
+ * @returns Trashed subscriptions, most recently deleted first
+ */
+export async function getTrashedSubscriptions(owner: SubscriptionOwner): Promise<Subscription[]> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const subscriptions = await SubscriptionModel.find({ ...ownerFilter(owner), deletedAt: { $ne: null } })
+        .sort({ deletedAt: -1 })
+        .lean()
+        .exec();
+
+      return subscriptions.map(formatSubscription);
+    });
+  }, 'getTrashedSubscriptions');
+}
+
+/**
+ * Take a subscription out of the trash
+ * 
+ * @param owner - The user's ID, or the workspace
+ * @param subscriptionId - The subscription's ID
+ * @returns The restored subscription or null if it is not in the trash
+ */
+export async function restoreSubscription(owner: SubscriptionOwner, subscriptionId: string): Promise<Subscription | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const subscription = await SubscriptionModel.findOneAndUpdate(
+        { _id: new mongoose.Types.ObjectId(subscriptionId), ...ownerFilter(owner), deletedAt: { $ne: null } },
+        { $unset: { deletedAt: 1 } },
+        { new: true }
+      )
+        .lean()
+        .exec();
+
+      return subscription ? formatSubscription(subscription) : null;
+    });
+  }, 'restoreSubscription');
+}
+
+/**
+ * Delete a subscription in the trash for good, with its price history
+ * 
+ * @param owner - The user's ID, or the workspace
  * @param subscriptionId - The subscription's ID
- * @returns True if the subscription was deleted, false otherwise
+ * @returns True if the subscription was deleted, false if it is not in the trash
  */
-export async function deleteSubscription(userId: string, subscriptionId: string): Promise<boolean> {
+export async function purgeSubscription(owner: SubscriptionOwner, subscriptionId: string): Promise<boolean> {
   return withErrorHandling(async () => {
     return withConnection(async () => {
       const result = await SubscriptionModel.deleteOne({
         _id: new mongoose.Types.ObjectId(subscriptionId),
-        userId
+        ...ownerFilter(owner),
+        deletedAt: { $ne: null }
       });
-      
-      return result.deletedCount === 1;
+
+      if (result.deletedCount !== 1) {
+        return false;
+      }
+
+      await deletePriceHistory(priceHistoryOwner(owner), [subscriptionId]);
+      return true;
     });
-  }, 'deleteSubscription');
+  }, 'purgeSubscription');
+}
+
+/**
+ * Purge every subscription that has been in the trash for longer than
+ * TRASH_RETENTION_DAYS, with its price history
+ * 
+ * @param now - Reference date (default: now)
+ * @returns Number of purged subscriptions
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const expiredBefore = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const expired = { $ne: null, $lte: expiredBefore };
+
+      const subscriptions = await SubscriptionModel.find({ deletedAt: expired })
+        .select('_id userId workspaceId')
+        .lean()
+        .exec();
+
+      // Price history is kept per user, or shared per workspace
+      const purgedByOwner: Record<string, string[]> = {};
+      for (const subscription of subscriptions as any[]) {
+        // Skipped if it was restored in the meantime
+        const result = await SubscriptionModel.deleteOne({ _id: subscription._id, deletedAt: expired });
+        if (result.deletedCount !== 1) continue;
+
+        const owner = priceHistoryOwner(
+          subscription.workspaceId
+            ? { workspaceId: String(subscription.workspaceId), userId: subscription.userId }
+            : subscription.userId
+        );
+        (purgedByOwner[owner] = purgedByOwner[owner] || []).push(subscription._id.toString());
+      }
+
+      let purged = 0;
+      for (const owner of Object.keys(purgedByOwner)) {
+        await deletePriceHistory(owner, purgedByOwner[owner]);
+        purged += purgedByOwner[owner].length;
+      }
+      return purged;
+    });
+  }, 'purgeExpiredTrash');
 }
 
 /**
  * Toggle a subscription's disabled status
  * 
- * @param userId - The user's ID
+ * @param owner - The user's ID, or the workspace
  * @param subscriptionId - The subscription's ID
  * @returns The updated subscription or null if not found
  */
 export async function toggleSubscriptionStatus(
-  userId: string, 
+  owner: SubscriptionOwner, 
   subscriptionId: string
 ): Promise<Subscription | null> {
   return withErrorHandling(async () => {
@@ -202,7 +584,8 @@ export async function toggleSubscriptionStatus(
       // Find the subscription
       const subscription = await SubscriptionModel.findOne({
         _id: new mongoose.Types.ObjectId(subscriptionId),
-        userId
+        ...ownerFilter(owner),
+        ...NOT_DELETED
       });
       
       if (!subscription) {
@@ -221,33 +604,59 @@ export async function toggleSubscriptionStatus(
   }, 'toggleSubscriptionStatus');
 }
 
+/**
+ * Work out when a subscription is next charged after the given date
+ * The stored nextBillingDate is only set on create and update, so it is
+ * stepped forward from the first billing date instead.
+ */
+function withCurrentBillingDate(subscription: Subscription, now: Date): Subscription {
+  const firstBillingDate = calculateFirstBillingDate(subscription.startDate, subscription.trial);
+  return {
+    ...subscription,
+    nextBillingDate: calculateNextBillingDate(
+      firstBillingDate,
+      subscription.billingInterval || subscription.billingPeriod,
+      now
+    )
+  };
+}
+
 /**
  * Get upcoming bills for a user
  * 
  * @param userId - The user's ID
  * @param daysAhead - Number of days to look ahead (default: 30)
- * @returns Subscriptions due within the specified period
+ * @param now - The date to look ahead from (defaults to now)
+ * @returns Subscriptions due within the specified period, with their next billing date
  */
-export async function getUpcomingBills(userId: string, daysAhead: number = 30): Promise<Subscription[]> {
+export async function getUpcomingBills(
+  userId: string,
+  daysAhead: number = 30,
+  now: Date = new Date()
+): Promise<Subscription[]> {
   return withErrorHandling(async () => {
     return withConnection(async () => {
-      const today = new Date();
-      const futureDate = new Date();
+      const today = new Date(now);
+      const futureDate = new Date(now);
       futureDate.setDate(today.getDate() + daysAhead);
       
       const subscriptions = await SubscriptionModel.find({
-        userId,
+        ...ownerFilter(userId),
         disabled: false,
-        nextBillingDate: {
-          $gte: today,
-          $lte: futureDate
-        }
+        // A cancelled subscription is not charged again
+        status: { $ne: 'CANCELLED' },
+        ...NOT_DELETED
       })
-        .sort({ nextBillingDate: 1 })
         .lean()
         .exec();
       
-      return subscriptions.map(formatSubscription);
+      return subscriptions
+        .map((doc) => withCurrentBillingDate(formatSubscription(doc), now))
+        .filter((subscription) => {
+          const nextBillingDate = new Date(subscription.nextBillingDate);
+          return nextBillingDate >= today && nextBillingDate <= futureDate;
+        })
+        .sort((a, b) => new Date(a.nextBillingDate).getTime() - new Date(b.nextBillingDate).getTime());
     });
   }, 'getUpcomingBills');
 }
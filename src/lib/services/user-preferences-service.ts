@@ -0,0 +1,82 @@
+/**
+ * User Preferences Service
+ * 
+ * This module provides service functions for reading and updating
+ * per-user display preferences.
+ */
+
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { UserModel } from '@/models/user';
+import { UserPreferences } from '@/types/subscriptions';
+import { DEFAULT_REMINDER_DAYS } from '@/lib/subscriptions/config/reminders';
+import mongoose from 'mongoose';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  preferredCurrency: 'EUR',
+  reminderDays: DEFAULT_REMINDER_DAYS
+};
+
+/**
+ * Convert a database user document to the UserPreferences interface
+ */
+function formatPreferences(doc: any): UserPreferences {
+  return {
+    preferredCurrency: doc.preferredCurrency || DEFAULT_PREFERENCES.preferredCurrency,
+    reminderDays: doc.reminderDays || DEFAULT_PREFERENCES.reminderDays
+  };
+}
+
+/**
+ * Get a user's preferences
+ * 
+ * @param userId - The user's ID
+ * @returns The user's preferences, or the defaults if the user is unknown
+ */
+export async function getUserPreferences(userId: string): Promise<UserPreferences> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return { ...DEFAULT_PREFERENCES };
+      }
+
+      const user = await UserModel.findById(userId)
+        .select('preferredCurrency reminderDays')
+        .lean()
+        .exec();
+      
+      return user ? formatPreferences(user) : { ...DEFAULT_PREFERENCES };
+    });
+  }, 'getUserPreferences');
+}
+
+/**
+ * Update a user's preferences
+ * 
+ * @param userId - The user's ID
+ * @param updates - The preferences to change
+ * @returns The updated preferences, or null if the user was not found
+ */
+export async function updateUserPreferences(
+  userId: string,
+  updates: Partial<UserPreferences>
+): Promise<UserPreferences | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (!mongoose.Types.ObjectId.isValid(userId)) {
+        return null;
+      }
+
+      const user = await UserModel.findByIdAndUpdate(
+        userId,
+        { $set: updates },
+        { new: true, runValidators: true }
+      )
+        .select('preferredCurrency reminderDays')
+        .lean()
+        .exec();
+      
+      return user ? formatPreferences(user) : null;
+    });
+  }, 'updateUserPreferences');
+}
@@ -0,0 +1,259 @@
+/**
+ * Workspace Service
+ *
+ * This module provides service functions for the workspaces several users
+ * share subscriptions in, and their members. Routes check the acting
+ * member's role before calling the functions that change a workspace.
+ */
+
+import { withConnection } from '@/lib/db/simplified-connection';
+import { withErrorHandling } from '@/lib/db/unified-error-handler';
+import { WorkspaceModel } from '@/models/workspace';
+import { SubscriptionModel } from '@/models/subscription';
+import { PriceHistoryModel } from '@/models/price-history';
+import { UserModel } from '@/models/user';
+import { Workspace, WorkspaceMember, WorkspaceRoleId } from '@/types/workspaces';
+import { WORKSPACE_ROLES } from '@/lib/subscriptions/config/workspaces';
+import mongoose from 'mongoose';
+
+/**
+ * Convert a database workspace document to the Workspace interface
+ */
+function formatWorkspace(doc: any): Workspace {
+  return {
+    id: doc._id.toString(),
+    name: doc.name,
+    members: (doc.members || []).map((member: any): WorkspaceMember => ({
+      userId: member.userId,
+      email: member.email,
+      name: member.name || '',
+      role: { id: member.role.id, name: member.role.name },
+      joinedAt: member.joinedAt instanceof Date ? member.joinedAt.toISOString() : member.joinedAt
+    })),
+    createdAt: doc.createdAt instanceof Date ? doc.createdAt.toISOString() : doc.createdAt,
+    updatedAt: doc.updatedAt instanceof Date ? doc.updatedAt.toISOString() : doc.updatedAt
+  };
+}
+
+/**
+ * Query matching a workspace the user is a member of
+ */
+function memberFilter(userId: string, workspaceId: string) {
+  return { _id: new mongoose.Types.ObjectId(workspaceId), 'members.userId': userId };
+}
+
+/**
+ * Get the workspaces a user is a member of
+ *
+ * @param userId - The user's ID
+ * @returns Workspaces sorted by name
+ */
+export async function getUserWorkspaces(userId: string): Promise<Workspace[]> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const workspaces = await WorkspaceModel.find({ 'members.userId': userId })
+        .sort({ name: 1 })
+        .lean()
+        .exec();
+
+      return workspaces.map(formatWorkspace);
+    });
+  }, 'getUserWorkspaces');
+}
+
+/**
+ * Get a workspace the user is a member of
+ *
+ * @param userId - The user's ID
+ * @param workspaceId - The workspace's ID
+ * @returns The workspace or null if not found or the user is not a member
+ */
+export async function getWorkspace(userId: string, workspaceId: string): Promise<Workspace | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      if (!mongoose.Types.ObjectId.isValid(workspaceId)) {
+        return null;
+      }
+
+      const workspace = await WorkspaceModel.findOne(memberFilter(userId, workspaceId))
+        .lean()
+        .exec();
+
+      return workspace ? formatWorkspace(workspace) : null;
+    });
+  }, 'getWorkspace');
+}
+
+/**
+ * Create a workspace with its creator as the owner
+ *
+ * @param creator - The creating user's ID, email and name
+ * @param name - The workspace's name
+ * @returns The created workspace
+ */
+export async function createWorkspace(
+  creator: { id: string; email: string; name?: string | null },
+  name: string
+): Promise<Workspace> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const workspace = await WorkspaceModel.create({
+        name,
+        members: [{
+          userId: creator.id,
+          email: creator.email,
+          name: creator.name || undefined,
+          role: WORKSPACE_ROLES.owner
+        }]
+      });
+
+      return formatWorkspace(workspace);
+    });
+  }, 'createWorkspace');
+}
+
+/**
+ * Rename a workspace
+ *
+ * @param workspaceId - The workspace's ID
+ * @param name - The new name
+ * @returns The updated workspace or null if not found
+ */
+export async function renameWorkspace(workspaceId: string, name: string): Promise<Workspace | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const workspace = await WorkspaceModel.findByIdAndUpdate(
+        workspaceId,
+        { $set: { name } },
+        { new: true, runValidators: true }
+      )
+        .lean()
+        .exec();
+
+      return workspace ? formatWorkspace(workspace) : null;
+    });
+  }, 'renameWorkspace');
+}
+
+/**
+ * Delete a workspace with its subscriptions and their price history
+ *
+ * @param workspaceId - The workspace's ID
+ * @returns True if the workspace was deleted, false if not found
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<boolean> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const result = await WorkspaceModel.deleteOne({ _id: new mongoose.Types.ObjectId(workspaceId) });
+
+      if (result.deletedCount !== 1) {
+        return false;
+      }
+
+      await SubscriptionModel.deleteMany({ workspaceId });
+      await PriceHistoryModel.deleteMany({ userId: `workspace:${workspaceId}` });
+      return true;
+    });
+  }, 'deleteWorkspace');
+}
+
+/**
+ * Add a registered user to a workspace
+ *
+ * @param workspaceId - The workspace's ID
+ * @param email - The email the user signed up with
+ * @param roleId - The role to give them
+ * @returns The updated workspace, or null if no user has that email
+ */
+export async function addWorkspaceMember(
+  workspaceId: string,
+  email: string,
+  roleId: WorkspaceRoleId
+): Promise<Workspace | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const user = await UserModel.findOne({ email: email.toLowerCase() })
+        .lean<{ _id: mongoose.Types.ObjectId; email: string; name: string }>()
+        .exec();
+
+      if (!user) {
+        return null;
+      }
+
+      // Adding someone twice leaves the workspace as it is
+      const workspace = await WorkspaceModel.findOneAndUpdate(
+        { _id: new mongoose.Types.ObjectId(workspaceId), 'members.userId': { $ne: user._id.toString() } },
+        {
+          $push: {
+            members: {
+              userId: user._id.toString(),
+              email: user.email,
+              name: user.name,
+              role: WORKSPACE_ROLES[roleId],
+              joinedAt: new Date()
+            }
+          }
+        },
+        { new: true }
+      )
+        .lean()
+        .exec();
+
+      if (workspace) {
+        return formatWorkspace(workspace);
+      }
+
+      const existing = await WorkspaceModel.findById(workspaceId).lean().exec();
+      return existing ? formatWorkspace(existing) : null;
+    });
+  }, 'addWorkspaceMember');
+}
+
+/**
+ * Change a member's role
+ *
+ * @param workspaceId - The workspace's ID
+ * @param userId - The member's user ID
+ * @param roleId - The new role
+ * @returns The updated workspace or null if the member was not found
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  userId: string,
+  roleId: WorkspaceRoleId
+): Promise<Workspace | null> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const workspace = await WorkspaceModel.findOneAndUpdate(
+        memberFilter(userId, workspaceId),
+        { $set: { 'members.$.role': WORKSPACE_ROLES[roleId] } },
+        { new: true }
+      )
+        .lean()
+        .exec();
+
+      return workspace ? formatWorkspace(workspace) : null;
+    });
+  }, 'updateWorkspaceMemberRole');
+}
+
+/**
+ * Remove a member from a workspace
+ * The subscriptions they added stay in the workspace.
+ *
+ * @param workspaceId - The workspace's ID
+ * @param userId - The member's user ID
+ * @returns True if the member was removed, false if not found
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+  return withErrorHandling(async () => {
+    return withConnection(async () => {
+      const result = await WorkspaceModel.updateOne(
+        memberFilter(userId, workspaceId),
+        { $pull: { members: { userId } } }
+      );
+
+      return result.modifiedCount === 1;
+    });
+  }, 'removeWorkspaceMember');
+}
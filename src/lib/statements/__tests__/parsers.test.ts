@@ -0,0 +1,112 @@
+/**
+ * Tests for bank statement parsers
+ */
+
+import { detectStatementFormat, parseStatement, StatementParseError } from '..';
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240215120000[-5:EST]
+<TRNAMT>-15.49
+<FITID>2
+<NAME>NETFLIX.COM
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115
+<TRNAMT>-15.49
+<FITID>1
+<NAME>AT&amp;T WIRELESS
+<MEMO>Bill payment
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const QIF = `!Type:Bank
+D15/01/2024
+T-9,99
+PSpotify AB
+^
+D15/02/2024
+T-9,99
+MSpotify Premium
+^
+D16/02'24
+T1,250.00
+PSalary
+^`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <Amt Ccy="EUR">12.99</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2024-03-01</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Netflix International B.V.</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Netflix 123456</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">3.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2024-03-02</Dt></BookgDt>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="CHF">50.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2024-03-03T10:00:00</DtTm></BookgDt>
+        <AddtlNtryInf>Refund  from   shop</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('Statement parsers', () => {
+  it('should detect the format from the content', () => {
+    expect(detectStatementFormat(OFX_SGML)).toBe('ofx');
+    expect(detectStatementFormat(QIF)).toBe('qif');
+    expect(detectStatementFormat(CAMT)).toBe('camt053');
+    expect(detectStatementFormat('Date,Amount\n2024-01-01,5')).toBeNull();
+  });
+
+  it('should read OFX transactions in the statement currency, oldest first', () => {
+    expect(parseStatement(OFX_SGML)).toEqual([
+      { date: '2024-01-15', amount: -15.49, currency: 'USD', description: 'AT&T WIRELESS' },
+      { date: '2024-02-15', amount: -15.49, currency: 'USD', description: 'NETFLIX.COM' }
+    ]);
+  });
+
+  it('should read QIF with day-first dates and the default currency', () => {
+    expect(parseStatement(QIF, { defaultCurrency: 'SEK' })).toEqual([
+      { date: '2024-01-15', amount: -9.99, currency: 'SEK', description: 'Spotify AB' },
+      { date: '2024-02-15', amount: -9.99, currency: 'SEK', description: 'Spotify Premium' },
+      { date: '2024-02-16', amount: 1250, currency: 'SEK', description: 'Salary' }
+    ]);
+  });
+
+  it('should read booked CAMT.053 entries with their sign and counterparty', () => {
+    expect(parseStatement(CAMT)).toEqual([
+      { date: '2024-03-01', amount: -12.99, currency: 'EUR', description: 'Netflix International B.V.' },
+      { date: '2024-03-03', amount: 50, currency: 'CHF', description: 'Refund from shop' }
+    ]);
+  });
+
+  it('should reject unsupported files', () => {
+    expect(() => parseStatement('name,price')).toThrow(StatementParseError);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for recurring charge detection
+ */
+
+import { findRecurringCharges, normalizeMerchant } from '../recurring';
+import { StatementTransaction } from '../types';
+
+function charge(date: string, amount: number, description: string): StatementTransaction {
+  return { date, amount: -amount, currency: 'EUR', description };
+}
+
+describe('normalizeMerchant', () => {
+  it('should strip processors, references and legal forms', () => {
+    expect(normalizeMerchant('PAYPAL *NETFLIX.COM 866-579')).toBe('NETFLIX');
+    expect(normalizeMerchant('Netflix International B.V.')).toBe('NETFLIX');
+    expect(normalizeMerchant('SEPA Lastschrift Müller Fitness 2024-01')).toBe('MÜLLER FITNESS');
+  });
+});
+
+describe('findRecurringCharges', () => {
+  it('should find a monthly charge through a price rise', () => {
+    const [candidate, ...others] = findRecurringCharges([
+      charge('2024-01-05', 15.49, 'NETFLIX.COM'),
+      charge('2024-02-05', 15.49, 'NETFLIX.COM'),
+      charge('2024-03-06', 17.99, 'Netflix International B.V.'),
+      charge('2024-04-05', 17.99, 'NETFLIX.COM'),
+      charge('2024-04-20', 62.10, 'Supermarket'),
+      { date: '2024-04-25', amount: 2500, currency: 'EUR', description: 'Salary' }
+    ]);
+
+    expect(others).toEqual([]);
+    expect(candidate.name).toBe('Netflix');
+    expect(candidate.billingPeriod).toBe('MONTHLY');
+    expect(candidate.startDate).toBe('2024-01-05');
+    expect(candidate.amount).toBe(17.99);
+    expect(candidate.occurrences).toBe(4);
+    expect(candidate.isActive).toBe(true);
+  });
+
+  it('should separate charges of different amounts at the same merchant', () => {
+    const candidates = findRecurringCharges([
+      charge('2023-03-10', 89.9, 'AMAZON PRIME'),
+      charge('2024-03-10', 89.9, 'AMAZON PRIME'),
+      charge('2024-01-02', 23.5, 'AMAZON PRIME'),
+      charge('2024-02-17', 7.99, 'AMAZON PRIME')
+    ]);
+
+    expect(candidates.length).toBe(1);
+    expect(candidates[0].billingPeriod).toBe('YEARLY');
+    expect(candidates[0].amount).toBe(89.9);
+  });
+
+  it('should ignore irregular charges and mark stopped series inactive', () => {
+    const candidates = findRecurringCharges(
+      [
+        charge('2024-01-03', 4.5, 'Coffee Bar'),
+        charge('2024-01-09', 4.5, 'Coffee Bar'),
+        charge('2024-01-30', 4.5, 'Coffee Bar'),
+        charge('2024-02-01', 4.5, 'Coffee Bar'),
+        charge('2024-01-01', 9.99, 'Gym'),
+        charge('2024-02-01', 9.99, 'Gym'),
+        charge('2024-03-01', 9.99, 'Gym')
+      ],
+      { endDate: '2024-06-30' }
+    );
+
+    expect(candidates.length).toBe(1);
+    expect(candidates[0].name).toBe('Gym');
+    expect(candidates[0].isActive).toBe(false);
+  });
+});
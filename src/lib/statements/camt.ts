@@ -0,0 +1,57 @@
+import { Currency } from '@/types/subscriptions';
+import { isValidCurrency } from '@/lib/subscriptions/config/currencies';
+import { ParseStatementOptions, StatementParseError, StatementTransaction } from './types';
+import { getAttribute, getElements, getText } from './xml';
+
+/**
+ * Name the transaction after the creditor for debits and the debtor for
+ * credits, falling back to the remittance information
+ */
+function getDescription(entry: string, isDebit: boolean): string {
+  const party = isDebit ? 'Cdtr' : 'Dbtr';
+  return (
+    // Newer versions wrap the name in Pty, which the first Nm below also finds
+    getText(entry, 'RltdPties', party, 'Nm') ||
+    getText(entry, 'RmtInf', 'Ustrd') ||
+    getText(entry, 'AddtlNtryInf') ||
+    ''
+  ).replace(/\s+/g, ' ');
+}
+
+/**
+ * Parse an ISO 20022 CAMT.053 bank-to-customer statement
+ * @param content - File content
+ * @param options - Currency for entries without one
+ * @returns The statement transactions, one per booked entry
+ * @throws StatementParseError if the file has no statement
+ */
+export function parseCamt053(content: string, options: ParseStatementOptions = {}): StatementTransaction[] {
+  const statements = getElements(content, 'Stmt');
+  if (statements.length === 0) {
+    throw new StatementParseError('The file has no CAMT.053 statement', 'invalid_file');
+  }
+
+  return statements.flatMap(statement =>
+    getElements(statement, 'Ntry').flatMap(entry => {
+      // Pending entries may still change or disappear
+      const status = getText(entry, 'Sts', 'Cd') || getText(entry, 'Sts');
+      if (status && status !== 'BOOK') return [];
+
+      const isDebit = getText(entry, 'CdtDbtInd') === 'DBIT';
+      const value = parseFloat(getText(entry, 'Amt') || '');
+      const code = (getAttribute(entry, 'Amt', 'Ccy') || '').toUpperCase();
+      const currency: Currency = isValidCurrency(code) ? code : options.defaultCurrency || 'EUR';
+      const dateTime = getText(entry, 'BookgDt', 'Dt') || getText(entry, 'BookgDt', 'DtTm') ||
+        getText(entry, 'ValDt', 'Dt') || '';
+      const date = /^\d{4}-\d{2}-\d{2}/.test(dateTime) ? dateTime.slice(0, 10) : null;
+
+      if (!date || Number.isNaN(value)) return [];
+      return [{
+        date,
+        amount: isDebit ? -value : value,
+        currency,
+        description: getDescription(entry, isDebit)
+      }];
+    })
+  );
+}
@@ -0,0 +1,51 @@
+import { ParseStatementOptions, StatementFormat, StatementParseError, StatementTransaction } from './types';
+import { parseOfx } from './ofx';
+import { parseQif } from './qif';
+import { parseCamt053 } from './camt';
+
+const PARSERS: Record<StatementFormat, (content: string, options: ParseStatementOptions) => StatementTransaction[]> = {
+  ofx: parseOfx,
+  qif: parseQif,
+  camt053: parseCamt053,
+};
+
+// File extensions offered when picking a statement file
+export const STATEMENT_FILE_EXTENSIONS = ['.ofx', '.qfx', '.qif', '.xml'];
+
+/**
+ * Recognize a statement format from the file content
+ * @param content - File content
+ * @returns The format, or null if it is not a supported statement
+ */
+export function detectStatementFormat(content: string): StatementFormat | null {
+  // trimStart also drops a byte order mark
+  const head = content.slice(0, 2000).trimStart();
+
+  if (/^OFXHEADER/i.test(head) || /<OFX>/i.test(head)) return 'ofx';
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt\b/.test(head)) return 'camt053';
+  if (/^!(Type|Account|Option)/i.test(head)) return 'qif';
+  return null;
+}
+
+/**
+ * Parse a bank statement in any supported format
+ * @param content - File content
+ * @param options - Fallback currency
+ * @returns The transactions, oldest first
+ * @throws StatementParseError if the format is not supported or the file is broken
+ */
+export function parseStatement(content: string, options: ParseStatementOptions = {}): StatementTransaction[] {
+  const format = detectStatementFormat(content);
+  if (!format) {
+    throw new StatementParseError('Only OFX, QFX, QIF and CAMT.053 statements are supported', 'unsupported_format');
+  }
+
+  return PARSERS[format](content, options).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export * from './types';
+export { parseOfx } from './ofx';
+export { parseQif } from './qif';
+export { parseCamt053 } from './camt';
+export { findRecurringCharges, normalizeMerchant } from './recurring';
+export type { RecurringCandidate, RecurringChargeOptions } from './recurring';
@@ -0,0 +1,51 @@
+import { Currency } from '@/types/subscriptions';
+import { isValidCurrency } from '@/lib/subscriptions/config/currencies';
+import { ParseStatementOptions, StatementParseError, StatementTransaction } from './types';
+import { decodeEntities, getElements } from './xml';
+
+/**
+ * Read a leaf value; OFX 1.x (SGML) leaves have no closing tag
+ */
+function getValue(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match ? decodeEntities(match[1].trim()) : '';
+  return value || null;
+}
+
+/**
+ * Convert an OFX date (YYYYMMDD, optionally followed by time and zone) to YYYY-MM-DD
+ */
+function parseOfxDate(value: string | null): string | null {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})/.exec(value) : null;
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Parse an OFX or QFX file (bank and credit card statements, SGML or XML)
+ * @param content - File content
+ * @param options - Currency for statements without CURDEF
+ * @returns The statement transactions
+ * @throws StatementParseError if the file has no OFX body
+ */
+export function parseOfx(content: string, options: ParseStatementOptions = {}): StatementTransaction[] {
+  if (!/<OFX>/i.test(content)) {
+    throw new StatementParseError('The file has no OFX body', 'invalid_file');
+  }
+
+  // Each bank or credit card statement states its own currency
+  const statements = [...getElements(content, 'STMTRS'), ...getElements(content, 'CCSTMTRS')];
+
+  return (statements.length > 0 ? statements : [content]).flatMap(statement => {
+    const code = (getValue(statement, 'CURDEF') || '').toUpperCase();
+    const currency: Currency = isValidCurrency(code) ? code : options.defaultCurrency || 'EUR';
+
+    return getElements(statement, 'STMTTRN').flatMap(block => {
+      const date = parseOfxDate(getValue(block, 'DTPOSTED'));
+      const amount = parseFloat((getValue(block, 'TRNAMT') || '').replace(',', '.'));
+      const description = getValue(block, 'NAME') || getValue(block, 'MEMO') || '';
+
+      if (!date || Number.isNaN(amount)) return [];
+      return [{ date, amount, currency, description }];
+    });
+  });
+}
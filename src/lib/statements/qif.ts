@@ -0,0 +1,74 @@
+import { ImportDateFormat, parseImportDate, parsePrice } from '@/lib/subscriptions/utils/csv-import';
+import { ParseStatementOptions, StatementParseError, StatementTransaction } from './types';
+
+interface QifRecord {
+  date: string;
+  amount: string;
+  payee: string;
+  memo: string;
+}
+
+/**
+ * QIF leaves the date order to the exporting program: Quicken writes
+ * month first, many European banks day first. Guess from the values.
+ */
+function detectDateFormat(dates: string[]): ImportDateFormat {
+  for (const date of dates) {
+    const parts = date.split(/[/.\-']/).map(Number);
+    if (parts[0] > 31) return 'YMD';
+    if (parts[0] > 12) return 'DMY';
+  }
+  return 'MDY';
+}
+
+/**
+ * Parse a QIF file of bank, cash or credit card transactions
+ * @param content - File content
+ * @param options - Currency of the account, which QIF does not state
+ * @returns The statement transactions
+ * @throws StatementParseError if the file has no QIF records
+ */
+export function parseQif(content: string, options: ParseStatementOptions = {}): StatementTransaction[] {
+  const records: QifRecord[] = [];
+  let record: QifRecord = { date: '', amount: '', payee: '', memo: '' };
+
+  content.split(/\r?\n/).forEach(line => {
+    const code = line[0];
+    const value = line.slice(1).trim();
+
+    if (code === '^') {
+      if (record.date) records.push(record);
+      record = { date: '', amount: '', payee: '', memo: '' };
+    } else if (code === 'D') {
+      record.date = value;
+    } else if (code === 'T' || (code === 'U' && !record.amount)) {
+      record.amount = value;
+    } else if (code === 'P') {
+      record.payee = value;
+    } else if (code === 'M') {
+      record.memo = value;
+    }
+  });
+  if (record.date) records.push(record);
+
+  if (records.length === 0 && !/^!(Type|Account)/im.test(content)) {
+    throw new StatementParseError('The file has no QIF records', 'invalid_file');
+  }
+
+  // Dates such as 1/15'24 use an apostrophe before the year
+  const dates = records.map(r => r.date.replace(/'\s*/, '/'));
+  const dateFormat = detectDateFormat(dates);
+
+  return records.flatMap((r, i) => {
+    const date = parseImportDate(dates[i], dateFormat);
+    const amount = parsePrice(r.amount);
+
+    if (!date || amount === null) return [];
+    return [{
+      date,
+      amount,
+      currency: options.defaultCurrency || 'EUR',
+      description: r.payee || r.memo
+    }];
+  });
+}
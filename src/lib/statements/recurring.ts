@@ -0,0 +1,178 @@
+import { BillingPeriod, Currency } from '@/types/subscriptions';
+import { StatementTransaction } from './types';
+
+export type DetectedPeriod = Exclude<BillingPeriod, 'DAILY' | 'CUSTOM'>;
+
+/**
+ * A series of charges that looks like a subscription
+ * - amount: the latest charge, as a positive number
+ * - startDate: the first charge in the statement, as YYYY-MM-DD
+ * - confidence: 0 to 1, from how regular and how many the charges are
+ * - isActive: charged within the last cycle the statement covers
+ */
+export interface RecurringCandidate {
+  key: string;
+  name: string;
+  merchant: string;
+  amount: number;
+  currency: Currency;
+  billingPeriod: DetectedPeriod;
+  startDate: string;
+  lastChargeDate: string;
+  occurrences: number;
+  confidence: number;
+  isActive: boolean;
+  transactions: StatementTransaction[];
+}
+
+export interface RecurringChargeOptions {
+  // Last day the statement covers (default: the latest transaction)
+  endDate?: string;
+}
+
+// Typical days between charges, how far one gap may stray from it and how
+// many charges it takes before a series counts as recurring
+const CADENCES: { period: DetectedPeriod; days: number; tolerance: number; minOccurrences: number }[] = [
+  { period: 'WEEKLY', days: 7, tolerance: 1, minOccurrences: 4 },
+  { period: 'BIWEEKLY', days: 14, tolerance: 2, minOccurrences: 3 },
+  { period: 'MONTHLY', days: 30.44, tolerance: 4, minOccurrences: 3 },
+  { period: 'QUARTERLY', days: 91.31, tolerance: 8, minOccurrences: 2 },
+  { period: 'SEMIANNUALLY', days: 182.62, tolerance: 12, minOccurrences: 2 },
+  { period: 'YEARLY', days: 365.25, tolerance: 15, minOccurrences: 2 },
+];
+
+// Charges within this fraction of each other count as the same price, so a
+// price rise does not split a subscription in two
+const AMOUNT_TOLERANCE = 0.2;
+
+// Share of gaps that must match the cadence
+const MIN_REGULARITY = 0.75;
+
+// Words banks and payment processors add around the merchant name
+const NOISE_WORDS = new Set([
+  'POS', 'CARD', 'PAYMENT', 'PURCHASE', 'DEBIT', 'DIRECT', 'RECURRING', 'ONLINE',
+  'SEPA', 'LASTSCHRIFT', 'PRELEVEMENT', 'VISA', 'MASTERCARD', 'PAYPAL', 'SQ', 'SUMUP',
+  'WWW', 'COM', 'NET', 'ORG', 'INC', 'LTD', 'LLC', 'GMBH', 'BV', 'SA', 'SARL', 'AB', 'CO',
+  'INTERNATIONAL', 'EUROPE', 'SERVICES',
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function toTitleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|\s)\S/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Reduce a transaction description to the merchant it names, e.g.
+ * "PAYPAL *NETFLIX.COM 866-579" and "Netflix International B.V." both become "NETFLIX"
+ * @param description - Payee or remittance text
+ * @returns Up to two significant words, uppercase
+ */
+export function normalizeMerchant(description: string): string {
+  return description
+    .toUpperCase()
+    // Letters including accented Latin ones; the compile target has no \p{L}
+    .split(/[^A-Z\u00C0-\u024F\d]+/)
+    .filter(word => word.length > 1 && !/\d/.test(word) && !NOISE_WORDS.has(word))
+    .slice(0, 2)
+    .join(' ');
+}
+
+/**
+ * Split one merchant's debits into groups of similar amounts
+ */
+function clusterByAmount(transactions: StatementTransaction[]): StatementTransaction[][] {
+  const clusters: StatementTransaction[][] = [];
+  let lowest = 0;
+
+  [...transactions]
+    .sort((a, b) => b.amount - a.amount)
+    .forEach(transaction => {
+      const current = clusters[clusters.length - 1];
+      const charge = -transaction.amount;
+      if (current && charge <= lowest * (1 + AMOUNT_TOLERANCE) + 0.01) {
+        current.push(transaction);
+      } else {
+        clusters.push([transaction]);
+        lowest = charge;
+      }
+    });
+
+  return clusters.map(cluster => cluster.sort((a, b) => a.date.localeCompare(b.date)));
+}
+
+/**
+ * Find charges in a statement that repeat at a regular interval
+ * Debits are grouped by merchant and currency, then by similar amount; a
+ * group is a candidate if the gaps between its charges match a billing period.
+ * @param transactions - Statement transactions
+ * @param options - End of the statement period
+ * @returns Candidates, active and most certain first
+ */
+export function findRecurringCharges(
+  transactions: StatementTransaction[],
+  options: RecurringChargeOptions = {}
+): RecurringCandidate[] {
+  const debits = transactions.filter(transaction => transaction.amount < 0);
+  const endDate = options.endDate || transactions.reduce((latest, t) => (t.date > latest ? t.date : latest), '');
+
+  const byMerchant = new Map<string, StatementTransaction[]>();
+  debits.forEach(transaction => {
+    const merchant = normalizeMerchant(transaction.description);
+    if (!merchant) return;
+    const key = `${merchant}|${transaction.currency}`;
+    byMerchant.set(key, [...(byMerchant.get(key) || []), transaction]);
+  });
+
+  const candidates: RecurringCandidate[] = [];
+
+  byMerchant.forEach((charges, groupKey) => {
+    const [merchant] = groupKey.split('|');
+
+    clusterByAmount(charges).forEach((cluster, index) => {
+      if (cluster.length < 2) return;
+
+      const gaps = cluster.slice(1).map((t, i) => daysBetween(cluster[i].date, t.date));
+      const typicalGap = median(gaps);
+      const cadence = CADENCES.find(c => Math.abs(typicalGap - c.days) <= c.tolerance);
+      if (!cadence || cluster.length < cadence.minOccurrences) return;
+
+      const regularity = gaps.filter(gap => Math.abs(gap - cadence.days) <= cadence.tolerance).length / gaps.length;
+      if (regularity < MIN_REGULARITY) return;
+
+      const first = cluster[0];
+      const last = cluster[cluster.length - 1];
+
+      candidates.push({
+        key: `${groupKey}|${index}`,
+        name: toTitleCase(merchant),
+        merchant,
+        amount: -last.amount,
+        currency: last.currency,
+        billingPeriod: cadence.period,
+        startDate: first.date,
+        lastChargeDate: last.date,
+        occurrences: cluster.length,
+        confidence: Math.round(regularity * Math.min(1, cluster.length / (cadence.minOccurrences + 2)) * 100) / 100,
+        isActive: daysBetween(last.date, endDate) <= cadence.days + cadence.tolerance,
+        transactions: cluster
+      });
+    });
+  });
+
+  return candidates.sort((a, b) =>
+    Number(b.isActive) - Number(a.isActive) ||
+    b.confidence - a.confidence ||
+    b.amount - a.amount
+  );
+}
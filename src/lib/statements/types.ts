@@ -0,0 +1,28 @@
+import { Currency } from '@/types/subscriptions';
+
+export type StatementFormat = 'ofx' | 'qif' | 'camt053';
+
+/**
+ * One booked transaction from a bank statement
+ */
+export interface StatementTransaction {
+  date: string; // YYYY-MM-DD
+  amount: number; // Negative for money leaving the account
+  currency: Currency;
+  description: string; // Payee or counterparty, falling back to the remittance text
+}
+
+export interface ParseStatementOptions {
+  // Used where the file does not state a currency (QIF never does)
+  defaultCurrency?: Currency;
+}
+
+export class StatementParseError extends Error {
+  constructor(
+    message: string,
+    public code: 'unsupported_format' | 'invalid_file'
+  ) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Just enough tag matching to read OFX (SGML or XML) and CAMT.053 files
+ * without an XML parser. Namespace prefixes are ignored.
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Get the contents of every element with the given name
+ * @param xml - Document or fragment
+ * @param tag - Element name without prefix
+ * @returns Inner text of each element, in document order
+ */
+export function getElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+/**
+ * Follow a path of element names and return the trimmed text of the first match
+ * @param xml - Document or fragment
+ * @param path - Element names from outer to inner
+ * @returns The decoded text, or null if the path does not exist
+ */
+export function getText(xml: string, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const tag of path) {
+    current = getElements(current, tag)[0];
+    if (current === undefined) return null;
+  }
+  return decodeEntities(current.trim());
+}
+
+/**
+ * Get an attribute of the first element with the given name
+ */
+export function getAttribute(xml: string, tag: string, attribute: string): string | null {
+  const match = new RegExp(`<(?:\\w+:)?${tag}\\s[^>]*\\b${attribute}="([^"]*)"`).exec(xml);
+  return match ? decodeEntities(match[1]) : null;
+}
@@ -1,6 +1,7 @@
 import { IStorageProvider } from './types';
 import { LocalStorageProvider } from './localStorage';
 import { MongoDBStorageProvider } from './mongodb';
+import { IndexedDBStorageProvider } from './indexedDB';
 
 let storageProvider: IStorageProvider | null = null;
 
@@ -17,6 +18,18 @@ export function getStorageProvider(): IStorageProvider {
   return storageProvider;
 }
 
+let offlineStorageProvider: IStorageProvider | null = null;
+
+// Browser storage for data kept while offline; IndexedDB where the browser has it
+export function getOfflineStorageProvider(): IStorageProvider {
+  if (!offlineStorageProvider) {
+    offlineStorageProvider = IndexedDBStorageProvider.isSupported()
+      ? new IndexedDBStorageProvider()
+      : new LocalStorageProvider();
+  }
+  return offlineStorageProvider;
+}
+
 // For testing or switching storage implementations
 export function setStorageProvider(provider: IStorageProvider) {
   storageProvider = provider;
@@ -25,6 +38,7 @@ export function setStorageProvider(provider: IStorageProvider) {
 // Clear the provider (useful for testing)
 export function clearStorageProvider() {
   storageProvider = null;
+  offlineStorageProvider = null;
 }
 
 export * from './types';
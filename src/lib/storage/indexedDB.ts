@@ -0,0 +1,106 @@
+import { IStorageProvider, StorageError } from './types';
+
+const DB_NAME = 'subscription-tracker';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+/**
+ * Key-value storage in the browser's IndexedDB
+ * Unlike local storage it holds more than a few megabytes and stores values
+ * without serializing them to strings, so it suits offline data.
+ */
+export class IndexedDBStorageProvider implements IStorageProvider {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = DB_NAME) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!IndexedDBStorageProvider.isSupported()) {
+      return Promise.reject(new StorageError('IndexedDB is not available', 'storage_unavailable'));
+    }
+
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          // Allow the next call to try again
+          this.db = null;
+          reject(new StorageError(
+            `Failed to open IndexedDB: ${request.error?.message || 'Unknown error'}`,
+            'storage_unavailable'
+          ));
+        };
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run one request in its own transaction
+   * Resolves once the transaction has committed, so writes are durable.
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+    failure: { message: string; code: StorageError['code'] }
+  ): Promise<T> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      let request: IDBRequest<T>;
+      const fail = (error: DOMException | null) => reject(new StorageError(
+        `${failure.message}: ${error?.message || 'Unknown error'}`,
+        failure.code
+      ));
+
+      try {
+        const transaction = db.transaction(STORE_NAME, mode);
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => fail(transaction.error);
+        transaction.onabort = () => fail(transaction.error);
+        request = operation(transaction.objectStore(STORE_NAME));
+      } catch (error) {
+        fail(error instanceof DOMException ? error : null);
+      }
+    });
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = await this.run<T | undefined>('readonly', store => store.get(key), {
+      message: 'Failed to read from storage',
+      code: 'read_error'
+    });
+    return value === undefined ? null : value;
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key), {
+      message: 'Failed to write to storage',
+      code: 'write_error'
+    });
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key), {
+      message: 'Failed to remove from storage',
+      code: 'delete_error'
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', store => store.clear(), {
+      message: 'Failed to clear storage',
+      code: 'clear_error'
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import { cookies } from 'next/headers';
 import { Subscription, SubscriptionFormData } from '@/types/subscriptions';
-import { calculateNextBillingDate } from '../subscriptions/utils/dates';
+import { calculateFirstBillingDate, calculateNextBillingDate } from '../subscriptions/utils/dates';
+import { getBillingInterval } from '../subscriptions/utils/periods';
 
 const BASE_STORAGE_KEY = 'subscriptions';
 
@@ -29,7 +30,11 @@ export class ServerStorage {
       id: Date.now().toString(),
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
-      nextBillingDate: calculateNextBillingDate(data.startDate, data.billingPeriod),
+      billingInterval: getBillingInterval(data),
+      nextBillingDate: calculateNextBillingDate(
+        calculateFirstBillingDate(data.startDate, data.trial),
+        getBillingInterval(data)
+      ),
       disabled: false
     };
 
@@ -46,16 +51,26 @@ export class ServerStorage {
     if (subscriptionIndex === -1) return null;
 
     const subscription = subscriptions[subscriptionIndex];
-    const isBillingUpdate = data.startDate !== undefined || data.billingPeriod !== undefined;
+    const isBillingUpdate = data.startDate !== undefined ||
+      data.billingPeriod !== undefined ||
+      data.billingInterval !== undefined ||
+      data.trial !== undefined;
+    const billingInterval = getBillingInterval({
+      billingPeriod: data.billingPeriod || subscription.billingPeriod,
+      billingInterval: data.billingInterval || subscription.billingInterval
+    });
+    const trial = data.trial === undefined ? subscription.trial : data.trial || undefined;
 
     const updatedSubscription: Subscription = {
       ...subscription,
       ...data,
+      billingInterval,
+      trial,
       updatedAt: new Date().toISOString(),
       nextBillingDate: isBillingUpdate
         ? calculateNextBillingDate(
-            data.startDate || subscription.startDate,
-            data.billingPeriod || subscription.billingPeriod
+            calculateFirstBillingDate(data.startDate || subscription.startDate, trial),
+            billingInterval
           )
         : subscription.nextBillingDate
     };
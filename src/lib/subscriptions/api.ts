@@ -0,0 +1,81 @@
+import { Subscription, SubscriptionFormData } from '@/types/subscriptions';
+
+const API_URL = '/api/subscriptions';
+
+/**
+ * A failed request to the subscriptions API
+ * - current: on 409, the server's copy of the subscription
+ */
+export class SubscriptionRequestError extends Error {
+  constructor(message: string, public status: number, public current: Subscription | null = null) {
+    super(message);
+    this.name = 'SubscriptionRequestError';
+  }
+}
+
+/**
+ * Send a request to the subscriptions API and return the parsed body
+ * @throws SubscriptionRequestError if the response is not OK, TypeError if
+ * the server cannot be reached
+ */
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+
+  if (!response.ok) {
+    let body: { error?: string; current?: Subscription } = {};
+    try {
+      body = await response.json();
+    } catch {
+      // Not every error response has a body
+    }
+    throw new SubscriptionRequestError(
+      body.error || `HTTP error ${response.status}`,
+      response.status,
+      body.current || null
+    );
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+/**
+ * The editable fields of a subscription, as the create and update endpoints expect them
+ */
+export function toFormData(subscription: Subscription): SubscriptionFormData {
+  const { id, nextBillingDate, disabled, createdAt, updatedAt, version, deletedAt, workspaceId, ...data } = subscription;
+  return data;
+}
+
+/**
+ * Per-item requests to /api/subscriptions
+ */
+export const subscriptionApi = {
+  list: () => request<Subscription[]>(API_URL),
+
+  create: (data: SubscriptionFormData) => request<Subscription>(API_URL, {
+    method: 'POST',
+    body: JSON.stringify(data)
+  }),
+
+  // Rejected with 409 if the subscription has changed since version
+  update: (id: string, data: SubscriptionFormData & { disabled?: boolean }, version?: number) =>
+    request<Subscription>(`${API_URL}/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify({ ...data, version })
+    }),
+
+  // Moves the subscription to the trash
+  remove: (id: string) => request<void>(`${API_URL}/${id}`, { method: 'DELETE' }),
+
+  trash: () => request<Subscription[]>(`${API_URL}/trash`),
+
+  restore: (id: string) => request<Subscription>(`${API_URL}/${id}/restore`, { method: 'POST' }),
+
+  // Deletes a subscription in the trash for good
+  purge: (id: string) => request<void>(`${API_URL}/${id}?permanent=true`, { method: 'DELETE' })
+};
+
+export type SubscriptionApi = typeof subscriptionApi;
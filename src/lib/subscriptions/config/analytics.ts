@@ -0,0 +1,5 @@
+// How far back the spending trend replays charges
+export const TREND_HISTORY_MONTHS = 24;
+
+// How far ahead the spending trend projects charges
+export const TREND_PROJECTION_MONTHS = 12;
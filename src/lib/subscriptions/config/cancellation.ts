@@ -0,0 +1,15 @@
+import { SubscriptionStatus } from '@/types/subscriptions';
+
+export const SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['ACTIVE', 'CANCELLED'];
+
+// Offered as suggestions; any other reason can be typed in
+export const CANCELLATION_REASONS = [
+  'Too expensive',
+  'Not using it enough',
+  'Switched to an alternative',
+  'Only needed it for a while',
+  'Missing features',
+  'Poor service',
+];
+
+export const MAX_CANCELLATION_REASON_LENGTH = 200;
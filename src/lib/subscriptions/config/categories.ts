@@ -0,0 +1,45 @@
+import { CategoryIcon } from '@/types/subscriptions';
+
+// Key used for subscriptions without a category in summaries and filters
+export const UNCATEGORIZED_ID = 'uncategorized';
+
+export const CATEGORY_ICON_ORDER: CategoryIcon[] = [
+  'tag',
+  'tv',
+  'music',
+  'code',
+  'cloud',
+  'gamepad',
+  'newspaper',
+  'dumbbell',
+  'briefcase',
+  'shopping-cart',
+  'graduation-cap',
+  'home',
+];
+
+// Palette offered when creating a category
+export const CATEGORY_COLORS = [
+  '#eab308', // yellow
+  '#ef4444', // red
+  '#f97316', // orange
+  '#22c55e', // green
+  '#14b8a6', // teal
+  '#3b82f6', // blue
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+  '#6b7280', // gray
+];
+
+export const MAX_CATEGORY_NAME_LENGTH = 40;
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS = 20;
+
+// Validation functions
+export function isValidCategoryIcon(icon: string): icon is CategoryIcon {
+  return CATEGORY_ICON_ORDER.includes(icon as CategoryIcon);
+}
+
+export function isValidCategoryColor(color: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(color);
+}
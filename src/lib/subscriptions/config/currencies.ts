@@ -1,54 +1,51 @@
 import { Currency } from '@/types/subscriptions';
+import { ISO_4217_CURRENCIES } from './iso-4217';
 
 export interface CurrencyConfig {
   code: Currency;
   symbol: string;
   label: string;
-  exchangeRate: number; // Rate to EUR
+  exchangeRate?: number; // Static rate to EUR, used when no dated rate is known
   locale: string;
-  decimalPlaces: number;
+  decimalPlaces: number; // ISO 4217 minor units, e.g. 0 for JPY
 }
 
-export const CURRENCIES: Record<Currency, CurrencyConfig> = {
-  EUR: {
-    code: 'EUR',
-    symbol: '€',
-    label: 'Euro',
-    exchangeRate: 1,
-    locale: 'de-DE',
-    decimalPlaces: 2,
-  },
-  USD: {
-    code: 'USD',
-    symbol: '$',
-    label: 'US Dollar',
-    exchangeRate: 0.92, // 1 USD = 0.92 EUR
-    locale: 'en-US',
-    decimalPlaces: 2,
-  },
-  GBP: {
-    code: 'GBP',
-    symbol: '£',
-    label: 'British Pound',
-    exchangeRate: 1.17, // 1 GBP = 1.17 EUR
-    locale: 'en-GB',
-    decimalPlaces: 2,
-  },
-  PLN: {
-    code: 'PLN',
-    symbol: 'zł',
-    label: 'Polish Złoty',
-    exchangeRate: 0.23, // 1 PLN = 0.23 EUR
-    locale: 'pl-PL',
-    decimalPlaces: 2,
-  },
-} as const;
-
-export const CURRENCY_ORDER: Currency[] = ['EUR', 'USD', 'GBP', 'PLN'];
+// Rough fallback rates for when no exchange rate source is configured.
+// Other currencies can only be converted with dated rates.
+const STATIC_EXCHANGE_RATES: Partial<Record<Currency, number>> = {
+  EUR: 1,
+  USD: 0.92, // 1 USD = 0.92 EUR
+  GBP: 1.17, // 1 GBP = 1.17 EUR
+  PLN: 0.23, // 1 PLN = 0.23 EUR
+};
+
+export const CURRENCIES = Object.fromEntries(
+  ISO_4217_CURRENCIES.map(([code, label, symbol, decimalPlaces, locale]) => [
+    code,
+    {
+      code,
+      symbol,
+      label,
+      exchangeRate: STATIC_EXCHANGE_RATES[code],
+      locale,
+      decimalPlaces,
+    },
+  ])
+) as Record<Currency, CurrencyConfig>;
+
+// Shown first in currency pickers
+export const COMMON_CURRENCIES: Currency[] = ['EUR', 'USD', 'GBP', 'PLN'];
+
+export const CURRENCY_ORDER: Currency[] = [
+  ...COMMON_CURRENCIES,
+  ...ISO_4217_CURRENCIES
+    .map(([code]) => code as Currency)
+    .filter(code => !COMMON_CURRENCIES.includes(code)),
+];
 
 // Validation functions
 export function isValidCurrency(currency: string): currency is Currency {
-  return currency in CURRENCIES;
+  return Object.prototype.hasOwnProperty.call(CURRENCIES, currency);
 }
 
 export function getCurrencyConfig(currency: Currency): CurrencyConfig {
@@ -61,3 +58,8 @@ export function roundAmount(amount: number, currency: Currency): number {
   const multiplier = Math.pow(10, config.decimalPlaces);
   return Math.round(amount * multiplier) / multiplier;
 }
+
+// Smallest amount a price can be entered in, e.g. 0.01 for EUR or 1 for JPY
+export function getMinorUnitStep(currency: Currency): number {
+  return 1 / Math.pow(10, getCurrencyConfig(currency).decimalPlaces);
+}
@@ -0,0 +1,168 @@
+/**
+ * ISO 4217 currency registry, one row per currency:
+ * [code, English name, symbol, minor units (decimal places), representative locale]
+ *
+ * Covers the currencies in circulation. Fund codes (e.g. BOV, CLF), precious
+ * metals (XAU, XAG) and testing codes (XTS, XXX) are left out since
+ * subscriptions are never billed in them.
+ */
+export const ISO_4217_CURRENCIES = [
+  ['AED', 'United Arab Emirates Dirham', 'د.إ.', 2, 'ar-AE'],
+  ['AFN', 'Afghan Afghani', '؋', 2, 'fa-AF'],
+  ['ALL', 'Albanian Lek', 'Lekë', 2, 'sq-AL'],
+  ['AMD', 'Armenian Dram', '֏', 2, 'hy-AM'],
+  ['ANG', 'Netherlands Antillean Guilder', 'NAf.', 2, 'nl-CW'],
+  ['AOA', 'Angolan Kwanza', 'Kz', 2, 'pt-AO'],
+  ['ARS', 'Argentine Peso', '$', 2, 'es-AR'],
+  ['AUD', 'Australian Dollar', '$', 2, 'en-AU'],
+  ['AWG', 'Aruban Florin', 'Afl.', 2, 'nl-AW'],
+  ['AZN', 'Azerbaijani Manat', '₼', 2, 'az-AZ'],
+  ['BAM', 'Bosnia-Herzegovina Convertible Mark', 'KM', 2, 'bs-BA'],
+  ['BBD', 'Barbadian Dollar', '$', 2, 'en-BB'],
+  ['BDT', 'Bangladeshi Taka', '৳', 2, 'bn-BD'],
+  ['BGN', 'Bulgarian Lev', 'лв.', 2, 'bg-BG'],
+  ['BHD', 'Bahraini Dinar', 'د.ب.', 3, 'ar-BH'],
+  ['BIF', 'Burundian Franc', 'FBu', 0, 'fr-BI'],
+  ['BMD', 'Bermudan Dollar', '$', 2, 'en-BM'],
+  ['BND', 'Brunei Dollar', '$', 2, 'ms-BN'],
+  ['BOB', 'Bolivian Boliviano', 'Bs', 2, 'es-BO'],
+  ['BRL', 'Brazilian Real', 'R$', 2, 'pt-BR'],
+  ['BSD', 'Bahamian Dollar', '$', 2, 'en-BS'],
+  ['BTN', 'Bhutanese Ngultrum', 'Nu.', 2, 'dz-BT'],
+  ['BWP', 'Botswanan Pula', 'P', 2, 'en-BW'],
+  ['BYN', 'Belarusian Ruble', 'Br', 2, 'be-BY'],
+  ['BZD', 'Belize Dollar', '$', 2, 'en-BZ'],
+  ['CAD', 'Canadian Dollar', '$', 2, 'en-CA'],
+  ['CDF', 'Congolese Franc', 'FC', 2, 'fr-CD'],
+  ['CHF', 'Swiss Franc', 'CHF', 2, 'de-CH'],
+  ['CLP', 'Chilean Peso', '$', 0, 'es-CL'],
+  ['CNY', 'Chinese Yuan', '¥', 2, 'zh-CN'],
+  ['COP', 'Colombian Peso', '$', 2, 'es-CO'],
+  ['CRC', 'Costa Rican Colón', '₡', 2, 'es-CR'],
+  ['CUP', 'Cuban Peso', '$', 2, 'es-CU'],
+  ['CVE', 'Cape Verdean Escudo', 'Esc', 2, 'pt-CV'],
+  ['CZK', 'Czech Koruna', 'Kč', 2, 'cs-CZ'],
+  ['DJF', 'Djiboutian Franc', 'Fdj', 0, 'fr-DJ'],
+  ['DKK', 'Danish Krone', 'kr.', 2, 'da-DK'],
+  ['DOP', 'Dominican Peso', '$', 2, 'es-DO'],
+  ['DZD', 'Algerian Dinar', 'د.ج.', 2, 'ar-DZ'],
+  ['EGP', 'Egyptian Pound', 'E£', 2, 'ar-EG'],
+  ['ERN', 'Eritrean Nakfa', 'Nfk', 2, 'ti-ER'],
+  ['ETB', 'Ethiopian Birr', 'ብር', 2, 'am-ET'],
+  ['EUR', 'Euro', '€', 2, 'de-DE'],
+  ['FJD', 'Fijian Dollar', '$', 2, 'en-FJ'],
+  ['FKP', 'Falkland Islands Pound', '£', 2, 'en-FK'],
+  ['GBP', 'British Pound', '£', 2, 'en-GB'],
+  ['GEL', 'Georgian Lari', '₾', 2, 'ka-GE'],
+  ['GHS', 'Ghanaian Cedi', 'GH₵', 2, 'en-GH'],
+  ['GIP', 'Gibraltar Pound', '£', 2, 'en-GI'],
+  ['GMD', 'Gambian Dalasi', 'D', 2, 'en-GM'],
+  ['GNF', 'Guinean Franc', 'FG', 0, 'fr-GN'],
+  ['GTQ', 'Guatemalan Quetzal', 'Q', 2, 'es-GT'],
+  ['GYD', 'Guyanaese Dollar', '$', 2, 'en-GY'],
+  ['HKD', 'Hong Kong Dollar', '$', 2, 'zh-HK'],
+  ['HNL', 'Honduran Lempira', 'L', 2, 'es-HN'],
+  ['HTG', 'Haitian Gourde', 'G', 2, 'fr-HT'],
+  ['HUF', 'Hungarian Forint', 'Ft', 2, 'hu-HU'],
+  ['IDR', 'Indonesian Rupiah', 'Rp', 2, 'id-ID'],
+  ['ILS', 'Israeli New Shekel', '₪', 2, 'he-IL'],
+  ['INR', 'Indian Rupee', '₹', 2, 'hi-IN'],
+  ['IQD', 'Iraqi Dinar', 'د.ع.', 3, 'ar-IQ'],
+  ['IRR', 'Iranian Rial', 'ریال', 2, 'fa-IR'],
+  ['ISK', 'Icelandic Króna', 'kr.', 0, 'is-IS'],
+  ['JMD', 'Jamaican Dollar', '$', 2, 'en-JM'],
+  ['JOD', 'Jordanian Dinar', 'د.أ.', 3, 'ar-JO'],
+  ['JPY', 'Japanese Yen', '¥', 0, 'ja-JP'],
+  ['KES', 'Kenyan Shilling', 'Ksh', 2, 'sw-KE'],
+  ['KGS', 'Kyrgystani Som', 'сом', 2, 'ky-KG'],
+  ['KHR', 'Cambodian Riel', '៛', 2, 'km-KH'],
+  ['KMF', 'Comorian Franc', 'FC', 0, 'fr-KM'],
+  ['KPW', 'North Korean Won', '₩', 2, 'ko-KP'],
+  ['KRW', 'South Korean Won', '₩', 0, 'ko-KR'],
+  ['KWD', 'Kuwaiti Dinar', 'د.ك.', 3, 'ar-KW'],
+  ['KYD', 'Cayman Islands Dollar', '$', 2, 'en-KY'],
+  ['KZT', 'Kazakhstani Tenge', '₸', 2, 'kk-KZ'],
+  ['LAK', 'Laotian Kip', '₭', 2, 'lo-LA'],
+  ['LBP', 'Lebanese Pound', 'L£', 2, 'ar-LB'],
+  ['LKR', 'Sri Lankan Rupee', 'රු.', 2, 'si-LK'],
+  ['LRD', 'Liberian Dollar', '$', 2, 'en-LR'],
+  ['LSL', 'Lesotho Loti', 'LSL', 2, 'en-LS'],
+  ['LYD', 'Libyan Dinar', 'د.ل.', 3, 'ar-LY'],
+  ['MAD', 'Moroccan Dirham', 'د.م.', 2, 'ar-MA'],
+  ['MDL', 'Moldovan Leu', 'L', 2, 'ro-MD'],
+  ['MGA', 'Malagasy Ariary', 'Ar', 2, 'mg-MG'],
+  ['MKD', 'Macedonian Denar', 'ден.', 2, 'mk-MK'],
+  ['MMK', 'Myanmar Kyat', 'K', 2, 'my-MM'],
+  ['MNT', 'Mongolian Tugrik', '₮', 2, 'mn-MN'],
+  ['MOP', 'Macanese Pataca', 'MOP$', 2, 'zh-MO'],
+  ['MRU', 'Mauritanian Ouguiya', 'أ.م.', 2, 'ar-MR'],
+  ['MUR', 'Mauritian Rupee', 'Rs', 2, 'en-MU'],
+  ['MVR', 'Maldivian Rufiyaa', 'MVR', 2, 'dv-MV'],
+  ['MWK', 'Malawian Kwacha', 'MK', 2, 'en-MW'],
+  ['MXN', 'Mexican Peso', '$', 2, 'es-MX'],
+  ['MYR', 'Malaysian Ringgit', 'RM', 2, 'ms-MY'],
+  ['MZN', 'Mozambican Metical', 'MTn', 2, 'pt-MZ'],
+  ['NAD', 'Namibian Dollar', '$', 2, 'en-NA'],
+  ['NGN', 'Nigerian Naira', '₦', 2, 'en-NG'],
+  ['NIO', 'Nicaraguan Córdoba', 'C$', 2, 'es-NI'],
+  ['NOK', 'Norwegian Krone', 'kr', 2, 'nb-NO'],
+  ['NPR', 'Nepalese Rupee', 'रू', 2, 'ne-NP'],
+  ['NZD', 'New Zealand Dollar', '$', 2, 'en-NZ'],
+  ['OMR', 'Omani Rial', 'ر.ع.', 3, 'ar-OM'],
+  ['PAB', 'Panamanian Balboa', 'B/.', 2, 'es-PA'],
+  ['PEN', 'Peruvian Sol', 'S/', 2, 'es-PE'],
+  ['PGK', 'Papua New Guinean Kina', 'K', 2, 'en-PG'],
+  ['PHP', 'Philippine Peso', '₱', 2, 'en-PH'],
+  ['PKR', 'Pakistani Rupee', 'Rs', 2, 'ur-PK'],
+  ['PLN', 'Polish Złoty', 'zł', 2, 'pl-PL'],
+  ['PYG', 'Paraguayan Guarani', '₲', 0, 'es-PY'],
+  ['QAR', 'Qatari Riyal', 'ر.ق.', 2, 'ar-QA'],
+  ['RON', 'Romanian Leu', 'lei', 2, 'ro-RO'],
+  ['RSD', 'Serbian Dinar', 'RSD', 2, 'sr-RS'],
+  ['RUB', 'Russian Ruble', '₽', 2, 'ru-RU'],
+  ['RWF', 'Rwandan Franc', 'RF', 0, 'rw-RW'],
+  ['SAR', 'Saudi Riyal', 'ر.س.', 2, 'ar-SA'],
+  ['SBD', 'Solomon Islands Dollar', '$', 2, 'en-SB'],
+  ['SCR', 'Seychellois Rupee', 'SR', 2, 'en-SC'],
+  ['SDG', 'Sudanese Pound', 'ج.س.', 2, 'ar-SD'],
+  ['SEK', 'Swedish Krona', 'kr', 2, 'sv-SE'],
+  ['SGD', 'Singapore Dollar', '$', 2, 'en-SG'],
+  ['SHP', 'St. Helena Pound', '£', 2, 'en-SH'],
+  ['SLE', 'Sierra Leonean Leone', 'Le', 2, 'en-SL'],
+  ['SOS', 'Somali Shilling', 'S', 2, 'so-SO'],
+  ['SRD', 'Surinamese Dollar', '$', 2, 'nl-SR'],
+  ['SSP', 'South Sudanese Pound', '£', 2, 'en-SS'],
+  ['STN', 'São Tomé & Príncipe Dobra', 'Db', 2, 'pt-ST'],
+  ['SVC', 'Salvadoran Colón', 'SVC', 2, 'es-SV'],
+  ['SYP', 'Syrian Pound', '£', 2, 'ar-SY'],
+  ['SZL', 'Swazi Lilangeni', 'E', 2, 'en-SZ'],
+  ['THB', 'Thai Baht', '฿', 2, 'th-TH'],
+  ['TJS', 'Tajikistani Somoni', 'сом.', 2, 'tg-TJ'],
+  ['TMT', 'Turkmenistani Manat', 'TMT', 2, 'tk-TM'],
+  ['TND', 'Tunisian Dinar', 'د.ت.', 3, 'ar-TN'],
+  ['TOP', 'Tongan Paʻanga', 'T$', 2, 'to-TO'],
+  ['TRY', 'Turkish Lira', '₺', 2, 'tr-TR'],
+  ['TTD', 'Trinidad & Tobago Dollar', '$', 2, 'en-TT'],
+  ['TWD', 'New Taiwan Dollar', '$', 2, 'zh-TW'],
+  ['TZS', 'Tanzanian Shilling', 'TSh', 2, 'sw-TZ'],
+  ['UAH', 'Ukrainian Hryvnia', '₴', 2, 'uk-UA'],
+  ['UGX', 'Ugandan Shilling', 'USh', 0, 'en-UG'],
+  ['USD', 'US Dollar', '$', 2, 'en-US'],
+  ['UYU', 'Uruguayan Peso', '$', 2, 'es-UY'],
+  ['UZS', 'Uzbekistani Som', 'soʻm', 2, 'uz-UZ'],
+  ['VES', 'Venezuelan Bolívar', 'Bs.S', 2, 'es-VE'],
+  ['VND', 'Vietnamese Dong', '₫', 0, 'vi-VN'],
+  ['VUV', 'Vanuatu Vatu', 'VT', 0, 'fr-VU'],
+  ['WST', 'Samoan Tala', 'WS$', 2, 'en-WS'],
+  ['XAF', 'Central African CFA Franc', 'FCFA', 0, 'fr-CM'],
+  ['XCD', 'East Caribbean Dollar', '$', 2, 'en-AG'],
+  ['XOF', 'West African CFA Franc', 'F CFA', 0, 'fr-SN'],
+  ['XPF', 'CFP Franc', 'FCFP', 0, 'fr-PF'],
+  ['YER', 'Yemeni Rial', 'ر.ي.', 2, 'ar-YE'],
+  ['ZAR', 'South African Rand', 'R', 2, 'en-ZA'],
+  ['ZMW', 'Zambian Kwacha', 'ZK', 2, 'en-ZM'],
+  ['ZWG', 'Zimbabwe Gold', 'ZiG', 2, 'en-ZW'],
+  ['ZWL', 'Zimbabwean Dollar', 'ZWL', 2, 'en-ZW']
+] as const;
+
+export type CurrencyCode = (typeof ISO_4217_CURRENCIES)[number][0];
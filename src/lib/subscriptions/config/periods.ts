@@ -1,39 +1,161 @@
-import { BillingPeriod } from '@/types/subscriptions';
+import { BillingPeriod, BillingInterval, BillingIntervalUnit } from '@/types/subscriptions';
 
 export interface PeriodConfig {
-  daysInPeriod: number;
-  monthsInPeriod: number;
+  interval: BillingInterval;
   label: string;
   description: string;
 }
 
-export const BILLING_PERIODS: Record<BillingPeriod, PeriodConfig> = {
+export interface IntervalUnitConfig {
+  daysInUnit: number;
+  monthsInUnit: number;
+  singular: string;
+  plural: string;
+}
+
+const AVERAGE_DAYS_IN_YEAR = 365.25; // Account for leap years
+const AVERAGE_DAYS_IN_MONTH = AVERAGE_DAYS_IN_YEAR / 12; // ~30.437
+
+export const INTERVAL_UNITS: Record<BillingIntervalUnit, IntervalUnitConfig> = {
+  DAY: {
+    daysInUnit: 1,
+    monthsInUnit: 1 / AVERAGE_DAYS_IN_MONTH,
+    singular: 'day',
+    plural: 'days',
+  },
+  WEEK: {
+    daysInUnit: 7,
+    monthsInUnit: 7 / AVERAGE_DAYS_IN_MONTH,
+    singular: 'week',
+    plural: 'weeks',
+  },
+  MONTH: {
+    daysInUnit: AVERAGE_DAYS_IN_MONTH,
+    monthsInUnit: 1,
+    singular: 'month',
+    plural: 'months',
+  },
+  YEAR: {
+    daysInUnit: AVERAGE_DAYS_IN_YEAR,
+    monthsInUnit: 12,
+    singular: 'year',
+    plural: 'years',
+  },
+} as const;
+
+export const INTERVAL_UNIT_ORDER: BillingIntervalUnit[] = ['DAY', 'WEEK', 'MONTH', 'YEAR'];
+
+// Presets for the common cycles. CUSTOM has no fixed interval and must be
+// accompanied by an explicit billingInterval on the subscription.
+export const BILLING_PERIODS: Record<Exclude<BillingPeriod, 'CUSTOM'>, PeriodConfig> = {
+  DAILY: {
+    interval: { unit: 'DAY', count: 1 },
+    label: 'Daily',
+    description: 'Billed every day',
+  },
+  WEEKLY: {
+    interval: { unit: 'WEEK', count: 1 },
+    label: 'Weekly',
+    description: 'Billed every week',
+  },
+  BIWEEKLY: {
+    interval: { unit: 'WEEK', count: 2 },
+    label: 'Every 2 weeks',
+    description: 'Billed every two weeks',
+  },
   MONTHLY: {
-    daysInPeriod: 30.437, // Average days in a month (365.25/12)
-    monthsInPeriod: 1,
+    interval: { unit: 'MONTH', count: 1 },
     label: 'Monthly',
     description: 'Billed every month',
   },
+  QUARTERLY: {
+    interval: { unit: 'MONTH', count: 3 },
+    label: 'Quarterly',
+    description: 'Billed every three months',
+  },
+  SEMIANNUALLY: {
+    interval: { unit: 'MONTH', count: 6 },
+    label: 'Every 6 months',
+    description: 'Billed twice a year',
+  },
   YEARLY: {
-    daysInPeriod: 365.25, // Account for leap years
-    monthsInPeriod: 12,
+    interval: { unit: 'YEAR', count: 1 },
     label: 'Yearly',
     description: 'Billed every year',
   },
 } as const;
 
-export const PERIOD_ORDER: BillingPeriod[] = ['MONTHLY', 'YEARLY'];
+export const PERIOD_ORDER: BillingPeriod[] = [
+  'DAILY',
+  'WEEKLY',
+  'BIWEEKLY',
+  'MONTHLY',
+  'QUARTERLY',
+  'SEMIANNUALLY',
+  'YEARLY',
+  'CUSTOM',
+];
 
 // Validation functions
 export function isValidBillingPeriod(period: string): period is BillingPeriod {
-  return period in BILLING_PERIODS;
+  return PERIOD_ORDER.includes(period as BillingPeriod);
+}
+
+export function isValidIntervalUnit(unit: string): unit is BillingIntervalUnit {
+  return unit in INTERVAL_UNITS;
 }
 
-export function getPeriodConfig(period: BillingPeriod): PeriodConfig {
+export function isValidBillingInterval(interval: unknown): interval is BillingInterval {
+  if (!interval || typeof interval !== 'object') return false;
+  const { unit, count } = interval as Record<string, unknown>;
+  return (
+    typeof unit === 'string' &&
+    isValidIntervalUnit(unit) &&
+    typeof count === 'number' &&
+    Number.isInteger(count) &&
+    count >= 1
+  );
+}
+
+export function getPeriodConfig(period: Exclude<BillingPeriod, 'CUSTOM'>): PeriodConfig {
   return BILLING_PERIODS[period];
 }
 
-export function getMonthlyMultiplier(period: BillingPeriod): number {
-  const config = getPeriodConfig(period);
-  return 1 / config.monthsInPeriod;
+/**
+ * Map legacy or loosely formatted period values (e.g. 'monthly') onto a BillingPeriod.
+ * Used when reading documents written before intervals were generalized.
+ */
+export function normalizeBillingPeriod(period: string | undefined | null): BillingPeriod {
+  const normalized = (period || '').toUpperCase();
+  return isValidBillingPeriod(normalized) ? normalized : 'MONTHLY';
+}
+
+/**
+ * Resolve the concrete interval for a period. Presets always use their own
+ * interval; only CUSTOM takes the explicit one.
+ * @throws Error if the period is CUSTOM and no valid interval is given
+ */
+export function resolveBillingInterval(
+  period: BillingPeriod,
+  interval?: BillingInterval | null
+): BillingInterval {
+  if (period !== 'CUSTOM') {
+    return { ...getPeriodConfig(period).interval };
+  }
+  if (!isValidBillingInterval(interval)) {
+    throw new Error('A custom billing period requires a valid billing interval');
+  }
+  return { unit: interval.unit, count: interval.count };
+}
+
+export function getIntervalMonths(interval: BillingInterval): number {
+  return INTERVAL_UNITS[interval.unit].monthsInUnit * interval.count;
+}
+
+export function getIntervalDays(interval: BillingInterval): number {
+  return INTERVAL_UNITS[interval.unit].daysInUnit * interval.count;
+}
+
+export function getMonthlyMultiplier(period: BillingPeriod, interval?: BillingInterval): number {
+  return 1 / getIntervalMonths(resolveBillingInterval(period, interval));
 }
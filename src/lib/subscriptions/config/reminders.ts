@@ -0,0 +1,12 @@
+// Days before a renewal reminders go out when a user has not chosen their own
+export const DEFAULT_REMINDER_DAYS = [3];
+
+// Furthest ahead a reminder can be scheduled
+export const MAX_REMINDER_DAYS = 60;
+
+// Most reminders per renewal
+export const MAX_REMINDER_OFFSETS = 5;
+
+export function isValidReminderDay(day: number): boolean {
+  return Number.isInteger(day) && day >= 0 && day <= MAX_REMINDER_DAYS;
+}
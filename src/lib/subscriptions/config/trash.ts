@@ -0,0 +1,2 @@
+// Days a deleted subscription stays in the trash before it is purged for good
+export const TRASH_RETENTION_DAYS = 30;
@@ -0,0 +1,21 @@
+import { CostSplitType } from '@/types/subscriptions';
+import { WorkspaceRole, WorkspaceRoleId } from '@/types/workspaces';
+
+export const WORKSPACE_ROLES: Record<WorkspaceRoleId, WorkspaceRole> = {
+  owner: { id: 'owner', name: 'Owner' },
+  editor: { id: 'editor', name: 'Editor' },
+  viewer: { id: 'viewer', name: 'Viewer' },
+};
+
+// Least to most access; each role can do everything the ones before it can
+export const WORKSPACE_ROLE_ORDER: WorkspaceRoleId[] = ['viewer', 'editor', 'owner'];
+
+export const SPLIT_TYPES: Record<CostSplitType, { label: string }> = {
+  EQUAL: { label: 'Equally' },
+  PERCENTAGE: { label: 'By percentage' },
+  FIXED: { label: 'Fixed amounts' },
+};
+
+export const SPLIT_TYPE_ORDER: CostSplitType[] = ['EQUAL', 'PERCENTAGE', 'FIXED'];
+
+export const MAX_WORKSPACE_NAME_LENGTH = 50;
@@ -0,0 +1,36 @@
+import { useState, useEffect } from 'react';
+import { ExchangeRateTable } from '@/types/subscriptions';
+
+/**
+ * Hook for loading historical exchange rates
+ * Until rates are loaded (or if loading fails) conversions use the static rates
+ * @returns The rate table, or undefined while unavailable
+ */
+export function useExchangeRates() {
+  const [rates, setRates] = useState<ExchangeRateTable | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRates = async () => {
+      try {
+        const response = await fetch('/api/exchange-rates');
+        if (!response.ok) {
+          throw new Error(`HTTP error ${response.status}`);
+        }
+        const table: ExchangeRateTable = await response.json();
+        if (!cancelled) setRates(table);
+      } catch (err) {
+        console.error('Error loading exchange rates:', err);
+      }
+    };
+
+    loadRates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return rates;
+}
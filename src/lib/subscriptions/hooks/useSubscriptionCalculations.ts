@@ -1,13 +1,14 @@
 import { Subscription } from '@/types/subscriptions';
-import { calculateSummary } from '../utils/calculations';
+import { calculateSummary, SummaryOptions } from '../utils/calculations';
 
 /**
  * Hook for subscription-related calculations
  * @param subscriptions List of subscriptions to calculate from
+ * @param options Summary currency and exchange rates
  * @returns Object with calculation methods
  */
-export function useSubscriptionCalculations(subscriptions: Subscription[]) {
+export function useSubscriptionCalculations(subscriptions: Subscription[], options: SummaryOptions = {}) {
   return {
-    calculateSummary: () => calculateSummary(subscriptions)
+    calculateSummary: () => calculateSummary(subscriptions, options)
   };
 }
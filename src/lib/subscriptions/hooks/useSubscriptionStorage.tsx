@@ -0,0 +1,441 @@
+import { useState, useEffect, useRef } from 'react';
+import { Subscription, SubscriptionFormData } from '@/types/subscriptions';
+import { calculateSummary } from '../utils/calculations';
+import { findBudgetOverruns, getBudgetStatuses } from '../utils/budgets';
+import { calculateFirstBillingDate, calculateNextBillingDate } from '../utils/dates';
+import { getBillingInterval } from '../utils/periods';
+import {
+  PendingMutation,
+  SyncResult,
+  applyLocalUpdate,
+  SyncStatus,
+  queueMutation,
+  renameQueuedSubscription,
+  requeueMutation,
+  syncMutation
+} from '../utils/sync-queue';
+import { subscriptionApi } from '../api';
+import { useExchangeRates } from './useExchangeRates';
+import { useSession } from 'next-auth/react';
+import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useBudgets } from '@/contexts/BudgetsContext';
+import { getOfflineStorageProvider } from '@/lib/storage';
+import { TRASH_RETENTION_DAYS } from '../config/trash';
+
+/**
+ * Build a new subscription from form data
+ */
+function buildSubscription(data: SubscriptionFormData): Subscription {
+  return {
+    ...data,
+    id: Date.now().toString(),
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    billingInterval: getBillingInterval(data),
+    nextBillingDate: calculateNextBillingDate(
+      calculateFirstBillingDate(data.startDate, data.trial),
+      getBillingInterval(data)
+    ),
+    disabled: false
+  };
+}
+
+// Browser storage keys, per user
+const cacheKey = (userId: string) => `subscriptions:${userId}`;
+const queueKey = (userId: string) => `subscription-mutations:${userId}`;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Custom hook for managing subscription data, offline first
+ * Subscriptions and every change to them are kept in the browser (IndexedDB)
+ * and shown right away. Changes are queued and sent to /api/subscriptions one
+ * at a time; while the device is offline the queue waits and is replayed once
+ * connectivity returns. When another tab or device changed the same
+ * subscription first, the server's copy is shown instead and the user can
+ * reapply their change on top of it.
+ * Deleted subscriptions go to the trash, where they can be restored until
+ * the server purges them.
+ */
+export function useSubscriptionStorage() {
+  const [mounted, setMounted] = useState(false);
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('synced');
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const { data: session } = useSession();
+  const { toast } = useToast();
+  const rates = useExchangeRates();
+  const { preferredCurrency } = usePreferences();
+  const { budgets } = useBudgets();
+  const summaryOptions = { currency: preferredCurrency, rates };
+
+  const userId = session?.user?.id;
+  const storage = getOfflineStorageProvider();
+
+  // Sync runs across renders, so it reads and writes through refs
+  const userIdRef = useRef(userId);
+  const subscriptionsRef = useRef<Subscription[]>([]);
+  const queueRef = useRef<PendingMutation[]>([]);
+  const syncingRef = useRef(false);
+  userIdRef.current = userId;
+
+  const persist = (key: string, value: unknown) => {
+    storage.set(key, value).catch(err => console.error('Error saving offline data:', err));
+  };
+
+  /**
+   * Apply a change to the local subscriptions and keep it in the browser
+   */
+  const commit = (change: (subs: Subscription[]) => Subscription[]) => {
+    subscriptionsRef.current = change(subscriptionsRef.current);
+    setSubscriptions(subscriptionsRef.current);
+    if (userIdRef.current) persist(cacheKey(userIdRef.current), subscriptionsRef.current);
+  };
+
+  const setQueue = (queue: PendingMutation[]) => {
+    queueRef.current = queue;
+    setPendingChanges(queue.length);
+    if (userIdRef.current) persist(queueKey(userIdRef.current), queue);
+  };
+
+  const isPending = (id: string) => queueRef.current.some(m => m.subscriptionId === id);
+
+  const enqueue = (type: PendingMutation['type'], subscriptionId: string) => {
+    setQueue(queueMutation(queueRef.current, { type, subscriptionId, queuedAt: new Date().toISOString() }));
+    sync();
+  };
+
+  /**
+   * Bring the local copy in line with what the server did with a mutation
+   * @param mutation - The replayed mutation
+   * @param local - The local copy it was sent from
+   * @param result - The server's answer
+   */
+  const applyResult = (mutation: PendingMutation, local: Subscription | undefined, result: SyncResult) => {
+    const id = mutation.subscriptionId;
+
+    switch (result.outcome) {
+      case 'saved': {
+        const saved = result.subscription;
+        if (mutation.type === 'create') {
+          setQueue(renameQueuedSubscription(queueRef.current, id, saved.id));
+        }
+        // Keep edits made while the request was in flight; they are queued
+        commit(subs => subs.map(sub => {
+          if (sub.id !== id) return sub;
+          return isPending(saved.id) ? { ...sub, id: saved.id, version: saved.version } : saved;
+        }));
+        // New subscriptions start enabled on the server
+        if (mutation.type === 'create' && local?.disabled && !saved.disabled) {
+          enqueue('update', saved.id);
+        }
+        break;
+      }
+
+      case 'removed':
+        if ((mutation.type === 'update' || mutation.type === 'restore') && local) {
+          commit(subs => subs.filter(sub => sub.id !== id));
+          toast({
+            title: 'Subscription removed',
+            description: `"${local.name}" was deleted in another window.`
+          });
+        }
+        break;
+
+      case 'conflict': {
+        const current = result.current;
+        commit(subs => subs.map(sub => (sub.id === id ? current : sub)));
+        toast({
+          title: 'Changed elsewhere',
+          description: `"${current.name}" was changed in another window. Its latest version is shown; your change was not saved.`,
+          variant: 'destructive',
+          action: local && (
+            <ToastAction
+              altText="Save my change anyway"
+              onClick={() => {
+                commit(subs => subs.map(sub => (sub.id === id ? { ...local, version: current.version } : sub)));
+                enqueue('update', id);
+              }}
+            >
+              Keep mine
+            </ToastAction>
+          )
+        });
+        break;
+      }
+
+      case 'rejected':
+        console.error('Subscription change rejected:', result.error);
+        // A subscription the server will not create would never sync
+        if (mutation.type === 'create') {
+          commit(subs => subs.filter(sub => sub.id !== id));
+        }
+        toast({
+          title: 'Error',
+          description: `Failed to save "${local?.name || 'subscription'}": ${result.error.message}`,
+          variant: 'destructive'
+        });
+        break;
+    }
+  };
+
+  /**
+   * Replay queued changes until the queue is empty or the server can't be reached
+   * @returns Whether everything was sent
+   */
+  const sync = async (): Promise<boolean> => {
+    if (syncingRef.current || !userIdRef.current) return false;
+    if (!isOnline()) {
+      setSyncStatus('offline');
+      return false;
+    }
+
+    syncingRef.current = true;
+    setSyncStatus('syncing');
+
+    try {
+      while (queueRef.current.length > 0) {
+        // Take the mutation off the queue so changes made meanwhile queue up behind it
+        const [mutation, ...rest] = queueRef.current;
+        setQueue(rest);
+        const local = subscriptionsRef.current.find(sub => sub.id === mutation.subscriptionId);
+
+        let result: SyncResult;
+        try {
+          result = await syncMutation(mutation, local, subscriptionApi);
+        } catch (err) {
+          console.error('Error syncing subscriptions:', err);
+          setQueue(requeueMutation(queueRef.current, mutation));
+          setSyncStatus(isOnline() ? 'error' : 'offline');
+          return false;
+        }
+
+        applyResult(mutation, local, result);
+      }
+
+      setSyncStatus('synced');
+      return true;
+    } finally {
+      syncingRef.current = false;
+    }
+  };
+
+  const loadSubscriptions = async () => {
+    // Don't attempt to load if no userId
+    if (!userId) {
+      setLoading(false);
+      subscriptionsRef.current = [];
+      queueRef.current = [];
+      setSubscriptions([]);
+      setPendingChanges(0);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    // Show what this browser has first, so the dashboard works offline
+    let cached: Subscription[] | null = null;
+    try {
+      const [cachedSubscriptions, queue] = await Promise.all([
+        storage.get<Subscription[]>(cacheKey(userId)),
+        storage.get<PendingMutation[]>(queueKey(userId))
+      ]);
+      cached = cachedSubscriptions;
+      queueRef.current = queue || [];
+      setPendingChanges(queueRef.current.length);
+      if (cached) {
+        subscriptionsRef.current = cached;
+        setSubscriptions(cached);
+        setLoading(false);
+      }
+    } catch (err) {
+      console.error('Error reading offline data:', err);
+    }
+
+    try {
+      // Send what changed offline before taking the server's list
+      if (await sync()) {
+        const [list, trash] = await Promise.all([subscriptionApi.list(), subscriptionApi.trash()]);
+        // Changes made while the list loaded are newer; they replace it on their next sync
+        if (queueRef.current.length === 0) commit(() => [...list, ...trash]);
+      } else if (!cached) {
+        throw new Error(isOnline() ? 'Failed to load subscriptions' : 'You are offline');
+      }
+    } catch (err) {
+      console.error('Error loading subscriptions:', err);
+      if (cached) {
+        setSyncStatus(isOnline() ? 'error' : 'offline');
+      } else {
+        setError(err instanceof Error ? err : new Error('Failed to load subscriptions'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Effects outlive the render that set them up, so they call the latest
+  // load and sync through refs
+  const loadRef = useRef(loadSubscriptions);
+  const syncRef = useRef(sync);
+  loadRef.current = loadSubscriptions;
+  syncRef.current = sync;
+
+  useEffect(() => {
+    setMounted(true);
+    // Only load if we have a userId
+    if (userId) {
+      loadRef.current();
+    }
+  }, [userId]);
+
+  // Replay queued changes as soon as the connection is back
+  useEffect(() => {
+    const handleOnline = () => syncRef.current();
+    const handleOffline = () => setSyncStatus('offline');
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const requireUser = () => {
+    if (!userId) {
+      throw new Error('User not authenticated');
+    }
+  };
+
+  const addSubscription = async (data: SubscriptionFormData): Promise<Subscription> => {
+    requireUser();
+
+    const newSubscription = buildSubscription(data);
+    commit(subs => [...subs, newSubscription]);
+    enqueue('create', newSubscription.id);
+
+    return newSubscription;
+  };
+
+  const updateSubscription = async (id: string, data: Partial<SubscriptionFormData>) => {
+    requireUser();
+
+    const sub = subscriptionsRef.current.find(s => s.id === id);
+    if (!sub) return;
+
+    const updated = applyLocalUpdate(sub, data);
+    commit(subs => subs.map(s => (s.id === id ? updated : s)));
+    enqueue('update', id);
+  };
+
+  const setDisabled = (ids: string[], disabled: boolean) => {
+    const updatedAt = new Date().toISOString();
+    commit(subs => subs.map(sub => (ids.includes(sub.id) ? { ...sub, disabled, updatedAt } : sub)));
+    ids.forEach(id => enqueue('update', id));
+  };
+
+  const toggleSubscription = async (id: string) => {
+    requireUser();
+
+    const sub = subscriptionsRef.current.find(s => s.id === id);
+    if (sub) setDisabled([id], !sub.disabled);
+  };
+
+  const toggleAllSubscriptions = async (enabled: boolean) => {
+    requireUser();
+
+    // Only the subscriptions that change are saved
+    setDisabled(
+      subscriptionsRef.current.filter(sub => sub.disabled === enabled).map(sub => sub.id),
+      !enabled
+    );
+  };
+
+  const setDeletedAt = (id: string, deletedAt: string | undefined) =>
+    commit(subs => subs.map(sub => (sub.id === id ? { ...sub, deletedAt } : sub)));
+
+  const restoreSubscription = async (id: string) => {
+    requireUser();
+
+    const sub = subscriptionsRef.current.find(s => s.id === id);
+    if (!sub) return;
+
+    setDeletedAt(id, undefined);
+    // Never saved to the server, so there it has to be created after all
+    enqueue(sub.version === undefined ? 'create' : 'restore', id);
+  };
+
+  const deleteSubscription = async (id: string) => {
+    requireUser();
+
+    const sub = subscriptionsRef.current.find(s => s.id === id);
+    if (!sub) return;
+
+    setDeletedAt(id, new Date().toISOString());
+    enqueue('delete', id);
+
+    toast({
+      title: 'Moved to trash',
+      description: `"${sub.name}" will be deleted for good in ${TRASH_RETENTION_DAYS} days.`,
+      action: (
+        <ToastAction altText="Undo delete" onClick={() => restoreSubscription(id)}>
+          Undo
+        </ToastAction>
+      )
+    });
+  };
+
+  const purgeSubscription = async (id: string) => {
+    requireUser();
+
+    commit(subs => subs.filter(sub => sub.id !== id));
+    enqueue('purge', id);
+  };
+
+  const active = subscriptions.filter(sub => !sub.deletedAt);
+  // The server purges expired ones; until the next sync they are only hidden
+  const trashed = subscriptions
+    .filter(sub => sub.deletedAt && Date.now() - Date.parse(sub.deletedAt) < TRASH_RETENTION_MS)
+    .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+
+  // Budgets that adding this subscription would push over their monthly cap
+  const checkBudgets = (data: SubscriptionFormData) => findBudgetOverruns(
+    calculateSummary(active, summaryOptions),
+    calculateSummary([...active, buildSubscription(data)], summaryOptions),
+    budgets,
+    { rates }
+  );
+
+  const retry = () => {
+    loadSubscriptions();
+  };
+
+  return {
+    subscriptions: active,
+    trashedSubscriptions: trashed,
+    error,
+    loading,
+    retry,
+    syncStatus,
+    pendingChanges,
+    sync,
+    addSubscription,
+    updateSubscription,
+    deleteSubscription,
+    restoreSubscription,
+    purgeSubscription,
+    toggleSubscription,
+    toggleAllSubscriptions,
+    calculateSummary: () => calculateSummary(active, summaryOptions),
+    getBudgetStatuses: () => getBudgetStatuses(calculateSummary(active, summaryOptions), budgets, { rates }),
+    checkBudgets,
+    mounted
+  };
+}
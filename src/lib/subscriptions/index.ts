@@ -1,4 +1,4 @@
 export { useSubscriptionStorage } from './hooks/useSubscriptionStorage';
 export { calculateSummary } from './utils/calculations';
 export { calculateNextBillingDate } from './utils/dates';
-export { convertBetweenPeriods } from './utils/periods';
\ No newline at end of file
+export { convertBetweenPeriods, getBillingInterval, formatBillingInterval } from './utils/periods';
\ No newline at end of file
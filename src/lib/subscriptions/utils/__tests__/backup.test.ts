@@ -0,0 +1,143 @@
+/**
+ * Tests for versioned backups
+ */
+
+import { BACKUP_SCHEMA_VERSION, backupToCsv, createBackup, parseImportItem, upgradeBackup } from '../backup';
+import { guessColumnMapping, prepareImportRows } from '../csv-import';
+import { parseCsv } from '../csv';
+import { Category, PriceChange, Subscription } from '@/types/subscriptions';
+
+const category: Category = { id: 'cat-1', name: 'Streaming', color: '#eab308', icon: 'tv' };
+
+const subscription: Subscription = {
+  id: 'sub-1',
+  name: 'Netflix, Premium',
+  price: 17.99,
+  currency: 'EUR',
+  billingPeriod: 'MONTHLY',
+  billingInterval: { unit: 'MONTH', count: 1 },
+  startDate: '2024-01-15T00:00:00.000Z',
+  nextBillingDate: '2024-02-15T00:00:00.000Z',
+  description: 'Family "4K" plan',
+  disabled: true,
+  trial: { startDate: '2024-01-01T00:00:00.000Z', endDate: '2024-01-15T00:00:00.000Z' },
+  categoryId: 'cat-1',
+  tags: ['family', 'video'],
+  reminderDays: [7, 1],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+const priceChange: PriceChange = {
+  id: 'change-1',
+  subscriptionId: 'sub-1',
+  effectiveDate: '2024-02-15T00:00:00.000Z',
+  oldPrice: 15.99,
+  newPrice: 17.99,
+  currency: 'EUR'
+};
+
+describe('createBackup', () => {
+  it('should wrap subscriptions in a versioned envelope without derived fields', () => {
+    const backup = createBackup([subscription], {
+      categories: [category],
+      baseCurrency: 'USD',
+      now: new Date('2024-03-01T12:00:00.000Z')
+    });
+
+    expect(backup.schemaVersion).toBe(BACKUP_SCHEMA_VERSION);
+    expect(backup.exportedAt).toBe('2024-03-01T12:00:00.000Z');
+    expect(backup.baseCurrency).toBe('USD');
+    expect(backup.subscriptions[0]).not.toHaveProperty('id');
+    expect(backup.subscriptions[0]).not.toHaveProperty('nextBillingDate');
+  });
+
+  it('should list the price history of each subscription without IDs', () => {
+    const backup = createBackup([subscription], {
+      categories: [category],
+      baseCurrency: 'USD',
+      priceHistory: [priceChange, { ...priceChange, id: 'change-2', subscriptionId: 'sub-2' }]
+    });
+
+    expect(backup.subscriptions[0].priceHistory).toEqual([
+      { effectiveDate: '2024-02-15T00:00:00.000Z', oldPrice: 15.99, newPrice: 17.99, currency: 'EUR' }
+    ]);
+  });
+
+  it('should read its own JSON back unchanged', () => {
+    const backup = createBackup([subscription], { categories: [category], baseCurrency: 'EUR' });
+    expect(upgradeBackup(JSON.parse(JSON.stringify(backup)))).toEqual(backup);
+  });
+});
+
+describe('upgradeBackup', () => {
+  it('should upgrade the unversioned array export', () => {
+    const backup = upgradeBackup([
+      { id: 'a', name: 'Spotify', price: '9.99', billingPeriod: 'monthly', startDate: '2023-05-01', nextBillingDate: '2024-05-01' }
+    ]);
+
+    expect(backup.schemaVersion).toBe(BACKUP_SCHEMA_VERSION);
+    expect(backup.exportedAt).toBeNull();
+    expect(backup.baseCurrency).toBeNull();
+    expect(backup.categories).toEqual([]);
+    expect(backup.subscriptions).toEqual([
+      { name: 'Spotify', price: 9.99, currency: 'EUR', billingPeriod: 'MONTHLY', startDate: '2023-05-01', disabled: false }
+    ]);
+  });
+
+  it('should reject other data and newer versions', () => {
+    expect(() => upgradeBackup({ foo: 'bar' })).toThrow('not a subscriptions backup');
+    expect(() => upgradeBackup({ schemaVersion: BACKUP_SCHEMA_VERSION + 1, subscriptions: [] })).toThrow('newer version');
+    expect(() => upgradeBackup({ schemaVersion: BACKUP_SCHEMA_VERSION, subscriptions: [] })).toThrow('Invalid backup');
+  });
+});
+
+describe('parseImportItem', () => {
+  it('should restore what was exported', () => {
+    const backup = createBackup([subscription], {
+      categories: [category],
+      baseCurrency: 'USD',
+      priceHistory: [priceChange]
+    });
+    const restored = upgradeBackup(JSON.parse(JSON.stringify(backup)));
+    const result = parseImportItem(restored.subscriptions[0], new Set(restored.categories.map(c => c.id)));
+
+    const { id, nextBillingDate, createdAt, updatedAt, ...data } = subscription;
+    expect(restored.baseCurrency).toBe('USD');
+    expect(restored.categories).toEqual([category]);
+    expect(result).toEqual({
+      success: true,
+      data: {
+        ...data,
+        priceHistory: [
+          { effectiveDate: '2024-02-15T00:00:00.000Z', oldPrice: 15.99, newPrice: 17.99, currency: 'EUR' }
+        ]
+      }
+    });
+  });
+
+  it('should reject invalid price history and drop unknown categories', () => {
+    const item = { ...subscription, priceHistory: [{ ...priceChange, oldPrice: -1 }] };
+    const invalid = parseImportItem(item, new Set());
+    const valid = parseImportItem({ ...subscription, priceHistory: [] }, new Set());
+
+    expect(invalid.success).toBe(false);
+    expect(valid.success && valid.data.categoryId).toBeNull();
+  });
+});
+
+describe('backupToCsv', () => {
+  it('should write columns the CSV import reads back', () => {
+    const backup = createBackup([subscription], { categories: [category], baseCurrency: 'EUR' });
+    const [headers, ...rows] = parseCsv(backupToCsv(backup));
+    const [row] = prepareImportRows(rows, guessColumnMapping(headers), { categories: [category] });
+
+    expect(row.errors).toEqual([]);
+    expect(row.data?.name).toBe('Netflix, Premium');
+    expect(row.data?.price).toBe(17.99);
+    expect(row.data?.startDate).toBe('2024-01-15');
+    expect(row.data?.description).toBe('Family "4K" plan');
+    expect(row.data?.categoryId).toBe('cat-1');
+    expect(row.data?.tags).toEqual(['family', 'video']);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for budget utilization
+ */
+
+import { findBudgetOverruns, getBudgetStatuses } from '../budgets';
+import { calculateSummary } from '../calculations';
+import { Budget } from '@/types/subscriptions';
+import { makeSubscription } from './fixtures';
+
+const baseSubscription = makeSubscription({ categoryId: 'streaming' });
+
+const overall: Budget = { id: 'budget-1', categoryId: null, amount: 25, currency: 'EUR' };
+const streaming: Budget = { id: 'budget-2', categoryId: 'streaming', amount: 12, currency: 'EUR' };
+
+describe('getBudgetStatuses', () => {
+  it('should measure overall and category budgets', () => {
+    const summary = calculateSummary([
+      baseSubscription,
+      { ...baseSubscription, id: 'sub-2', price: 5, categoryId: null }
+    ]);
+
+    const [overallStatus, streamingStatus] = getBudgetStatuses(summary, [streaming, overall]);
+
+    expect(overallStatus.budget.id).toBe('budget-1');
+    expect(overallStatus.spent).toBe(15);
+    expect(overallStatus.utilization).toBeCloseTo(0.6);
+    expect(streamingStatus.spent).toBe(10);
+    expect(streamingStatus.isOverBudget).toBe(false);
+  });
+
+  it('should convert budgets into the summary currency', () => {
+    const rates = [{ date: '2024-01-01', rates: { USD: 1.25 } }];
+    const summary = calculateSummary([baseSubscription], {
+      currency: 'USD',
+      rates,
+      date: new Date('2024-02-01T00:00:00.000Z')
+    });
+
+    const [status] = getBudgetStatuses(summary, [overall], { rates, date: new Date('2024-02-01T00:00:00.000Z') });
+
+    expect(status.limit).toBe(31.25);
+    expect(status.spent).toBe(12.5);
+  });
+});
+
+describe('findBudgetOverruns', () => {
+  it('should report budgets pushed over by a new subscription', () => {
+    const current = calculateSummary([baseSubscription]);
+    const projected = calculateSummary([
+      baseSubscription,
+      { ...baseSubscription, id: 'sub-2', price: 8 }
+    ]);
+
+    const overruns = findBudgetOverruns(current, projected, [overall, streaming]);
+
+    expect(overruns.map(status => status.budget.id)).toEqual(['budget-2']);
+  });
+
+  it('should not report budgets the change leaves untouched', () => {
+    const current = calculateSummary([{ ...baseSubscription, price: 20 }]);
+    const projected = calculateSummary([
+      { ...baseSubscription, price: 20 },
+      { ...baseSubscription, id: 'sub-2', price: 2, categoryId: 'music' }
+    ]);
+
+    const overruns = findBudgetOverruns(current, projected, [overall, streaming]);
+
+    expect(overruns).toEqual([]);
+  });
+});
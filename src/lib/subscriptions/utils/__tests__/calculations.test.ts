@@ -0,0 +1,186 @@
+/**
+ * Tests for subscription summary calculations
+ */
+
+import {
+  calculateCumulativePriceChange,
+  calculateSavedSinceCancelling,
+  calculateSummary,
+  getEffectivePrice
+} from '../calculations';
+import { calculateFirstBillingDate, getTrialDaysRemaining } from '../dates';
+import { Subscription } from '@/types/subscriptions';
+import { makeSubscription } from './fixtures';
+
+const baseSubscription = makeSubscription();
+
+const trial = {
+  startDate: '2024-01-01T00:00:00.000Z',
+  endDate: '2024-01-31T00:00:00.000Z',
+  postTrialPrice: 15
+};
+
+describe('calculateSummary', () => {
+  it('should total active subscriptions', () => {
+    const summary = calculateSummary([
+      baseSubscription,
+      { ...baseSubscription, id: 'sub-2', price: 120, billingPeriod: 'YEARLY' },
+      { ...baseSubscription, id: 'sub-3', disabled: true }
+    ]);
+
+    expect(summary.currency).toBe('EUR');
+    expect(summary.totalMonthly).toBe(20);
+    expect(summary.totalYearly).toBe(240);
+  });
+
+  it('should leave out subscriptions in the trash', () => {
+    const summary = calculateSummary([
+      baseSubscription,
+      { ...baseSubscription, id: 'sub-2', deletedAt: '2024-01-15T00:00:00.000Z' }
+    ]);
+
+    expect(summary.totalMonthly).toBe(10);
+  });
+
+  it('should total in the requested currency', () => {
+    const rates = [{ date: '2024-01-01', rates: { USD: 1.25 } }];
+    const summary = calculateSummary(
+      [baseSubscription, { ...baseSubscription, id: 'sub-2', price: 5, currency: 'USD' }],
+      { currency: 'USD', rates, date: new Date('2024-02-01T00:00:00.000Z') }
+    );
+
+    expect(summary.currency).toBe('USD');
+    expect(summary.totalMonthly).toBe(17.5);
+    expect(summary.originalAmounts.EUR).toBe(10);
+    expect(summary.originalAmounts.USD).toBe(5);
+  });
+
+  it('should leave currencies without an exchange rate out of the converted totals', () => {
+    const summary = calculateSummary([
+      baseSubscription,
+      { ...baseSubscription, id: 'sub-2', price: 1500, currency: 'JPY' }
+    ]);
+
+    expect(summary.totalMonthly).toBe(10);
+    expect(summary.originalAmounts.JPY).toBe(1500);
+    expect(summary.unconvertedCurrencies).toEqual(['JPY']);
+  });
+
+  it('should total each category per month', () => {
+    const summary = calculateSummary([
+      { ...baseSubscription, categoryId: 'streaming' },
+      { ...baseSubscription, id: 'sub-2', price: 60, billingPeriod: 'YEARLY', categoryId: 'streaming' },
+      { ...baseSubscription, id: 'sub-3', price: 3 }
+    ]);
+
+    expect(summary.categoryTotals).toEqual({ streaming: 15, uncategorized: 3 });
+  });
+
+  describe('trials', () => {
+    it('should leave out subscriptions still in their trial', () => {
+      const summary = calculateSummary(
+        [baseSubscription, { ...baseSubscription, id: 'sub-2', trial }],
+        { date: new Date('2024-01-15T00:00:00.000Z') }
+      );
+
+      expect(summary.totalMonthly).toBe(10);
+    });
+
+    it('should use the post-trial price once the trial has converted', () => {
+      const summary = calculateSummary(
+        [{ ...baseSubscription, trial }],
+        { date: new Date('2024-02-15T00:00:00.000Z') }
+      );
+
+      expect(summary.totalMonthly).toBe(15);
+      expect(summary.originalAmounts.EUR).toBe(15);
+    });
+  });
+
+  describe('cancellations', () => {
+    const cancelled: Subscription = {
+      ...baseSubscription,
+      id: 'sub-2',
+      status: 'CANCELLED',
+      cancellation: {
+        cancelledAt: '2024-03-10T00:00:00.000Z',
+        effectiveEndDate: '2024-04-01T00:00:00.000Z'
+      }
+    };
+
+    it('should count a cancelled subscription until its service ends', () => {
+      const summary = calculateSummary(
+        [baseSubscription, cancelled],
+        { date: new Date('2024-03-20T00:00:00.000Z') }
+      );
+
+      expect(summary.totalMonthly).toBe(20);
+      expect(summary.savedSinceCancelling).toBe(0);
+    });
+
+    it('should total the charges saved since service ended', () => {
+      const summary = calculateSummary(
+        [baseSubscription, cancelled, { ...cancelled, id: 'sub-3', deletedAt: '2024-04-02T00:00:00.000Z' }],
+        { date: new Date('2024-05-15T00:00:00.000Z') }
+      );
+
+      expect(summary.totalMonthly).toBe(10);
+      expect(summary.savedSinceCancelling).toBe(20);
+      expect(calculateSavedSinceCancelling(cancelled, new Date('2024-05-15T00:00:00.000Z'))).toBe(20);
+    });
+  });
+
+  describe('member shares', () => {
+    it('should divide each subscription by its split', () => {
+      const summary = calculateSummary([
+        baseSubscription,
+        { ...baseSubscription, id: 'sub-2', price: 30, split: { type: 'PERCENTAGE', shares: { alice: 50, bob: 50 } } },
+        { ...baseSubscription, id: 'sub-3', price: 12, split: { type: 'FIXED', amounts: { carol: 12 } } }
+      ], { members: ['alice', 'bob', 'carol'] });
+
+      expect(summary.totalMonthly).toBe(52);
+      expect(summary.memberTotals).toEqual({ alice: 18.33, bob: 18.33, carol: 15.33 });
+    });
+
+    it('should leave member totals out without members', () => {
+      expect(calculateSummary([baseSubscription]).memberTotals).toBeUndefined();
+    });
+  });
+});
+
+describe('trial helpers', () => {
+  it('should fall back to the regular price without a post-trial price', () => {
+    expect(getEffectivePrice({ price: 10, trial: { ...trial, postTrialPrice: undefined } })).toBe(10);
+    expect(getEffectivePrice({ price: 10, trial })).toBe(15);
+  });
+
+  it('should bill trials for the first time when they end', () => {
+    expect(calculateFirstBillingDate(baseSubscription.startDate, trial)).toBe(trial.endDate);
+    expect(calculateFirstBillingDate(baseSubscription.startDate)).toBe(baseSubscription.startDate);
+  });
+
+  it('should count the days left in a trial', () => {
+    expect(getTrialDaysRemaining(trial, new Date('2024-01-21T12:00:00.000Z'))).toBe(10);
+    expect(getTrialDaysRemaining(trial, new Date('2024-02-01T00:00:00.000Z'))).toBeNull();
+    expect(getTrialDaysRemaining(undefined)).toBeNull();
+  });
+});
+
+describe('calculateCumulativePriceChange', () => {
+  const change = (oldPrice: number, newPrice: number) => ({
+    id: `change-${oldPrice}`,
+    subscriptionId: 'sub-1',
+    effectiveDate: '2024-01-01T00:00:00.000Z',
+    oldPrice,
+    newPrice,
+    currency: 'EUR' as const
+  });
+
+  it('should compare the current price to the first recorded price', () => {
+    expect(calculateCumulativePriceChange([change(10, 12), change(12, 15)], 15, 'EUR')).toBeCloseTo(50);
+  });
+
+  it('should return null without history', () => {
+    expect(calculateCumulativePriceChange([], 15, 'EUR')).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for cancelled subscriptions
+ */
+
+import { countSkippedCharges, getPaidThroughDate, hasEnded, isCancelled } from '../cancellation';
+import { Subscription } from '@/types/subscriptions';
+import { makeSubscription } from './fixtures';
+
+const baseSubscription = makeSubscription();
+
+const cancelled: Subscription = {
+  ...baseSubscription,
+  status: 'CANCELLED',
+  cancellation: {
+    cancelledAt: '2024-03-10T00:00:00.000Z',
+    effectiveEndDate: '2024-04-01T00:00:00.000Z',
+    reason: 'Too expensive'
+  }
+};
+
+describe('getPaidThroughDate', () => {
+  it('should run until the next billing date after cancelling', () => {
+    expect(getPaidThroughDate(baseSubscription, '2024-03-10T00:00:00.000Z')).toBe('2024-04-01T00:00:00.000Z');
+  });
+
+  it('should end a period that is cancelled on its billing date', () => {
+    expect(getPaidThroughDate(baseSubscription, '2024-03-01T00:00:00.000Z')).toBe('2024-04-01T00:00:00.000Z');
+  });
+
+  it('should end a trial cancelled before it converts when it would have', () => {
+    const trial = { startDate: '2024-01-01T00:00:00.000Z', endDate: '2024-01-31T00:00:00.000Z' };
+
+    expect(getPaidThroughDate({ ...baseSubscription, trial }, '2024-01-10T00:00:00.000Z')).toBe('2024-01-31T00:00:00.000Z');
+  });
+
+  it('should keep a bill on the 31st on its day after a short month', () => {
+    const endOfMonth = { ...baseSubscription, startDate: '2024-01-31T00:00:00.000Z' };
+
+    expect(getPaidThroughDate(endOfMonth, '2024-03-10T00:00:00.000Z')).toBe('2024-03-31T00:00:00.000Z');
+  });
+});
+
+describe('hasEnded', () => {
+  it('should keep service running until the effective end date', () => {
+    expect(isCancelled(cancelled)).toBe(true);
+    expect(hasEnded(cancelled, new Date('2024-03-31T00:00:00.000Z'))).toBe(false);
+    expect(hasEnded(cancelled, new Date('2024-04-01T00:00:00.000Z'))).toBe(true);
+  });
+
+  it('should never end active subscriptions', () => {
+    expect(isCancelled(baseSubscription)).toBe(false);
+    expect(hasEnded(baseSubscription, new Date('2030-01-01T00:00:00.000Z'))).toBe(false);
+  });
+});
+
+describe('countSkippedCharges', () => {
+  it('should count the charges from the effective end date on', () => {
+    expect(countSkippedCharges(cancelled, new Date('2024-03-31T00:00:00.000Z'))).toBe(0);
+    expect(countSkippedCharges(cancelled, new Date('2024-04-01T00:00:00.000Z'))).toBe(1);
+    expect(countSkippedCharges(cancelled, new Date('2024-06-15T00:00:00.000Z'))).toBe(3);
+  });
+
+  it('should start at the next billing date for an end date picked mid-period', () => {
+    const endedEarly: Subscription = {
+      ...cancelled,
+      cancellation: { ...cancelled.cancellation!, effectiveEndDate: '2024-03-15T00:00:00.000Z' }
+    };
+
+    expect(countSkippedCharges(endedEarly, new Date('2024-04-15T00:00:00.000Z'))).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for the cash-flow calendar
+ */
+
+import { buildCashFlow, buildCashFlowMonth, getChargesBetween } from '../cash-flow';
+import { Subscription } from '@/types/subscriptions';
+import { makeSubscription } from './fixtures';
+
+const baseSubscription = makeSubscription();
+
+describe('getChargesBetween', () => {
+  it('should follow each billing cycle into the range', () => {
+    const charges = getChargesBetween(
+      [
+        baseSubscription,
+        { ...baseSubscription, id: 'sub-2', name: 'Gym', billingPeriod: 'WEEKLY', startDate: '2024-02-26T00:00:00.000Z' },
+        { ...baseSubscription, id: 'sub-3', name: 'Paused', disabled: true }
+      ],
+      new Date('2024-03-01T00:00:00.000Z'),
+      new Date('2024-03-15T00:00:00.000Z')
+    );
+
+    expect(charges.map(charge => `${charge.date} ${charge.subscription.name}`)).toEqual([
+      '2024-03-01 Netflix',
+      '2024-03-04 Gym',
+      '2024-03-11 Gym'
+    ]);
+  });
+
+  it('should charge bills on the 31st on the last day of shorter months', () => {
+    const charges = getChargesBetween(
+      [{ ...baseSubscription, startDate: '2024-01-31T00:00:00.000Z' }],
+      new Date('2024-02-01T00:00:00.000Z'),
+      new Date('2024-05-01T00:00:00.000Z')
+    );
+
+    expect(charges.map(charge => charge.date)).toEqual(['2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  // jest.config.js sets TZ, so charges keyed by UTC day are checked outside UTC
+  it('should run in a timezone other than UTC', () => {
+    expect(new Date('2024-03-01T00:00:00.000Z').getTimezoneOffset()).not.toBe(0);
+  });
+
+  it('should stop charging once a cancellation takes effect', () => {
+    const cancelled: Subscription = {
+      ...baseSubscription,
+      status: 'CANCELLED',
+      cancellation: { cancelledAt: '2024-02-10T00:00:00.000Z', effectiveEndDate: '2024-03-01T00:00:00.000Z' }
+    };
+
+    expect(getChargesBetween([cancelled], new Date('2024-02-01T00:00:00.000Z'), new Date('2024-05-01T00:00:00.000Z')).length).toBe(1);
+  });
+});
+
+describe('buildCashFlowMonth', () => {
+  it('should total each day of the month', () => {
+    const month = buildCashFlowMonth(
+      [baseSubscription, { ...baseSubscription, id: 'sub-2', name: 'Spotify', price: 5.5 }],
+      '2024-02'
+    );
+
+    expect(month.days.length).toBe(29);
+    expect(month.days[0]).toMatchObject({ date: '2024-02-01', total: 15.5 });
+    expect(month.days[0].charges.length).toBe(2);
+    expect(month.days[1].total).toBe(0);
+    expect(month.total).toBe(15.5);
+  });
+
+  it('should leave charges without an exchange rate out of the totals', () => {
+    const rates = [{ date: '2024-01-01', rates: { USD: 2 } }];
+    const flow = buildCashFlow(
+      [baseSubscription, { ...baseSubscription, id: 'sub-2', currency: 'JPY' }],
+      new Date('2024-02-01T00:00:00.000Z'),
+      new Date('2024-02-02T00:00:00.000Z'),
+      { currency: 'USD', rates }
+    );
+
+    expect(flow.days[0].total).toBe(20);
+    expect(flow.unconvertedCurrencies).toEqual(['JPY']);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for category and tag helpers
+ */
+
+import { collectTags, filterSubscriptions, normalizeTags, parseTagInput } from '../categories';
+
+const subscriptions = [
+  { id: 'netflix', categoryId: 'streaming', tags: ['family', 'video'] },
+  { id: 'spotify', categoryId: 'streaming', tags: ['family'] },
+  { id: 'github', categoryId: 'dev', tags: ['work'] },
+  { id: 'gym', tags: [] }
+];
+
+describe('Categories and tags', () => {
+  describe('normalizeTags', () => {
+    it('should trim, lowercase and dedupe tags', () => {
+      expect(normalizeTags([' Work', 'work', '', 'Family '])).toEqual(['work', 'family']);
+      expect(normalizeTags(undefined)).toEqual([]);
+    });
+
+    it('should split comma separated input', () => {
+      expect(parseTagInput('work, video,,Family')).toEqual(['work', 'video', 'family']);
+    });
+  });
+
+  describe('collectTags', () => {
+    it('should list every tag once, sorted', () => {
+      expect(collectTags(subscriptions)).toEqual(['family', 'video', 'work']);
+    });
+  });
+
+  describe('filterSubscriptions', () => {
+    const ids = (filter: Parameters<typeof filterSubscriptions>[1]) =>
+      filterSubscriptions(subscriptions, filter).map(sub => sub.id);
+
+    it('should match everything without criteria', () => {
+      expect(ids({})).toHaveLength(4);
+    });
+
+    it('should filter by category, including uncategorized', () => {
+      expect(ids({ categoryId: 'streaming' })).toEqual(['netflix', 'spotify']);
+      expect(ids({ categoryId: 'uncategorized' })).toEqual(['gym']);
+    });
+
+    it('should require all selected tags', () => {
+      expect(ids({ tags: ['family'] })).toEqual(['netflix', 'spotify']);
+      expect(ids({ tags: ['family', 'video'] })).toEqual(['netflix']);
+      expect(ids({ categoryId: 'dev', tags: ['family'] })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for CSV parsing and subscription import
+ */
+
+import { detectDelimiter, parseCsv } from '../csv';
+import {
+  guessColumnMapping,
+  parseBillingPeriod,
+  parseImportDate,
+  parsePrice,
+  prepareImportRows
+} from '../csv-import';
+
+describe('CSV import', () => {
+  describe('parseCsv', () => {
+    it('should handle quotes, escaped quotes and line breaks', () => {
+      const rows = parseCsv('name,notes\r\n"Netflix, HD","Say ""hi""\nagain"\r\n\r\nSpotify,\n');
+      expect(rows).toEqual([
+        ['name', 'notes'],
+        ['Netflix, HD', 'Say "hi"\nagain'],
+        ['Spotify', '']
+      ]);
+    });
+
+    it('should detect semicolon delimited exports', () => {
+      expect(detectDelimiter('Name;Price\nNetflix;9,99')).toBe(';');
+      expect(parseCsv('Name;Price\nNetflix;9,99')[1]).toEqual(['Netflix', '9,99']);
+    });
+  });
+
+  describe('field parsing', () => {
+    it('should parse prices in common notations', () => {
+      expect(parsePrice('9.99')).toBe(9.99);
+      expect(parsePrice('€ 9,99')).toBe(9.99);
+      expect(parsePrice('1.234,56')).toBe(1234.56);
+      expect(parsePrice('1,234.56')).toBe(1234.56);
+      expect(parsePrice('1,000')).toBe(1000);
+      expect(parsePrice('free')).toBeNull();
+    });
+
+    it('should parse billing periods and their aliases', () => {
+      expect(parseBillingPeriod('Monthly')).toBe('MONTHLY');
+      expect(parseBillingPeriod('annual')).toBe('YEARLY');
+      expect(parseBillingPeriod('Half-yearly')).toBe('SEMIANNUALLY');
+      expect(parseBillingPeriod('sometimes')).toBeNull();
+    });
+
+    it('should parse dates in the chosen order', () => {
+      expect(parseImportDate('2024-03-01')).toBe('2024-03-01');
+      expect(parseImportDate('01.03.2024', 'DMY')).toBe('2024-03-01');
+      expect(parseImportDate('03/01/24', 'MDY')).toBe('2024-03-01');
+      expect(parseImportDate('31/02/2024', 'DMY')).toBeNull();
+    });
+  });
+
+  describe('prepareImportRows', () => {
+    const [headers, ...rows] = parseCsv([
+      'Service,Amount,Currency,Frequency,Start Date,Category',
+      'Netflix,9.99,EUR,monthly,2024-01-15,Streaming',
+      'Gym,abc,EUR,monthly,2024-01-15,',
+      ',5,XYZ,weekly,2024-01-15,Fitness'
+    ].join('\n'));
+
+    it('should guess the mapping from the headers', () => {
+      expect(guessColumnMapping(headers)).toEqual({
+        name: 0,
+        price: 1,
+        currency: 2,
+        billingPeriod: 3,
+        startDate: 4,
+        category: 5
+      });
+    });
+
+    it('should validate every row and report errors per row', () => {
+      const result = prepareImportRows(rows, guessColumnMapping(headers), {
+        categories: [{ id: 'cat-1', name: 'streaming' }]
+      });
+
+      expect(result[0].line).toBe(2);
+      expect(result[0].data?.name).toBe('Netflix');
+      expect(result[0].data?.price).toBe(9.99);
+      expect(result[0].data?.billingPeriod).toBe('MONTHLY');
+      expect(result[0].data?.startDate).toBe('2024-01-15');
+      expect(result[0].data?.categoryId).toBe('cat-1');
+      expect(result[1].data).toBeNull();
+      expect(result[1].errors).toEqual(['Price "abc" is not a number']);
+      expect(result[2].errors).toEqual(['Unknown currency "XYZ"', 'Name is required']);
+      expect(result[2].warnings).toEqual(['Unknown category "Fitness" was left out']);
+    });
+  });
+});
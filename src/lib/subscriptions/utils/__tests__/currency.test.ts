@@ -0,0 +1,77 @@
+/**
+ * Tests for the currency registry and conversion with dated exchange rates
+ */
+
+import { canConvertCurrency, convertCurrency } from '../currency';
+import { createRateTable, findEffectiveRates } from '../exchange-rates';
+import { CURRENCY_ORDER, getMinorUnitStep, isValidCurrency, roundAmount } from '../../config/currencies';
+import { subscriptionSchema } from '@/lib/validations/subscription';
+
+const rates = createRateTable([
+  { date: '2024-03-01', rates: { USD: 1.25 } },
+  { date: '2024-01-01', rates: { USD: 1.0, GBP: 0.8 } }
+]);
+
+describe('convertCurrency', () => {
+  it('should use the static rates without a rate table', () => {
+    expect(convertCurrency(100, 'USD', 'EUR')).toBe(92);
+  });
+
+  it('should use the rate in effect on the given date', () => {
+    expect(convertCurrency(100, 'USD', 'EUR', { rates, date: new Date('2024-02-15') })).toBe(100);
+    expect(convertCurrency(100, 'USD', 'EUR', { rates, date: new Date('2024-03-01') })).toBe(80);
+  });
+
+  it('should convert between two non-EUR currencies through EUR', () => {
+    expect(convertCurrency(80, 'GBP', 'USD', { rates, date: new Date('2024-01-10') })).toBe(100);
+  });
+
+  it('should fall back to the static rates when no rate is known', () => {
+    expect(convertCurrency(100, 'USD', 'EUR', { rates, date: new Date('2023-12-31') })).toBe(92);
+    expect(convertCurrency(100, 'PLN', 'EUR', { rates, date: new Date('2024-03-15') })).toBe(23);
+  });
+});
+
+describe('findEffectiveRates', () => {
+  it('should pick the latest snapshot on or before the date', () => {
+    expect(findEffectiveRates(rates, new Date('2024-02-29'))?.date).toBe('2024-01-01');
+    expect(findEffectiveRates(rates, new Date('2024-12-31'))?.date).toBe('2024-03-01');
+    expect(findEffectiveRates([], new Date())).toBeNull();
+  });
+});
+
+describe('Currency registry', () => {
+  it('should cover ISO 4217 currencies', () => {
+    expect(isValidCurrency('JPY')).toBe(true);
+    expect(isValidCurrency('CHF')).toBe(true);
+    expect(isValidCurrency('XXX')).toBe(false);
+    expect(isValidCurrency('toString')).toBe(false);
+    expect(CURRENCY_ORDER.slice(0, 4)).toEqual(['EUR', 'USD', 'GBP', 'PLN']);
+  });
+
+  it('should round to the minor units of the currency', () => {
+    expect(roundAmount(1234.56, 'JPY')).toBe(1235);
+    expect(roundAmount(1.23456, 'KWD')).toBe(1.235);
+    expect(roundAmount(1.235, 'EUR')).toBe(1.24);
+    expect(getMinorUnitStep('JPY')).toBe(1);
+  });
+
+  it('should accept every registry currency in the subscription schema', () => {
+    const subscription = {
+      name: 'Netflix',
+      price: 10,
+      billingPeriod: 'MONTHLY',
+      startDate: '2024-01-01'
+    };
+
+    expect(subscriptionSchema.safeParse({ ...subscription, currency: 'PLN' }).success).toBe(true);
+    expect(subscriptionSchema.safeParse({ ...subscription, currency: 'JPY' }).success).toBe(true);
+    expect(subscriptionSchema.safeParse({ ...subscription, currency: 'ABC' }).success).toBe(false);
+  });
+
+  it('should only convert currencies with a known rate', () => {
+    expect(canConvertCurrency('JPY', 'EUR')).toBe(false);
+    expect(canConvertCurrency('JPY', 'EUR', { rates: [{ date: '2024-01-01', rates: { JPY: 160 } }] })).toBe(true);
+    expect(() => convertCurrency(1000, 'JPY', 'EUR')).toThrow();
+  });
+});
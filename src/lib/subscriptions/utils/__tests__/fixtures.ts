@@ -0,0 +1,24 @@
+/**
+ * Shared test data for the subscription utilities
+ */
+
+import { Subscription } from '@/types/subscriptions';
+
+/**
+ * A monthly EUR 10 subscription started on 1 January 2024, with the given fields changed
+ */
+export function makeSubscription(overrides: Partial<Subscription> = {}): Subscription {
+  return {
+    id: 'sub-1',
+    name: 'Netflix',
+    price: 10,
+    currency: 'EUR',
+    billingPeriod: 'MONTHLY',
+    startDate: '2024-01-01T00:00:00.000Z',
+    nextBillingDate: '2024-02-01T00:00:00.000Z',
+    disabled: false,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
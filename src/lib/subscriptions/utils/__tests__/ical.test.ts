@@ -0,0 +1,109 @@
+/**
+ * Tests for the iCalendar feed
+ */
+
+import { buildCalendar, escapeText, foldLine, toRecurrenceRule } from '../ical';
+import { addBillingInterval } from '../dates';
+import { makeSubscription } from './fixtures';
+
+const baseSubscription = makeSubscription({
+  startDate: '2024-01-15T00:00:00.000Z',
+  nextBillingDate: '2024-02-15T00:00:00.000Z'
+});
+
+describe('iCalendar feed', () => {
+  describe('toRecurrenceRule', () => {
+    it('should map billing intervals to RRULEs', () => {
+      const start = new Date('2024-01-15T00:00:00.000Z');
+      expect(toRecurrenceRule({ unit: 'MONTH', count: 1 }, start)).toBe('FREQ=MONTHLY');
+      expect(toRecurrenceRule({ unit: 'MONTH', count: 3 }, start)).toBe('FREQ=MONTHLY;INTERVAL=3');
+      expect(toRecurrenceRule({ unit: 'WEEK', count: 2 }, start)).toBe('FREQ=WEEKLY;INTERVAL=2');
+    });
+
+    it('should move bills on late days to the end of shorter months', () => {
+      expect(toRecurrenceRule({ unit: 'MONTH', count: 1 }, new Date('2024-01-31T00:00:00.000Z')))
+        .toBe('FREQ=MONTHLY;BYMONTHDAY=28,29,30,31;BYSETPOS=-1');
+      expect(toRecurrenceRule({ unit: 'YEAR', count: 1 }, new Date('2024-02-29T00:00:00.000Z')))
+        .toBe('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=28,29;BYSETPOS=-1');
+    });
+
+    it('should repeat a bill on the 31st on the dates the app bills it', () => {
+      const start = new Date('2024-01-31T00:00:00.000Z');
+      const rule = toRecurrenceRule({ unit: 'MONTH', count: 1 }, start);
+      const monthDays = rule.match(/BYMONTHDAY=([\d,]+)/)![1].split(',').map(Number);
+
+      const billingDate = new Date(start);
+      for (const month of [1, 2, 3]) {
+        addBillingInterval(billingDate, { unit: 'MONTH', count: 1 }, 31);
+        // BYSETPOS=-1 picks the last of the listed days the month has
+        const lastDay = new Date(Date.UTC(2024, month + 1, 0)).getUTCDate();
+        const ruleDay = Math.max(...monthDays.filter(day => day <= lastDay));
+        expect(billingDate.toISOString()).toBe(new Date(Date.UTC(2024, month, ruleDay)).toISOString());
+      }
+      expect(billingDate.toISOString()).toBe('2024-04-30T00:00:00.000Z');
+    });
+  });
+
+  describe('content lines', () => {
+    it('should escape text values', () => {
+      expect(escapeText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const folded = foldLine(`SUMMARY:${'x'.repeat(100)}`);
+      const lines = folded.split('\r\n');
+      expect(lines.length).toBe(2);
+      expect(lines[0].length).toBe(75);
+      expect(lines[1].startsWith(' ')).toBe(true);
+    });
+  });
+
+  describe('buildCalendar', () => {
+    it('should emit one event per enabled subscription', () => {
+      const calendar = buildCalendar(
+        [
+          baseSubscription,
+          { ...baseSubscription, id: 'sub-2', disabled: true },
+          {
+            ...baseSubscription,
+            id: 'sub-3',
+            trial: { startDate: '2024-01-15T00:00:00.000Z', endDate: '2024-02-14T00:00:00.000Z' }
+          }
+        ],
+        { now: new Date('2024-01-20T12:00:00.000Z'), getReminderDays: () => [3] }
+      );
+
+      expect(calendar.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+      expect(calendar.match(/BEGIN:VEVENT/g)?.length).toBe(2);
+      expect(calendar).toContain('UID:sub-1@subscription-tracker');
+      expect(calendar).toContain('DTSTART;VALUE=DATE:20240115');
+      expect(calendar).toContain('DTSTAMP:20240120T120000Z');
+      expect(calendar).toContain('TRIGGER:-P3D');
+      expect(calendar).not.toContain('sub-2@');
+      // Trials are first billed when they end
+      expect(calendar).toContain('DTSTART;VALUE=DATE:20240214');
+    });
+
+    it('should stop repeating before a cancelled subscription ends', () => {
+      const cancellation = {
+        cancelledAt: '2024-03-01T00:00:00.000Z',
+        effectiveEndDate: '2024-03-15T00:00:00.000Z'
+      };
+      const calendar = buildCalendar([
+        { ...baseSubscription, status: 'CANCELLED', cancellation },
+        // Cancelled during its trial, so never charged
+        {
+          ...baseSubscription,
+          id: 'sub-2',
+          status: 'CANCELLED',
+          trial: { startDate: '2024-01-15T00:00:00.000Z', endDate: '2024-02-14T00:00:00.000Z' },
+          cancellation: { cancelledAt: '2024-01-20T00:00:00.000Z', effectiveEndDate: '2024-02-14T00:00:00.000Z' }
+        }
+      ]);
+
+      expect(calendar.match(/BEGIN:VEVENT/g)?.length).toBe(1);
+      expect(calendar).toContain('RRULE:FREQ=MONTHLY;UNTIL=20240314');
+      expect(calendar).not.toContain('sub-2@');
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for billing period and interval helpers
+ */
+
+import { convertBetweenPeriods, formatBillingInterval, getBillingInterval } from '../periods';
+import { addBillingInterval, calculateNextBillingDateFromPast } from '../dates';
+import { normalizeBillingPeriod, resolveBillingInterval } from '../../config/periods';
+
+describe('Billing periods', () => {
+  describe('resolveBillingInterval', () => {
+    it('should resolve presets to their interval', () => {
+      expect(resolveBillingInterval('QUARTERLY')).toEqual({ unit: 'MONTH', count: 3 });
+      expect(resolveBillingInterval('BIWEEKLY')).toEqual({ unit: 'WEEK', count: 2 });
+    });
+
+    it('should ignore an explicit interval for presets', () => {
+      expect(resolveBillingInterval('MONTHLY', { unit: 'DAY', count: 10 })).toEqual({ unit: 'MONTH', count: 1 });
+    });
+
+    it('should require an interval for custom periods', () => {
+      expect(() => resolveBillingInterval('CUSTOM')).toThrow();
+      expect(resolveBillingInterval('CUSTOM', { unit: 'DAY', count: 10 })).toEqual({ unit: 'DAY', count: 10 });
+    });
+  });
+
+  describe('normalizeBillingPeriod', () => {
+    it('should map legacy lowercase values', () => {
+      expect(normalizeBillingPeriod('monthly')).toBe('MONTHLY');
+      expect(normalizeBillingPeriod('yearly')).toBe('YEARLY');
+    });
+  });
+
+  describe('convertBetweenPeriods', () => {
+    it('should convert between presets', () => {
+      expect(convertBetweenPeriods(120, 'YEARLY', 'MONTHLY')).toBeCloseTo(10);
+      expect(convertBetweenPeriods(30, 'QUARTERLY', 'MONTHLY')).toBeCloseTo(10);
+    });
+
+    it('should convert custom intervals', () => {
+      const everySixMonths = getBillingInterval({
+        billingPeriod: 'CUSTOM',
+        billingInterval: { unit: 'MONTH', count: 6 }
+      });
+      expect(convertBetweenPeriods(60, everySixMonths, 'MONTHLY')).toBeCloseTo(10);
+      expect(convertBetweenPeriods(10, 'WEEKLY', 'YEARLY')).toBeCloseTo(521.79, 1);
+    });
+
+    it('should reject unknown periods', () => {
+      // @ts-ignore - Testing invalid input
+      expect(() => convertBetweenPeriods(10, 'FORTNIGHTLY', 'MONTHLY')).toThrow();
+    });
+  });
+
+  describe('formatBillingInterval', () => {
+    it('should describe single and multiple units', () => {
+      expect(formatBillingInterval({ unit: 'MONTH', count: 1 })).toBe('month');
+      expect(formatBillingInterval({ unit: 'WEEK', count: 2 })).toBe('2 weeks');
+    });
+  });
+
+  describe('addBillingInterval', () => {
+    it('should step by calendar units', () => {
+      const date = new Date('2024-01-15T00:00:00.000Z');
+      addBillingInterval(date, { unit: 'WEEK', count: 2 });
+      expect(date.getUTCDate()).toBe(29);
+      addBillingInterval(date, { unit: 'MONTH', count: 3 });
+      expect(date.toISOString()).toBe('2024-04-29T00:00:00.000Z');
+    });
+
+    it('should bill on the last day of months too short for the billing day', () => {
+      const date = new Date('2024-01-31T00:00:00.000Z');
+      const dates = [1, 2, 3].map(() => addBillingInterval(date, { unit: 'MONTH', count: 1 }, 31).toISOString());
+      expect(dates).toEqual([
+        '2024-02-29T00:00:00.000Z',
+        '2024-03-31T00:00:00.000Z',
+        '2024-04-30T00:00:00.000Z'
+      ]);
+
+      const leapDay = addBillingInterval(new Date('2024-02-29T00:00:00.000Z'), { unit: 'YEAR', count: 1 });
+      expect(leapDay.toISOString()).toBe('2025-02-28T00:00:00.000Z');
+    });
+  });
+
+  describe('calculateNextBillingDateFromPast', () => {
+    it('should return a future date on the same cycle', () => {
+      const next = new Date(
+        calculateNextBillingDateFromPast('2020-01-01', 'QUARTERLY', '2020-01-01')
+      );
+      expect(next.getTime()).toBeGreaterThan(Date.now());
+      expect(next.getUTCMonth() % 3).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for renewal reminder scheduling
+ */
+
+import {
+  getDaysUntil,
+  getDueReminderDay,
+  getReminderDays,
+  normalizeReminderDays,
+  parseReminderDaysInput
+} from '../reminders';
+
+const now = new Date('2024-03-01T09:00:00.000Z');
+
+describe('Renewal reminders', () => {
+  describe('normalizeReminderDays', () => {
+    it('should keep unique whole days in range, furthest first', () => {
+      expect(normalizeReminderDays([1, 7, 1, -2, 2.5, 365, 0])).toEqual([7, 1, 0]);
+      expect(normalizeReminderDays(undefined)).toEqual([]);
+    });
+
+    it('should parse comma separated input', () => {
+      expect(parseReminderDaysInput('1, 7,, abc')).toEqual([7, 1]);
+    });
+  });
+
+  describe('getReminderDays', () => {
+    it('should prefer the subscription over the user default', () => {
+      expect(getReminderDays({ reminderDays: [1] }, { reminderDays: [3] })).toEqual([1]);
+      expect(getReminderDays({ reminderDays: [] }, { reminderDays: [3] })).toEqual([]);
+      expect(getReminderDays({ reminderDays: null }, { reminderDays: [3] })).toEqual([3]);
+    });
+  });
+
+  describe('getDueReminderDay', () => {
+    it('should count whole days until the bill', () => {
+      expect(getDaysUntil('2024-03-04T00:00:00.000Z', now)).toBe(3);
+    });
+
+    it('should only return the closest due reminder', () => {
+      expect(getDueReminderDay('2024-03-08T09:00:00.000Z', [7, 1], now)).toBe(7);
+      expect(getDueReminderDay('2024-03-02T09:00:00.000Z', [7, 1], now)).toBe(1);
+      expect(getDueReminderDay('2024-03-05T09:00:00.000Z', [7, 1], now)).toBe(7);
+    });
+
+    it('should return null when no reminder is due', () => {
+      expect(getDueReminderDay('2024-03-20T09:00:00.000Z', [7, 1], now)).toBeNull();
+      expect(getDueReminderDay('2024-02-28T09:00:00.000Z', [7, 1], now)).toBeNull();
+      expect(getDueReminderDay('2024-03-02T09:00:00.000Z', [], now)).toBeNull();
+    });
+  });
+});
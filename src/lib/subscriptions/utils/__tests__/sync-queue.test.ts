@@ -0,0 +1,172 @@
+/**
+ * Tests for the offline mutation queue
+ */
+
+import {
+  PendingMutation,
+  applyLocalUpdate,
+  queueMutation,
+  renameQueuedSubscription,
+  requeueMutation,
+  syncMutation
+} from '../sync-queue';
+import { SubscriptionApi, SubscriptionRequestError } from '../../api';
+import { Subscription } from '@/types/subscriptions';
+
+const subscription: Subscription = {
+  id: 'sub-1',
+  name: 'Netflix',
+  price: 10,
+  currency: 'EUR',
+  billingPeriod: 'MONTHLY',
+  startDate: '2024-01-01T00:00:00.000Z',
+  nextBillingDate: '2024-02-01T00:00:00.000Z',
+  disabled: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  version: 2
+};
+
+const mutation = (type: PendingMutation['type'], subscriptionId = 'sub-1'): PendingMutation => ({
+  type,
+  subscriptionId,
+  queuedAt: '2024-01-01T00:00:00.000Z'
+});
+
+// API whose calls are recorded and answered by the given handlers
+const mockApi = (handlers: Partial<SubscriptionApi>) => {
+  const calls: { method: string; args: unknown[] }[] = [];
+  const record = (method: keyof SubscriptionApi) => (...args: unknown[]) => {
+    calls.push({ method, args });
+    const handler = handlers[method] as ((...a: unknown[]) => Promise<any>) | undefined;
+    return handler ? handler(...args) : Promise.reject(new Error(`Unexpected ${method}`));
+  };
+
+  const api = {
+    list: record('list'),
+    create: record('create'),
+    update: record('update'),
+    remove: record('remove')
+  } as SubscriptionApi;
+  return { api, calls };
+};
+
+describe('queueMutation', () => {
+  it('should fold updates into a pending create or update', () => {
+    const created = queueMutation([mutation('create')], mutation('update'));
+    const updated = queueMutation([mutation('update')], mutation('update'));
+
+    expect(created.map(m => m.type)).toEqual(['create']);
+    expect(updated.map(m => m.type)).toEqual(['update']);
+  });
+
+  it('should drop everything for a subscription deleted before it was created', () => {
+    const queue = [mutation('create'), mutation('update', 'sub-2')];
+
+    expect(queueMutation(queue, mutation('delete'))).toEqual([mutation('update', 'sub-2')]);
+  });
+
+  it('should let a delete and a restore cancel each other out', () => {
+    expect(queueMutation([mutation('update'), mutation('delete')], mutation('restore'))).toEqual([mutation('update')]);
+    expect(queueMutation([mutation('restore')], mutation('delete'))).toEqual([]);
+  });
+
+  it('should keep only the move to the trash before a purge', () => {
+    const queue = queueMutation([mutation('update'), mutation('delete'), mutation('update', 'sub-2')], mutation('purge'));
+
+    expect(queue).toEqual([mutation('update', 'sub-2'), mutation('delete'), mutation('purge')]);
+  });
+});
+
+describe('requeueMutation', () => {
+  it('should put a failed mutation first and fold newer ones into it', () => {
+    const queue = requeueMutation([mutation('update'), mutation('update', 'sub-2')], mutation('create'));
+
+    expect(queue).toEqual([mutation('create'), mutation('update', 'sub-2')]);
+  });
+});
+
+describe('renameQueuedSubscription', () => {
+  it('should follow a create to the ID the server gave it', () => {
+    const queue = renameQueuedSubscription([mutation('delete', 'temp')], 'temp', 'sub-9');
+
+    expect(queue).toEqual([mutation('delete', 'sub-9')]);
+  });
+});
+
+describe('applyLocalUpdate', () => {
+  const trial = { startDate: '2024-01-01T00:00:00.000Z', endDate: '2024-01-31T00:00:00.000Z' };
+
+  it('should keep a removed trial null until the update is sent', async () => {
+    const updated = applyLocalUpdate({ ...subscription, trial }, { trial: null });
+    expect(updated.trial).toBeNull();
+    expect(updated.nextBillingDate).not.toBe(subscription.nextBillingDate);
+
+    const { api, calls } = mockApi({ update: async () => updated });
+    await syncMutation(mutation('update'), updated, api);
+
+    const body = JSON.parse(JSON.stringify(calls[0].args[1]));
+    expect(body).toHaveProperty('trial', null);
+  });
+
+  it('should keep the trial when an edit leaves it out', () => {
+    expect(applyLocalUpdate({ ...subscription, trial }, { name: 'Netflix HD' }).trial).toEqual(trial);
+  });
+});
+
+describe('syncMutation', () => {
+  it('should send the local copy with the version it is based on', async () => {
+    const { api, calls } = mockApi({
+      update: async () => ({ ...subscription, name: 'Netflix HD', version: 3 })
+    });
+
+    const result = await syncMutation(mutation('update'), { ...subscription, name: 'Netflix HD' }, api);
+
+    expect(result).toEqual({ outcome: 'saved', subscription: { ...subscription, name: 'Netflix HD', version: 3 } });
+    expect(calls[0].args[0]).toBe('sub-1');
+    expect((calls[0].args[1] as Subscription).name).toBe('Netflix HD');
+    expect((calls[0].args[1] as Subscription).disabled).toBe(false);
+    expect(calls[0].args[2]).toBe(2);
+  });
+
+  it('should hand back the server copy on a version conflict', async () => {
+    const current = { ...subscription, price: 12, version: 3 };
+    const { api } = mockApi({
+      update: () => Promise.reject(new SubscriptionRequestError('Changed', 409, current))
+    });
+
+    const result = await syncMutation(mutation('update'), subscription, api);
+
+    expect(result).toEqual({ outcome: 'conflict', current });
+  });
+
+  it('should treat a subscription missing on the server as removed', async () => {
+    const { api } = mockApi({
+      remove: () => Promise.reject(new SubscriptionRequestError('Not found', 404))
+    });
+
+    expect(await syncMutation(mutation('delete'), undefined, api)).toEqual({ outcome: 'removed' });
+  });
+
+  it('should reject invalid changes but throw while offline', async () => {
+    const invalid = mockApi({
+      create: () => Promise.reject(new SubscriptionRequestError('Invalid subscription data', 400))
+    });
+    const offline = mockApi({
+      create: () => Promise.reject(new TypeError('Failed to fetch'))
+    });
+
+    const result = await syncMutation(mutation('create'), subscription, invalid.api);
+    expect(result.outcome).toBe('rejected');
+    await expect(syncMutation(mutation('create'), subscription, offline.api)).rejects.toThrow();
+  });
+
+  it('should reject a request the server refuses to authenticate', async () => {
+    const { api } = mockApi({
+      update: () => Promise.reject(new SubscriptionRequestError('Authentication required', 401))
+    });
+
+    const result = await syncMutation(mutation('update'), subscription, api);
+    expect(result.outcome).toBe('rejected');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the spending trend
+ */
+
+import { buildSpendingTrend, getPriceOn } from '../trend';
+import { PriceChange, Subscription } from '@/types/subscriptions';
+import { makeSubscription } from './fixtures';
+
+const baseSubscription = makeSubscription();
+
+const priceIncrease: PriceChange = {
+  id: 'change-1',
+  subscriptionId: 'sub-1',
+  effectiveDate: '2024-03-15T00:00:00.000Z',
+  oldPrice: 8,
+  newPrice: 10,
+  currency: 'EUR'
+};
+
+const options = {
+  date: new Date('2024-04-10T00:00:00.000Z'),
+  historyMonths: 24,
+  projectionMonths: 2
+};
+
+describe('getPriceOn', () => {
+  it('should use the old price before a change took effect', () => {
+    expect(getPriceOn(baseSubscription, [priceIncrease], new Date('2024-03-01T00:00:00.000Z'))).toEqual({ price: 8, currency: 'EUR' });
+    expect(getPriceOn(baseSubscription, [priceIncrease], new Date('2024-04-01T00:00:00.000Z'))).toEqual({ price: 10, currency: 'EUR' });
+  });
+});
+
+describe('buildSpendingTrend', () => {
+  it('should replay charges from the first one and project the coming months', () => {
+    const trend = buildSpendingTrend([baseSubscription], [priceIncrease], options);
+
+    expect(trend.points).toEqual([
+      { month: '2024-01', total: 8, projected: false },
+      { month: '2024-02', total: 8, projected: false },
+      { month: '2024-03', total: 8, projected: false },
+      { month: '2024-04', total: 10, projected: false },
+      { month: '2024-05', total: 10, projected: true },
+      { month: '2024-06', total: 10, projected: true }
+    ]);
+  });
+
+  it('should charge bills at either end of the month in that month', () => {
+    const trend = buildSpendingTrend(
+      [
+        { ...baseSubscription, startDate: '2024-01-01T00:00:00.000Z' },
+        { ...baseSubscription, id: 'sub-2', name: 'Gym', price: 30, startDate: '2024-01-31T00:00:00.000Z' }
+      ],
+      [],
+      options
+    );
+
+    expect(trend.points.map(point => point.total)).toEqual([40, 40, 40, 40, 40, 40]);
+  });
+
+  it('should charge yearly subscriptions in their billing month only', () => {
+    const trend = buildSpendingTrend(
+      [{ ...baseSubscription, price: 120, billingPeriod: 'YEARLY', startDate: '2023-05-01T00:00:00.000Z' }],
+      [],
+      options
+    );
+
+    expect(trend.points.filter(point => point.total > 0).map(point => point.month)).toEqual(['2023-05', '2024-05']);
+  });
+
+  it('should stop charging when a cancellation takes effect', () => {
+    const cancelled: Subscription = {
+      ...baseSubscription,
+      status: 'CANCELLED',
+      cancellation: { cancelledAt: '2024-02-10T00:00:00.000Z', effectiveEndDate: '2024-03-01T00:00:00.000Z' }
+    };
+
+    const trend = buildSpendingTrend([cancelled], [], options);
+
+    expect(trend.points.map(point => point.total)).toEqual([10, 10, 0, 0, 0, 0]);
+  });
+
+  it('should go no further back than the history limit', () => {
+    const trend = buildSpendingTrend(
+      [{ ...baseSubscription, startDate: '2010-01-01T00:00:00.000Z' }],
+      [],
+      { ...options, historyMonths: 3 }
+    );
+
+    expect(trend.points[0].month).toBe('2024-01');
+    expect(trend.points.length).toBe(6);
+  });
+
+  it('should leave out disabled subscriptions and total in the requested currency', () => {
+    const rates = [{ date: '2024-01-01', rates: { USD: 2 } }];
+    const trend = buildSpendingTrend(
+      [baseSubscription, { ...baseSubscription, id: 'sub-2', disabled: true }],
+      [],
+      { ...options, currency: 'USD', rates }
+    );
+
+    expect(trend.currency).toBe('USD');
+    expect(trend.points[0].total).toBe(20);
+  });
+});
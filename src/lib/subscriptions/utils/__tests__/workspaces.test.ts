@@ -0,0 +1,81 @@
+/**
+ * Tests for workspace roles and cost splits
+ */
+
+import { getSplitShares, hasWorkspaceRole, isLastOwner } from '../workspaces';
+import { WORKSPACE_ROLES } from '../../config/workspaces';
+import { Workspace } from '@/types/workspaces';
+
+const member = (userId: string, role: keyof typeof WORKSPACE_ROLES) => ({
+  userId,
+  email: `${userId}@example.com`,
+  name: userId,
+  role: WORKSPACE_ROLES[role],
+  joinedAt: '2024-01-01T00:00:00.000Z'
+});
+
+const workspace: Workspace = {
+  id: 'ws-1',
+  name: 'Home',
+  members: [member('alice', 'owner'), member('bob', 'editor'), member('carol', 'viewer')],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+const members = ['alice', 'bob', 'carol'];
+
+describe('hasWorkspaceRole', () => {
+  it('should let higher roles do what lower ones can', () => {
+    expect(hasWorkspaceRole(workspace, 'alice', 'editor')).toBe(true);
+    expect(hasWorkspaceRole(workspace, 'bob', 'editor')).toBe(true);
+    expect(hasWorkspaceRole(workspace, 'carol', 'editor')).toBe(false);
+    expect(hasWorkspaceRole(workspace, 'carol', 'viewer')).toBe(true);
+  });
+
+  it('should deny users who are not members', () => {
+    expect(hasWorkspaceRole(workspace, 'dave', 'viewer')).toBe(false);
+  });
+});
+
+describe('isLastOwner', () => {
+  it('should only be true for a sole owner', () => {
+    expect(isLastOwner(workspace, 'alice')).toBe(true);
+    expect(isLastOwner(workspace, 'bob')).toBe(false);
+
+    const twoOwners = { ...workspace, members: [...workspace.members, member('dave', 'owner')] };
+    expect(isLastOwner(twoOwners, 'alice')).toBe(false);
+  });
+});
+
+describe('getSplitShares', () => {
+  it('should split equally between all members by default', () => {
+    expect(getSplitShares(undefined, 30, members)).toEqual({ alice: 1 / 3, bob: 1 / 3, carol: 1 / 3 });
+  });
+
+  it('should split equally between the listed members only', () => {
+    expect(getSplitShares({ type: 'EQUAL', members: ['alice', 'bob'] }, 30, members))
+      .toEqual({ alice: 0.5, bob: 0.5, carol: 0 });
+  });
+
+  it('should share unassigned percentages equally', () => {
+    const shares = getSplitShares({ type: 'PERCENTAGE', shares: { alice: 70 } }, 30, members);
+
+    expect(shares.alice).toBeCloseTo(0.8);
+    expect(shares.bob).toBeCloseTo(0.1);
+    expect(shares.carol).toBeCloseTo(0.1);
+  });
+
+  it('should turn fixed amounts into parts of the price', () => {
+    const shares = getSplitShares({ type: 'FIXED', amounts: { alice: 20, bob: 10 } }, 30, members);
+
+    expect(shares.alice).toBeCloseTo(2 / 3);
+    expect(shares.bob).toBeCloseTo(1 / 3);
+    expect(shares.carol).toBeCloseTo(0);
+  });
+
+  it('should give the part of a member who left to everyone', () => {
+    const shares = getSplitShares({ type: 'PERCENTAGE', shares: { alice: 50, erin: 50 } }, 30, ['alice', 'bob']);
+
+    expect(shares).toEqual({ alice: 0.75, bob: 0.25 });
+  });
+});
@@ -0,0 +1,207 @@
+import { z } from 'zod';
+import {
+  BackupPriceChange,
+  BackupSubscription,
+  Category,
+  Currency,
+  PriceChange,
+  Subscription,
+  SubscriptionBackup,
+  SubscriptionFormData
+} from '@/types/subscriptions';
+import { BackupSchemaType, backupPriceChangeSchema, backupSchema } from '@/lib/validations/backup';
+import { subscriptionSchema } from '@/lib/validations/subscription';
+import { normalizeBillingPeriod } from '../config/periods';
+import { IMPORT_FIELDS, ImportField } from './csv-import';
+import { toCsv } from './csv';
+
+/**
+ * Version of the JSON export envelope. Bump it whenever the shape of a backup
+ * changes and add a migration from the previous version to MIGRATIONS.
+ *
+ * 1: unversioned array of stored subscriptions, as exported from local storage
+ * 2: { schemaVersion, exportedAt, baseCurrency, categories, subscriptions },
+ *    each subscription with its priceHistory
+ */
+export const BACKUP_SCHEMA_VERSION = 2;
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// Migrations keyed by the version they upgrade from, each to the next version
+const MIGRATIONS: Record<number, (backup: any) => any> = {
+  1: backup => ({
+    schemaVersion: 2,
+    exportedAt: null,
+    baseCurrency: null,
+    categories: [],
+    subscriptions: backup.subscriptions.map(upgradeStoredSubscription),
+  }),
+};
+
+/**
+ * Reduce a stored subscription from a version 1 export to backup form data
+ * These predate categories and may use lowercase billing periods.
+ */
+function upgradeStoredSubscription(item: any): unknown {
+  if (!item || typeof item !== 'object') return item;
+  const { id, _id, userId, nextBillingDate, createdAt, updatedAt, categoryId, ...data } = item;
+
+  return {
+    ...data,
+    price: typeof data.price === 'string' ? parseFloat(data.price) : data.price,
+    currency: data.currency || 'EUR',
+    billingPeriod: normalizeBillingPeriod(data.billingPeriod),
+    disabled: data.disabled === true,
+  };
+}
+
+/**
+ * Reduce a subscription to the fields a backup restores; derived fields such
+ * as the next billing date are recalculated on import
+ */
+function toBackupSubscription(subscription: Subscription, history: PriceChange[]): BackupSubscription {
+  const { id, nextBillingDate, createdAt, updatedAt, version, deletedAt, ...data } = subscription;
+  return {
+    ...data,
+    priceHistory: history.map(({ id, subscriptionId, ...change }) => change)
+  };
+}
+
+/**
+ * Build the current version of the export envelope
+ * @param subscriptions - The user's subscriptions
+ * @param options - The user's categories, display currency and price history
+ * @returns The backup
+ */
+export function createBackup(
+  subscriptions: Subscription[],
+  options: { categories: Category[]; baseCurrency: Currency; priceHistory?: PriceChange[]; now?: Date }
+): SubscriptionBackup {
+  const history = options.priceHistory || [];
+
+  return {
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: (options.now || new Date()).toISOString(),
+    baseCurrency: options.baseCurrency,
+    categories: options.categories,
+    subscriptions: subscriptions.map(subscription =>
+      toBackupSubscription(subscription, history.filter(change => change.subscriptionId === subscription.id))
+    ),
+  };
+}
+
+/**
+ * Read a backup of any version, upgrading it to the current one
+ * @param data - Parsed JSON of an export
+ * @returns The envelope; subscriptions still need validating one by one
+ * @throws BackupFormatError if the data is not a backup or is from a newer version
+ */
+export function upgradeBackup(data: unknown): BackupSchemaType {
+  let backup: any = Array.isArray(data) ? { schemaVersion: 1, subscriptions: data } : data;
+
+  if (!backup || typeof backup !== 'object' || !Number.isInteger(backup.schemaVersion)) {
+    throw new BackupFormatError('The file is not a subscriptions backup');
+  }
+  if (backup.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new BackupFormatError(
+      `The backup is from a newer version (${backup.schemaVersion}) than this app supports (${BACKUP_SCHEMA_VERSION})`
+    );
+  }
+
+  while (backup.schemaVersion < BACKUP_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[backup.schemaVersion];
+    if (!migrate || !Array.isArray(backup.subscriptions)) {
+      throw new BackupFormatError(`Backup version ${backup.schemaVersion} is not supported`);
+    }
+    backup = migrate(backup);
+  }
+
+  const result = backupSchema.safeParse(backup);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new BackupFormatError(`Invalid backup: ${issue.path.join('.')} ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * A subscription accepted for import, with the price history to restore
+ */
+export type ImportedSubscription = SubscriptionFormData & {
+  disabled?: boolean;
+  priceHistory?: BackupPriceChange[];
+};
+
+/**
+ * Validate one subscription of an import
+ * @param item - The subscription as sent
+ * @param categoryIds - IDs of the backup's categories, when importing a
+ * backup; categoryId must be one of them or is dropped
+ * @returns The subscription to import, or what is wrong with it
+ */
+export function parseImportItem(
+  item: unknown,
+  categoryIds?: Set<string>
+): { success: true; data: ImportedSubscription } | { success: false; issues: z.ZodIssue[] } {
+  const fields = item && typeof item === 'object' ? item as Record<string, any> : {};
+  const result = subscriptionSchema.safeParse(
+    categoryIds
+      ? { ...fields, categoryId: categoryIds.has(fields.categoryId) ? fields.categoryId : null }
+      : item
+  );
+  const history = z.array(backupPriceChangeSchema).optional().safeParse(fields.priceHistory);
+
+  if (!result.success || !history.success) {
+    return {
+      success: false,
+      issues: [
+        ...(result.success ? [] : result.error.issues),
+        ...(history.success ? [] : history.error.issues.map(issue => ({ ...issue, path: ['priceHistory', ...issue.path] })))
+      ]
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...(result.data as SubscriptionFormData),
+      disabled: fields.disabled === true,
+      ...(history.data && { priceHistory: history.data })
+    }
+  };
+}
+
+/**
+ * Write a backup as a spreadsheet, one row per subscription
+ * The columns match the CSV importer's fields. Trials, custom intervals and
+ * reminders only survive in the JSON format.
+ * @param backup - The backup
+ * @returns CSV content
+ */
+export function backupToCsv(backup: SubscriptionBackup): string {
+  const categoryNames = new Map(backup.categories.map(category => [category.id, category.name]));
+
+  const toRow = (subscription: BackupSubscription): Record<ImportField, string> => ({
+    name: subscription.name,
+    price: String(subscription.price),
+    currency: subscription.currency,
+    billingPeriod: subscription.billingPeriod,
+    startDate: subscription.startDate.slice(0, 10),
+    description: subscription.description || '',
+    category: (subscription.categoryId && categoryNames.get(subscription.categoryId)) || '',
+    tags: (subscription.tags || []).join(', '),
+  });
+
+  return toCsv([
+    IMPORT_FIELDS.map(({ label }) => label),
+    ...backup.subscriptions.map(subscription => {
+      const row = toRow(subscription);
+      return IMPORT_FIELDS.map(({ field }) => row[field]);
+    }),
+  ]);
+}
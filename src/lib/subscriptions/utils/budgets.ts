@@ -0,0 +1,62 @@
+import { Budget, BudgetStatus, SubscriptionSummary } from '@/types/subscriptions';
+import { roundAmount } from '../config/currencies';
+import { ConversionOptions, canConvertCurrency, convertCurrency } from './currency';
+
+/**
+ * Measure each budget against the monthly totals of a summary
+ * Budgets are converted into the summary currency; budgets whose currency
+ * cannot be converted are left out.
+ * @param summary - Summary from calculateSummary
+ * @param budgets - Overall and category budgets
+ * @param options - Rate table and the date whose rates should apply (default: now)
+ * @returns Status per budget, overall budget first
+ */
+export function getBudgetStatuses(
+  summary: SubscriptionSummary,
+  budgets: Budget[],
+  options: ConversionOptions = {}
+): BudgetStatus[] {
+  return budgets
+    .filter(budget => canConvertCurrency(budget.currency, summary.currency, options))
+    .map(budget => {
+      const limit = convertCurrency(budget.amount, budget.currency, summary.currency, options);
+      const spent = budget.categoryId === null
+        ? summary.totalMonthly
+        : summary.categoryTotals[budget.categoryId] || 0;
+
+      return {
+        budget,
+        currency: summary.currency,
+        limit,
+        spent: roundAmount(spent, summary.currency),
+        utilization: limit > 0 ? spent / limit : spent > 0 ? Infinity : 0,
+        isOverBudget: spent > limit
+      };
+    })
+    .sort((a, b) => Number(a.budget.categoryId !== null) - Number(b.budget.categoryId !== null));
+}
+
+/**
+ * Find the budgets a change would leave exceeded
+ * Only budgets whose spending actually grows are reported, so a budget that is
+ * already over and unaffected by the change does not warn again.
+ * @param current - Summary before the change
+ * @param projected - Summary after the change
+ * @param budgets - Overall and category budgets
+ * @param options - Rate table and the date whose rates should apply (default: now)
+ * @returns Projected status of each exceeded budget
+ */
+export function findBudgetOverruns(
+  current: SubscriptionSummary,
+  projected: SubscriptionSummary,
+  budgets: Budget[],
+  options: ConversionOptions = {}
+): BudgetStatus[] {
+  const before = new Map(
+    getBudgetStatuses(current, budgets, options).map(status => [status.budget.id, status.spent])
+  );
+
+  return getBudgetStatuses(projected, budgets, options).filter(status =>
+    status.isOverBudget && status.spent > (before.get(status.budget.id) ?? 0)
+  );
+}
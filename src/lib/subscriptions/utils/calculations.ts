@@ -1,47 +1,132 @@
-import { Subscription, SubscriptionSummary, Currency } from '@/types/subscriptions';
-import { convertToBaseCurrency, convertCurrency } from './currency';
-import { convertBetweenPeriods } from './periods';
-import { CURRENCIES, roundAmount } from '../config/currencies';
+import { Subscription, SubscriptionSummary, Currency, PriceChange } from '@/types/subscriptions';
+import { canConvertCurrency, convertCurrency, ConversionOptions } from './currency';
+import { convertBetweenPeriods, getBillingInterval } from './periods';
+import { isInTrial } from './dates';
+import { countSkippedCharges, hasEnded } from './cancellation';
+import { getSplitShares } from './workspaces';
+import { getCategoryKey } from './categories';
+import { roundAmount } from '../config/currencies';
 
 /**
- * Calculate subscription summary with total costs for different periods
+ * Get the price a subscription is charged once any trial has converted
+ * @param subscription - The subscription
+ * @returns The regular price, or the post-trial price if one was set
+ */
+export function getEffectivePrice(subscription: Pick<Subscription, 'price' | 'trial'>): number {
+  return subscription.trial?.postTrialPrice ?? subscription.price;
+}
+
+/**
+ * Options for calculateSummary
+ * - currency: the currency to total in (default: EUR)
+ * - date: the day to evaluate trials and exchange rates on (default: now)
+ * - rates: historical exchange rates; the static rates are used without them
+ * - members: for a workspace, the member user IDs to work out shares for
+ */
+export interface SummaryOptions extends ConversionOptions {
+  currency?: Currency;
+  members?: string[];
+}
+
+/**
+ * Calculate how much cancelling a subscription has saved so far
+ * @param subscription - The subscription
+ * @param date - The date to count up to (defaults to now)
+ * @returns The skipped charges in the subscription's currency, 0 if not cancelled
+ */
+export function calculateSavedSinceCancelling(subscription: Subscription, date: Date = new Date()): number {
+  return roundAmount(
+    getEffectivePrice(subscription) * countSkippedCharges(subscription, date),
+    subscription.currency
+  );
+}
+
+/**
+ * Calculate subscription summary with total costs for different periods.
+ * Subscriptions still in their trial are not charged yet and are left out,
+ * as are cancelled subscriptions once their service has ended.
+ * Subscriptions in a currency without a known exchange rate only count
+ * towards their original currency total.
+ * Given the members of a workspace, each member's monthly share follows the
+ * subscriptions' cost splits.
  * @param subscriptions - List of all subscriptions
+ * @param options - Target currency, evaluation date, exchange rates and members
  * @returns Summary of costs for different periods
  */
-export function calculateSummary(subscriptions: Subscription[]): SubscriptionSummary {
+export function calculateSummary(
+  subscriptions: Subscription[],
+  options: SummaryOptions = {}
+): SubscriptionSummary {
+  const targetCurrency = options.currency || 'EUR';
+  const date = options.date || new Date();
+  const conversion = { date, rates: options.rates };
+
   const initialSummary = {
     totalMonthly: 0,
     totalYearly: 0,
     grandTotalMonthly: 0,
-    originalAmounts: Object.fromEntries(
-      Object.keys(CURRENCIES).map(currency => [currency, 0])
-    ) as Record<Currency, number>
+    originalAmounts: {} as Partial<Record<Currency, number>>,
+    unconvertedCurrencies: [] as Currency[],
+    categoryTotals: {} as Record<string, number>,
+    savedSinceCancelling: 0,
+    memberTotals: {} as Record<string, number>
   };
 
+  // Savings count even for paused subscriptions, but not for those in the trash
+  for (const sub of subscriptions) {
+    if (sub.deletedAt) continue;
+    const saved = calculateSavedSinceCancelling(sub, date);
+    const currency = (sub.currency || 'EUR') as Currency;
+    if (saved > 0 && canConvertCurrency(currency, targetCurrency, conversion)) {
+      initialSummary.savedSinceCancelling += convertCurrency(saved, currency, targetCurrency, conversion);
+    }
+  }
+
   const summary = subscriptions
-    .filter(sub => !sub.disabled)
+    .filter(sub => !sub.disabled && !sub.deletedAt && !isInTrial(sub.trial, date) && !hasEnded(sub, date))
     .reduce(
       (acc, sub) => {
-        // Convert to base currency (EUR)
-        const baseAmount = convertToBaseCurrency(sub.price, sub.currency || 'EUR');
+        const price = getEffectivePrice(sub);
         const currency = (sub.currency || 'EUR') as Currency;
         
         // Add to original currency totals
         acc.originalAmounts[currency] = roundAmount(
-          (acc.originalAmounts[currency] || 0) + sub.price,
+          (acc.originalAmounts[currency] || 0) + price,
           currency
         );
 
+        if (!canConvertCurrency(currency, targetCurrency, conversion)) {
+          if (!acc.unconvertedCurrencies.includes(currency)) {
+            acc.unconvertedCurrencies.push(currency);
+          }
+          return acc;
+        }
+
+        // Convert to the summary currency
+        const convertedAmount = convertCurrency(price, currency, targetCurrency, conversion);
+
         // Convert to monthly first for consistent calculations
-        const monthlyAmount = convertBetweenPeriods(baseAmount, sub.billingPeriod, 'MONTHLY');
+        const monthlyAmount = convertBetweenPeriods(convertedAmount, getBillingInterval(sub), 'MONTHLY');
         
         // Update all period totals
         acc.totalMonthly += monthlyAmount;
         acc.totalYearly += convertBetweenPeriods(monthlyAmount, 'MONTHLY', 'YEARLY');
 
-        // Add to the grand total (already in EUR)
+        // Add to the grand total (already in the summary currency)
         acc.grandTotalMonthly += monthlyAmount;
 
+        // Add to the category's monthly total
+        const categoryKey = getCategoryKey(sub);
+        acc.categoryTotals[categoryKey] = (acc.categoryTotals[categoryKey] || 0) + monthlyAmount;
+
+        // Add each member's part of it
+        if (options.members) {
+          const shares = getSplitShares(sub.split, price, options.members);
+          for (const userId of options.members) {
+            acc.memberTotals[userId] = (acc.memberTotals[userId] || 0) + monthlyAmount * shares[userId];
+          }
+        }
+
         return acc;
       },
       initialSummary
@@ -50,14 +135,53 @@ export function calculateSummary(subscriptions: Subscription[]): SubscriptionSum
   // Round all amounts appropriately
   return {
     ...summary,
-    totalMonthly: roundAmount(summary.totalMonthly, 'EUR'),
-    totalYearly: roundAmount(summary.totalYearly, 'EUR'),
-    grandTotalMonthly: roundAmount(summary.grandTotalMonthly, 'EUR'),
+    currency: targetCurrency,
+    totalMonthly: roundAmount(summary.totalMonthly, targetCurrency),
+    totalYearly: roundAmount(summary.totalYearly, targetCurrency),
+    grandTotalMonthly: roundAmount(summary.grandTotalMonthly, targetCurrency),
+    savedSinceCancelling: roundAmount(summary.savedSinceCancelling, targetCurrency),
     originalAmounts: Object.fromEntries(
       Object.entries(summary.originalAmounts).map(([key, value]) => [
         key,
-        roundAmount(value, key as Currency)
+        roundAmount(value || 0, key as Currency)
       ])
-    ) as Record<Currency, number>
+    ) as Partial<Record<Currency, number>>,
+    categoryTotals: Object.fromEntries(
+      Object.entries(summary.categoryTotals).map(([key, value]) => [
+        key,
+        roundAmount(value, targetCurrency)
+      ])
+    ),
+    memberTotals: options.members
+      ? Object.fromEntries(options.members.map(userId => [
+          userId,
+          roundAmount(summary.memberTotals[userId] || 0, targetCurrency)
+        ]))
+      : undefined
   };
 }
+
+/**
+ * Calculate how much a subscription's price has changed since it was first recorded
+ * @param history - Price changes, oldest first
+ * @param currentPrice - The current price
+ * @param currency - The current currency
+ * @returns Change in percent (positive for increases), or null without history or a known exchange rate
+ */
+export function calculateCumulativePriceChange(
+  history: PriceChange[],
+  currentPrice: number,
+  currency: Currency
+): number | null {
+  if (history.length === 0) return null;
+
+  const first = history[0];
+  const originalCurrency = first.previousCurrency || first.currency;
+  if (!canConvertCurrency(originalCurrency, currency)) return null;
+
+  const originalPrice = convertCurrency(first.oldPrice, originalCurrency, currency);
+
+  if (originalPrice === 0) return null;
+
+  return ((currentPrice - originalPrice) / originalPrice) * 100;
+}
@@ -0,0 +1,83 @@
+import { Subscription } from '@/types/subscriptions';
+import { addBillingInterval, calculateFirstBillingDate } from './dates';
+import { getBillingInterval } from './periods';
+
+type CancellableSubscription = Pick<
+  Subscription,
+  'startDate' | 'billingPeriod' | 'billingInterval' | 'trial' | 'status' | 'cancellation'
+>;
+
+/**
+ * Whether a subscription has been cancelled, even if service has not ended yet
+ * @param subscription - The subscription
+ * @returns True for a cancelled subscription with its cancellation details
+ */
+export function isCancelled(subscription: Pick<Subscription, 'status' | 'cancellation'>): boolean {
+  return subscription.status === 'CANCELLED' && Boolean(subscription.cancellation);
+}
+
+/**
+ * Whether a cancelled subscription's service has ended by the given date
+ * @param subscription - The subscription
+ * @param date - The date to check (defaults to now)
+ * @returns True once the effective end date has been reached
+ */
+export function hasEnded(
+  subscription: Pick<Subscription, 'status' | 'cancellation'>,
+  date: Date = new Date()
+): boolean {
+  return isCancelled(subscription) && date >= new Date(subscription.cancellation!.effectiveEndDate);
+}
+
+/**
+ * Get the day service ends when a subscription is cancelled: the first billing
+ * date after cancelling, up to which the current period is already paid.
+ * Cancelling during a trial ends service when the trial would have converted.
+ *
+ * @param subscription - The subscription being cancelled
+ * @param cancelledAt - When it is cancelled, in ISO format
+ * @returns The effective end date in ISO format
+ */
+export function getPaidThroughDate(
+  subscription: Pick<Subscription, 'startDate' | 'billingPeriod' | 'billingInterval' | 'trial'>,
+  cancelledAt: string
+): string {
+  const interval = getBillingInterval(subscription);
+  const cancelled = new Date(cancelledAt);
+  const date = new Date(calculateFirstBillingDate(subscription.startDate, subscription.trial));
+  const billingDay = date.getUTCDate();
+
+  while (date <= cancelled) {
+    addBillingInterval(date, interval, billingDay);
+  }
+
+  return date.toISOString();
+}
+
+/**
+ * Count the charges a cancelled subscription would have made since its
+ * service ended, including one falling on the effective end date itself
+ *
+ * @param subscription - The subscription
+ * @param date - The date to count up to (defaults to now)
+ * @returns Number of skipped charges, 0 if it is not cancelled or has not ended
+ */
+export function countSkippedCharges(subscription: CancellableSubscription, date: Date = new Date()): number {
+  if (!hasEnded(subscription, date)) return 0;
+
+  const interval = getBillingInterval(subscription);
+  const end = new Date(subscription.cancellation!.effectiveEndDate);
+  const billingDate = new Date(calculateFirstBillingDate(subscription.startDate, subscription.trial));
+  const billingDay = billingDate.getUTCDate();
+
+  while (billingDate < end) {
+    addBillingInterval(billingDate, interval, billingDay);
+  }
+
+  let count = 0;
+  while (billingDate <= date) {
+    count++;
+    addBillingInterval(billingDate, interval, billingDay);
+  }
+  return count;
+}
@@ -0,0 +1,160 @@
+import { Currency, Subscription } from '@/types/subscriptions';
+import { canConvertCurrency, convertCurrency, ConversionOptions } from './currency';
+import { addBillingInterval, calculateFirstBillingDate } from './dates';
+import { getBillingInterval } from './periods';
+import { getEffectivePrice } from './calculations';
+import { isCancelled } from './cancellation';
+import { roundAmount } from '../config/currencies';
+
+/**
+ * One charge of a subscription, in its own currency
+ * - date: YYYY-MM-DD
+ */
+export interface CalendarCharge {
+  date: string;
+  subscription: Subscription;
+  amount: number;
+  currency: Currency;
+}
+
+/**
+ * The charges falling on one day
+ * - total: in the calendar currency, leaving out charges that cannot be converted
+ */
+export interface CalendarDay {
+  date: string;
+  charges: CalendarCharge[];
+  total: number;
+}
+
+/**
+ * Options for buildCashFlow
+ * - currency: the currency to total in (default: EUR)
+ * - rates: historical exchange rates; the static rates are used without them
+ */
+export interface CashFlowOptions extends Pick<ConversionOptions, 'rates'> {
+  currency?: Currency;
+}
+
+export interface CashFlow {
+  currency: Currency;
+  // Every day of the range, first day first
+  days: CalendarDay[];
+  total: number;
+  // Currencies with no known exchange rate, left out of the totals
+  unconvertedCurrencies: Currency[];
+}
+
+/**
+ * Find the charges of subscriptions between two dates.
+ * Charges follow the billing cycle that gives each subscription its next
+ * billing date: every billing interval from the first billing date (after
+ * any trial), until a cancellation takes effect. Disabled subscriptions and
+ * those in the trash are left out.
+ *
+ * @param subscriptions - List of all subscriptions
+ * @param from - First day to include
+ * @param to - Day after the last one to include
+ * @returns Charges sorted by date, then by name
+ */
+export function getChargesBetween(subscriptions: Subscription[], from: Date, to: Date): CalendarCharge[] {
+  const charges: CalendarCharge[] = [];
+
+  for (const subscription of subscriptions) {
+    if (subscription.disabled || subscription.deletedAt) continue;
+
+    const interval = getBillingInterval(subscription);
+    const end = isCancelled(subscription) ? new Date(subscription.cancellation!.effectiveEndDate) : to;
+    const billingDate = new Date(calculateFirstBillingDate(subscription.startDate, subscription.trial));
+    const billingDay = billingDate.getUTCDate();
+
+    for (; billingDate < to && billingDate < end; addBillingInterval(billingDate, interval, billingDay)) {
+      if (billingDate < from) continue;
+
+      charges.push({
+        date: billingDate.toISOString().slice(0, 10),
+        subscription,
+        amount: getEffectivePrice(subscription),
+        currency: subscription.currency
+      });
+    }
+  }
+
+  return charges.sort((a, b) =>
+    a.date.localeCompare(b.date) || a.subscription.name.localeCompare(b.subscription.name)
+  );
+}
+
+/**
+ * Lay out the charges between two dates day by day, with daily totals
+ * @param subscriptions - List of all subscriptions
+ * @param from - First day, at midnight UTC
+ * @param to - Day after the last one, at midnight UTC
+ * @param options - Target currency and exchange rates
+ * @returns Every day of the range with its charges
+ */
+export function buildCashFlow(
+  subscriptions: Subscription[],
+  from: Date,
+  to: Date,
+  options: CashFlowOptions = {}
+): CashFlow {
+  const targetCurrency = options.currency || 'EUR';
+
+  const chargesByDate: Record<string, CalendarCharge[]> = {};
+  for (const charge of getChargesBetween(subscriptions, from, to)) {
+    (chargesByDate[charge.date] = chargesByDate[charge.date] || []).push(charge);
+  }
+
+  const unconvertedCurrencies: Currency[] = [];
+  const days: CalendarDay[] = [];
+  let rangeTotal = 0;
+
+  for (const day = new Date(from); day < to; day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().slice(0, 10);
+    const charges = chargesByDate[date] || [];
+    // Upcoming charges use the latest rates; past ones the rates of the day
+    const conversion = { date: new Date(Math.min(day.getTime(), Date.now())), rates: options.rates };
+
+    const total = charges.reduce((sum, charge) => {
+      if (!canConvertCurrency(charge.currency, targetCurrency, conversion)) {
+        if (!unconvertedCurrencies.includes(charge.currency)) {
+          unconvertedCurrencies.push(charge.currency);
+        }
+        return sum;
+      }
+      return sum + convertCurrency(charge.amount, charge.currency, targetCurrency, conversion);
+    }, 0);
+
+    rangeTotal += total;
+    days.push({ date, charges, total: roundAmount(total, targetCurrency) });
+  }
+
+  return {
+    currency: targetCurrency,
+    days,
+    total: roundAmount(rangeTotal, targetCurrency),
+    unconvertedCurrencies
+  };
+}
+
+/**
+ * Lay out a month's charges day by day, with daily totals
+ * @param subscriptions - List of all subscriptions
+ * @param month - The month, as YYYY-MM
+ * @param options - Target currency and exchange rates
+ * @returns Every day of the month with its charges
+ */
+export function buildCashFlowMonth(
+  subscriptions: Subscription[],
+  month: string,
+  options: CashFlowOptions = {}
+): CashFlow {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return buildCashFlow(
+    subscriptions,
+    new Date(Date.UTC(year, monthIndex - 1, 1)),
+    new Date(Date.UTC(year, monthIndex, 1)),
+    options
+  );
+}
@@ -0,0 +1,78 @@
+import { Subscription } from '@/types/subscriptions';
+import { MAX_TAGS, MAX_TAG_LENGTH, UNCATEGORIZED_ID } from '../config/categories';
+
+/**
+ * Criteria for narrowing down a subscription list
+ * - categoryId: only subscriptions in this category (UNCATEGORIZED_ID for none)
+ * - tags: only subscriptions carrying all of these tags
+ */
+export interface SubscriptionFilter {
+  categoryId?: string | null;
+  tags?: string[];
+}
+
+/**
+ * Clean up tags: trimmed, lowercase, without empty entries or duplicates
+ * @param tags - Tags as entered
+ * @returns Normalized tags in their original order
+ */
+export function normalizeTags(tags: string[] | undefined | null): string[] {
+  const seen = new Set<string>();
+
+  (tags || []).forEach(tag => {
+    const normalized = tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH);
+    if (normalized) seen.add(normalized);
+  });
+
+  return Array.from(seen).slice(0, MAX_TAGS);
+}
+
+/**
+ * Split comma separated tag input, e.g. "work, video" into ['work', 'video']
+ * @param input - Tag input text
+ * @returns Normalized tags
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(','));
+}
+
+/**
+ * Get the category key a subscription is grouped under
+ * @param subscription - The subscription
+ * @returns Its category ID, or UNCATEGORIZED_ID
+ */
+export function getCategoryKey(subscription: Pick<Subscription, 'categoryId'>): string {
+  return subscription.categoryId || UNCATEGORIZED_ID;
+}
+
+/**
+ * Collect every tag in use
+ * @param subscriptions - List of subscriptions
+ * @returns Unique tags sorted alphabetically
+ */
+export function collectTags(subscriptions: Pick<Subscription, 'tags'>[]): string[] {
+  const tags = new Set<string>();
+  subscriptions.forEach(sub => (sub.tags || []).forEach(tag => tags.add(tag)));
+  return Array.from(tags).sort();
+}
+
+/**
+ * Narrow down subscriptions by category and tags
+ * @param subscriptions - List of subscriptions
+ * @param filter - Category and tags to match; empty criteria match everything
+ * @returns Matching subscriptions
+ */
+export function filterSubscriptions<T extends Pick<Subscription, 'categoryId' | 'tags'>>(
+  subscriptions: T[],
+  filter: SubscriptionFilter
+): T[] {
+  const requiredTags = filter.tags || [];
+
+  return subscriptions.filter(sub => {
+    if (filter.categoryId && getCategoryKey(sub) !== filter.categoryId) {
+      return false;
+    }
+    const tags = sub.tags || [];
+    return requiredTags.every(tag => tags.includes(tag));
+  });
+}
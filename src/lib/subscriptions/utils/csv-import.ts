@@ -0,0 +1,264 @@
+import { BillingPeriod, Category, Currency, SubscriptionFormData } from '@/types/subscriptions';
+import { subscriptionSchema } from '@/lib/validations/subscription';
+import { isValidCurrency } from '../config/currencies';
+import { isValidBillingPeriod } from '../config/periods';
+import { normalizeTags } from './categories';
+
+export type ImportField =
+  | 'name'
+  | 'price'
+  | 'currency'
+  | 'billingPeriod'
+  | 'startDate'
+  | 'description'
+  | 'category'
+  | 'tags';
+
+/**
+ * Which CSV column (by index) holds each field; unmapped fields use defaults
+ */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// Order of day, month and year in dates that are not ISO formatted
+export type ImportDateFormat = 'DMY' | 'MDY' | 'YMD';
+
+export interface ImportOptions {
+  dateFormat?: ImportDateFormat;
+  // Used for rows without a currency column or value
+  defaultCurrency?: Currency;
+  // Categories to match category names against
+  categories?: Pick<Category, 'id' | 'name'>[];
+  // Start date for rows without one (default: today)
+  today?: Date;
+}
+
+/**
+ * A data row checked against the subscription schema
+ * - line: 1-based line in the file, counting the header
+ * - data: the subscription to import, null if the row has errors
+ */
+export interface ImportRow {
+  line: number;
+  data: SubscriptionFormData | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'price', label: 'Price', required: true },
+  { field: 'currency', label: 'Currency', required: false },
+  { field: 'billingPeriod', label: 'Billing period', required: false },
+  { field: 'startDate', label: 'Start date', required: false },
+  { field: 'description', label: 'Description', required: false },
+  { field: 'category', label: 'Category', required: false },
+  { field: 'tags', label: 'Tags', required: false },
+];
+
+// Header names recognized for each field, compared lowercase without punctuation
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'subscription', 'service', 'title', 'merchant', 'vendor'],
+  price: ['price', 'amount', 'cost', 'fee', 'total'],
+  currency: ['currency', 'ccy', 'currencycode'],
+  billingPeriod: ['billingperiod', 'period', 'billing', 'frequency', 'cycle', 'interval', 'billingcycle'],
+  startDate: ['startdate', 'start', 'date', 'since', 'started', 'firstpayment', 'firstbilling'],
+  description: ['description', 'notes', 'note', 'comment', 'comments'],
+  category: ['category', 'group', 'type'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+};
+
+const PERIOD_ALIASES: Record<string, BillingPeriod> = {
+  day: 'DAILY',
+  daily: 'DAILY',
+  week: 'WEEKLY',
+  weekly: 'WEEKLY',
+  biweekly: 'BIWEEKLY',
+  fortnightly: 'BIWEEKLY',
+  everytwoweeks: 'BIWEEKLY',
+  month: 'MONTHLY',
+  monthly: 'MONTHLY',
+  mo: 'MONTHLY',
+  quarter: 'QUARTERLY',
+  quarterly: 'QUARTERLY',
+  semiannual: 'SEMIANNUALLY',
+  semiannually: 'SEMIANNUALLY',
+  halfyearly: 'SEMIANNUALLY',
+  biannual: 'SEMIANNUALLY',
+  year: 'YEARLY',
+  yearly: 'YEARLY',
+  annual: 'YEARLY',
+  annually: 'YEARLY',
+  yr: 'YEARLY',
+};
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess the column mapping from the header row
+ * @param headers - Header row of the CSV
+ * @returns Mapping for every field whose column could be identified
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const keys = headers.map(normalizeKey);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = keys.findIndex((key, i) => !used.has(i) && FIELD_ALIASES[field].includes(key));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Parse a price as written in a spreadsheet, e.g. "9.99", "€ 9,99" or "1.234,56"
+ * @param value - Price text
+ * @returns The price, or null if it is not a number
+ */
+export function parsePrice(value: string): number | null {
+  let cleaned = value.replace(/[^\d.,-]/g, '');
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    // Whichever separator comes last is the decimal separator
+    cleaned = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    // A lone comma followed by one or two digits is a decimal comma
+    cleaned = /,\d{1,2}$/.test(cleaned) && cleaned.indexOf(',') === lastComma
+      ? cleaned.replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+/**
+ * Parse a billing period such as "monthly", "Annual" or "QUARTERLY"
+ * @param value - Period text
+ * @returns The billing period, or null if it is not recognized
+ */
+export function parseBillingPeriod(value: string): BillingPeriod | null {
+  const upper = value.trim().toUpperCase();
+  if (upper !== 'CUSTOM' && isValidBillingPeriod(upper)) return upper;
+  return PERIOD_ALIASES[normalizeKey(value)] || null;
+}
+
+/**
+ * Parse a date as YYYY-MM-DD
+ * ISO dates (2024-01-31) are always accepted; other dates with /, . or -
+ * separators are read in the given order.
+ * @param value - Date text
+ * @param format - Order of day, month and year for non-ISO dates
+ * @returns The date as YYYY-MM-DD, or null if it is not a valid date
+ */
+export function parseImportDate(value: string, format: ImportDateFormat = 'DMY'): string | null {
+  const trimmed = value.trim();
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/.exec(trimmed);
+  const parts = iso ? null : /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$/.exec(trimmed);
+
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (parts) {
+    const [a, b, c] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+    if (format === 'YMD') [year, month, day] = [a, b, c];
+    else if (format === 'MDY') [month, day, year] = [a, b, c];
+    else [day, month, year] = [a, b, c];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Turn CSV data rows into subscriptions, validating each against the
+ * subscription schema
+ * @param rows - Data rows, without the header row
+ * @param mapping - Column of each field
+ * @param options - Date format, defaults and categories
+ * @returns One result per row, in order
+ */
+export function prepareImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions = {}
+): ImportRow[] {
+  const { dateFormat = 'DMY', defaultCurrency = 'EUR', categories = [] } = options;
+  const today = (options.today || new Date()).toISOString().slice(0, 10);
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    // Fields that already have a parse error, so the schema does not report them again
+    const failed = new Set<string>();
+    const fail = (field: string, message: string) => {
+      failed.add(field);
+      errors.push(message);
+    };
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] || '').trim();
+    };
+
+    const price = parsePrice(cell('price'));
+    if (price === null) fail('price', `Price "${cell('price')}" is not a number`);
+
+    const currencyText = cell('currency').toUpperCase();
+    const currency = currencyText || defaultCurrency;
+    if (!isValidCurrency(currency)) fail('currency', `Unknown currency "${currencyText}"`);
+
+    const billingPeriod = cell('billingPeriod') ? parseBillingPeriod(cell('billingPeriod')) : 'MONTHLY';
+    if (!billingPeriod) fail('billingPeriod', `Unknown billing period "${cell('billingPeriod')}"`);
+
+    const startDate = cell('startDate') ? parseImportDate(cell('startDate'), dateFormat) : today;
+    if (!startDate) fail('startDate', `Start date "${cell('startDate')}" is not a valid date`);
+
+    let categoryId: string | null = null;
+    if (cell('category')) {
+      const category = categories.find(c => c.name.toLowerCase() === cell('category').toLowerCase());
+      if (category) categoryId = category.id;
+      else warnings.push(`Unknown category "${cell('category')}" was left out`);
+    }
+
+    const candidate = {
+      name: cell('name'),
+      price: price ?? NaN,
+      currency,
+      billingPeriod: billingPeriod || 'MONTHLY',
+      startDate: startDate || today,
+      description: cell('description') || undefined,
+      categoryId,
+      tags: normalizeTags(cell('tags').split(/[,;|]/))
+    };
+
+    const result = subscriptionSchema.safeParse(candidate);
+    if (!result.success) {
+      result.error.issues
+        .filter(issue => !failed.has(String(issue.path[0])))
+        .forEach(issue => errors.push(issue.message));
+    }
+
+    return {
+      line: index + 2,
+      data: errors.length === 0 && result.success ? (result.data as SubscriptionFormData) : null,
+      errors,
+      warnings
+    };
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Minimal RFC 4180 CSV handling: quoted fields, escaped quotes ("") and
+ * line breaks inside quotes. Spreadsheet exports in locales that use a
+ * decimal comma separate fields with semicolons, so the delimiter is detected.
+ */
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Guess the delimiter from the first line
+ * @param text - CSV content
+ * @returns The candidate delimiter occurring most often outside quotes
+ */
+export function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  return DELIMITERS.reduce((best, delimiter) =>
+    counts.get(delimiter)! > counts.get(best)! ? delimiter : best
+  );
+}
+
+/**
+ * Parse CSV content into rows of fields
+ * @param text - CSV content
+ * @param delimiter - Field delimiter (default: detected)
+ * @returns Rows with their fields; blank lines are dropped
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a byte order mark left by spreadsheet exports
+  const content = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Quote a field if it contains the delimiter, quotes or line breaks
+ */
+function escapeCsvField(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Write rows of fields as CSV
+ * @param rows - Rows with their fields, the header row first
+ * @param delimiter - Field delimiter (default: comma)
+ * @returns CSV content with CRLF line endings
+ */
+export function toCsv(rows: string[][], delimiter: string = ','): string {
+  return rows
+    .map(row => row.map(field => escapeCsvField(field, delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
+}
@@ -1,41 +1,76 @@
-import { Currency } from '@/types/subscriptions';
+import { Currency, ExchangeRateTable } from '@/types/subscriptions';
 import { getCurrencyConfig, roundAmount } from '../config/currencies';
+import { findRateToEur, getRateToEur } from './exchange-rates';
+
+/**
+ * Which rates to convert with. Without a table the static rates are used.
+ */
+export interface ConversionOptions {
+  date?: Date;
+  rates?: ExchangeRateTable;
+}
 
 /**
  * Convert an amount from one currency to another
  * @param amount - Amount to convert
  * @param fromCurrency - Source currency
  * @param toCurrency - Target currency
+ * @param options - Rate table and the date whose rates should apply (default: now)
  * @returns Converted amount
+ * @throws Error if no exchange rate is known for either currency
  */
 export function convertCurrency(
   amount: number,
   fromCurrency: Currency,
-  toCurrency: Currency
+  toCurrency: Currency,
+  options: ConversionOptions = {}
 ): number {
   if (fromCurrency === toCurrency) return amount;
 
-  const fromConfig = getCurrencyConfig(fromCurrency);
-  const toConfig = getCurrencyConfig(toCurrency);
+  const { date, rates } = options;
 
   // First convert to EUR (base currency)
-  const amountInEur = amount * fromConfig.exchangeRate;
+  const amountInEur = amount * getRateToEur(fromCurrency, date, rates);
   
   // Then convert to target currency
-  const convertedAmount = amountInEur / toConfig.exchangeRate;
+  const convertedAmount = amountInEur / getRateToEur(toCurrency, date, rates);
   
   // Round according to target currency's decimal places
   return roundAmount(convertedAmount, toCurrency);
 }
 
+/**
+ * Check whether an amount can be converted between two currencies
+ * @param fromCurrency - Source currency
+ * @param toCurrency - Target currency
+ * @param options - Rate table and the date whose rates should apply (default: now)
+ * @returns True if rates are known for both currencies
+ */
+export function canConvertCurrency(
+  fromCurrency: Currency,
+  toCurrency: Currency,
+  options: ConversionOptions = {}
+): boolean {
+  if (fromCurrency === toCurrency) return true;
+
+  const { date, rates } = options;
+  return findRateToEur(fromCurrency, date, rates) !== null &&
+    findRateToEur(toCurrency, date, rates) !== null;
+}
+
 /**
  * Convert an amount to the base currency (EUR)
  * @param amount - Amount to convert
  * @param fromCurrency - Source currency
+ * @param options - Rate table and the date whose rates should apply (default: now)
  * @returns Amount in EUR
  */
-export function convertToBaseCurrency(amount: number, fromCurrency: Currency): number {
-  return convertCurrency(amount, fromCurrency, 'EUR');
+export function convertToBaseCurrency(
+  amount: number,
+  fromCurrency: Currency,
+  options: ConversionOptions = {}
+): number {
+  return convertCurrency(amount, fromCurrency, 'EUR', options);
 }
 
 /**
@@ -1,6 +1,45 @@
 'use client';
 
-import { BillingPeriod } from '@/types/subscriptions';
+import { BillingInterval, SubscriptionTrial } from '@/types/subscriptions';
+import { PeriodLike, toBillingInterval } from './periods';
+
+/**
+ * Advances a date by one billing interval, in place, in UTC like the stored dates.
+ * Months and years keep the billing day, falling on the last day of months
+ * too short for it (a bill on the 31st is charged Feb 29, then Mar 31), the
+ * same rule the calendar feed's recurrence rule follows.
+ *
+ * @param date - The date to advance
+ * @param interval - The billing interval to add
+ * @param billingDay - Day of the month bills fall on (defaults to the date's);
+ * pass the first billing date's when stepping repeatedly, so a bill moved to
+ * the end of a short month returns to its day afterwards
+ * @returns The same date instance, for chaining
+ */
+export function addBillingInterval(
+  date: Date,
+  interval: BillingInterval,
+  billingDay: number = date.getUTCDate()
+): Date {
+  switch (interval.unit) {
+    case 'DAY':
+      date.setUTCDate(date.getUTCDate() + interval.count);
+      break;
+    case 'WEEK':
+      date.setUTCDate(date.getUTCDate() + interval.count * 7);
+      break;
+    case 'MONTH':
+    case 'YEAR': {
+      const months = interval.unit === 'YEAR' ? interval.count * 12 : interval.count;
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + months;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      date.setUTCFullYear(year, month, Math.min(billingDay, lastDay));
+      break;
+    }
+  }
+  return date;
+}
 
 /**
  * Calculates the next billing date for a subscription based on its start date and billing period.
@@ -8,12 +47,16 @@ import { BillingPeriod } from '@/types/subscriptions';
  * Otherwise, calculates the next occurrence of the billing cycle that's in the future.
  * 
  * @param startDate - The subscription's start date in ISO format
- * @param billingPeriod - The billing period (MONTHLY or YEARLY)
+ * @param billingPeriod - The billing period (e.g. MONTHLY) or an explicit billing interval
+ * @param now - The date to find the next billing date after (defaults to now)
  * @returns The next billing date in ISO format
  */
-export function calculateNextBillingDate(startDate: string, billingPeriod: BillingPeriod): string {
+export function calculateNextBillingDate(
+  startDate: string,
+  billingPeriod: PeriodLike,
+  now: Date = new Date()
+): string {
   const start = new Date(startDate);
-  const now = new Date();
   
   // If start date is in the future, that's our first billing date
   if (start > now) {
@@ -21,15 +64,12 @@ export function calculateNextBillingDate(startDate: string, billingPeriod: Billi
   }
 
   // Calculate the next billing date based on the period
+  const interval = toBillingInterval(billingPeriod);
   const nextDate = new Date(startDate);
   
   // Keep incrementing until we find a future date
   while (nextDate <= now) {
-    if (billingPeriod === 'MONTHLY') {
-      nextDate.setMonth(nextDate.getMonth() + 1);
-    } else if (billingPeriod === 'YEARLY') {
-      nextDate.setFullYear(nextDate.getFullYear() + 1);
-    }
+    addBillingInterval(nextDate, interval, start.getUTCDate());
   }
   
   return nextDate.toISOString();
@@ -42,16 +82,16 @@ export function calculateNextBillingDate(startDate: string, billingPeriod: Billi
  * Example:
  * If a monthly subscription started on Jan 1st and its last billing was Apr 1st,
  * but it hasn't been updated since then, this function will calculate the next
- * billing date keeping the same day of the month (1st).
+ * billing date keeping the start date's day of the month (1st).
  * 
  * @param startDate - The subscription's original start date in ISO format
- * @param billingPeriod - The billing period (MONTHLY or YEARLY)
+ * @param billingPeriod - The billing period (e.g. MONTHLY) or an explicit billing interval
  * @param lastBillingDate - The last calculated billing date in ISO format
  * @returns The next billing date in ISO format
  */
 export function calculateNextBillingDateFromPast(
   startDate: string,
-  billingPeriod: BillingPeriod,
+  billingPeriod: PeriodLike,
   lastBillingDate: string
 ): string {
   const start = new Date(startDate);
@@ -64,17 +104,69 @@ export function calculateNextBillingDateFromPast(
   }
 
   // Calculate the next billing date from the last one
+  const interval = toBillingInterval(billingPeriod);
   const nextDate = new Date(lastBillingDate);
   
   // Keep incrementing until we find a future date
-  // This preserves the day of month/year from the last billing date
+  // This preserves the day of month from the start date
   while (nextDate <= now) {
-    if (billingPeriod === 'MONTHLY') {
-      nextDate.setMonth(nextDate.getMonth() + 1);
-    } else if (billingPeriod === 'YEARLY') {
-      nextDate.setFullYear(nextDate.getFullYear() + 1);
-    }
+    addBillingInterval(nextDate, interval, start.getUTCDate());
   }
   
   return nextDate.toISOString();
-}
\ No newline at end of file
+}
+
+/**
+ * Calculates the first date a subscription is actually charged.
+ * Subscriptions on a trial are first billed when the trial converts to paid;
+ * all others are first billed on their start date.
+ *
+ * @param startDate - The subscription's start date in ISO format
+ * @param trial - The subscription's trial, if any
+ * @returns The first billing date in ISO format
+ */
+export function calculateFirstBillingDate(
+  startDate: string,
+  trial?: SubscriptionTrial | null
+): string {
+  if (trial?.endDate) {
+    return new Date(trial.endDate).toISOString();
+  }
+  return new Date(startDate).toISOString();
+}
+
+/**
+ * Checks whether a trial is running on the given date
+ *
+ * @param trial - The subscription's trial, if any
+ * @param date - The date to check (defaults to now)
+ * @returns True if the date falls within the trial
+ */
+export function isInTrial(trial: SubscriptionTrial | null | undefined, date: Date = new Date()): boolean {
+  if (!trial?.endDate) return false;
+  const start = new Date(trial.startDate);
+  const end = new Date(trial.endDate);
+  return date >= start && date < end;
+}
+
+/**
+ * Calculates the number of whole days left until a trial converts to paid,
+ * counting calendar days in UTC like the stored dates. A trial ending later
+ * today returns 0.
+ *
+ * @param trial - The subscription's trial, if any
+ * @param date - The date to count from (defaults to now)
+ * @returns Days remaining, or null if there is no running trial
+ */
+export function getTrialDaysRemaining(
+  trial: SubscriptionTrial | null | undefined,
+  date: Date = new Date()
+): number | null {
+  if (!trial || !isInTrial(trial, date)) return null;
+
+  const msPerDay = 24 * 60 * 60 * 1000;
+  const end = new Date(trial.endDate);
+  const endDay = Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate());
+  const today = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return Math.max(0, Math.round((endDay - today) / msPerDay));
+}
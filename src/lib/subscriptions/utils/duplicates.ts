@@ -0,0 +1,20 @@
+import { SubscriptionFormData } from '@/types/subscriptions';
+import { normalizeBillingPeriod } from '../config/periods';
+
+export type DuplicateKeyFields = Pick<SubscriptionFormData, 'name' | 'price' | 'currency' | 'billingPeriod'>;
+
+/**
+ * Key identifying likely duplicates: same name, price, currency and period
+ * Names are compared trimmed and case-insensitively; legacy lowercase periods
+ * match their presets.
+ * @param subscription - The subscription, or subscription data to be added
+ * @returns The key
+ */
+export function getDuplicateKey(subscription: DuplicateKeyFields): string {
+  return [
+    subscription.name.trim().toLowerCase(),
+    subscription.price,
+    subscription.currency,
+    normalizeBillingPeriod(subscription.billingPeriod)
+  ].join('|');
+}
@@ -0,0 +1,103 @@
+import { Currency, ExchangeRateSnapshot, ExchangeRateTable } from '@/types/subscriptions';
+import { getCurrencyConfig } from '../config/currencies';
+
+/**
+ * Format a date as the YYYY-MM-DD key used by rate snapshots
+ * @param date - Date to format
+ * @returns Date key in UTC
+ */
+export function toRateDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Sort snapshots by date and merge duplicates (later entries win)
+ * @param snapshots - Snapshots in any order
+ * @returns A rate table sorted oldest first
+ */
+export function createRateTable(snapshots: ExchangeRateSnapshot[]): ExchangeRateTable {
+  const byDate = new Map<string, ExchangeRateSnapshot['rates']>();
+
+  snapshots.forEach(snapshot => {
+    byDate.set(snapshot.date, { ...byDate.get(snapshot.date), ...snapshot.rates });
+  });
+
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, rates]) => ({ date, rates }));
+}
+
+/**
+ * Find the snapshot in effect on a date: the latest one published on or before it
+ * @param table - Rate table sorted oldest first
+ * @param date - The relevant date
+ * @returns The effective snapshot, or null if none was published yet
+ */
+export function findEffectiveRates(
+  table: ExchangeRateTable | undefined,
+  date: Date = new Date()
+): ExchangeRateSnapshot | null {
+  if (!table || table.length === 0) return null;
+
+  const key = toRateDateKey(date);
+  let low = 0;
+  let high = table.length - 1;
+  let match: ExchangeRateSnapshot | null = null;
+
+  // Binary search for the last snapshot with date <= key
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (table[mid].date <= key) {
+      match = table[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Find the value of one unit of a currency in EUR on a date.
+ * Falls back to the static rate from the currency config when no dated rate is known.
+ * @param currency - Currency to look up
+ * @param date - The relevant date
+ * @param table - Known historical rates
+ * @returns Rate to EUR (e.g. 0.92 for USD), or null if no rate is known at all
+ */
+export function findRateToEur(
+  currency: Currency,
+  date?: Date,
+  table?: ExchangeRateTable
+): number | null {
+  if (currency === 'EUR') return 1;
+
+  // Snapshots are quoted ECB style: units of currency per 1 EUR
+  const unitsPerEur = findEffectiveRates(table, date)?.rates[currency];
+  if (unitsPerEur && unitsPerEur > 0) {
+    return 1 / unitsPerEur;
+  }
+
+  return getCurrencyConfig(currency).exchangeRate ?? null;
+}
+
+/**
+ * Get the value of one unit of a currency in EUR on a date
+ * @param currency - Currency to look up
+ * @param date - The relevant date
+ * @param table - Known historical rates
+ * @returns Rate to EUR (e.g. 0.92 for USD)
+ * @throws Error if no rate is known for the currency
+ */
+export function getRateToEur(
+  currency: Currency,
+  date?: Date,
+  table?: ExchangeRateTable
+): number {
+  const rate = findRateToEur(currency, date, table);
+  if (rate === null) {
+    throw new Error(`No exchange rate known for ${currency}`);
+  }
+  return rate;
+}
@@ -0,0 +1,191 @@
+import { BillingInterval, Subscription } from '@/types/subscriptions';
+import { getEffectivePrice } from './calculations';
+import { formatCurrency } from './currency';
+import { calculateFirstBillingDate, calculateNextBillingDate } from './dates';
+import { isCancelled } from './cancellation';
+import { formatBillingInterval, getBillingInterval } from './periods';
+
+export interface CalendarOptions {
+  // Calendar name shown by calendar apps
+  name?: string;
+  // Timestamp of the feed (default: now)
+  now?: Date;
+  // Reminder days per subscription, added as alarms
+  getReminderDays?: (subscription: Subscription) => number[];
+}
+
+const PRODUCT_ID = '-//Subscription Tracker//Billing Calendar//EN';
+const UID_DOMAIN = 'subscription-tracker';
+
+const FREQUENCIES: Record<BillingInterval['unit'], string> = {
+  DAY: 'DAILY',
+  WEEK: 'WEEKLY',
+  MONTH: 'MONTHLY',
+  YEAR: 'YEARLY',
+};
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 section 3.1)
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Build the recurrence rule for a billing interval starting on a date
+ * Monthly and yearly bills on days some months lack (29th-31st) fall on the
+ * last day of shorter months instead of being skipped, as RRULE would by
+ * default. This is the rule addBillingInterval follows, so calendar apps show
+ * the dates the app bills on.
+ * @param interval - Billing interval
+ * @param start - First billing date
+ * @returns RRULE value, e.g. "FREQ=MONTHLY;INTERVAL=3"
+ */
+export function toRecurrenceRule(interval: BillingInterval, start: Date): string {
+  const parts = [`FREQ=${FREQUENCIES[interval.unit]}`];
+  if (interval.count > 1) {
+    parts.push(`INTERVAL=${interval.count}`);
+  }
+
+  const day = start.getUTCDate();
+  if ((interval.unit === 'MONTH' || interval.unit === 'YEAR') && day > 28) {
+    if (interval.unit === 'YEAR') {
+      parts.push(`BYMONTH=${start.getUTCMonth() + 1}`);
+    }
+    const days = Array.from({ length: day - 27 }, (_, i) => 28 + i);
+    parts.push(`BYMONTHDAY=${days.join(',')}`, 'BYSETPOS=-1');
+  }
+
+  return parts.join(';');
+}
+
+function buildEvent(subscription: Subscription, stamp: string, options: CalendarOptions): string[] {
+  const interval = getBillingInterval(subscription);
+  const firstBillingDate = new Date(calculateFirstBillingDate(subscription.startDate, subscription.trial));
+  const price = formatCurrency(getEffectivePrice(subscription), subscription.currency);
+  const nextBillingDate = new Date(calculateNextBillingDate(firstBillingDate.toISOString(), interval));
+  const cancellation = isCancelled(subscription) ? subscription.cancellation! : null;
+
+  const description = [
+    `${price} every ${formatBillingInterval(interval)}`,
+    cancellation
+      ? `Cancelled, service ends: ${cancellation.effectiveEndDate.slice(0, 10)}`
+      : `Next charge: ${nextBillingDate.toISOString().slice(0, 10)}`,
+    subscription.description
+  ].filter(Boolean).join('\n');
+
+  // A cancelled subscription stops recurring before the charge on its end date
+  let rule = toRecurrenceRule(interval, firstBillingDate);
+  if (cancellation) {
+    const lastDay = new Date(cancellation.effectiveEndDate);
+    lastDay.setUTCDate(lastDay.getUTCDate() - 1);
+    rule += `;UNTIL=${formatDate(lastDay)}`;
+  }
+
+  const end = new Date(firstBillingDate);
+  end.setUTCDate(end.getUTCDate() + 1);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${subscription.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${formatDate(firstBillingDate)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `RRULE:${rule}`,
+    `SUMMARY:${escapeText(`${subscription.name} (${price})`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'TRANSP:TRANSPARENT'
+  ];
+
+  if (subscription.tags && subscription.tags.length > 0) {
+    lines.push(`CATEGORIES:${subscription.tags.map(escapeText).join(',')}`);
+  }
+
+  for (const days of options.getReminderDays?.(subscription) || []) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`${subscription.name} renews`)}`,
+      `TRIGGER:-P${days}D`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Whether a subscription is charged at least once before any cancellation takes effect
+function isEverCharged(subscription: Subscription): boolean {
+  if (!isCancelled(subscription)) return true;
+  const firstBillingDate = calculateFirstBillingDate(subscription.startDate, subscription.trial);
+  return new Date(firstBillingDate) < new Date(subscription.cancellation!.effectiveEndDate);
+}
+
+/**
+ * Build an iCalendar (RFC 5545) feed with one recurring all-day event per
+ * enabled subscription, repeating on its billing dates until any cancellation
+ * takes effect
+ * @param subscriptions - Subscriptions to include; disabled ones, and cancelled
+ * ones never charged, are skipped
+ * @param options - Calendar name, timestamp and reminders
+ * @returns The calendar as text/calendar content
+ */
+export function buildCalendar(subscriptions: Subscription[], options: CalendarOptions = {}): string {
+  const stamp = formatDateTime(options.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name || 'Subscriptions')}`,
+    // Ask calendar apps to refresh twice a day
+    'REFRESH-INTERVAL;VALUE=DURATION:PT12H',
+    'X-PUBLISHED-TTL:PT12H',
+    ...subscriptions
+      .filter(subscription => !subscription.disabled && isEverCharged(subscription))
+      .flatMap(subscription => buildEvent(subscription, stamp, options)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
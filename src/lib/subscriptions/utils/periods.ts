@@ -1,56 +1,107 @@
-import { BillingPeriod } from '@/types/subscriptions';
-import { getPeriodConfig, isValidBillingPeriod } from '../config/periods';
+import { BillingPeriod, BillingInterval, SubscriptionFormData } from '@/types/subscriptions';
+import {
+  INTERVAL_UNITS,
+  getIntervalDays,
+  getIntervalMonths,
+  isValidBillingInterval,
+  isValidBillingPeriod,
+  resolveBillingInterval
+} from '../config/periods';
+
+/**
+ * A billing cycle given either as a named period or as an explicit interval
+ */
+export type PeriodLike = BillingPeriod | BillingInterval;
+
+/**
+ * Resolve a period or interval to a concrete interval
+ * @param period - Named period or explicit interval
+ * @returns The billing interval
+ * @throws Error if invalid period provided
+ */
+export function toBillingInterval(period: PeriodLike): BillingInterval {
+  if (typeof period === 'string') {
+    if (!isValidBillingPeriod(period)) {
+      throw new Error(`Invalid billing period provided: ${period}`);
+    }
+    return resolveBillingInterval(period);
+  }
+
+  if (!isValidBillingInterval(period)) {
+    throw new Error(`Invalid billing interval provided: ${JSON.stringify(period)}`);
+  }
+  return period;
+}
+
+/**
+ * Get the effective billing interval of a subscription
+ * @param subscription - Anything carrying a billingPeriod and optional billingInterval
+ * @returns The billing interval
+ */
+export function getBillingInterval(
+  subscription: Pick<SubscriptionFormData, 'billingPeriod' | 'billingInterval'>
+): BillingInterval {
+  return resolveBillingInterval(subscription.billingPeriod, subscription.billingInterval);
+}
 
 /**
  * Convert an amount from one billing period to another
  * @param amount - Amount to convert
- * @param fromPeriod - Source billing period
- * @param toPeriod - Target billing period
+ * @param fromPeriod - Source billing period or interval
+ * @param toPeriod - Target billing period or interval
  * @returns Converted amount
  * @throws Error if invalid period provided
  */
 export function convertBetweenPeriods(
   amount: number,
-  fromPeriod: BillingPeriod,
-  toPeriod: BillingPeriod
+  fromPeriod: PeriodLike,
+  toPeriod: PeriodLike
 ): number {
   // Validate periods
-  if (!isValidBillingPeriod(fromPeriod) || !isValidBillingPeriod(toPeriod)) {
-    throw new Error(`Invalid billing period provided: ${fromPeriod} or ${toPeriod}`);
-  }
-
-  // If same period, return original amount
-  if (fromPeriod === toPeriod) return amount;
+  const fromInterval = toBillingInterval(fromPeriod);
+  const toInterval = toBillingInterval(toPeriod);
 
-  const fromConfig = getPeriodConfig(fromPeriod);
-  const toConfig = getPeriodConfig(toPeriod);
+  // If same interval, return original amount
+  if (fromInterval.unit === toInterval.unit && fromInterval.count === toInterval.count) {
+    return amount;
+  }
 
   // Convert using months as the common denominator
-  return amount * (toConfig.monthsInPeriod / fromConfig.monthsInPeriod);
+  return amount * (getIntervalMonths(toInterval) / getIntervalMonths(fromInterval));
+}
+
+/**
+ * Describe a billing interval for display, e.g. "month" or "3 months"
+ * @param interval - Billing interval
+ * @returns Human readable interval
+ */
+export function formatBillingInterval(interval: BillingInterval): string {
+  const unit = INTERVAL_UNITS[interval.unit];
+  return interval.count === 1 ? unit.singular : `${interval.count} ${unit.plural}`;
 }
 
 /**
  * Calculate the next billing date based on the current date and billing period
  * @param startDate - Initial subscription date
- * @param billingPeriod - Billing frequency
+ * @param billingPeriod - Billing frequency, as a named period or explicit interval
  * @returns Next billing date as ISO string
  */
 export function calculateNextBillingDate(
   startDate: string,
-  billingPeriod: BillingPeriod
+  billingPeriod: PeriodLike
 ): string {
   const date = new Date(startDate);
   const today = new Date();
-  
+
   // If start date is in the future, that's the next billing date
   if (date > today) {
     return date.toISOString();
   }
 
-  const config = getPeriodConfig(billingPeriod);
+  const interval = toBillingInterval(billingPeriod);
   const timeDiff = today.getTime() - date.getTime();
-  const periodInMs = config.daysInPeriod * 24 * 60 * 60 * 1000;
-  
+  const periodInMs = getIntervalDays(interval) * 24 * 60 * 60 * 1000;
+
   // Calculate how many periods have elapsed and add one more
   const periodsElapsed = Math.ceil(timeDiff / periodInMs);
   const nextBillingDate = new Date(date.getTime() + (periodsElapsed * periodInMs));
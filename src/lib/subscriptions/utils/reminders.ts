@@ -0,0 +1,71 @@
+import { Subscription, UserPreferences } from '@/types/subscriptions';
+import { MAX_REMINDER_OFFSETS, isValidReminderDay } from '../config/reminders';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Clean up reminder days: whole days in range, without duplicates, furthest first
+ * @param days - Days as entered
+ * @returns Normalized reminder days
+ */
+export function normalizeReminderDays(days: number[] | undefined | null): number[] {
+  return Array.from(new Set((days || []).filter(isValidReminderDay)))
+    .sort((a, b) => b - a)
+    .slice(0, MAX_REMINDER_OFFSETS);
+}
+
+/**
+ * Get the reminder days that apply to a subscription
+ * @param subscription - Subscription, possibly with its own reminder days
+ * @param preferences - The owner's preferences
+ * @returns The subscription's own days if set, otherwise the owner's
+ */
+export function getReminderDays(
+  subscription: Pick<Subscription, 'reminderDays'>,
+  preferences: Pick<UserPreferences, 'reminderDays'>
+): number[] {
+  return normalizeReminderDays(subscription.reminderDays ?? preferences.reminderDays);
+}
+
+/**
+ * Count the days left until a date, rounded up to whole days
+ * @param date - Date to count to
+ * @param now - Reference date (default: now)
+ * @returns Days left, negative once the date has passed
+ */
+export function getDaysUntil(date: string | Date, now: Date = new Date()): number {
+  return Math.ceil((new Date(date).getTime() - now.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Find the reminder that is due for a bill
+ * Of all reminders whose time has come only the closest one to the bill is
+ * returned, so a bill first seen a day before renewal does not also trigger
+ * the week-ahead reminder.
+ * @param billingDate - Date of the upcoming bill
+ * @param reminderDays - Days before the bill to remind
+ * @param now - Reference date (default: now)
+ * @returns Days before the bill of the due reminder, or null if none is due
+ */
+export function getDueReminderDay(
+  billingDate: string | Date,
+  reminderDays: number[],
+  now: Date = new Date()
+): number | null {
+  const daysUntil = getDaysUntil(billingDate, now);
+  if (daysUntil < 0) return null;
+
+  const due = reminderDays.filter(day => day >= daysUntil);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * Split comma separated reminder input, e.g. "7, 1" into [7, 1]
+ * @param input - Reminder days as entered
+ * @returns Normalized reminder days; entries that are not whole days are dropped
+ */
+export function parseReminderDaysInput(input: string): number[] {
+  return normalizeReminderDays(
+    input.split(',').filter(part => part.trim() !== '').map(part => Number(part.trim()))
+  );
+}
@@ -0,0 +1,167 @@
+import { Subscription, SubscriptionFormData } from '@/types/subscriptions';
+import { SubscriptionApi, SubscriptionRequestError, toFormData } from '../api';
+import { calculateFirstBillingDate, calculateNextBillingDate } from './dates';
+import { getBillingInterval } from './periods';
+
+/**
+ * A change made on this device that the server has not seen yet
+ * Mutations only name the subscription; what is sent is read from the local
+ * copy when the mutation is replayed, so later edits ride along.
+ */
+export interface PendingMutation {
+  // delete moves the subscription to the trash, purge deletes it for good
+  type: 'create' | 'update' | 'delete' | 'restore' | 'purge';
+  subscriptionId: string;
+  queuedAt: string;
+}
+
+// synced: nothing pending; offline and error: changes wait for the next attempt
+export type SyncStatus = 'synced' | 'syncing' | 'offline' | 'error';
+
+/**
+ * Outcome of replaying one mutation
+ * - saved: the server's copy after a create or update
+ * - removed: the subscription is gone from the server, or in its trash
+ * - conflict: the server's copy changed since the local one was loaded
+ * - rejected: the server refused the change and will not accept it on retry
+ */
+export type SyncResult =
+  | { outcome: 'saved'; subscription: Subscription }
+  | { outcome: 'removed' }
+  | { outcome: 'conflict'; current: Subscription }
+  | { outcome: 'rejected'; error: Error };
+
+/**
+ * Add a mutation to the queue, folding it into any pending one for the same subscription
+ * - An update is covered by a pending create or update
+ * - A delete or purge cancels a pending create outright
+ * - A delete and a restore cancel each other out
+ * - A purge replaces pending updates and restores but keeps a pending delete,
+ *   as only subscriptions in the trash can be purged
+ * @param queue - Pending mutations, oldest first
+ * @param mutation - The new mutation
+ * @returns The new queue
+ */
+export function queueMutation(queue: PendingMutation[], mutation: PendingMutation): PendingMutation[] {
+  const pending = queue.filter(m => m.subscriptionId === mutation.subscriptionId);
+  const others = queue.filter(m => m.subscriptionId !== mutation.subscriptionId);
+  const isPending = (type: PendingMutation['type']) => pending.some(m => m.type === type);
+  const without = (type: PendingMutation['type']) =>
+    queue.filter(m => m.subscriptionId !== mutation.subscriptionId || m.type !== type);
+
+  switch (mutation.type) {
+    case 'create':
+      return [...queue, mutation];
+    case 'update':
+      return isPending('create') || isPending('update') ? queue : [...queue, mutation];
+    case 'delete':
+      if (isPending('create')) return others;
+      return isPending('restore') ? without('restore') : [...queue, mutation];
+    case 'restore':
+      return isPending('delete') ? without('delete') : [...queue, mutation];
+    case 'purge':
+      if (isPending('create')) return others;
+      return [...others, ...pending.filter(m => m.type === 'delete'), mutation];
+  }
+}
+
+/**
+ * Put a mutation that could not be sent back at the front of the queue
+ * Mutations queued while it was in flight are folded into it.
+ */
+export function requeueMutation(queue: PendingMutation[], mutation: PendingMutation): PendingMutation[] {
+  return queue.reduce(queueMutation, [mutation]);
+}
+
+/**
+ * Point pending mutations at a subscription's new ID, once a create has been saved
+ */
+export function renameQueuedSubscription(queue: PendingMutation[], from: string, to: string): PendingMutation[] {
+  return queue.map(m => (m.subscriptionId === from ? { ...m, subscriptionId: to } : m));
+}
+
+/**
+ * Apply an edit to the local copy of a subscription before queueing its update
+ * A trial set to null stays null, so the update sent tells the server to remove it.
+ * @param subscription - The local copy
+ * @param data - The edited fields
+ * @returns The edited copy
+ */
+export function applyLocalUpdate(subscription: Subscription, data: Partial<SubscriptionFormData>): Subscription {
+  const billingInterval = getBillingInterval({
+    billingPeriod: data.billingPeriod || subscription.billingPeriod,
+    billingInterval: data.billingInterval || subscription.billingInterval
+  });
+
+  const trial = data.trial === undefined ? subscription.trial : data.trial;
+
+  return {
+    ...subscription,
+    ...data,
+    billingInterval,
+    trial,
+    updatedAt: new Date().toISOString(),
+    nextBillingDate: data.startDate || data.billingPeriod || data.billingInterval || data.trial !== undefined
+      ? calculateNextBillingDate(
+          calculateFirstBillingDate(data.startDate || subscription.startDate, trial),
+          billingInterval
+        )
+      : subscription.nextBillingDate
+  };
+}
+
+/**
+ * Whether a failed request may succeed later, e.g. once the device is back
+ * online. A 401 is final: replaying it would only fail the same way
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof SubscriptionRequestError)) return true;
+  return error.status >= 500 || [408, 429].includes(error.status);
+}
+
+/**
+ * Send one mutation to the server
+ * @param mutation - The mutation
+ * @param local - The local copy of the subscription, if it still exists
+ * @param api - Subscriptions API client
+ * @returns What became of the mutation
+ * @throws If the request failed in a way worth retrying, see isRetryableError
+ */
+export async function syncMutation(
+  mutation: PendingMutation,
+  local: Subscription | undefined,
+  api: SubscriptionApi
+): Promise<SyncResult> {
+  try {
+    switch (mutation.type) {
+      case 'delete':
+        await api.remove(mutation.subscriptionId);
+        return { outcome: 'removed' };
+      case 'purge':
+        await api.purge(mutation.subscriptionId);
+        return { outcome: 'removed' };
+      case 'restore':
+        return { outcome: 'saved', subscription: await api.restore(mutation.subscriptionId) };
+    }
+
+    // Purged locally since; the purge took care of it
+    if (!local) return { outcome: 'removed' };
+
+    // New subscriptions start enabled; a disabled one needs an update after
+    if (mutation.type === 'create') {
+      return { outcome: 'saved', subscription: await api.create(toFormData(local)) };
+    }
+
+    return {
+      outcome: 'saved',
+      subscription: await api.update(local.id, { ...toFormData(local), disabled: local.disabled }, local.version)
+    };
+  } catch (error) {
+    if (error instanceof SubscriptionRequestError) {
+      if (error.status === 404) return { outcome: 'removed' };
+      if (error.status === 409 && error.current) return { outcome: 'conflict', current: error.current };
+    }
+    if (isRetryableError(error)) throw error;
+    return { outcome: 'rejected', error: error as Error };
+  }
+}
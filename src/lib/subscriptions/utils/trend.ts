@@ -0,0 +1,134 @@
+import { Currency, PriceChange, SpendingTrend, Subscription } from '@/types/subscriptions';
+import { canConvertCurrency, convertCurrency, ConversionOptions } from './currency';
+import { addBillingInterval, calculateFirstBillingDate } from './dates';
+import { getBillingInterval } from './periods';
+import { getEffectivePrice } from './calculations';
+import { isCancelled } from './cancellation';
+import { roundAmount } from '../config/currencies';
+import { TREND_HISTORY_MONTHS, TREND_PROJECTION_MONTHS } from '../config/analytics';
+
+/**
+ * Options for buildSpendingTrend
+ * - currency: the currency to total in (default: EUR)
+ * - date: the day that separates history from projection (default: now)
+ * - rates: historical exchange rates; the static rates are used without them
+ * - historyMonths / projectionMonths: how many months to cover either side
+ *   of the current month
+ */
+export interface TrendOptions extends ConversionOptions {
+  currency?: Currency;
+  historyMonths?: number;
+  projectionMonths?: number;
+}
+
+// First day of the month offset months away from the date's month, in UTC
+function startOfMonth(date: Date, offset: number = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1));
+}
+
+function toMonthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Get the price a subscription charged on a date
+ * @param subscription - The subscription
+ * @param history - The subscription's price changes, oldest first
+ * @param date - The charge date
+ * @returns The price and currency in effect on the date; the current ones
+ * if the price has not changed since
+ */
+export function getPriceOn(
+  subscription: Subscription,
+  history: PriceChange[],
+  date: Date
+): { price: number; currency: Currency } {
+  const nextChange = history.find(change => new Date(change.effectiveDate) > date);
+  if (nextChange) {
+    return {
+      price: nextChange.oldPrice,
+      currency: nextChange.previousCurrency || nextChange.currency
+    };
+  }
+  return { price: getEffectivePrice(subscription), currency: subscription.currency };
+}
+
+/**
+ * Replay subscriptions into what was charged each month, and project the
+ * coming months at current prices.
+ * Charges start at the first billing date (after any trial), use the price
+ * in effect at the time, and stop when a cancellation takes effect. Past
+ * charges are converted at that day's exchange rate, upcoming ones at today's.
+ * Disabled subscriptions and those in the trash are left out, as in the summary.
+ *
+ * @param subscriptions - List of all subscriptions
+ * @param priceHistory - Price changes of the subscriptions, oldest first
+ * @param options - Target currency, reference date, exchange rates and range
+ * @returns Monthly totals from the first charge (at most historyMonths back)
+ * to projectionMonths after the current month
+ */
+export function buildSpendingTrend(
+  subscriptions: Subscription[],
+  priceHistory: PriceChange[],
+  options: TrendOptions = {}
+): SpendingTrend {
+  const targetCurrency = options.currency || 'EUR';
+  const date = options.date || new Date();
+  const currentMonth = startOfMonth(date);
+  const rangeEnd = startOfMonth(date, (options.projectionMonths ?? TREND_PROJECTION_MONTHS) + 1);
+  const included = subscriptions.filter(sub => !sub.disabled && !sub.deletedAt);
+
+  // Start with the month of the first charge, but go no further back than the history limit
+  const firstCharge = included.reduce((earliest, sub) => {
+    const first = new Date(calculateFirstBillingDate(sub.startDate, sub.trial));
+    return first < earliest ? first : earliest;
+  }, currentMonth);
+  const rangeStart = new Date(Math.max(
+    startOfMonth(firstCharge).getTime(),
+    startOfMonth(date, -(options.historyMonths ?? TREND_HISTORY_MONTHS)).getTime()
+  ));
+
+  const months: string[] = [];
+  for (let month = rangeStart; month < rangeEnd; month = startOfMonth(month, 1)) {
+    months.push(toMonthKey(month));
+  }
+
+  const totals: Record<string, number> = {};
+  const unconvertedCurrencies: Currency[] = [];
+
+  for (const sub of included) {
+    const history = priceHistory.filter(change => change.subscriptionId === sub.id);
+    const interval = getBillingInterval(sub);
+    const end = isCancelled(sub) ? new Date(sub.cancellation!.effectiveEndDate) : rangeEnd;
+    const billingDate = new Date(calculateFirstBillingDate(sub.startDate, sub.trial));
+    const billingDay = billingDate.getUTCDate();
+
+    for (; billingDate < rangeEnd && billingDate < end; addBillingInterval(billingDate, interval, billingDay)) {
+      if (billingDate < rangeStart) continue;
+
+      const { price, currency } = getPriceOn(sub, history, billingDate);
+      // Future rates are unknown, so upcoming charges use today's
+      const conversion = { date: billingDate < date ? billingDate : date, rates: options.rates };
+
+      if (!canConvertCurrency(currency, targetCurrency, conversion)) {
+        if (!unconvertedCurrencies.includes(currency)) {
+          unconvertedCurrencies.push(currency);
+        }
+        continue;
+      }
+
+      const month = toMonthKey(billingDate);
+      totals[month] = (totals[month] || 0) + convertCurrency(price, currency, targetCurrency, conversion);
+    }
+  }
+
+  return {
+    currency: targetCurrency,
+    points: months.map(month => ({
+      month,
+      total: roundAmount(totals[month] || 0, targetCurrency),
+      projected: month > toMonthKey(currentMonth)
+    })),
+    unconvertedCurrencies
+  };
+}
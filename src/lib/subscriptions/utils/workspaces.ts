@@ -0,0 +1,95 @@
+import { CostSplit } from '@/types/subscriptions';
+import { Workspace, WorkspaceRoleId } from '@/types/workspaces';
+import { WORKSPACE_ROLE_ORDER } from '../config/workspaces';
+
+/**
+ * Get a user's role in a workspace
+ * @param workspace - The workspace
+ * @param userId - The user's ID
+ * @returns The role ID, or null if the user is not a member
+ */
+export function getMemberRole(workspace: Workspace, userId: string): WorkspaceRoleId | null {
+  return workspace.members.find(member => member.userId === userId)?.role.id ?? null;
+}
+
+/**
+ * Check whether a user has at least the given role in a workspace
+ * @param workspace - The workspace
+ * @param userId - The user's ID
+ * @param minimum - The least role that is enough
+ * @returns True if the user's role is the minimum or above
+ */
+export function hasWorkspaceRole(workspace: Workspace, userId: string, minimum: WorkspaceRoleId): boolean {
+  const role = getMemberRole(workspace, userId);
+  return role !== null && WORKSPACE_ROLE_ORDER.indexOf(role) >= WORKSPACE_ROLE_ORDER.indexOf(minimum);
+}
+
+/**
+ * Check whether a member is the only owner, who cannot leave or be demoted
+ * @param workspace - The workspace
+ * @param userId - The member's user ID
+ * @returns True if no other member is an owner
+ */
+export function isLastOwner(workspace: Workspace, userId: string): boolean {
+  return getMemberRole(workspace, userId) === 'owner' &&
+    workspace.members.filter(member => member.role.id === 'owner').length === 1;
+}
+
+/**
+ * Get the user IDs a split refers to
+ * @param split - The split
+ * @returns The members listed in the split, in no particular order
+ */
+export function getSplitMembers(split: CostSplit): string[] {
+  switch (split.type) {
+    case 'EQUAL':
+      return split.members || [];
+    case 'PERCENTAGE':
+      return Object.keys(split.shares);
+    case 'FIXED':
+      return Object.keys(split.amounts);
+  }
+}
+
+/**
+ * Work out which part of a subscription's cost each member pays.
+ * Members who left are ignored; whatever the split leaves unassigned, such
+ * as their part or percentages adding up to less than 100, is divided
+ * evenly between all members.
+ *
+ * @param split - The split; an equal split between all members when not set
+ * @param price - The price per billing period, which fixed amounts are part of
+ * @param members - User IDs of the workspace's members
+ * @returns Each member's fraction of the cost, adding up to 1
+ */
+export function getSplitShares(
+  split: CostSplit | null | undefined,
+  price: number,
+  members: string[]
+): Record<string, number> {
+  const shares: Record<string, number> = {};
+  if (members.length === 0) return shares;
+
+  let assigned = 0;
+  const assign = (userId: string, share: number) => {
+    shares[userId] = (shares[userId] || 0) + share;
+    assigned += share;
+  };
+
+  if (split?.type === 'PERCENTAGE') {
+    members.forEach(userId => assign(userId, (split.shares[userId] || 0) / 100));
+  } else if (split?.type === 'FIXED') {
+    members.forEach(userId => assign(userId, price > 0 ? (split.amounts[userId] || 0) / price : 0));
+  } else {
+    const participants = (split?.members || []).filter(userId => members.includes(userId));
+    const payers = participants.length > 0 ? participants : members;
+    payers.forEach(userId => assign(userId, 1 / payers.length));
+  }
+
+  const remainder = Math.max(0, 1 - assigned);
+  members.forEach(userId => {
+    shares[userId] = (shares[userId] || 0) + remainder / members.length;
+  });
+
+  return shares;
+}
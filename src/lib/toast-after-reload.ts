@@ -0,0 +1,34 @@
+const STORAGE_KEY = 'pending-toast';
+
+export interface PendingToast {
+  title: string;
+  description?: string;
+  variant?: 'default' | 'destructive';
+}
+
+/**
+ * Reloads the page and shows the toast afterwards. A toast raised right
+ * before window.location.reload() is gone with the page, so it's kept in
+ * sessionStorage until the Toaster mounts again.
+ */
+export function reloadWithToast(toast: PendingToast): void {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(toast));
+  } catch (error) {
+    console.error('Error saving toast for after reload:', error);
+  }
+  window.location.reload();
+}
+
+/** Returns the toast stored by reloadWithToast, if any, and forgets it */
+export function takeToastAfterReload(): PendingToast | null {
+  try {
+    const item = sessionStorage.getItem(STORAGE_KEY);
+    if (!item) return null;
+    sessionStorage.removeItem(STORAGE_KEY);
+    return JSON.parse(item) as PendingToast;
+  } catch (error) {
+    console.error('Error reading toast saved before reload:', error);
+    return null;
+  }
+}
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { Currency } from '@/types/subscriptions';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+import { categorySchema } from './category';
+
+const currencySchema = z.enum(CURRENCY_ORDER as [Currency, ...Currency[]]);
+
+export const backupPriceChangeSchema = z.object({
+  effectiveDate: z.string().refine(date => !isNaN(Date.parse(date)), 'Invalid date'),
+  oldPrice: z.number().min(0, 'Price must be a positive number'),
+  newPrice: z.number().min(0, 'Price must be a positive number'),
+  currency: currencySchema,
+  previousCurrency: currencySchema.optional(),
+});
+
+// Subscriptions are left unchecked here so that an import can skip invalid
+// ones individually instead of rejecting the whole backup
+export const backupSchema = z.object({
+  schemaVersion: z.number().int(),
+  exportedAt: z.string().nullable(),
+  baseCurrency: currencySchema.nullable(),
+  categories: z.array(categorySchema.extend({ id: z.string().min(1) })),
+  subscriptions: z.array(z.unknown()),
+});
+
+export type BackupSchemaType = z.infer<typeof backupSchema>;
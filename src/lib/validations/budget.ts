@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { Currency } from '@/types/subscriptions';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+
+export const budgetSchema = z.object({
+  categoryId: z.string().min(1).nullable().default(null),
+  amount: z.number().min(0, 'Budget must be a positive number'),
+  currency: z.enum(CURRENCY_ORDER as [Currency, ...Currency[]]),
+});
+
+export type BudgetSchemaType = z.infer<typeof budgetSchema>;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { CategoryIcon } from '@/types/subscriptions';
+import {
+  CATEGORY_ICON_ORDER,
+  MAX_CATEGORY_NAME_LENGTH
+} from '@/lib/subscriptions/config/categories';
+
+export const categorySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(MAX_CATEGORY_NAME_LENGTH, `Name cannot be longer than ${MAX_CATEGORY_NAME_LENGTH} characters`),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex color such as #eab308'),
+  icon: z.enum(CATEGORY_ICON_ORDER as [CategoryIcon, ...CategoryIcon[]]),
+});
+
+export type CategorySchemaType = z.infer<typeof categorySchema>;
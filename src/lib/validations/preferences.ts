@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { Currency } from '@/types/subscriptions';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+import { reminderDaysSchema } from './subscription';
+
+export const preferencesSchema = z.object({
+  preferredCurrency: z.enum(CURRENCY_ORDER as [Currency, ...Currency[]]),
+  reminderDays: reminderDaysSchema,
+}).partial();
+
+export type PreferencesSchemaType = z.infer<typeof preferencesSchema>;
@@ -1,13 +1,109 @@
 import { z } from 'zod';
-import { Currency, BillingPeriod, SubscriptionStatus } from '@/types/subscriptions';
+import { Currency, BillingPeriod, BillingIntervalUnit, SubscriptionStatus } from '@/types/subscriptions';
+import { INTERVAL_UNIT_ORDER, PERIOD_ORDER } from '@/lib/subscriptions/config/periods';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+import { MAX_TAGS, MAX_TAG_LENGTH } from '@/lib/subscriptions/config/categories';
+import { MAX_REMINDER_DAYS, MAX_REMINDER_OFFSETS } from '@/lib/subscriptions/config/reminders';
+import { MAX_CANCELLATION_REASON_LENGTH, SUBSCRIPTION_STATUSES } from '@/lib/subscriptions/config/cancellation';
+
+export const reminderDaysSchema = z.array(
+  z.number()
+    .int('Reminder days must be whole days')
+    .min(0, 'Reminder days cannot be negative')
+    .max(MAX_REMINDER_DAYS, `Reminders can be at most ${MAX_REMINDER_DAYS} days ahead`)
+).max(MAX_REMINDER_OFFSETS, `At most ${MAX_REMINDER_OFFSETS} reminders are allowed`);
+
+export const billingIntervalSchema = z.object({
+  unit: z.enum(INTERVAL_UNIT_ORDER as [BillingIntervalUnit, ...BillingIntervalUnit[]]),
+  count: z.number().int('Interval must be a whole number').min(1, 'Interval must be at least 1'),
+});
+
+export const trialSchema = z.object({
+  startDate: z.string(),
+  endDate: z.string(),
+  postTrialPrice: z.number().min(0, 'Price must be a positive number').optional(),
+}).refine(
+  trial => new Date(trial.endDate) >= new Date(trial.startDate),
+  { message: 'Trial end date cannot be before trial start date', path: ['endDate'] }
+);
+
+export const cancellationSchema = z.object({
+  cancelledAt: z.string(),
+  effectiveEndDate: z.string(),
+  reason: z.string().trim().max(
+    MAX_CANCELLATION_REASON_LENGTH,
+    `Reason cannot be longer than ${MAX_CANCELLATION_REASON_LENGTH} characters`
+  ).optional(),
+}).refine(
+  cancellation => new Date(cancellation.effectiveEndDate) >= new Date(cancellation.cancelledAt),
+  { message: 'Service cannot end before the cancellation date', path: ['effectiveEndDate'] }
+);
+
+const memberIdSchema = z.string().min(1);
+
+export const costSplitSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('EQUAL'),
+    members: z.array(memberIdSchema).optional(),
+  }),
+  z.object({
+    type: z.literal('PERCENTAGE'),
+    shares: z.record(memberIdSchema, z.number().min(0).max(100)),
+  }),
+  z.object({
+    type: z.literal('FIXED'),
+    amounts: z.record(memberIdSchema, z.number().min(0)),
+  }),
+]).refine(
+  split => split.type !== 'PERCENTAGE' ||
+    Object.values(split.shares).reduce((sum, share) => sum + share, 0) <= 100,
+  { message: 'Percentages cannot add up to more than 100', path: ['shares'] }
+);
 
 export const subscriptionSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   price: z.number().min(0, 'Price must be a positive number'),
-  currency: z.enum(['USD', 'EUR', 'GBP'] as const),
-  billingPeriod: z.enum(['MONTHLY', 'YEARLY'] as const),
+  currency: z.enum(CURRENCY_ORDER as [Currency, ...Currency[]]),
+  billingPeriod: z.enum(PERIOD_ORDER as [BillingPeriod, ...BillingPeriod[]]),
+  billingInterval: billingIntervalSchema.optional(),
   startDate: z.string(),
   description: z.string().optional(),
-});
+  trial: trialSchema.nullable().optional(),
+  categoryId: z.string().min(1).nullable().optional(),
+  tags: z.array(
+    z.string().trim().min(1, 'Tags cannot be empty').max(MAX_TAG_LENGTH, `Tags cannot be longer than ${MAX_TAG_LENGTH} characters`)
+  ).max(MAX_TAGS, `At most ${MAX_TAGS} tags are allowed`).optional(),
+  reminderDays: reminderDaysSchema.nullable().optional(),
+  status: z.enum(SUBSCRIPTION_STATUSES as [SubscriptionStatus, ...SubscriptionStatus[]]).optional(),
+  cancellation: cancellationSchema.nullable().optional(),
+  split: costSplitSchema.nullable().optional(),
+}).refine(
+  data => data.billingPeriod !== 'CUSTOM' || data.billingInterval !== undefined,
+  { message: 'A custom billing period requires an interval', path: ['billingInterval'] }
+).refine(
+  data => data.status !== 'CANCELLED' || Boolean(data.cancellation),
+  { message: 'A cancelled subscription requires cancellation details', path: ['cancellation'] }
+).refine(
+  data => !data.cancellation || data.status === 'CANCELLED',
+  { message: 'Only a cancelled subscription can have cancellation details', path: ['status'] }
+).refine(
+  data => data.split?.type !== 'FIXED' ||
+    Object.values(data.split.amounts).reduce((sum, amount) => sum + amount, 0) <= data.price,
+  { message: 'Fixed amounts cannot add up to more than the price', path: ['split'] }
+);
 
 export type SubscriptionSchemaType = z.infer<typeof subscriptionSchema>;
+
+// Version an update is based on, see Subscription.version
+export const versionSchema = z.number().int().min(0).optional();
+
+// Full subscription plus the version it was edited from
+export const subscriptionUpdateSchema = subscriptionSchema.and(z.object({
+  version: versionSchema,
+  disabled: z.boolean().optional(),
+}));
+
+export const subscriptionStatusSchema = z.object({
+  disabled: z.boolean(),
+  version: versionSchema,
+});
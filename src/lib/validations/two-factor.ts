@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+// An authenticator code or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32, 'Code is too long'),
+});
+
+export type TwoFactorCodeSchemaType = z.infer<typeof twoFactorCodeSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { WorkspaceRoleId } from '@/types/workspaces';
+import { MAX_WORKSPACE_NAME_LENGTH, WORKSPACE_ROLE_ORDER } from '@/lib/subscriptions/config/workspaces';
+
+export const workspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(MAX_WORKSPACE_NAME_LENGTH, `Name cannot be longer than ${MAX_WORKSPACE_NAME_LENGTH} characters`),
+});
+
+const workspaceRoleSchema = z.enum(WORKSPACE_ROLE_ORDER as [WorkspaceRoleId, ...WorkspaceRoleId[]]);
+
+export const workspaceMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  role: workspaceRoleSchema,
+});
+
+export const workspaceMemberRoleSchema = z.object({
+  role: workspaceRoleSchema,
+});
+
+export type WorkspaceSchemaType = z.infer<typeof workspaceSchema>;
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { createRateLimit } from './middleware/rate-limit';
+import { requireVerifiedEmail } from './middleware/email-verification';
 
 // Rate limit configuration for different endpoints
 const rateLimitConfigs = {
@@ -70,6 +71,14 @@ export async function middleware(request: NextRequest) {
     return rateLimitResponse;
   }
 
+  // Signing in and out and health checks stay open to unverified accounts
+  if (path.startsWith('/api') && !path.startsWith('/api/auth') && !path.startsWith('/api/health')) {
+    const verificationResponse = await requireVerifiedEmail(request);
+    if (verificationResponse) {
+      return verificationResponse;
+    }
+  }
+
   // Continue with the request
   const response = NextResponse.next();
 
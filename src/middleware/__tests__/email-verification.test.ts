@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { requireVerifiedEmail } from '../email-verification';
+
+jest.mock('next-auth/jwt', () => ({
+  getToken: jest.fn()
+}));
+
+const mockGetToken = getToken as jest.Mock;
+const request = new NextRequest('http://localhost:3000/api/subscriptions');
+
+describe('Email Verification Middleware', () => {
+  beforeEach(() => {
+    mockGetToken.mockReset();
+  });
+
+  it('should refuse unverified accounts when restricted', async () => {
+    mockGetToken.mockResolvedValue({ id: 'user-1', emailVerified: false });
+
+    const response = await requireVerifiedEmail(request, 'restrict');
+
+    expect(response?.status).toBe(403);
+    expect(await response?.json()).toEqual(expect.objectContaining({ code: 'auth.forbidden' }));
+  });
+
+  it('should let verified and signed-out requests through', async () => {
+    mockGetToken.mockResolvedValue({ id: 'user-1', emailVerified: true });
+    expect(await requireVerifiedEmail(request, 'restrict')).toBeNull();
+
+    mockGetToken.mockResolvedValue(null);
+    expect(await requireVerifiedEmail(request, 'restrict')).toBeNull();
+  });
+
+  it('should not check the session unless restricted', async () => {
+    expect(await requireVerifiedEmail(request, 'allow')).toBeNull();
+    expect(await requireVerifiedEmail(request, 'block')).toBeNull();
+    expect(mockGetToken).not.toHaveBeenCalled();
+  });
+});
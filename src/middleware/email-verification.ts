@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { AUTH_CONFIG, UnverifiedAccountPolicy } from '@/lib/auth/config';
+
+/**
+ * Refuses API requests from accounts that have not verified their email
+ * when UNVERIFIED_ACCOUNTS is 'restrict'. Pages redirect to the verify email
+ * page on the client; this keeps the API closed to them as well.
+ * @param request The incoming request
+ * @param policy What unverified accounts may do
+ * @returns A 403 response, or null to continue
+ */
+export async function requireVerifiedEmail(
+  request: NextRequest,
+  policy: UnverifiedAccountPolicy = AUTH_CONFIG.UNVERIFIED_ACCOUNTS
+) {
+  if (policy !== 'restrict') {
+    return null;
+  }
+
+  // Sessions from before verification existed carry no flag and are let through
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+  if (token?.emailVerified !== false) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: 'Verify your email address to continue', code: 'auth.forbidden' },
+    { status: 403 }
+  );
+}
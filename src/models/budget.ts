@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import { Currency } from '@/types/subscriptions';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+
+const budgetSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  // null for the overall budget
+  categoryId: {
+    type: String,
+    default: null
+  },
+  // Monthly cap
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String,
+    required: true,
+    enum: CURRENCY_ORDER
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes for common queries
+budgetSchema.index({ userId: 1, categoryId: 1 }, { unique: true }); // One budget per category
+
+// Export the model
+export const BudgetModel = mongoose.models.Budget ||
+  mongoose.model('Budget', budgetSchema);
+
+// Export types for the model
+export type BudgetDocument = mongoose.Document & {
+  userId: string;
+  categoryId: string | null;
+  amount: number;
+  currency: Currency;
+  createdAt: Date;
+  updatedAt: Date;
+};
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import { CategoryIcon } from '@/types/subscriptions';
+import {
+  CATEGORY_ICON_ORDER,
+  MAX_CATEGORY_NAME_LENGTH,
+  isValidCategoryColor
+} from '@/lib/subscriptions/config/categories';
+
+const categorySchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: MAX_CATEGORY_NAME_LENGTH
+  },
+  color: {
+    type: String,
+    required: true,
+    validate: {
+      validator: isValidCategoryColor,
+      message: 'Color must be a hex color such as #eab308'
+    }
+  },
+  icon: {
+    type: String,
+    required: true,
+    enum: CATEGORY_ICON_ORDER,
+    default: 'tag'
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes for common queries
+categorySchema.index({ userId: 1, name: 1 }, { unique: true }); // Names are unique per user
+
+// Export the model
+export const CategoryModel = mongoose.models.Category ||
+  mongoose.model('Category', categorySchema);
+
+// Export types for the model
+export type CategoryDocument = mongoose.Document & {
+  userId: string;
+  name: string;
+  color: string;
+  icon: CategoryIcon;
+  createdAt: Date;
+  updatedAt: Date;
+};
@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+
+// One document per published day, quoted as units of currency per 1 EUR
+const exchangeRateSchema = new mongoose.Schema({
+  date: {
+    type: String,
+    required: true,
+    match: /^\d{4}-\d{2}-\d{2}$/
+  },
+  base: {
+    type: String,
+    required: true,
+    default: 'EUR'
+  },
+  rates: {
+    type: Map,
+    of: Number,
+    required: true
+  },
+  // Which provider the rates were loaded from
+  source: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes for common queries
+exchangeRateSchema.index({ date: 1 }, { unique: true }); // One snapshot per day
+
+// Export the model
+export const ExchangeRateModel = mongoose.models.ExchangeRate ||
+  mongoose.model('ExchangeRate', exchangeRateSchema);
+
+// Export types for the model
+export type ExchangeRateDocument = mongoose.Document & {
+  date: string;
+  base: 'EUR';
+  rates: Map<string, number>;
+  source: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
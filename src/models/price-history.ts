@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import { Currency } from '@/types/subscriptions';
+
+const priceHistorySchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  subscriptionId: {
+    type: String,
+    required: true
+  },
+  effectiveDate: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  oldPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  newPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Currency of newPrice; previousCurrency is only set when the currency changed too
+  currency: {
+    type: String,
+    required: true
+  },
+  previousCurrency: {
+    type: String
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes for common queries
+priceHistorySchema.index({ userId: 1, subscriptionId: 1, effectiveDate: 1 }); // For a subscription's timeline
+
+// Export the model
+export const PriceHistoryModel = mongoose.models.PriceHistory ||
+  mongoose.model('PriceHistory', priceHistorySchema);
+
+// Export types for the model
+export type PriceHistoryDocument = mongoose.Document & {
+  userId: string;
+  subscriptionId: string;
+  effectiveDate: Date;
+  oldPrice: number;
+  newPrice: number;
+  currency: Currency;
+  previousCurrency?: Currency;
+  createdAt: Date;
+  updatedAt: Date;
+};
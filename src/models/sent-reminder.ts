@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+
+// Records each renewal reminder that went out so it is only sent once
+const sentReminderSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  subscriptionId: {
+    type: String,
+    required: true
+  },
+  // The bill the reminder was about
+  billingDate: {
+    type: Date,
+    required: true
+  },
+  // Which of the reminders for this bill, in days before it
+  daysBefore: {
+    type: Number,
+    required: true
+  },
+  channel: {
+    type: String,
+    required: true
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Add indexes for common queries
+sentReminderSchema.index({ subscriptionId: 1, billingDate: 1, daysBefore: 1 }, { unique: true }); // One reminder per bill and offset
+sentReminderSchema.index({ sentAt: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 }); // Drop records after 180 days
+
+// Export the model
+export const SentReminderModel = mongoose.models.SentReminder ||
+  mongoose.model('SentReminder', sentReminderSchema);
+
+// Export types for the model
+export type SentReminderDocument = mongoose.Document & {
+  userId: string;
+  subscriptionId: string;
+  billingDate: Date;
+  daysBefore: number;
+  channel: string;
+  sentAt: Date;
+};
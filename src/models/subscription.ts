@@ -1,11 +1,121 @@
 import mongoose from 'mongoose';
-import { Currency, BillingPeriod } from '@/types/subscriptions';
+import { Currency, BillingPeriod, BillingInterval, CostSplit, CostSplitType, SubscriptionStatus } from '@/types/subscriptions';
+import {
+  INTERVAL_UNIT_ORDER,
+  PERIOD_ORDER,
+  normalizeBillingPeriod,
+  resolveBillingInterval
+} from '@/lib/subscriptions/config/periods';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+import { normalizeTags } from '@/lib/subscriptions/utils/categories';
+import { normalizeReminderDays } from '@/lib/subscriptions/utils/reminders';
+import { MAX_CANCELLATION_REASON_LENGTH, SUBSCRIPTION_STATUSES } from '@/lib/subscriptions/config/cancellation';
+import { SPLIT_TYPE_ORDER } from '@/lib/subscriptions/config/workspaces';
+
+const billingIntervalSchema = new mongoose.Schema({
+  unit: {
+    type: String,
+    required: true,
+    enum: INTERVAL_UNIT_ORDER
+  },
+  count: {
+    type: Number,
+    required: true,
+    min: 1,
+    validate: {
+      validator: Number.isInteger,
+      message: 'Billing interval count must be a whole number'
+    }
+  }
+}, { _id: false });
+
+const trialSchema = new mongoose.Schema({
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date,
+    required: true
+  },
+  postTrialPrice: {
+    type: Number,
+    min: 0
+  }
+}, { _id: false });
+
+const cancellationSchema = new mongoose.Schema({
+  cancelledAt: {
+    type: Date,
+    required: true
+  },
+  // Service continues until this date
+  effectiveEndDate: {
+    type: Date,
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: MAX_CANCELLATION_REASON_LENGTH
+  }
+}, { _id: false });
+
+// Only the field matching the type is set
+const costSplitSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+    enum: SPLIT_TYPE_ORDER
+  },
+  members: {
+    type: [String],
+    default: undefined
+  },
+  shares: {
+    type: Map,
+    of: Number,
+    default: undefined
+  },
+  amounts: {
+    type: Map,
+    of: Number,
+    default: undefined
+  }
+}, { _id: false });
+
+// Mongoose hands Map fields back as Maps on documents and plain objects on lean results
+function toRecord(value: Map<string, number> | Record<string, number>): Record<string, number> {
+  return value instanceof Map ? Object.fromEntries(value) : { ...value };
+}
+
+/**
+ * Convert a stored split to the app's CostSplit type
+ */
+export function toCostSplit(split: any): CostSplit | undefined {
+  switch (split?.type as CostSplitType | undefined) {
+    case 'EQUAL':
+      return { type: 'EQUAL', members: split.members ? [...split.members] : undefined };
+    case 'PERCENTAGE':
+      return { type: 'PERCENTAGE', shares: toRecord(split.shares || {}) };
+    case 'FIXED':
+      return { type: 'FIXED', amounts: toRecord(split.amounts || {}) };
+    default:
+      return undefined;
+  }
+}
 
 const subscriptionSchema = new mongoose.Schema({
+  // The user who owns the subscription, or who added it to a workspace
   userId: {
     type: String,
     required: true
   },
+  // Set for subscriptions shared in a workspace
+  workspaceId: {
+    type: String,
+    default: undefined
+  },
   name: {
     type: String,
     required: true,
@@ -19,12 +129,17 @@ const subscriptionSchema = new mongoose.Schema({
   currency: {
     type: String,
     required: true,
-    enum: ['USD', 'EUR', 'GBP', 'PLN'] as Currency[]
+    enum: CURRENCY_ORDER
   },
   billingPeriod: {
     type: String,
     required: true,
-    enum: ['MONTHLY', 'YEARLY'] as BillingPeriod[]
+    enum: PERIOD_ORDER,
+    // Older documents may hold lowercase values such as 'monthly'
+    set: normalizeBillingPeriod
+  },
+  billingInterval: {
+    type: billingIntervalSchema
   },
   startDate: {
     type: Date,
@@ -41,6 +156,44 @@ const subscriptionSchema = new mongoose.Schema({
   disabled: {
     type: Boolean,
     default: false
+  },
+  trial: {
+    type: trialSchema,
+    default: undefined
+  },
+  categoryId: {
+    type: String
+  },
+  tags: {
+    type: [String],
+    default: [],
+    set: normalizeTags
+  },
+  // Overrides the owner's reminder days when set
+  reminderDays: {
+    type: [Number],
+    default: undefined,
+    set: (days?: number[] | null) => days == null ? undefined : normalizeReminderDays(days)
+  },
+  status: {
+    type: String,
+    enum: SUBSCRIPTION_STATUSES,
+    default: 'ACTIVE'
+  },
+  // Set while the subscription is cancelled
+  cancellation: {
+    type: cancellationSchema,
+    default: undefined
+  },
+  // How a workspace subscription's cost is divided between members
+  split: {
+    type: costSplitSchema,
+    default: undefined
+  },
+  // Set when the subscription is moved to the trash
+  deletedAt: {
+    type: Date,
+    default: undefined
   }
 }, {
   timestamps: true, // Adds createdAt and updatedAt automatically
@@ -54,6 +207,10 @@ const subscriptionSchema = new mongoose.Schema({
 subscriptionSchema.index({ userId: 1 }); // Basic index for user lookups
 subscriptionSchema.index({ userId: 1, nextBillingDate: 1 }); // For listing by date
 subscriptionSchema.index({ userId: 1, disabled: 1 }); // For filtering active/inactive
+subscriptionSchema.index({ userId: 1, categoryId: 1 }); // For filtering by category
+subscriptionSchema.index({ userId: 1, tags: 1 }); // For filtering by tag
+subscriptionSchema.index({ workspaceId: 1 }); // For listing a workspace's subscriptions
+subscriptionSchema.index({ deletedAt: 1 }); // For purging expired trash (npm run purge-trash)
 
 // Add method to convert MongoDB document to our app's Subscription type
 subscriptionSchema.methods.toSubscription = function() {
@@ -62,13 +219,34 @@ subscriptionSchema.methods.toSubscription = function() {
     name: this.name,
     price: this.price,
     currency: this.currency,
-    billingPeriod: this.billingPeriod,
+    billingPeriod: normalizeBillingPeriod(this.billingPeriod),
+    billingInterval: resolveBillingInterval(
+      normalizeBillingPeriod(this.billingPeriod),
+      this.billingInterval
+    ),
     startDate: this.startDate.toISOString(),
     nextBillingDate: this.nextBillingDate.toISOString(),
     description: this.description,
     disabled: this.disabled,
+    trial: this.trial ? {
+      startDate: this.trial.startDate.toISOString(),
+      endDate: this.trial.endDate.toISOString(),
+      postTrialPrice: this.trial.postTrialPrice
+    } : undefined,
+    categoryId: this.categoryId || undefined,
+    tags: this.tags ? [...this.tags] : [],
+    reminderDays: this.reminderDays ? [...this.reminderDays] : undefined,
+    status: this.status || 'ACTIVE',
+    cancellation: this.cancellation ? {
+      cancelledAt: this.cancellation.cancelledAt.toISOString(),
+      effectiveEndDate: this.cancellation.effectiveEndDate.toISOString(),
+      reason: this.cancellation.reason || undefined
+    } : undefined,
+    workspaceId: this.workspaceId || undefined,
+    split: toCostSplit(this.split),
     createdAt: this.createdAt.toISOString(),
-    updatedAt: this.updatedAt.toISOString()
+    updatedAt: this.updatedAt.toISOString(),
+    deletedAt: this.deletedAt ? this.deletedAt.toISOString() : undefined
   };
 };
 
@@ -81,10 +259,30 @@ subscriptionSchema.statics.toggleAllForUser = async function(userId: string, dis
   );
 };
 
+// Fill in the interval for preset periods so every saved document carries one;
+// documents written before intervals existed get it on their next save
+subscriptionSchema.pre('validate', function(next) {
+  try {
+    this.billingInterval = resolveBillingInterval(
+      this.billingPeriod as BillingPeriod,
+      this.billingInterval as BillingInterval | undefined
+    );
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
 // Add pre-save hook for data validation
 subscriptionSchema.pre('save', function(next) {
   if (this.nextBillingDate < this.startDate) {
-    next(new Error('Next billing date cannot be before start date'));
+    return next(new Error('Next billing date cannot be before start date'));
+  }
+  if (this.trial && this.trial.endDate < this.trial.startDate) {
+    return next(new Error('Trial end date cannot be before trial start date'));
+  }
+  if (this.cancellation && this.cancellation.effectiveEndDate < this.cancellation.cancelledAt) {
+    return next(new Error('Service cannot end before the cancellation date'));
   }
   next();
 });
@@ -100,11 +298,34 @@ export type SubscriptionDocument = mongoose.Document & {
   price: number;
   currency: Currency;
   billingPeriod: BillingPeriod;
+  billingInterval?: BillingInterval;
   startDate: Date;
   nextBillingDate: Date;
   description?: string;
   disabled: boolean;
+  trial?: {
+    startDate: Date;
+    endDate: Date;
+    postTrialPrice?: number;
+  };
+  categoryId?: string;
+  tags: string[];
+  reminderDays?: number[];
+  status: SubscriptionStatus;
+  cancellation?: {
+    cancelledAt: Date;
+    effectiveEndDate: Date;
+    reason?: string;
+  };
+  workspaceId?: string;
+  split?: {
+    type: CostSplitType;
+    members?: string[];
+    shares?: Map<string, number>;
+    amounts?: Map<string, number>;
+  };
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date;
   toSubscription: () => import('@/types/subscriptions').Subscription;
 };
\ No newline at end of file
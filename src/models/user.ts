@@ -1,5 +1,17 @@
 import mongoose from 'mongoose';
 import { Role } from '@/types/auth';
+import { Currency } from '@/types/subscriptions';
+import { CURRENCY_ORDER } from '@/lib/subscriptions/config/currencies';
+import { DEFAULT_REMINDER_DAYS } from '@/lib/subscriptions/config/reminders';
+import { normalizeReminderDays } from '@/lib/subscriptions/utils/reminders';
+import { AUTH_CONFIG } from '@/lib/auth/config';
+
+export interface LinkedAccountDocument {
+  provider: string;
+  providerAccountId: string;
+  email: string;
+  linkedAt: Date;
+}
 
 export interface UserDocument extends mongoose.Document {
   email: string;
@@ -14,10 +26,39 @@ export interface UserDocument extends mongoose.Document {
   failedLoginAttempts: number;
   lockedUntil?: Date;
   lastLogin?: Date;
+  preferredCurrency: Currency;
+  reminderDays: number[];
+  calendarToken?: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastUsedStep?: number;
+  linkedAccounts: LinkedAccountDocument[];
   createdAt: Date;
   updatedAt: Date;
+  isLocked(): boolean;
+  incrementFailedLogins(): Promise<UserDocument | null>;
+  resetFailedLogins(): Promise<UserDocument>;
+  updateLastLogin(): Promise<UserDocument>;
 }
 
+const linkedAccountSchema = new mongoose.Schema({
+  provider: {
+    type: String,
+    required: true
+  },
+  providerAccountId: {
+    type: String,
+    required: true
+  },
+  email: String,
+  linkedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const userSchema = new mongoose.Schema({
   email: {
     type: String,
@@ -63,7 +104,41 @@ const userSchema = new mongoose.Schema({
     default: 0
   },
   lockedUntil: Date,
-  lastLogin: Date
+  lastLogin: Date,
+  // Currency summaries are totalled in
+  preferredCurrency: {
+    type: String,
+    enum: CURRENCY_ORDER,
+    default: 'EUR'
+  },
+  // Days before a renewal to send reminders
+  reminderDays: {
+    type: [Number],
+    default: () => [...DEFAULT_REMINDER_DAYS],
+    set: normalizeReminderDays
+  },
+  // Secret in the calendar feed URL
+  calendarToken: String,
+  // TOTP two-factor authentication; the secret must stay readable to check codes
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorSecret: String,
+  // Secret being set up, until the user confirms it with a code
+  twoFactorPendingSecret: String,
+  // SHA-256 hashes of the unused recovery codes
+  twoFactorRecoveryCodes: {
+    type: [String],
+    default: () => []
+  },
+  // Time step of the last code used, so it cannot be used again
+  twoFactorLastUsedStep: Number,
+  // GitHub and Google accounts that sign in as this user
+  linkedAccounts: {
+    type: [linkedAccountSchema],
+    default: () => []
+  }
 }, {
   timestamps: true
 });
@@ -72,6 +147,12 @@ const userSchema = new mongoose.Schema({
 userSchema.index({ email: 1 }, { unique: true }); // Primary email index
 userSchema.index({ passwordResetToken: 1 }, { sparse: true }); // For password reset
 userSchema.index({ emailVerificationToken: 1 }, { sparse: true }); // For email verification
+userSchema.index({ calendarToken: 1 }, { unique: true, sparse: true }); // For calendar feed lookups
+// For OAuth sign-in; each provider account links to at most one user
+userSchema.index(
+  { 'linkedAccounts.provider': 1, 'linkedAccounts.providerAccountId': 1 },
+  { unique: true, partialFilterExpression: { 'linkedAccounts.providerAccountId': { $exists: true } } }
+);
 
 // Hide sensitive data when converting to JSON
 userSchema.methods.toJSON = function() {
@@ -83,6 +164,11 @@ userSchema.methods.toJSON = function() {
   delete user.passwordResetExpires;
   delete user.failedLoginAttempts;
   delete user.lockedUntil;
+  delete user.calendarToken;
+  delete user.twoFactorSecret;
+  delete user.twoFactorPendingSecret;
+  delete user.twoFactorRecoveryCodes;
+  delete user.twoFactorLastUsedStep;
   return user;
 };
 
@@ -92,16 +178,44 @@ userSchema.methods.isLocked = function(): boolean {
   return new Date() < this.lockedUntil;
 };
 
-// Increment failed login attempts
+// Increment failed login attempts in one update, so concurrent failures are all counted
+// Resolves to the updated user, with the new count and lock
 userSchema.methods.incrementFailedLogins = function() {
-  this.failedLoginAttempts += 1;
-  
-  // Lock account after 10 failed attempts
-  if (this.failedLoginAttempts >= 10) {
-    this.lockedUntil = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
-  }
-  
-  return this.save();
+  const now = new Date();
+  const lockExpired = {
+    $and: [
+      { $ne: [{ $ifNull: ['$lockedUntil', null] }, null] },
+      { $lte: ['$lockedUntil', now] }
+    ]
+  };
+
+  return (this.constructor as mongoose.Model<UserDocument>).findOneAndUpdate(
+    { _id: this._id },
+    [
+      // Counting starts again once a lock has run out
+      {
+        $set: {
+          failedLoginAttempts: {
+            $cond: [lockExpired, 1, { $add: [{ $ifNull: ['$failedLoginAttempts', 0] }, 1] }]
+          },
+          lockedUntil: { $cond: [lockExpired, '$$REMOVE', '$lockedUntil'] }
+        }
+      },
+      // Lock account after MAX_FAILED_LOGINS failed attempts
+      {
+        $set: {
+          lockedUntil: {
+            $cond: [
+              { $gte: ['$failedLoginAttempts', AUTH_CONFIG.MAX_FAILED_LOGINS] },
+              new Date(now.getTime() + AUTH_CONFIG.ACCOUNT_LOCK_DURATION * 1000),
+              '$lockedUntil'
+            ]
+          }
+        }
+      }
+    ],
+    { new: true }
+  );
 };
 
 // Reset failed login attempts
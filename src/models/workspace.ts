@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+import { WorkspaceRole } from '@/types/workspaces';
+import { MAX_WORKSPACE_NAME_LENGTH, WORKSPACE_ROLE_ORDER } from '@/lib/subscriptions/config/workspaces';
+
+const workspaceMemberSchema = new mongoose.Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  // Copied from the user when they join, for listing members
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    trim: true
+  },
+  // Stored as a Role like the user's own roles
+  role: {
+    id: {
+      type: String,
+      required: true,
+      enum: WORKSPACE_ROLE_ORDER
+    },
+    name: {
+      type: String,
+      required: true
+    }
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const workspaceSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: MAX_WORKSPACE_NAME_LENGTH
+  },
+  members: {
+    type: [workspaceMemberSchema],
+    validate: {
+      validator: (members: { role: WorkspaceRole }[]) => members.some(member => member.role.id === 'owner'),
+      message: 'A workspace needs at least one owner'
+    }
+  }
+}, {
+  timestamps: true
+});
+
+// Add indexes for common queries
+workspaceSchema.index({ 'members.userId': 1 }); // For listing a user's workspaces
+
+// Export the model
+export const WorkspaceModel = mongoose.models.Workspace ||
+  mongoose.model('Workspace', workspaceSchema);
+
+// Export types for the model
+export type WorkspaceDocument = mongoose.Document & {
+  name: string;
+  members: {
+    userId: string;
+    email: string;
+    name?: string;
+    role: WorkspaceRole;
+    joinedAt: Date;
+  }[];
+  createdAt: Date;
+  updatedAt: Date;
+};
@@ -12,6 +12,7 @@ export interface CustomUser extends Omit<DefaultUser, 'email' | 'name'> {
   email: string
   name: string
   roles?: Role[]
+  emailVerified?: boolean
 }
 
 declare module 'next-auth' {
@@ -23,6 +24,8 @@ declare module 'next-auth' {
       email: string
       name: string
       roles?: Role[]
+      // False while an unverified account is restricted to verifying its email
+      emailVerified?: boolean
     }
   }
 }
@@ -33,5 +36,32 @@ declare module 'next-auth/jwt' {
     email: string
     name: string
     roles?: Role[]
+    emailVerified?: boolean
   }
-}
\ No newline at end of file
+}
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesLeft: number
+}
+
+// Shown once while an authenticator app is being set up
+export interface TwoFactorEnrollment {
+  secret: string
+  uri: string
+}
+
+export type OAuthProviderId = 'github' | 'google'
+
+export interface LinkedAccount {
+  provider: OAuthProviderId
+  // Email the provider had verified when the account was linked
+  email: string
+  linkedAt: string
+}
+
+// A configured provider in the linked accounts settings
+export interface OAuthProviderStatus {
+  id: OAuthProviderId
+  name: string
+  account: LinkedAccount | null
+}
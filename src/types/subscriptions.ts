@@ -1,16 +1,112 @@
 import { z } from 'zod';
+import type { CurrencyCode } from '@/lib/subscriptions/config/iso-4217';
 
-export type Currency = 'USD' | 'EUR' | 'GBP' | 'PLN';
-export type BillingPeriod = 'MONTHLY' | 'YEARLY';
+// Any ISO 4217 code from the currency registry
+export type Currency = CurrencyCode;
+export type BillingPeriod =
+  | 'DAILY'
+  | 'WEEKLY'
+  | 'BIWEEKLY'
+  | 'MONTHLY'
+  | 'QUARTERLY'
+  | 'SEMIANNUALLY'
+  | 'YEARLY'
+  | 'CUSTOM';
+export type BillingIntervalUnit = 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
 export type SubscriptionStatus = 'ACTIVE' | 'CANCELLED';
 
+/**
+ * When and why a subscription was cancelled
+ * - effectiveEndDate: service continues until the paid period ends; the
+ *   charge that would have fallen on this date is the first one saved
+ */
+export interface SubscriptionCancellation {
+  cancelledAt: string;
+  effectiveEndDate: string;
+  reason?: string;
+}
+
+/**
+ * A billing cycle expressed as "every `count` `unit`s", e.g. { unit: 'MONTH', count: 6 }
+ */
+export interface BillingInterval {
+  unit: BillingIntervalUnit;
+  count: number;
+}
+
+/**
+ * A free or discounted trial that converts to a paid subscription on endDate
+ */
+export interface SubscriptionTrial {
+  startDate: string;
+  endDate: string;
+  // Price charged once the trial converts, if different from the regular price
+  postTrialPrice?: number;
+}
+
+export type CategoryIcon =
+  | 'tag'
+  | 'tv'
+  | 'music'
+  | 'code'
+  | 'cloud'
+  | 'gamepad'
+  | 'newspaper'
+  | 'dumbbell'
+  | 'briefcase'
+  | 'shopping-cart'
+  | 'graduation-cap'
+  | 'home';
+
+/**
+ * A user-defined grouping of subscriptions, e.g. "Streaming" or "Dev tools"
+ */
+export interface Category {
+  id: string;
+  name: string;
+  color: string; // Hex color, e.g. #eab308
+  icon: CategoryIcon;
+}
+
+export type CategoryFormData = Omit<Category, 'id'>;
+
+/**
+ * How a workspace subscription's cost is divided among the members
+ * - EQUAL: evenly between the given members, or all members without a list
+ * - PERCENTAGE: each member's percentage of the price, keyed by user ID
+ * - FIXED: each member's amount per billing period, in the subscription's currency
+ * Whatever the split leaves unassigned is divided evenly between all members.
+ */
+export type CostSplit =
+  | { type: 'EQUAL'; members?: string[] }
+  | { type: 'PERCENTAGE'; shares: Record<string, number> }
+  | { type: 'FIXED'; amounts: Record<string, number> };
+
+export type CostSplitType = CostSplit['type'];
+
 export type SubscriptionFormData = {
   name: string;
   price: number;
   currency: Currency;
   billingPeriod: BillingPeriod;
+  // Required when billingPeriod is CUSTOM, otherwise derived from the preset
+  billingInterval?: BillingInterval;
   startDate: string;
   description?: string;
+  // null removes an existing trial when updating
+  trial?: SubscriptionTrial | null;
+  // null removes the subscription from its category when updating
+  categoryId?: string | null;
+  // Free-form labels, stored trimmed and lowercase
+  tags?: string[];
+  // Days before each renewal to send a reminder; null uses the user's default
+  reminderDays?: number[] | null;
+  // ACTIVE when not set
+  status?: SubscriptionStatus;
+  // Set while cancelled; null removes it when reactivating
+  cancellation?: SubscriptionCancellation | null;
+  // Workspace subscriptions only; an equal split when not set, null resets it
+  split?: CostSplit | null;
 };
 
 export type Subscription = SubscriptionFormData & {
@@ -19,11 +115,130 @@ export type Subscription = SubscriptionFormData & {
   disabled: boolean;
   createdAt: string;
   updatedAt: string;
+  // Changes with every saved write; send it back to detect conflicting edits
+  version?: number;
+  // Set while the subscription is in the trash
+  deletedAt?: string;
+  // Set when the subscription belongs to a workspace instead of a single user
+  workspaceId?: string;
 };
 
+/**
+ * A recorded change to a subscription's price
+ */
+export interface PriceChange {
+  id: string;
+  subscriptionId: string;
+  effectiveDate: string;
+  oldPrice: number;
+  newPrice: number;
+  currency: Currency;
+  // Set when the currency changed along with the price
+  previousCurrency?: Currency;
+}
+
+/**
+ * Exchange rates published for one day, quoted ECB style as units of currency per 1 EUR
+ */
+export interface ExchangeRateSnapshot {
+  date: string; // YYYY-MM-DD
+  rates: Partial<Record<Currency, number>>;
+}
+
+// Snapshots sorted oldest first
+export type ExchangeRateTable = ExchangeRateSnapshot[];
+
 export interface SubscriptionSummary {
+  // The currency all totals are expressed in
+  currency: Currency;
   totalMonthly: number;
   totalYearly: number;
   grandTotalMonthly: number;
-  originalAmounts: Record<Currency, number>;
+  // Totals in each currency subscriptions are billed in
+  originalAmounts: Partial<Record<Currency, number>>;
+  // Currencies with no known exchange rate, left out of the converted totals
+  unconvertedCurrencies: Currency[];
+  // Monthly totals per category ID, uncategorized subscriptions under UNCATEGORIZED_ID
+  categoryTotals: Record<string, number>;
+  // Charges skipped since cancelled subscriptions ended, up to the summary date
+  savedSinceCancelling: number;
+  // Monthly share per member user ID, for workspace summaries
+  memberTotals?: Record<string, number>;
+}
+
+/**
+ * What was charged, or is expected to be charged, in one calendar month
+ * - month: YYYY-MM
+ * - projected: the month has not started yet and is charged at current prices
+ */
+export interface SpendingTrendPoint {
+  month: string;
+  total: number;
+  projected: boolean;
+}
+
+export interface SpendingTrend {
+  // The currency all totals are expressed in
+  currency: Currency;
+  // Oldest month first
+  points: SpendingTrendPoint[];
+  // Currencies with no known exchange rate, left out of the totals
+  unconvertedCurrencies: Currency[];
+}
+
+export interface UserPreferences {
+  // Display currency for summaries
+  preferredCurrency: Currency;
+  // Days before a renewal to send reminders, empty for none
+  reminderDays: number[];
+}
+
+/**
+ * A monthly spending cap, overall (categoryId null) or for one category
+ */
+export interface Budget {
+  id: string;
+  categoryId: string | null;
+  amount: number;
+  currency: Currency;
+}
+
+export type BudgetFormData = Omit<Budget, 'id'>;
+
+/**
+ * How much of a budget the current subscriptions use, in the summary currency
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  currency: Currency; // Currency of limit and spent
+  limit: number;
+  spent: number;
+  utilization: number; // spent / limit, 1 means fully used
+  isOverBudget: boolean;
+}
+
+/**
+ * A price change as written to a backup, under the subscription it belongs to
+ */
+export type BackupPriceChange = Omit<PriceChange, 'id' | 'subscriptionId'>;
+
+/**
+ * A subscription as written to a backup: its form data, whether it is
+ * disabled and its price history, oldest first
+ */
+export type BackupSubscription = SubscriptionFormData & {
+  disabled: boolean;
+  priceHistory?: BackupPriceChange[];
+};
+
+/**
+ * Versioned envelope of a JSON export, see BACKUP_SCHEMA_VERSION
+ */
+export interface SubscriptionBackup {
+  schemaVersion: number;
+  exportedAt: string | null; // null for backups upgraded from before versioning
+  baseCurrency: Currency | null; // The user's display currency when exported; null for upgraded backups
+  categories: Category[];
+  // categoryId refers to the IDs in categories
+  subscriptions: BackupSubscription[];
 }
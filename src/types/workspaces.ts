@@ -0,0 +1,32 @@
+import { Role } from './auth';
+
+export type WorkspaceRoleId = 'owner' | 'editor' | 'viewer';
+
+/**
+ * A member's role in a workspace
+ * - owner: manages members and the workspace itself
+ * - editor: adds and changes the workspace's subscriptions
+ * - viewer: sees the subscriptions and their own share
+ */
+export interface WorkspaceRole extends Role {
+  id: WorkspaceRoleId;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string;
+  name: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+/**
+ * A household or team sharing the cost of subscriptions
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  members: WorkspaceMember[];
+  createdAt: string;
+  updatedAt: string;
+}
@@ -1,5 +1,6 @@
 import { Currency } from '@/types/subscriptions';
 import { CURRENCIES } from '@/lib/subscriptions/config/currencies';
+import { getRateToEur } from '@/lib/subscriptions/utils/exchange-rates';
 
 export function formatCurrency(amount: number | null | undefined, currency: Currency | null | undefined): string {
   // Default to EUR if no currency provided
@@ -36,13 +37,9 @@ export function formatDate(dateStr: string) {
 }
 
 export function convertToEur(amount: number, fromCurrency: Currency): number {
-  if (fromCurrency === 'EUR') return amount;
-  const rate = CURRENCIES[fromCurrency].exchangeRate;
-  return amount * rate;
+  return amount * getRateToEur(fromCurrency);
 }
 
 export function convertFromEur(amount: number, toCurrency: Currency): number {
-  if (toCurrency === 'EUR') return amount;
-  const rate = CURRENCIES[toCurrency].exchangeRate;
-  return amount / rate;
+  return amount / getRateToEur(toCurrency);
 }
\ No newline at end of file